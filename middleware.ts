@@ -1,7 +1,37 @@
 import { NextResponse, type NextRequest } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
+import { readAgentKey, readIntegrationKey } from '@/lib/agents/key'
 
 export async function middleware(request: NextRequest) {
+  // Agent API: authenticated by API key, not by the cookie session. The
+  // route handlers verify the key itself; here we only refuse requests
+  // that don't carry one so they never reach the login redirect.
+  if (request.nextUrl.pathname.startsWith('/api/agents')) {
+    if (!readAgentKey(request.headers)) {
+      return NextResponse.json(
+        { error: 'Missing or malformed API key' },
+        { status: 401 }
+      )
+    }
+    return NextResponse.next()
+  }
+
+  // Inbound ingestion: same idea, with an integration key.
+  if (request.nextUrl.pathname.startsWith('/api/ingest')) {
+    if (!readIntegrationKey(request.headers)) {
+      return NextResponse.json(
+        { error: 'Missing or malformed integration key' },
+        { status: 401 }
+      )
+    }
+    return NextResponse.next()
+  }
+
+  // Scheduled jobs: no session, the routes check CRON_SECRET themselves.
+  if (request.nextUrl.pathname.startsWith('/api/cron')) {
+    return NextResponse.next()
+  }
+
   const response = NextResponse.next({
     request: {
       headers: request.headers,
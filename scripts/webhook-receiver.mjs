@@ -0,0 +1,54 @@
+// Local webhook receiver for testing deliveries.
+//
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs [port]
+//
+// Verifies X-Centro-Signature and logs each event. Set FAIL=1 to answer 500
+// and exercise the retry/backoff path.
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { createServer } from 'node:http'
+
+const port = Number(process.argv[2] ?? 4000)
+const secret = process.env.WEBHOOK_SECRET
+const fail = process.env.FAIL === '1'
+const TOLERANCE_S = 5 * 60
+
+function verify(header, body) {
+  if (!secret) return 'no WEBHOOK_SECRET set, not verified'
+  const parts = Object.fromEntries(
+    (header ?? '').split(',').map((p) => p.split('=', 2))
+  )
+  const t = Number(parts.t)
+  if (!t || !parts.v1) return 'missing signature'
+  if (Math.abs(Date.now() / 1000 - t) > TOLERANCE_S) return 'stale timestamp'
+
+  const expected = createHmac('sha256', secret).update(`${t}.${body}`).digest()
+  const given = Buffer.from(parts.v1, 'hex')
+  return given.length === expected.length && timingSafeEqual(given, expected)
+    ? null
+    : 'bad signature'
+}
+
+createServer((req, res) => {
+  let body = ''
+  req.on('data', (chunk) => (body += chunk))
+  req.on('end', () => {
+    const problem = verify(req.headers['x-centro-signature'], body)
+    const event = req.headers['x-centro-event']
+    const delivery = req.headers['x-centro-delivery']
+
+    console.log(
+      `${new Date().toISOString()} ${event} ${delivery} ${problem ?? 'ok'}`
+    )
+    try {
+      console.log(JSON.stringify(JSON.parse(body).data, null, 2))
+    } catch {
+      console.log(body)
+    }
+
+    if (secret && problem) res.writeHead(401).end(problem)
+    else if (fail) res.writeHead(500).end('FAIL=1')
+    else res.writeHead(204).end()
+  })
+}).listen(port, () => {
+  console.log(`webhook receiver on http://localhost:${port}`)
+})
@@ -0,0 +1,72 @@
+'use client'
+
+import {
+  createContext,
+  startTransition,
+  useActionState,
+  useContext,
+  useEffect,
+  useRef,
+  type FormEvent,
+  type ReactNode,
+} from 'react'
+import type { ActionResult, FormAction } from '@/lib/actions'
+
+type FieldErrors = Partial<Record<string, string[]>>
+
+const FieldErrorsContext = createContext<FieldErrors>({})
+
+// Form bound to a server action returning an ActionResult. Errors render
+// inline (form-level message plus <FieldError> next to fields) and the
+// inputs keep their values: submitting through onSubmit instead of the
+// `action` prop skips React's automatic reset.
+export default function ActionForm<T>({
+  action,
+  className,
+  resetOnSuccess = false,
+  children,
+}: {
+  action: FormAction<T>
+  className?: string
+  resetOnSuccess?: boolean
+  children: ReactNode | ((state: ActionResult<T> | null) => ReactNode)
+}) {
+  const [state, formAction, pending] = useActionState(action, null)
+  const formRef = useRef<HTMLFormElement>(null)
+
+  useEffect(() => {
+    if (resetOnSuccess && state?.ok) formRef.current?.reset()
+  }, [state, resetOnSuccess])
+
+  const onSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const formData = new FormData(
+      e.currentTarget,
+      (e.nativeEvent as SubmitEvent).submitter
+    )
+    startTransition(() => formAction(formData))
+  }
+
+  const fieldErrors = state && !state.ok ? (state.fieldErrors ?? {}) : {}
+
+  return (
+    <form ref={formRef} onSubmit={onSubmit} className={className}>
+      <FieldErrorsContext.Provider value={fieldErrors}>
+        <fieldset disabled={pending} className="contents">
+          {typeof children === 'function' ? children(state) : children}
+        </fieldset>
+      </FieldErrorsContext.Provider>
+      {state && !state.ok && state.error && (
+        <p role="alert" className="basis-full text-xs text-red-600">
+          {state.error}
+        </p>
+      )}
+    </form>
+  )
+}
+
+export function FieldError({ name }: { name: string }) {
+  const messages = useContext(FieldErrorsContext)[name]
+  if (!messages?.length) return null
+  return <p className="text-xs text-red-600 mt-1">{messages[0]}</p>
+}
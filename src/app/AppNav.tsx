@@ -0,0 +1,46 @@
+import Link from 'next/link'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { countUnread } from '@/lib/inbox'
+import { getSession } from '@/lib/workspaces'
+import { getI18n } from '@/lib/i18n/server'
+import { NAV_LINKS } from '@/lib/nav'
+
+// Header links shared by every page: the current workspace (links to its
+// members and the switcher) and the unread count of the Needs human inbox.
+export default async function AppNav() {
+  const supabase = await createServerSupabase()
+  const { t } = await getI18n()
+  // Best-effort, like the badge; a failed lookup shouldn't break the page.
+  const session = await getSession(supabase).catch(() => null)
+  const unread = session
+    ? await countUnread(supabase, session.user_id).catch(() => 0)
+    : 0
+
+  return (
+    <nav className="text-sm flex gap-4">
+      {session && (
+        <Link className="font-medium underline" href="/workspace">
+          {session.workspace_name}
+          {session.role === 'viewer' && (
+            <span className="ml-1 text-xs text-muted-foreground no-underline">
+              {t('nav.readOnly')}
+            </span>
+          )}
+        </Link>
+      )}
+      {NAV_LINKS.map(({ href, label }) => (
+        <Link key={href} className="underline" href={href}>
+          {t(label)}
+          {href === '/inbox' && unread > 0 && (
+            <span
+              className="ml-1 rounded-full bg-red-600 text-white text-xs px-1.5 no-underline"
+              aria-label={t('nav.unread', { count: unread })}
+            >
+              {unread > 99 ? '99+' : unread}
+            </span>
+          )}
+        </Link>
+      ))}
+    </nav>
+  )
+}
@@ -0,0 +1,259 @@
+'use client'
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+  type RefObject,
+} from 'react'
+import { usePathname, useRouter } from 'next/navigation'
+import { useQuery } from '@tanstack/react-query'
+import { createClient } from '@/lib/supabase/client'
+import { useI18n } from '@/lib/i18n/client'
+import { NAV_LINKS } from '@/lib/nav'
+import { likePattern } from '@/lib/filters'
+import {
+  filterCommands,
+  isPaletteShortcut,
+  type Command,
+} from '@/lib/commands'
+
+const MAX_TASK_RESULTS = 8
+
+const CommandsContext = createContext<RefObject<Command[]>>({ current: [] })
+
+// Offers `commands` in the palette while the calling component is mounted.
+// Kept in a ref and copied when the palette opens, so pages re-rendering
+// don't re-render it.
+export function useCommands(commands: Command[]) {
+  const ref = useContext(CommandsContext)
+  useEffect(() => {
+    ref.current = commands
+    return () => {
+      ref.current = []
+    }
+  })
+}
+
+// Ctrl/Cmd-K anywhere but the login page: the page's commands first, then
+// tasks matching the text by title and the top-level pages and agents.
+export default function CommandPaletteProvider({
+  children,
+}: {
+  children: ReactNode
+}) {
+  const pageCommands = useRef<Command[]>([])
+  // The page's commands while open.
+  const [opened, setOpened] = useState<Command[] | null>(null)
+  const pathname = usePathname()
+  const enabled = !pathname.startsWith('/login')
+
+  useEffect(() => {
+    if (!enabled) return
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!isPaletteShortcut(e)) return
+      e.preventDefault()
+      const commands = pageCommands.current
+      setOpened((open) => (open ? null : commands))
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [enabled])
+
+  return (
+    <CommandsContext.Provider value={pageCommands}>
+      {children}
+      {enabled && opened && (
+        <Palette pageCommands={opened} onClose={() => setOpened(null)} />
+      )}
+    </CommandsContext.Provider>
+  )
+}
+
+function Palette({
+  pageCommands,
+  onClose,
+}: {
+  pageCommands: Command[]
+  onClose: () => void
+}) {
+  const supabase = useMemo(() => createClient(), [])
+  const router = useRouter()
+  const { t } = useI18n()
+  const [query, setQuery] = useState('')
+  const [selected, setSelected] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // Focus goes back to where it was (e.g. the board card the commands act
+  // on) when the palette closes.
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null
+    inputRef.current?.focus()
+    return () => previous?.focus()
+  }, [])
+
+  const search = query.trim()
+
+  const { data: tasks = [] } = useQuery({
+    queryKey: ['palette', 'tasks', search],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id,title,status')
+        .ilike('title', likePattern(search))
+        .order('updated_at', { ascending: false })
+        .limit(MAX_TASK_RESULTS)
+      if (error) throw new Error(error.message)
+      return data
+    },
+    enabled: search.length > 0,
+  })
+
+  const { data: agents = [] } = useQuery({
+    queryKey: ['palette', 'agents'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('agents')
+        .select('id,name')
+        .eq('is_active', true)
+        .order('name', { ascending: true })
+      if (error) throw new Error(error.message)
+      return data
+    },
+  })
+
+  const go = (href: string) => () => router.push(href)
+
+  const commands: Command[] = [
+    ...filterCommands(pageCommands, search),
+    // Matched by the server, so not filtered again.
+    ...(search
+      ? tasks.map((task) => ({
+          id: `task:${task.id}`,
+          group: t('palette.tasks'),
+          label: `${task.title} · ${t(`status.${task.status}`)}`,
+          run: go(`/task/${task.id}`),
+        }))
+      : []),
+    ...filterCommands(
+      [
+        ...NAV_LINKS.map(({ href, label }) => ({
+          id: `nav:${href}`,
+          group: t('palette.goTo'),
+          label: t(label),
+          run: go(href),
+        })),
+        ...agents.map((agent) => ({
+          id: `agent:${agent.id}`,
+          group: t('palette.agents'),
+          label: agent.name,
+          run: go(`/agents/${agent.id}`),
+        })),
+      ],
+      search
+    ),
+  ]
+  const active = Math.max(0, Math.min(selected, commands.length - 1))
+
+  function run(command: Command) {
+    onClose()
+    command.run(search)
+  }
+
+  function onKeyDown(e: React.KeyboardEvent) {
+    if (e.key === 'Escape') {
+      onClose()
+    } else if (e.key === 'ArrowDown' && commands.length > 0) {
+      setSelected((active + 1) % commands.length)
+    } else if (e.key === 'ArrowUp' && commands.length > 0) {
+      setSelected((active - 1 + commands.length) % commands.length)
+    } else if (e.key === 'Enter' && commands[active]) {
+      run(commands[active])
+    } else {
+      return
+    }
+    e.preventDefault()
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/30 flex items-start justify-center pt-[15vh]"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose()
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('palette.title')}
+        className="w-full max-w-lg rounded border bg-white shadow-xl"
+      >
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setSelected(0)
+          }}
+          onKeyDown={onKeyDown}
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="palette-list"
+          aria-activedescendant={
+            commands[active] ? `palette-${active}` : undefined
+          }
+          placeholder={t('palette.placeholder')}
+          className="w-full border-b px-4 py-3 outline-none"
+        />
+        <ul
+          id="palette-list"
+          role="listbox"
+          className="max-h-80 overflow-auto py-1 text-sm"
+        >
+          {commands.map((c, i) => (
+            <li key={c.id} role="presentation">
+              {c.group !== commands[i - 1]?.group && (
+                <div className="px-4 pt-2 pb-1 text-xs text-muted-foreground">
+                  {c.group}
+                </div>
+              )}
+              <div
+                id={`palette-${i}`}
+                role="option"
+                aria-selected={i === active}
+                onMouseMove={() => setSelected(i)}
+                onClick={() => run(c)}
+                className={`flex justify-between gap-3 px-4 py-1.5 cursor-pointer ${
+                  i === active ? 'bg-blue-50' : ''
+                }`}
+              >
+                <span>
+                  {c.withQuery
+                    ? t('palette.withQuery', { label: c.label, query: search })
+                    : c.label}
+                </span>
+                {c.shortcut && (
+                  <kbd className="text-xs text-muted-foreground font-mono">
+                    {c.shortcut}
+                  </kbd>
+                )}
+              </div>
+            </li>
+          ))}
+          {commands.length === 0 && (
+            <li className="px-4 py-2 text-muted-foreground">
+              {t('palette.empty')}
+            </li>
+          )}
+        </ul>
+        <p className="border-t px-4 py-2 text-xs text-muted-foreground">
+          {t('palette.help')}
+        </p>
+      </div>
+    </div>
+  )
+}
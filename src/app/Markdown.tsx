@@ -0,0 +1,60 @@
+import Link from 'next/link'
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import rehypeSanitize from 'rehype-sanitize'
+import rehypeHighlight from 'rehype-highlight'
+import { remarkMentions } from '@/lib/markdown'
+import type { AgentRef } from '@/lib/mentions'
+
+// A path on this site. `//host` and `/\host` are protocol-relative URLs to
+// another site, so they don't count.
+const isInternal = (href: string) => /^\/(?![/\\])/.test(href)
+
+// In-app links (agent mentions) stay client-side navigations; everything
+// else opens in a new tab.
+const components: Components = {
+  a: ({ href = '', title, children }) =>
+    isInternal(href) ? (
+      <Link
+        href={href}
+        title={title}
+        className={href.startsWith('/agents/') ? 'mention' : undefined}
+      >
+        {children}
+      </Link>
+    ) : (
+      <a
+        href={href}
+        title={title}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+      >
+        {children}
+      </a>
+    ),
+}
+
+// GitHub-flavoured Markdown for user and agent text. Raw HTML is never
+// rendered and the output goes through rehype-sanitize before code blocks
+// are highlighted.
+export default function Markdown({
+  children,
+  agents = [],
+  className = '',
+}: {
+  children: string
+  agents?: AgentRef[]
+  className?: string
+}) {
+  return (
+    <div className={`markdown ${className}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, [remarkMentions, agents]]}
+        rehypePlugins={[rehypeSanitize, rehypeHighlight]}
+        components={components}
+      >
+        {children}
+      </ReactMarkdown>
+    </div>
+  )
+}
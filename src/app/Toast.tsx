@@ -0,0 +1,39 @@
+'use client'
+
+import { useRef, useState } from 'react'
+
+const TOAST_MS = 5000
+
+type ToastState = { message: string; tone: 'error' | 'warning' }
+
+// Transient message for actions without a form to show their result in:
+// drag and drop, shortcuts, the command palette.
+export function useToast() {
+  const [toast, setToast] = useState<ToastState | null>(null)
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  function showToast(message: string, tone: ToastState['tone'] = 'error') {
+    if (timer.current) clearTimeout(timer.current)
+    setToast({ message, tone })
+    timer.current = setTimeout(() => setToast(null), TOAST_MS)
+  }
+
+  return [toast, showToast] as const
+}
+
+export default function Toast({ toast }: { toast: ToastState | null }) {
+  if (!toast) return null
+
+  return (
+    <div
+      role="alert"
+      className={`fixed bottom-4 right-4 max-w-sm rounded text-sm px-4 py-3 shadow-lg ${
+        toast.tone === 'error'
+          ? 'bg-red-600 text-white'
+          : 'bg-amber-300 text-black'
+      }`}
+    >
+      {toast.message}
+    </div>
+  )
+}
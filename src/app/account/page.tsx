@@ -0,0 +1,143 @@
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getSession } from '@/lib/workspaces'
+import { isTimeZone } from '@/lib/schedules'
+import { LOCALES, LOCALE_NAMES } from '@/lib/i18n'
+import { getI18n } from '@/lib/i18n/server'
+import { parseForm, type FormAction } from '@/lib/actions'
+import { preferencesInput } from '@/lib/schemas'
+import ActionForm, { FieldError } from '../ActionForm'
+import AppNav from '../AppNav'
+
+const savePreferences: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(preferencesInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { time_zone } = parsed.data
+
+  if (time_zone && !isTimeZone(time_zone)) {
+    return {
+      ok: false,
+      fieldErrors: { time_zone: [t('account.unknownTimeZone')] },
+    }
+  }
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { error } = await supabase
+    .from('profiles')
+    .update(parsed.data)
+    .eq('user_id', session.user_id)
+
+  if (error) return { ok: false, error: error.message }
+  // Every page renders in the member's language and zone.
+  revalidatePath('/', 'layout')
+  return { ok: true }
+}
+
+export default async function AccountPage() {
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t, timeZone } = await getI18n()
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('email,display_name,locale,time_zone')
+    .eq('user_id', session.user_id)
+    .single()
+
+  if (error) {
+    return (
+      <main className="p-6">
+        <h1 className="text-2xl font-semibold">{t('account.title')}</h1>
+        <p className="mt-3 text-sm">
+          {t('common.error', { message: error.message })}
+        </p>
+      </main>
+    )
+  }
+
+  return (
+    <main className="p-6">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">{t('account.title')}</h1>
+          <p className="text-sm text-muted-foreground mt-1">{profile.email}</p>
+        </div>
+        <AppNav />
+      </div>
+
+      <section className="mt-6 max-w-xl">
+        <h2 className="font-medium">{t('account.preferences')}</h2>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('account.intro')}
+        </p>
+        <ActionForm action={savePreferences} className="mt-3 space-y-3">
+          <label className="block">
+            <div className="text-xs mb-1">{t('account.displayName')}</div>
+            <input
+              name="display_name"
+              defaultValue={profile.display_name}
+              className="w-full border rounded px-3 py-2"
+              required
+            />
+            <FieldError name="display_name" />
+          </label>
+          <div className="flex flex-wrap gap-3">
+            <label>
+              <div className="text-xs mb-1">{t('account.language')}</div>
+              <select
+                name="locale"
+                defaultValue={profile.locale ?? ''}
+                className="border rounded px-2 py-1"
+              >
+                <option value="">{t('account.browser')}</option>
+                {LOCALES.map((l) => (
+                  <option key={l} value={l}>
+                    {LOCALE_NAMES[l]}
+                  </option>
+                ))}
+              </select>
+              <FieldError name="locale" />
+            </label>
+            <label>
+              <div className="text-xs mb-1">{t('account.timeZone')}</div>
+              <input
+                name="time_zone"
+                defaultValue={profile.time_zone ?? ''}
+                placeholder={t('account.browser')}
+                list="timezones"
+                className="border rounded px-2 py-1"
+              />
+              <datalist id="timezones">
+                {Intl.supportedValuesOf('timeZone').map((tz) => (
+                  <option key={tz} value={tz} />
+                ))}
+              </datalist>
+              <FieldError name="time_zone" />
+            </label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('account.timeZoneHint', { zone: timeZone })}
+          </p>
+          <button className="bg-black text-white rounded px-3 py-2">
+            {t('common.save')}
+          </button>
+        </ActionForm>
+      </section>
+
+      <form action="/logout" method="post" className="mt-10">
+        <button className="border rounded px-3 py-2 text-sm">
+          {t('account.signOut')}
+        </button>
+      </form>
+    </main>
+  )
+}
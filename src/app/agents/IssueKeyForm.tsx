@@ -0,0 +1,48 @@
+'use client'
+
+import type { FormAction } from '@/lib/actions'
+import { useI18n } from '@/lib/i18n/client'
+import ActionForm, { FieldError } from '../ActionForm'
+
+export type IssuedKey = { key: string }
+
+// Client wrapper so the one-time key can be rendered from the action result.
+export default function IssueKeyForm({
+  agentId,
+  action,
+}: {
+  agentId: string
+  action: FormAction<IssuedKey>
+}) {
+  const { t } = useI18n()
+
+  return (
+    <ActionForm action={action} resetOnSuccess className="mt-2 space-y-2">
+      {(state) => (
+        <>
+          <input type="hidden" name="agent_id" value={agentId} />
+          <div className="flex gap-2">
+            <input
+              name="label"
+              className="text-xs border rounded px-2 py-1"
+              placeholder={t('agents.keyLabel')}
+            />
+            <button className="text-xs border rounded px-2 py-1 disabled:opacity-50">
+              {t('agents.issueKey')}
+            </button>
+          </div>
+          <FieldError name="label" />
+
+          {state?.ok && state.data && (
+            <div className="text-xs border rounded p-2">
+              <div>{t('agents.copyKey')}</div>
+              <code className="block mt-1 break-all font-mono">
+                {state.data.key}
+              </code>
+            </div>
+          )}
+        </>
+      )}
+    </ActionForm>
+  )
+}
@@ -0,0 +1,163 @@
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getSession } from '@/lib/workspaces'
+import { getI18n } from '@/lib/i18n/server'
+import { OPEN_STATUSES } from '@/lib/status'
+import { isStale } from '@/lib/agents/heartbeat'
+import { MENTION_COLUMNS } from '@/lib/mentions'
+import AppNav from '../../AppNav'
+
+export default async function AgentPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t, fmt } = await getI18n()
+
+  const { data: agent, error } = await supabase
+    .from('agents')
+    .select('id,name,role,status,is_active,last_heartbeat_at')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    return (
+      <main className="p-6">
+        <h1 className="text-2xl font-semibold">{t('agents.agent')}</h1>
+        <p className="mt-3 text-sm">
+          {t('common.error', { message: error.message })}
+        </p>
+      </main>
+    )
+  }
+  if (!agent) notFound()
+
+  const [tasksRes, subtasksRes, mentionsRes] = await Promise.all([
+    supabase
+      .from('tasks')
+      .select('id,title,status,priority')
+      .eq('assigned_agent_id', id)
+      .in('status', OPEN_STATUSES)
+      .order('updated_at', { ascending: false }),
+    supabase
+      .from('subtasks')
+      .select('id,task_id,title,status')
+      .eq('assignee_agent_id', id)
+      .in('status', OPEN_STATUSES)
+      .order('updated_at', { ascending: false }),
+    supabase
+      .from('mentions')
+      .select(`${MENTION_COLUMNS},tasks(title)`)
+      .eq('agent_id', id)
+      .order('created_at', { ascending: false })
+      .limit(20),
+  ])
+
+  const tasks = tasksRes.data ?? []
+  const subtasks = subtasksRes.data ?? []
+  const mentions = mentionsRes.data ?? []
+
+  return (
+    <main className="p-6 max-w-3xl">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <Link className="underline text-sm" href="/agents">
+            {t('agents.back')}
+          </Link>
+          <h1 className="text-2xl font-semibold mt-3">
+            {agent.name}
+            <span className="text-sm font-normal text-muted-foreground ml-2">
+              {agent.role}
+            </span>
+          </h1>
+          <p className="text-xs text-muted-foreground mt-1">
+            {agent.is_active ? agent.status : t('agents.inactive')} ·{' '}
+            {t('agents.lastSeen', {
+              at: agent.last_heartbeat_at
+                ? fmt.dateTime(agent.last_heartbeat_at)
+                : t('agents.never'),
+            })}
+            {agent.is_active && isStale(agent.last_heartbeat_at) && (
+              <span className="text-red-600">
+                {' '}
+                · {t('agents.staleHeartbeat')}
+              </span>
+            )}
+          </p>
+        </div>
+        <AppNav />
+      </div>
+
+      <section className="mt-8">
+        <h2 className="font-medium">{t('agents.openWork')}</h2>
+        <ul className="mt-2 space-y-1 text-sm">
+          {tasks.map((task) => (
+            <li key={task.id}>
+              <Link className="underline" href={`/task/${task.id}`}>
+                {task.title}
+              </Link>
+              <span className="text-xs text-muted-foreground ml-2">
+                {t('agents.taskLine', {
+                  status: t(`status.${task.status}`),
+                  priority: t(`priority.${task.priority}`),
+                })}
+              </span>
+            </li>
+          ))}
+          {subtasks.map((s) => (
+            <li key={s.id}>
+              <Link className="underline" href={`/task/${s.task_id}`}>
+                {s.title}
+              </Link>
+              <span className="text-xs text-muted-foreground ml-2">
+                {t('agents.subtaskLine', { status: t(`status.${s.status}`) })}
+              </span>
+            </li>
+          ))}
+          {tasks.length + subtasks.length === 0 && (
+            <li className="text-muted-foreground">
+              {t('agents.nothingAssigned')}
+            </li>
+          )}
+        </ul>
+      </section>
+
+      <section className="mt-8">
+        <h2 className="font-medium">{t('agents.mentions')}</h2>
+        <div className="mt-2 space-y-2">
+          {mentions.map((m) => (
+            <div key={m.id} className="border rounded p-3 text-sm">
+              <div className="text-xs text-muted-foreground">
+                {t('agents.mentionIn', {
+                  at: fmt.dateTime(m.created_at),
+                  source: t(`agents.source.${m.source}`),
+                })}{' '}
+                <Link className="underline" href={`/task/${m.task_id}`}>
+                  {m.tasks?.title ?? m.task_id}
+                </Link>
+                {!m.read_at && (
+                  <span className="ml-2 text-amber-600">
+                    {t('agents.unread')}
+                  </span>
+                )}
+              </div>
+              <div className="mt-1">{m.excerpt}</div>
+            </div>
+          ))}
+          {mentions.length === 0 && (
+            <div className="text-sm text-muted-foreground">
+              {t('agents.noMentions')}
+            </div>
+          )}
+        </div>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,452 @@
+import Link from 'next/link'
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getI18n } from '@/lib/i18n/server'
+import { getSession, hasRole, roleError } from '@/lib/workspaces'
+import { OPEN_STATUSES, STATUSES, type Status } from '@/lib/status'
+import { isStale } from '@/lib/agents/heartbeat'
+import { generateAgentKey, hashAgentKey } from '@/lib/agents/key'
+import { parseForm, type FormAction } from '@/lib/actions'
+import { fetchAll } from '@/lib/repository'
+import type { Tables } from '@/lib/database.types'
+import {
+  createAgentInput,
+  idInput,
+  issueApiKeyInput,
+  setActiveInput,
+  updateAgentInput,
+} from '@/lib/schemas'
+import ActionForm, { FieldError } from '../ActionForm'
+import IssueKeyForm, { type IssuedKey } from './IssueKeyForm'
+import AppNav from '../AppNav'
+
+type Workload = {
+  tasks: Map<Status, number>
+  subtasks: Map<Status, number>
+}
+
+type ApiKeyRow = Pick<
+  Tables<'agent_api_keys'>,
+  'id' | 'agent_id' | 'label' | 'created_at' | 'last_used_at'
+>
+
+const createAgent: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(createAgentInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const { error } = await supabase.from('agents').insert({
+    ...parsed.data,
+    workspace_id: session.workspace_id,
+    status: 'idle',
+    is_active: true,
+  })
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/agents')
+  return { ok: true }
+}
+
+const updateAgent: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(updateAgentInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { id, ...patch } = parsed.data
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const { error } = await supabase.from('agents').update(patch).eq('id', id)
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/agents')
+  return { ok: true }
+}
+
+const setAgentActive: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(setActiveInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { id, is_active } = parsed.data
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const { error } = await supabase
+    .from('agents')
+    .update({ is_active })
+    .eq('id', id)
+
+  if (error) return { ok: false, error: error.message }
+
+  // A deactivated agent loses API access as well.
+  if (!is_active) {
+    const { error: keysErr } = await supabase
+      .from('agent_api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('agent_id', id)
+      .is('revoked_at', null)
+
+    if (keysErr) return { ok: false, error: keysErr.message }
+  }
+
+  revalidatePath('/agents')
+  return { ok: true }
+}
+
+const issueApiKey: FormAction<IssuedKey> = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(issueApiKeyInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  // RLS hides other workspaces' agents, but the key has to name one of
+  // this workspace's own.
+  const { data: agent, error: agentErr } = await supabase
+    .from('agents')
+    .select('id')
+    .eq('id', parsed.data.agent_id)
+    .eq('workspace_id', session.workspace_id)
+    .maybeSingle()
+  if (agentErr) return { ok: false, error: agentErr.message }
+  if (!agent) return { ok: false, error: t('errors.agentNotFound') }
+
+  const key = generateAgentKey()
+  const { error } = await supabase.from('agent_api_keys').insert({
+    ...parsed.data,
+    workspace_id: session.workspace_id,
+    key_hash: await hashAgentKey(key),
+  })
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/agents')
+  return { ok: true, data: { key } }
+}
+
+const revokeApiKey: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(idInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const { error } = await supabase
+    .from('agent_api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', parsed.data.id)
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/agents')
+  return { ok: true }
+}
+
+export default async function AgentsPage() {
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t, fmt } = await getI18n()
+
+  const { data: agents, error } = await supabase
+    .from('agents')
+    .select('id,name,role,status,is_active,last_heartbeat_at')
+    .order('is_active', { ascending: false })
+    .order('name', { ascending: true })
+
+  if (error) {
+    return (
+      <main className="p-6">
+        <h1 className="text-2xl font-semibold">{t('agents.title')}</h1>
+        <p className="mt-3 text-sm">
+          {t('common.error', { message: error.message })}
+        </p>
+      </main>
+    )
+  }
+
+  const tasks = await fetchAll((from, to) =>
+    supabase
+      .from('tasks')
+      .select('id,assigned_agent_id,status')
+      .not('assigned_agent_id', 'is', null)
+      .order('id', { ascending: true })
+      .range(from, to)
+  )
+
+  const subtasks = await fetchAll((from, to) =>
+    supabase
+      .from('subtasks')
+      .select('id,assignee_agent_id,status')
+      .not('assignee_agent_id', 'is', null)
+      .in('status', OPEN_STATUSES)
+      .order('id', { ascending: true })
+      .range(from, to)
+  )
+
+  const { data: keys } = await supabase
+    .from('agent_api_keys')
+    .select('id,agent_id,label,created_at,last_used_at')
+    .is('revoked_at', null)
+    .order('created_at', { ascending: true })
+
+  const workload = new Map<string, Workload>()
+  const workloadFor = (agentId: string) => {
+    let w = workload.get(agentId)
+    if (!w) {
+      w = { tasks: new Map(), subtasks: new Map() }
+      workload.set(agentId, w)
+    }
+    return w
+  }
+  tasks.forEach((task) => {
+    if (!task.assigned_agent_id) return
+    const counts = workloadFor(task.assigned_agent_id).tasks
+    counts.set(task.status, (counts.get(task.status) ?? 0) + 1)
+  })
+  subtasks.forEach((s) => {
+    if (!s.assignee_agent_id) return
+    const counts = workloadFor(s.assignee_agent_id).subtasks
+    counts.set(s.status, (counts.get(s.status) ?? 0) + 1)
+  })
+
+  const keysByAgent = new Map<string, ApiKeyRow[]>()
+  keys?.forEach((k) => {
+    keysByAgent.set(k.agent_id, [...(keysByAgent.get(k.agent_id) ?? []), k])
+  })
+
+  return (
+    <main className="p-6 max-w-5xl">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">{t('agents.title')}</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            {t('agents.subtitle')}
+          </p>
+        </div>
+
+        <AppNav />
+      </div>
+
+      <section className="mt-6 max-w-xl">
+        <h2 className="font-medium">{t('agents.create')}</h2>
+        <ActionForm
+          action={createAgent}
+          resetOnSuccess
+          className="mt-2 flex flex-wrap gap-2"
+        >
+          <div>
+            <input
+              name="name"
+              className="border rounded px-3 py-2"
+              placeholder={t('agents.name')}
+              required
+            />
+            <FieldError name="name" />
+          </div>
+          <div>
+            <input
+              name="role"
+              className="border rounded px-3 py-2"
+              placeholder={t('agents.role')}
+              required
+            />
+            <FieldError name="role" />
+          </div>
+          <button className="bg-black text-white rounded px-3 py-2 self-start">
+            {t('common.create')}
+          </button>
+        </ActionForm>
+      </section>
+
+      <section className="mt-10 space-y-4">
+        {agents.map((a) => {
+          const w = workload.get(a.id)
+          const inProgress =
+            (w?.tasks.get('in_progress') ?? 0) +
+            (w?.subtasks.get('in_progress') ?? 0)
+          const silent =
+            a.is_active && inProgress > 0 && isStale(a.last_heartbeat_at)
+
+          return (
+            <div
+              key={a.id}
+              className={`border rounded p-4 ${a.is_active ? '' : 'opacity-60'}`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="font-medium">
+                    <Link className="hover:underline" href={`/agents/${a.id}`}>
+                      {a.name}
+                    </Link>
+                    <span className="text-xs text-muted-foreground ml-2">
+                      {a.role}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {a.is_active ? a.status : t('agents.inactive')} ·{' '}
+                    {t('agents.lastSeen', {
+                      at: a.last_heartbeat_at
+                        ? fmt.dateTime(a.last_heartbeat_at)
+                        : t('agents.never'),
+                    })}
+                  </div>
+                  {silent && (
+                    <div className="text-xs mt-1 font-medium text-red-600">
+                      {t('agents.silent', { count: inProgress })}
+                    </div>
+                  )}
+                </div>
+
+                <ActionForm
+                  action={setAgentActive}
+                  className="flex flex-col items-end gap-1"
+                >
+                  <input type="hidden" name="id" value={a.id} />
+                  <input
+                    type="hidden"
+                    name="is_active"
+                    value={a.is_active ? 'false' : 'true'}
+                  />
+                  <button className="text-xs border rounded px-2 py-1">
+                    {a.is_active
+                      ? t('agents.deactivate')
+                      : t('agents.reactivate')}
+                  </button>
+                </ActionForm>
+              </div>
+
+              <table className="mt-3 text-xs">
+                <thead>
+                  <tr>
+                    <th className="text-left pr-3 font-normal text-muted-foreground"></th>
+                    {STATUSES.map((s) => (
+                      <th key={s} className="px-2 font-normal text-muted-foreground">
+                        {t(`status.${s}`)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <td className="pr-3">{t('agents.tasks')}</td>
+                    {STATUSES.map((s) => (
+                      <td key={s} className="px-2 text-center">
+                        {w?.tasks.get(s) ?? 0}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="pr-3">{t('agents.openSubtasks')}</td>
+                    {STATUSES.map((s) => (
+                      <td key={s} className="px-2 text-center">
+                        {OPEN_STATUSES.includes(s) ? (w?.subtasks.get(s) ?? 0) : '–'}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+
+              <details className="mt-3">
+                <summary className="text-xs underline cursor-pointer">
+                  {t('agents.editKeys')}
+                </summary>
+
+                <ActionForm
+                  action={updateAgent}
+                  className="mt-3 flex flex-wrap gap-2"
+                >
+                  <input type="hidden" name="id" value={a.id} />
+                  <input
+                    name="name"
+                    defaultValue={a.name}
+                    className="text-xs border rounded px-2 py-1"
+                    required
+                  />
+                  <input
+                    name="role"
+                    defaultValue={a.role}
+                    className="text-xs border rounded px-2 py-1"
+                    required
+                  />
+                  <input
+                    name="status"
+                    defaultValue={a.status}
+                    className="text-xs border rounded px-2 py-1"
+                    required
+                  />
+                  <button className="text-xs border rounded px-2 py-1">
+                    {t('common.save')}
+                  </button>
+                  <FieldError name="name" />
+                  <FieldError name="role" />
+                  <FieldError name="status" />
+                </ActionForm>
+
+                <div className="mt-3 space-y-1">
+                  {(keysByAgent.get(a.id) ?? []).map((k) => (
+                    <ActionForm
+                      key={k.id}
+                      action={revokeApiKey}
+                      className="flex flex-wrap items-center gap-2 text-xs"
+                    >
+                      <input type="hidden" name="id" value={k.id} />
+                      <span>
+                        {t('agents.keyCreated', {
+                          label: k.label ?? t('agents.key'),
+                          created: fmt.dateTime(k.created_at),
+                          used: k.last_used_at
+                            ? fmt.dateTime(k.last_used_at)
+                            : t('agents.never'),
+                        })}
+                      </span>
+                      <button className="border rounded px-2 py-0.5">
+                        {t('agents.revoke')}
+                      </button>
+                    </ActionForm>
+                  ))}
+                </div>
+
+                {a.is_active && (
+                  <IssueKeyForm agentId={a.id} action={issueApiKey} />
+                )}
+              </details>
+            </div>
+          )
+        })}
+
+        {agents.length === 0 && (
+          <div className="text-sm text-muted-foreground">
+            {t('agents.none')}
+          </div>
+        )}
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { authenticateAgent, jsonError } from '@/lib/agents/auth'
+import { idParam } from '@/lib/agents/schemas'
+import { ATTACHMENT_BUCKET } from '@/lib/attachments'
+
+// Redirects to a one-minute signed URL for the file.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const agent = await authenticateAgent(request)
+  if (agent instanceof NextResponse) return agent
+
+  const id = idParam.safeParse((await params).id)
+  if (!id.success) return jsonError(404, 'Attachment not found')
+
+  const { supabase } = agent
+
+  const { data: attachment, error } = await supabase
+    .from('attachments')
+    .select('storage_path,filename')
+    .eq('id', id.data)
+    .eq('workspace_id', agent.workspace_id)
+    .maybeSingle()
+
+  if (error) return jsonError(500, error.message)
+  if (!attachment) return jsonError(404, 'Attachment not found')
+
+  const { data: signed, error: signErr } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(attachment.storage_path, 60, {
+      download: attachment.filename,
+    })
+  if (signErr) return jsonError(500, signErr.message)
+
+  return NextResponse.redirect(signed.signedUrl, 302)
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authenticateAgent, jsonError } from '@/lib/agents/auth'
+import { attachmentUploadInput, idParam } from '@/lib/agents/schemas'
+import {
+  ATTACHMENT_BUCKET,
+  ATTACHMENT_COLUMNS,
+  MAX_ATTACHMENT_BYTES,
+  SIGNED_URL_SECONDS,
+  uploadAttachment,
+} from '@/lib/attachments'
+
+// Room for the multipart envelope and the other fields.
+const MAX_BODY_BYTES = MAX_ATTACHMENT_BYTES + 64 * 1024
+
+// Attachments of a task, each with a short-lived download URL.
+export async function GET(request: Request) {
+  const agent = await authenticateAgent(request)
+  if (agent instanceof NextResponse) return agent
+
+  const taskId = idParam.safeParse(
+    new URL(request.url).searchParams.get('task_id')
+  )
+  if (!taskId.success) return jsonError(422, 'task_id must be a uuid')
+
+  const { supabase } = agent
+
+  const { data: attachments, error } = await supabase
+    .from('attachments')
+    .select(ATTACHMENT_COLUMNS)
+    .eq('workspace_id', agent.workspace_id)
+    .eq('task_id', taskId.data)
+    .order('created_at', { ascending: true })
+
+  if (error) return jsonError(500, error.message)
+  if (attachments.length === 0) return NextResponse.json({ attachments })
+
+  const { data: signed, error: signErr } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrls(
+      attachments.map((a) => a.storage_path),
+      SIGNED_URL_SECONDS
+    )
+  if (signErr) return jsonError(500, signErr.message)
+
+  const urls = new Map(signed.map((s) => [s.path, s.signedUrl]))
+  return NextResponse.json({
+    attachments: attachments.map((a) => ({
+      ...a,
+      url: urls.get(a.storage_path) ?? null,
+    })),
+  })
+}
+
+// multipart/form-data: `file` plus `task_id` and optionally `subtask_id`
+// or `comment_id` of that task.
+export async function POST(request: Request) {
+  const agent = await authenticateAgent(request)
+  if (agent instanceof NextResponse) return agent
+
+  const length = Number(request.headers.get('content-length') ?? 0)
+  if (length > MAX_BODY_BYTES) {
+    return jsonError(413, 'File too large (max 10 MB)')
+  }
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return jsonError(400, 'Body must be multipart/form-data')
+  }
+
+  const parsed = attachmentUploadInput.safeParse(Object.fromEntries(form))
+  if (!parsed.success) {
+    return jsonError(422, 'Invalid payload', z.flattenError(parsed.error))
+  }
+  const { file, ...target } = parsed.data
+  if (target.subtask_id && target.comment_id) {
+    return jsonError(422, 'Attach to a subtask or a comment, not both')
+  }
+
+  const { supabase } = agent
+
+  const { data: task, error: taskErr } = await supabase
+    .from('tasks')
+    .select('id')
+    .eq('id', target.task_id)
+    .eq('workspace_id', agent.workspace_id)
+    .maybeSingle()
+
+  if (taskErr) return jsonError(500, taskErr.message)
+  if (!task) return jsonError(404, 'Task not found')
+
+  if (target.subtask_id) {
+    const { data: subtask, error: subtaskErr } = await supabase
+      .from('subtasks')
+      .select('id')
+      .eq('id', target.subtask_id)
+      .eq('task_id', target.task_id)
+      .maybeSingle()
+
+    if (subtaskErr) return jsonError(500, subtaskErr.message)
+    if (!subtask) return jsonError(404, 'Subtask not found')
+  }
+
+  if (target.comment_id) {
+    const { data: comment, error: commentErr } = await supabase
+      .from('comments')
+      .select('id')
+      .eq('id', target.comment_id)
+      .eq('task_id', target.task_id)
+      .maybeSingle()
+
+    if (commentErr) return jsonError(500, commentErr.message)
+    if (!comment) return jsonError(404, 'Comment not found')
+  }
+
+  try {
+    const attachment = await uploadAttachment(
+      supabase,
+      agent.workspace_id,
+      { type: 'agent', agent_id: agent.id },
+      target,
+      file
+    )
+    return NextResponse.json({ attachment }, { status: 201 })
+  } catch (err) {
+    return jsonError(500, (err as Error).message)
+  }
+}
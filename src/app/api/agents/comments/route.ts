@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import { COMMENT_COLUMNS } from '@/lib/tasks'
+import { authenticateAgent, jsonError, parseBody } from '@/lib/agents/auth'
+import { commentInput } from '@/lib/agents/schemas'
+import { agentMentioned, commentAdded, emitWebhooks } from '@/lib/webhooks'
+import { recordCommentMentions } from '@/lib/mentions'
+
+export async function POST(request: Request) {
+  const agent = await authenticateAgent(request)
+  if (agent instanceof NextResponse) return agent
+
+  const input = await parseBody(request, commentInput)
+  if (input instanceof NextResponse) return input
+
+  const { supabase } = agent
+
+  const { data: task, error: taskErr } = await supabase
+    .from('tasks')
+    .select('id')
+    .eq('id', input.task_id)
+    .eq('workspace_id', agent.workspace_id)
+    .maybeSingle()
+
+  if (taskErr) return jsonError(500, taskErr.message)
+  if (!task) return jsonError(404, 'Task not found')
+
+  if (input.subtask_id) {
+    const { data: subtask, error: subtaskErr } = await supabase
+      .from('subtasks')
+      .select('id')
+      .eq('id', input.subtask_id)
+      .eq('task_id', input.task_id)
+      .maybeSingle()
+
+    if (subtaskErr) return jsonError(500, subtaskErr.message)
+    if (!subtask) return jsonError(404, 'Subtask not found')
+  }
+
+  const { data: comment, error } = await supabase
+    .from('comments')
+    .insert({
+      workspace_id: agent.workspace_id,
+      task_id: input.task_id,
+      subtask_id: input.subtask_id ?? null,
+      author_type: 'agent',
+      author_agent_id: agent.id,
+      body: input.body,
+    })
+    .select(COMMENT_COLUMNS)
+    .single()
+
+  if (error) return jsonError(500, error.message)
+
+  let mentions
+  try {
+    mentions = await recordCommentMentions(
+      supabase,
+      agent.workspace_id,
+      { type: 'agent', agent_id: agent.id },
+      comment
+    )
+  } catch (err) {
+    return jsonError(500, (err as Error).message)
+  }
+
+  await emitWebhooks(agent.workspace_id, [
+    commentAdded(comment),
+    ...mentions.map(agentMentioned),
+  ])
+
+  return NextResponse.json({ comment }, { status: 201 })
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { authenticateAgent, jsonError, parseBody } from '@/lib/agents/auth'
+import { heartbeatInput } from '@/lib/agents/schemas'
+
+export async function POST(request: Request) {
+  const agent = await authenticateAgent(request)
+  if (agent instanceof NextResponse) return agent
+
+  const input = await parseBody(request, heartbeatInput)
+  if (input instanceof NextResponse) return input
+
+  const patch: { last_heartbeat_at: string; status?: string } = {
+    last_heartbeat_at: new Date().toISOString(),
+  }
+  if (input.status) patch.status = input.status
+
+  const { data, error } = await agent.supabase
+    .from('agents')
+    .update(patch)
+    .eq('id', agent.id)
+    .eq('workspace_id', agent.workspace_id)
+    .select('id,status,last_heartbeat_at')
+    .single()
+
+  if (error) return jsonError(500, error.message)
+
+  return NextResponse.json({ agent: data })
+}
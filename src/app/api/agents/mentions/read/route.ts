@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { authenticateAgent, jsonError, parseBody } from '@/lib/agents/auth'
+import { mentionsReadInput } from '@/lib/agents/schemas'
+
+export async function POST(request: Request) {
+  const agent = await authenticateAgent(request)
+  if (agent instanceof NextResponse) return agent
+
+  const input = await parseBody(request, mentionsReadInput)
+  if (input instanceof NextResponse) return input
+
+  let query = agent.supabase
+    .from('mentions')
+    .update({ read_at: new Date().toISOString() })
+    .eq('workspace_id', agent.workspace_id)
+    .eq('agent_id', agent.id)
+    .is('read_at', null)
+  if (input.ids) query = query.in('id', input.ids)
+
+  const { data, error } = await query.select('id')
+  if (error) return jsonError(500, error.message)
+
+  return NextResponse.json({ read: data.length })
+}
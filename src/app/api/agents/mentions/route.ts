@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { authenticateAgent, jsonError } from '@/lib/agents/auth'
+import { MENTION_COLUMNS } from '@/lib/mentions'
+
+// Mentions of the calling agent, newest first: unread ones by default,
+// the last 50 of any state with `?all=1`.
+export async function GET(request: Request) {
+  const agent = await authenticateAgent(request)
+  if (agent instanceof NextResponse) return agent
+
+  const all = new URL(request.url).searchParams.get('all') === '1'
+
+  let query = agent.supabase
+    .from('mentions')
+    .select(MENTION_COLUMNS)
+    .eq('workspace_id', agent.workspace_id)
+    .eq('agent_id', agent.id)
+    .order('created_at', { ascending: false })
+    .limit(50)
+  if (!all) query = query.is('read_at', null)
+
+  const { data: mentions, error } = await query
+  if (error) return jsonError(500, error.message)
+
+  return NextResponse.json({ mentions })
+}
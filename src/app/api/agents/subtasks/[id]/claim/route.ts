@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server'
+import { authenticateAgent, jsonError } from '@/lib/agents/auth'
+import { idParam } from '@/lib/agents/schemas'
+import { recordEvents, type Actor, type TaskEventInput } from '@/lib/events'
+import { emitWebhooks, eventWebhooks } from '@/lib/webhooks'
+import { isClosed, statusesLeadingTo } from '@/lib/workflow'
+
+// Claims an unassigned (or already ours) subtask and starts it. The
+// assignee and status filters make the claim atomic: two agents racing for
+// the same subtask can't both win. Only open subtasks that may legally move
+// to in_progress can be claimed: reopening a done one isn't a claim.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const agent = await authenticateAgent(request)
+  if (agent instanceof NextResponse) return agent
+
+  const id = idParam.safeParse((await params).id)
+  if (!id.success) return jsonError(404, 'Subtask not found')
+
+  const { supabase } = agent
+
+  const { data: current, error: currentErr } = await supabase
+    .from('subtasks')
+    .select('task_id,status,assignee_agent_id')
+    .eq('id', id.data)
+    .eq('workspace_id', agent.workspace_id)
+    .maybeSingle()
+
+  if (currentErr) return jsonError(500, currentErr.message)
+  if (!current) return jsonError(404, 'Subtask not found')
+
+  const claimable = [
+    'in_progress',
+    ...statusesLeadingTo('in_progress').filter((s) => !isClosed(s)),
+  ]
+  if (!claimable.includes(current.status)) {
+    return jsonError(409, `Subtask in ${current.status} can't be claimed`)
+  }
+
+  const { data: subtask, error } = await supabase
+    .from('subtasks')
+    .update({ assignee_agent_id: agent.id, status: 'in_progress' })
+    .eq('id', id.data)
+    .eq('status', current.status)
+    .or(`assignee_agent_id.is.null,assignee_agent_id.eq.${agent.id}`)
+    .select('id,task_id,title,status,assignee_agent_id,definition_of_done')
+    .maybeSingle()
+
+  if (error) return jsonError(500, error.message)
+  if (!subtask) return jsonError(409, 'Subtask claimed by another agent')
+
+  const actor: Actor = { type: 'agent', agent_id: agent.id }
+  const events: TaskEventInput[] = [
+    {
+      task_id: current.task_id,
+      subtask_id: id.data,
+      kind: 'subtask_assignee',
+      before: current.assignee_agent_id,
+      after: agent.id,
+    },
+    {
+      task_id: current.task_id,
+      subtask_id: id.data,
+      kind: 'subtask_status',
+      before: current.status,
+      after: 'in_progress',
+    },
+  ]
+  try {
+    await recordEvents(supabase, agent.workspace_id, actor, events)
+  } catch (err) {
+    return jsonError(500, (err as Error).message)
+  }
+
+  await emitWebhooks(agent.workspace_id, eventWebhooks(actor, events))
+
+  return NextResponse.json({ subtask })
+}
@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server'
+import { authenticateAgent, jsonError, parseBody } from '@/lib/agents/auth'
+import { idParam, subtaskUpdateInput } from '@/lib/agents/schemas'
+import { recordEvents, type Actor, type TaskEventInput } from '@/lib/events'
+import {
+  agentMentioned,
+  commentAdded,
+  emitWebhooks,
+  eventWebhooks,
+} from '@/lib/webhooks'
+import { recordCommentMentions, recordMentions } from '@/lib/mentions'
+import { transitionError } from '@/lib/workflow'
+import { COMMENT_COLUMNS } from '@/lib/tasks'
+import { translator } from '@/lib/i18n'
+
+const SUBTASK_COLUMNS =
+  'id,task_id,title,status,assignee_agent_id,definition_of_done,result_summary,updated_at'
+
+// The agent API answers in English, like the rest of its errors.
+const t = translator('en')
+
+// Agents may only report on subtasks they hold.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const agent = await authenticateAgent(request)
+  if (agent instanceof NextResponse) return agent
+
+  const id = idParam.safeParse((await params).id)
+  if (!id.success) return jsonError(404, 'Subtask not found')
+
+  const input = await parseBody(request, subtaskUpdateInput)
+  if (input instanceof NextResponse) return input
+
+  const { supabase } = agent
+
+  const { data: current, error: currentErr } = await supabase
+    .from('subtasks')
+    .select('task_id,status,result_summary')
+    .eq('id', id.data)
+    .eq('workspace_id', agent.workspace_id)
+    .eq('assignee_agent_id', agent.id)
+    .maybeSingle()
+
+  if (currentErr) return jsonError(500, currentErr.message)
+  if (!current) return jsonError(404, 'Subtask not found or not assigned to you')
+
+  const { reason, ...patch } = input
+  if (patch.status) {
+    const invalid = transitionError(current.status, patch.status, { reason }, t)
+    if (invalid) return jsonError(409, invalid)
+  }
+
+  const { data: subtask, error } = await supabase
+    .from('subtasks')
+    .update(patch)
+    .eq('id', id.data)
+    .eq('status', current.status)
+    .select(SUBTASK_COLUMNS)
+    .maybeSingle()
+
+  if (error) return jsonError(500, error.message)
+  if (!subtask) return jsonError(409, 'Subtask changed concurrently, retry')
+
+  const actor: Actor = { type: 'agent', agent_id: agent.id }
+  const events: TaskEventInput[] = [
+    {
+      task_id: current.task_id,
+      subtask_id: id.data,
+      kind: 'subtask_status',
+      before: current.status,
+      after: subtask.status,
+    },
+    {
+      task_id: current.task_id,
+      subtask_id: id.data,
+      kind: 'subtask_result',
+      before: current.result_summary,
+      after: subtask.result_summary,
+    },
+  ]
+  const webhooks = eventWebhooks(actor, events)
+  try {
+    await recordEvents(supabase, agent.workspace_id, actor, events)
+    const mentions = await recordMentions(
+      supabase,
+      agent.workspace_id,
+      actor,
+      { source: 'result_summary', task_id: current.task_id, subtask_id: id.data },
+      subtask.result_summary,
+      current.result_summary
+    )
+    webhooks.push(...mentions.map(agentMentioned))
+  } catch (err) {
+    return jsonError(500, (err as Error).message)
+  }
+
+  if (patch.status === 'blocked' && current.status !== 'blocked') {
+    const { data: comment, error: commentErr } = await supabase
+      .from('comments')
+      .insert({
+        workspace_id: agent.workspace_id,
+        task_id: current.task_id,
+        subtask_id: id.data,
+        author_type: 'agent',
+        author_agent_id: agent.id,
+        body: t('workflow.blockedComment', { reason: reason! }),
+      })
+      .select(COMMENT_COLUMNS)
+      .single()
+    if (commentErr) return jsonError(500, commentErr.message)
+    webhooks.push(commentAdded(comment))
+
+    try {
+      const mentions = await recordCommentMentions(
+        supabase,
+        agent.workspace_id,
+        actor,
+        comment
+      )
+      webhooks.push(...mentions.map(agentMentioned))
+    } catch (err) {
+      return jsonError(500, (err as Error).message)
+    }
+  }
+
+  await emitWebhooks(agent.workspace_id, webhooks)
+
+  return NextResponse.json({ subtask })
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { authenticateAgent, jsonError } from '@/lib/agents/auth'
+
+// Everything currently assigned to the calling agent: tasks via
+// assigned_agent_id and subtasks via assignee_agent_id, plus how many
+// unread mentions wait at /api/agents/mentions.
+export async function GET(request: Request) {
+  const agent = await authenticateAgent(request)
+  if (agent instanceof NextResponse) return agent
+
+  const { supabase } = agent
+
+  const { data: tasks, error: tasksErr } = await supabase
+    .from('tasks')
+    .select('id,title,description,status,priority,updated_at')
+    .eq('workspace_id', agent.workspace_id)
+    .eq('assigned_agent_id', agent.id)
+    .order('updated_at', { ascending: false })
+
+  if (tasksErr) return jsonError(500, tasksErr.message)
+
+  const { data: subtasks, error: subtasksErr } = await supabase
+    .from('subtasks')
+    .select(
+      'id,task_id,title,status,definition_of_done,result_summary,updated_at'
+    )
+    .eq('workspace_id', agent.workspace_id)
+    .eq('assignee_agent_id', agent.id)
+    .order('updated_at', { ascending: false })
+
+  if (subtasksErr) return jsonError(500, subtasksErr.message)
+
+  const { count, error: mentionsErr } = await supabase
+    .from('mentions')
+    .select('id', { count: 'exact', head: true })
+    .eq('workspace_id', agent.workspace_id)
+    .eq('agent_id', agent.id)
+    .is('read_at', null)
+
+  if (mentionsErr) return jsonError(500, mentionsErr.message)
+
+  return NextResponse.json({
+    agent: { id: agent.id, name: agent.name },
+    tasks,
+    subtasks,
+    unread_mentions: count ?? 0,
+  })
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/cron'
+import { runDueSchedules } from '@/lib/schedules'
+
+// Creates the tasks of due schedules. Meant to run every minute; an
+// occurrence creates one task however often it runs.
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const created = await runDueSchedules()
+    return NextResponse.json({ created })
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 500 })
+  }
+}
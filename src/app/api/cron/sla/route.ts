@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/cron'
+import { escalateBreaches } from '@/lib/escalation'
+
+// Escalates SLA breaches and overdue tasks. Meant to run every 15 minutes;
+// each breach escalates once however often it runs.
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const escalated = await escalateBreaches()
+    return NextResponse.json({ escalated })
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 500 })
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/cron'
+import { deliverDueWebhooks } from '@/lib/webhooks'
+
+// Retries webhook deliveries whose backoff has elapsed. Meant to run every
+// minute.
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const attempted = await deliverDueWebhooks()
+    return NextResponse.json({ attempted })
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 500 })
+  }
+}
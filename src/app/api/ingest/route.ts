@@ -0,0 +1,189 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { SUBTASK_COLUMNS, TASK_COLUMNS, positionBetween } from '@/lib/tasks'
+import { jsonError, parseBody } from '@/lib/agents/auth'
+import { authenticateIntegration } from '@/lib/ingest/auth'
+import { emailToIngest } from '@/lib/ingest/email'
+import { ingestInput, type IngestInput } from '@/lib/ingest/schemas'
+import { recordEvents, type TaskEventInput } from '@/lib/events'
+import {
+  agentMentioned,
+  emitWebhooks,
+  subtaskCreated,
+  taskCreated,
+} from '@/lib/webhooks'
+import { recordMentions } from '@/lib/mentions'
+import type { MentionRow, SubtaskRow } from '@/lib/types'
+
+const EMAIL_TYPES = ['message/rfc822', 'text/plain']
+
+async function readInput(
+  request: Request
+): Promise<IngestInput | NextResponse> {
+  const type = (request.headers.get('content-type') ?? '')
+    .split(';')[0]
+    .trim()
+    .toLowerCase()
+
+  if (type === 'application/json') return parseBody(request, ingestInput)
+  if (!EMAIL_TYPES.includes(type)) {
+    return jsonError(
+      415,
+      'Content-Type must be application/json, message/rfc822 or text/plain'
+    )
+  }
+
+  const result = ingestInput.safeParse(emailToIngest(await request.text()))
+  if (!result.success) {
+    return jsonError(422, 'Invalid payload', z.flattenError(result.error))
+  }
+  return result.data
+}
+
+// Creates an inbox task (plus optional subtasks) on behalf of an
+// integration. A repeated idempotency key returns the original task with
+// 200 instead of creating another one.
+export async function POST(request: Request) {
+  const integration = await authenticateIntegration(request)
+  if (integration instanceof NextResponse) return integration
+
+  const input = await readInput(request)
+  if (input instanceof NextResponse) return input
+
+  const { supabase, workspace_id } = integration
+  const created_by = integration.name
+  const idempotency_key =
+    request.headers.get('idempotency-key')?.trim().slice(0, 200) ||
+    input.idempotency_key ||
+    null
+
+  const findExisting = async (key: string) => {
+    const { data: task, error } = await supabase
+      .from('tasks')
+      .select(TASK_COLUMNS)
+      .eq('workspace_id', workspace_id)
+      .eq('created_by', created_by)
+      .eq('idempotency_key', key)
+      .maybeSingle()
+    if (error) return jsonError(500, error.message)
+    if (!task) return null
+
+    const { data: subtasks, error: subtasksErr } = await supabase
+      .from('subtasks')
+      .select(SUBTASK_COLUMNS)
+      .eq('task_id', task.id)
+      .order('created_at', { ascending: true })
+    if (subtasksErr) return jsonError(500, subtasksErr.message)
+
+    return NextResponse.json({ task, subtasks, duplicate: true })
+  }
+
+  if (idempotency_key) {
+    const existing = await findExisting(idempotency_key)
+    if (existing) return existing
+  }
+
+  // New tasks go to the top of the inbox column.
+  const { data: first, error: firstErr } = await supabase
+    .from('tasks')
+    .select('position')
+    .eq('workspace_id', workspace_id)
+    .eq('status', 'inbox')
+    .order('position', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+  if (firstErr) return jsonError(500, firstErr.message)
+
+  const { data: task, error } = await supabase
+    .from('tasks')
+    .insert({
+      workspace_id,
+      title: input.title,
+      description: input.description ?? null,
+      priority: input.priority,
+      status: 'inbox',
+      position: positionBetween(undefined, first?.position),
+      created_by,
+      idempotency_key,
+    })
+    .select(TASK_COLUMNS)
+    .single()
+
+  if (error) {
+    // Lost a race with a concurrent retry carrying the same key.
+    if (error.code === '23505' && idempotency_key) {
+      const existing = await findExisting(idempotency_key)
+      if (existing) return existing
+    }
+    return jsonError(500, error.message)
+  }
+
+  let subtasks: SubtaskRow[] = []
+  const mentions: MentionRow[] = []
+  try {
+    if (input.subtasks?.length) {
+      const { data, error: subtasksErr } = await supabase
+        .from('subtasks')
+        .insert(
+          input.subtasks.map((s) => ({
+            workspace_id,
+            task_id: task.id,
+            title: s.title,
+            definition_of_done: s.definition_of_done ?? s.title,
+            status: 'inbox' as const,
+          }))
+        )
+        .select(SUBTASK_COLUMNS)
+      if (subtasksErr) throw new Error(subtasksErr.message)
+      subtasks = data
+    }
+
+    const events: TaskEventInput[] = subtasks.map((s) => ({
+      task_id: task.id,
+      subtask_id: s.id,
+      kind: 'subtask_created',
+      after: s.title,
+    }))
+    await recordEvents(supabase, workspace_id, { type: 'system' }, events)
+    mentions.push(
+      ...(await recordMentions(
+        supabase,
+        workspace_id,
+        { type: 'system' },
+        { source: 'description', task_id: task.id },
+        task.description
+      ))
+    )
+    for (const s of subtasks) {
+      mentions.push(
+        ...(await recordMentions(
+          supabase,
+          workspace_id,
+          { type: 'system' },
+          { source: 'definition_of_done', task_id: task.id, subtask_id: s.id },
+          s.definition_of_done
+        ))
+      )
+    }
+  } catch (err) {
+    // Undo the half-created task (subtasks, events and mentions cascade).
+    // That also frees the idempotency key, so the sender's retry creates
+    // it again instead of getting it back as a duplicate.
+    const { error: rollbackErr } = await supabase
+      .from('tasks')
+      .delete()
+      .eq('id', task.id)
+    if (rollbackErr) {
+      console.error(`ingest: could not roll back task ${task.id}`, rollbackErr)
+    }
+    return jsonError(500, (err as Error).message)
+  }
+
+  await emitWebhooks(workspace_id, [
+    taskCreated(task),
+    ...subtasks.map(subtaskCreated),
+    ...mentions.map(agentMentioned),
+  ])
+
+  return NextResponse.json({ task, subtasks }, { status: 201 })
+}
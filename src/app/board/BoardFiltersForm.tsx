@@ -0,0 +1,173 @@
+import Link from 'next/link'
+import { PRIORITIES, STATUSES } from '@/lib/status'
+import { filtersToQuery, hasFilters, type BoardFilters } from '@/lib/filters'
+import type { FormAction } from '@/lib/actions'
+import type { Tables } from '@/lib/database.types'
+import type { AgentRow } from '@/lib/types'
+import { getI18n } from '@/lib/i18n/server'
+import ActionForm, { FieldError } from '../ActionForm'
+
+export type BoardViewRow = Pick<Tables<'board_views'>, 'id' | 'name' | 'query'>
+
+// Plain GET form: filters live in the URL so any filtered board can be
+// bookmarked or shared, and saved views are just named query strings.
+export default async function BoardFiltersForm({
+  filters,
+  agents,
+  views,
+  saveView,
+  deleteView,
+}: {
+  filters: BoardFilters
+  agents: Pick<AgentRow, 'id' | 'name'>[]
+  views: BoardViewRow[]
+  saveView: FormAction
+  deleteView: FormAction
+}) {
+  const query = filtersToQuery(filters)
+  const { t } = await getI18n()
+
+  return (
+    <section className="mt-6 border rounded p-4">
+      <form
+        method="get"
+        action="/board"
+        className="flex flex-wrap gap-3 items-end"
+      >
+        <label className="text-sm">
+          <div className="text-xs mb-1">{t('filters.search')}</div>
+          <input
+            name="q"
+            defaultValue={filters.q}
+            placeholder={t('filters.searchPlaceholder')}
+            className="border rounded px-2 py-1"
+          />
+        </label>
+
+        <fieldset className="text-sm">
+          <legend className="text-xs mb-1">{t('filters.status')}</legend>
+          <div className="flex flex-wrap gap-2">
+            {STATUSES.map((s) => (
+              <label key={s} className="text-xs flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  name="status"
+                  value={s}
+                  defaultChecked={filters.statuses.includes(s)}
+                />
+                {t(`status.${s}`)}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset className="text-sm">
+          <legend className="text-xs mb-1">{t('filters.priority')}</legend>
+          <div className="flex gap-2">
+            {PRIORITIES.map((p) => (
+              <label key={p} className="text-xs flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  name="priority"
+                  value={p}
+                  defaultChecked={filters.priorities.includes(p)}
+                />
+                {t(`priority.${p}`)}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <label className="text-sm">
+          <div className="text-xs mb-1">{t('filters.agent')}</div>
+          <select
+            name="agent"
+            defaultValue={filters.agent}
+            className="border rounded px-2 py-1"
+          >
+            <option value="">{t('filters.all')}</option>
+            <option value="none">{t('common.unassigned')}</option>
+            {agents.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="text-sm">
+          <div className="text-xs mb-1">{t('filters.updatedSince')}</div>
+          <input
+            type="date"
+            name="since"
+            defaultValue={filters.since}
+            className="border rounded px-2 py-1"
+          />
+        </label>
+
+        <button className="border rounded px-3 py-1 text-sm">
+          {t('filters.apply')}
+        </button>
+        {hasFilters(filters) && (
+          <Link className="underline text-sm" href="/board">
+            {t('filters.clear')}
+          </Link>
+        )}
+      </form>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-xs text-muted-foreground">
+          {t('filters.views')}
+        </span>
+        {views.map((v) => (
+          <ActionForm
+            key={v.id}
+            action={deleteView}
+            className="flex flex-wrap items-center"
+          >
+            <input type="hidden" name="id" value={v.id} />
+            <Link
+              className={`underline ${v.query === query ? 'font-semibold' : ''}`}
+              href={v.query ? `/board?${v.query}` : '/board'}
+            >
+              {v.name}
+            </Link>
+            <button
+              className="ml-1 text-xs text-muted-foreground"
+              aria-label={t('filters.deleteView', { name: v.name })}
+            >
+              ×
+            </button>
+          </ActionForm>
+        ))}
+        {views.length === 0 && (
+          <span className="text-xs text-muted-foreground">
+            {t('filters.noViews')}
+          </span>
+        )}
+
+        {hasFilters(filters) && (
+          <ActionForm
+            action={saveView}
+            resetOnSuccess
+            className="flex flex-wrap gap-2 ml-auto"
+          >
+            <input type="hidden" name="query" value={query} />
+            <div>
+              <input
+                name="name"
+                placeholder={t('filters.viewName')}
+                className="text-xs border rounded px-2 py-1"
+                required
+              />
+              <FieldError name="name" />
+            </div>
+            <button className="text-xs border rounded px-2 py-1 self-start">
+              {t('filters.saveView')}
+            </button>
+          </ActionForm>
+        )}
+      </div>
+    </section>
+  )
+}
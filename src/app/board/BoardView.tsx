@@ -0,0 +1,595 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useEffect, useMemo, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { createClient } from '@/lib/supabase/client'
+import { useLiveRows, useRecentlyChanged } from '@/lib/realtime'
+import {
+  OPEN_STATUSES,
+  PRIORITIES,
+  STATUSES,
+  type Priority,
+  type Status,
+} from '@/lib/status'
+import { isClosed, nextStatuses } from '@/lib/workflow'
+import {
+  byPriorityThenPosition,
+  rankAt,
+  type BoardSubtask,
+  type BoardTask,
+  type MoveTaskInput,
+  type MoveTaskResult,
+  type UpdateCardInput,
+} from '@/lib/tasks'
+import type { AgentRow, CommentRow } from '@/lib/types'
+import { resultMessage, type FormAction } from '@/lib/actions'
+import type { WipLimit } from '@/lib/wip'
+import { dueState, isSlaBreached, type SlaRule } from '@/lib/sla'
+import { useI18n } from '@/lib/i18n/client'
+import {
+  STATUS_KEY,
+  STATUS_KEYS,
+  isPlainKey,
+  type Command,
+} from '@/lib/commands'
+import {
+  boardTasksQuery,
+  filtersToQuery,
+  matchesBoardFilters,
+  visibleStatuses,
+  type BoardFilters,
+} from '@/lib/filters'
+import { useCommands } from '../CommandPalette'
+import Toast, { useToast } from '../Toast'
+
+const subtasksKey = ['board', 'subtasks']
+
+const PRIORITY_BADGE: Record<Priority, string> = {
+  low: 'bg-gray-100 text-gray-700',
+  medium: 'bg-blue-100 text-blue-800',
+  high: 'bg-orange-100 text-orange-800',
+  urgent: 'bg-red-600 text-white',
+}
+
+type DropTarget = { status: Status; index: number }
+
+export default function BoardView({
+  initialTasks,
+  initialSubtasks,
+  filters,
+  wipLimits,
+  slaRules,
+  agents,
+  moveTask,
+  updateCard,
+  createTask,
+}: {
+  initialTasks: BoardTask[]
+  initialSubtasks: BoardSubtask[]
+  filters: BoardFilters
+  wipLimits: WipLimit[]
+  slaRules: SlaRule[]
+  agents: Pick<AgentRow, 'id' | 'name'>[]
+  moveTask: (input: MoveTaskInput) => Promise<MoveTaskResult>
+  updateCard: (input: UpdateCardInput) => Promise<MoveTaskResult>
+  createTask: FormAction
+}) {
+  const supabase = useMemo(() => createClient(), [])
+  const router = useRouter()
+  const { t, fmt, timeZone } = useI18n()
+  const queryClient = useQueryClient()
+  const [changed, markChanged] = useRecentlyChanged()
+
+  const [dragId, setDragId] = useState<string | null>(null)
+  const [drop, setDrop] = useState<DropTarget | null>(null)
+  const [focusId, setFocusId] = useState<string | null>(null)
+  // Last card to get focus; the palette's card commands act on it.
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [toast, showToast] = useToast()
+  const [announcement, setAnnouncement] = useState('')
+
+  const tasksKey = ['board', 'tasks', filtersToQuery(filters)]
+  const statuses = visibleStatuses(filters)
+
+  const { data: tasks } = useQuery({
+    queryKey: tasksKey,
+    queryFn: async () => {
+      const { data, error } = await boardTasksQuery(supabase, filters)
+      if (error) throw new Error(error.message)
+      return data.sort(byPriorityThenPosition)
+    },
+    initialData: initialTasks,
+  })
+
+  const { data: subtasks } = useQuery({
+    queryKey: subtasksKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('subtasks')
+        .select('id,task_id,status')
+        .in('status', OPEN_STATUSES)
+      if (error) throw new Error(error.message)
+      return data
+    },
+    initialData: initialSubtasks,
+  })
+
+  useLiveRows<BoardTask>({
+    table: 'tasks',
+    queryKey: tasksKey,
+    sort: byPriorityThenPosition,
+    accept: (t) => matchesBoardFilters(t, filters),
+    onChange: (t) => markChanged(t.id),
+  })
+  useLiveRows<BoardSubtask>({
+    table: 'subtasks',
+    queryKey: subtasksKey,
+    onChange: (s) => markChanged(s.task_id),
+  })
+  // Comments aren't shown on the board, only flagged on their card.
+  useLiveRows<CommentRow>({
+    table: 'comments',
+    onChange: (c) => markChanged(c.task_id),
+  })
+
+  // Optimistic: the card moves immediately and snaps back if the server
+  // rejects the move (illegal transition, RLS, network).
+  const move = useMutation({
+    mutationFn: async (input: MoveTaskInput) => {
+      const result = await moveTask(input)
+      if (!result.ok) throw new Error(result.error)
+      return result
+    },
+    onMutate: async (input) => {
+      await queryClient.cancelQueries({ queryKey: tasksKey })
+      const previous = queryClient.getQueryData<BoardTask[]>(tasksKey)
+      queryClient.setQueryData<BoardTask[]>(tasksKey, (rows = []) =>
+        rows
+          .map((t) =>
+            t.id === input.id
+              ? { ...t, status: input.status, position: input.position }
+              : t
+          )
+          .sort(byPriorityThenPosition)
+      )
+      return { previous }
+    },
+    onSuccess: (result) => {
+      if (result.warning) showToast(result.warning, 'warning')
+    },
+    onError: (err, _input, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(tasksKey, context.previous)
+      }
+      showToast(t('board.moveFailed', { error: err.message }))
+    },
+  })
+
+  const edit = useMutation({
+    mutationFn: async (input: UpdateCardInput) => {
+      const result = await updateCard(input)
+      if (!result.ok) throw new Error(result.error)
+      return result
+    },
+    onMutate: async ({ id, ...patch }) => {
+      await queryClient.cancelQueries({ queryKey: tasksKey })
+      const previous = queryClient.getQueryData<BoardTask[]>(tasksKey)
+      queryClient.setQueryData<BoardTask[]>(tasksKey, (rows = []) =>
+        rows
+          .map((t) => (t.id === id ? { ...t, ...patch } : t))
+          .sort(byPriorityThenPosition)
+      )
+      return { previous }
+    },
+    onError: (err, _input, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(tasksKey, context.previous)
+      }
+      showToast(t('board.editFailed', { error: err.message }))
+    },
+  })
+
+  // Keyboard moves remount the card in another column; keep focus on it.
+  useEffect(() => {
+    if (!focusId) return
+    document
+      .querySelector<HTMLElement>(`[data-task-id="${focusId}"]`)
+      ?.focus()
+  }, [focusId, tasks])
+
+  const openByTask = new Map<string, number>()
+  subtasks.forEach((s) => {
+    if (isClosed(s.status)) return
+    openByTask.set(s.task_id, (openByTask.get(s.task_id) ?? 0) + 1)
+  })
+
+  const byStatus = new Map<Status, BoardTask[]>()
+  STATUSES.forEach((s) => byStatus.set(s, []))
+  tasks.forEach((t) => {
+    byStatus.get(t.status)?.push(t)
+  })
+
+  const wipByStatus = new Map(wipLimits.map((l) => [l.status, l]))
+
+  const dragged = dragId ? tasks.find((t) => t.id === dragId) : undefined
+
+  const canMoveTo = (task: BoardTask, status: Status) =>
+    nextStatuses(task.status, {
+      openSubtasks: openByTask.get(task.id),
+    }).includes(status)
+
+  // Column without the moving task; drop indexes refer to this list.
+  const columnWithout = (status: Status, taskId: string) =>
+    (byStatus.get(status) ?? []).filter((t) => t.id !== taskId)
+
+  function requestMove(task: BoardTask, status: Status, index: number) {
+    const column = columnWithout(status, task.id)
+    const currentIndex = (byStatus.get(task.status) ?? []).indexOf(task)
+    if (status === task.status && index === currentIndex) return
+
+    if (!canMoveTo(task, status)) {
+      showToast(
+        t('board.cannotMove', {
+          from: t(`status.${task.status}`),
+          to: t(`status.${status}`),
+        })
+      )
+      return
+    }
+
+    let reason: string | undefined
+    if (status === 'blocked' && task.status !== 'blocked') {
+      reason = window
+        .prompt(t('board.blockReason', { title: task.title }))
+        ?.trim()
+      if (!reason) return
+    }
+
+    move.mutate({
+      id: task.id,
+      status,
+      position: rankAt(task, column, index),
+      reason,
+    })
+    setAnnouncement(
+      t('board.moved', {
+        title: task.title,
+        status: t(`status.${status}`),
+        position: index + 1,
+      })
+    )
+  }
+
+  // Moves to the end of the column, like a drop on its empty space.
+  const moveToStatus = (task: BoardTask, status: Status) =>
+    requestMove(task, status, columnWithout(status, task.id).length)
+
+  // Cards in reading order: column by column, top to bottom.
+  const cardOrder = statuses.flatMap((s) => byStatus.get(s) ?? [])
+
+  const focusCard = (id: string) =>
+    document.querySelector<HTMLElement>(`[data-task-id="${id}"]`)?.focus()
+
+  // j/k with no card focused starts from the first one.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || !isPlainKey(e)) return
+      if (e.key !== 'j' && e.key !== 'k') return
+      const first = document.querySelector<HTMLElement>('[data-task-id]')
+      if (!first) return
+      e.preventDefault()
+      first.focus()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
+
+  // j/k, Enter and the status letters.
+  function onCardShortcut(e: React.KeyboardEvent, task: BoardTask) {
+    const status = STATUS_KEYS[e.key]
+
+    if (e.key === 'j' || e.key === 'k') {
+      const step = e.key === 'j' ? 1 : -1
+      const next = cardOrder[cardOrder.indexOf(task) + step]
+      if (next) focusCard(next.id)
+    } else if (e.key === 'Enter' && e.target === e.currentTarget) {
+      router.push(`/task/${task.id}`)
+    } else if (status && status !== task.status) {
+      moveToStatus(task, status)
+      setFocusId(task.id)
+    } else {
+      return
+    }
+
+    e.preventDefault()
+  }
+
+  function onCardKeyDown(e: React.KeyboardEvent, task: BoardTask) {
+    if (isPlainKey(e)) return onCardShortcut(e, task)
+    if (!e.altKey) return
+
+    const column = byStatus.get(task.status) ?? []
+    const index = column.indexOf(task)
+    const col = statuses.indexOf(task.status)
+
+    if (e.key === 'ArrowUp' && index > 0) {
+      requestMove(task, task.status, index - 1)
+    } else if (e.key === 'ArrowDown' && index < column.length - 1) {
+      requestMove(task, task.status, index + 1)
+    } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      // Jump to the nearest shown column in that direction the task may
+      // enter; a hidden one would take the card out from under the focus.
+      const step = e.key === 'ArrowLeft' ? -1 : 1
+      let target: Status | undefined
+      for (let i = col + step; i >= 0 && i < statuses.length; i += step) {
+        if (canMoveTo(task, statuses[i])) {
+          target = statuses[i]
+          break
+        }
+      }
+      if (!target) {
+        showToast(t('board.noValidStatus'))
+      } else {
+        moveToStatus(task, target)
+      }
+    } else {
+      return
+    }
+
+    e.preventDefault()
+    setFocusId(task.id)
+  }
+
+  async function create(title: string) {
+    const formData = new FormData()
+    formData.set('title', title)
+    const result = await createTask(null, formData)
+    if (result.ok) setAnnouncement(t('palette.created', { title }))
+    else showToast(resultMessage(result, t)!)
+  }
+
+  const active = tasks.find((task) => task.id === activeId)
+  const commands: Command[] = []
+  if (active) {
+    const group = t('palette.focused', { title: active.title })
+    commands.push(
+      {
+        id: 'card:open',
+        group,
+        label: t('palette.open'),
+        shortcut: 'Enter',
+        run: () => router.push(`/task/${active.id}`),
+      },
+      ...nextStatuses(active.status, {
+        openSubtasks: openByTask.get(active.id),
+      })
+        .filter((status) => status !== active.status)
+        .map((status) => ({
+          id: `card:status:${status}`,
+          group,
+          label: t('palette.setStatus', { status: t(`status.${status}`) }),
+          shortcut: STATUS_KEY[status],
+          run: () => moveToStatus(active, status),
+        })),
+      ...PRIORITIES.filter((p) => p !== active.priority).map((priority) => ({
+        id: `card:priority:${priority}`,
+        group,
+        label: t('palette.setPriority', {
+          priority: t(`priority.${priority}`),
+        }),
+        run: () => edit.mutate({ id: active.id, priority }),
+      })),
+      ...agents
+        .filter((agent) => agent.id !== active.assigned_agent_id)
+        .map((agent) => ({
+          id: `card:assign:${agent.id}`,
+          group,
+          label: t('palette.assign', { agent: agent.name }),
+          run: () => edit.mutate({ id: active.id, assigned_agent_id: agent.id }),
+        }))
+    )
+    if (active.assigned_agent_id) {
+      commands.push({
+        id: 'card:unassign',
+        group,
+        label: t('palette.unassign'),
+        run: () => edit.mutate({ id: active.id, assigned_agent_id: null }),
+      })
+    }
+  }
+  commands.push({
+    id: 'create-task',
+    group: t('palette.tasks'),
+    label: t('palette.createTask'),
+    withQuery: true,
+    run: (title) => void create(title),
+  })
+  useCommands(commands)
+
+  function onDropColumn(e: React.DragEvent) {
+    e.preventDefault()
+    if (dragged && drop) requestMove(dragged, drop.status, drop.index)
+    setDragId(null)
+    setDrop(null)
+  }
+
+  const indicator = (
+    <div className="h-1 rounded bg-blue-500" aria-hidden="true" />
+  )
+
+  return (
+    <>
+      <p id="board-keyboard-help" className="sr-only">
+        {t('board.keyboardHelp')}
+      </p>
+      <div aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+      <p className="mb-3 text-xs text-muted-foreground">
+        {t('board.shortcuts')}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {statuses.map((status) => {
+          const column = byStatus.get(status) ?? []
+          const droppable = dragged ? canMoveTo(dragged, status) : false
+          const wip = wipByStatus.get(status)
+          let slot = 0
+
+          return (
+            <div
+              key={status}
+              className={`border rounded p-3 ${
+                dragged && !droppable ? 'opacity-40' : ''
+              }`}
+              onDragOver={(e) => {
+                if (!droppable || !dragged) return
+                e.preventDefault()
+                if (drop?.status !== status) {
+                  setDrop({
+                    status,
+                    index: columnWithout(status, dragged.id).length,
+                  })
+                }
+              }}
+              onDrop={onDropColumn}
+            >
+              <div className="flex items-baseline justify-between gap-2">
+                <div className="font-medium">{t(`status.${status}`)}</div>
+                {wip && (
+                  <div
+                    className={`text-xs ${
+                      column.length > wip.max_tasks
+                        ? 'text-red-600 font-medium'
+                        : 'text-muted-foreground'
+                    }`}
+                    title={t(
+                      wip.mode === 'block' ? 'board.wipBlock' : 'board.wipWarn'
+                    )}
+                  >
+                    {column.length}/{wip.max_tasks}
+                  </div>
+                )}
+              </div>
+              <div
+                className="mt-3 space-y-3"
+                role="list"
+                aria-label={t(`status.${status}`)}
+              >
+                {column.map((task) => {
+                  const isDragged = task.id === dragId
+                  const index = isDragged ? -1 : slot++
+                  const due = dueState(task, new Date(), timeZone)
+                  const breached = isSlaBreached(task, slaRules)
+
+                  return (
+                    <div key={task.id} role="listitem">
+                      {drop?.status === status &&
+                        drop.index === index &&
+                        indicator}
+                      <div
+                        data-task-id={task.id}
+                        tabIndex={0}
+                        draggable
+                        aria-describedby="board-keyboard-help"
+                        onFocus={() => setActiveId(task.id)}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move'
+                          e.dataTransfer.setData('text/plain', task.id)
+                          setDragId(task.id)
+                        }}
+                        onDragEnd={() => {
+                          setDragId(null)
+                          setDrop(null)
+                        }}
+                        onDragOver={(e) => {
+                          if (!droppable || !dragged || isDragged) return
+                          e.preventDefault()
+                          e.stopPropagation()
+                          const rect = e.currentTarget.getBoundingClientRect()
+                          const below = e.clientY > rect.top + rect.height / 2
+                          setDrop({ status, index: index + (below ? 1 : 0) })
+                        }}
+                        onKeyDown={(e) => onCardKeyDown(e, task)}
+                        className={`border rounded p-2 cursor-grab transition-shadow focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                          changed.has(task.id) ? 'ring-2 ring-amber-400' : ''
+                        } ${isDragged ? 'opacity-50' : ''} ${
+                          due === 'overdue' || breached ? 'border-red-500' : ''
+                        }`}
+                      >
+                        <div className="text-sm font-medium">
+                          <span
+                            className={`mr-2 rounded px-1.5 py-0.5 text-[10px] font-semibold uppercase ${PRIORITY_BADGE[task.priority]}`}
+                          >
+                            {t(`priority.${task.priority}`)}
+                          </span>
+                          <Link className="underline" href={`/task/${task.id}`}>
+                            {task.title}
+                          </Link>
+                          {changed.has(task.id) && (
+                            <span className="ml-2 text-xs font-normal text-amber-600">
+                              {t('common.updated')}
+                            </span>
+                          )}
+                        </div>
+                        {(due || breached) && (
+                          <div className="mt-1 flex gap-1 text-[10px] font-semibold uppercase">
+                            {due && (
+                              <span
+                                className={`rounded px-1.5 py-0.5 ${
+                                  due === 'overdue'
+                                    ? 'bg-red-100 text-red-800'
+                                    : 'bg-amber-100 text-amber-800'
+                                }`}
+                                title={t('board.dueOn', {
+                                  date: fmt.date(task.due_date!),
+                                })}
+                              >
+                                {t(
+                                  due === 'overdue'
+                                    ? 'board.overdue'
+                                    : 'board.dueToday'
+                                )}
+                              </span>
+                            )}
+                            {breached && (
+                              <span
+                                className="rounded px-1.5 py-0.5 bg-red-600 text-white"
+                                title={t('board.slaBreached', {
+                                  status: t(`status.${task.status}`),
+                                })}
+                              >
+                                SLA
+                              </span>
+                            )}
+                          </div>
+                        )}
+                        {task.description && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {task.description}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+
+                {drop?.status === status && drop.index === slot && indicator}
+
+                {column.length === 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    {t('board.empty')}
+                  </div>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <Toast toast={toast} />
+    </>
+  )
+}
@@ -1,190 +1,483 @@
 import Link from 'next/link'
-import { redirect } from 'next/navigation'
+import { revalidatePath } from 'next/cache'
+import { redirect, unstable_rethrow } from 'next/navigation'
 import { createServerSupabase } from '@/lib/supabase/server'
+import {
+  getSession,
+  hasRole,
+  humanActor,
+  roleError,
+  roleMessage,
+} from '@/lib/workspaces'
+import { OPEN_STATUSES, PRIORITIES } from '@/lib/status'
+import { getI18n } from '@/lib/i18n/server'
+import {
+  byPriorityThenPosition,
+  countOpenSubtasks,
+  positionBetween,
+  type MoveTaskInput,
+  type MoveTaskResult,
+  type UpdateCardInput,
+} from '@/lib/tasks'
+import { recordEvents, type TaskEventInput } from '@/lib/events'
+import {
+  agentMentioned,
+  commentAdded,
+  emitWebhooks,
+  eventWebhooks,
+  taskCreated,
+} from '@/lib/webhooks'
+import { unblockDependents } from '@/lib/dependencies'
+import { recordCommentMentions, recordMentions } from '@/lib/mentions'
+import { checkWipLimit, fetchWipLimits } from '@/lib/wip'
+import { fetchSlaRules } from '@/lib/sla'
+import { isClosed, transitionError } from '@/lib/workflow'
+import {
+  applyTitlePattern,
+  getTemplate,
+  insertTemplateSubtasks,
+  templateSubtasks,
+} from '@/lib/templates'
+import {
+  actionError,
+  errorMessage,
+  parseForm,
+  validationMessage,
+  type FormAction,
+} from '@/lib/actions'
+import {
+  createTaskInput,
+  idInput,
+  moveTaskInput,
+  saveViewInput,
+  updateCardInput,
+} from '@/lib/schemas'
+import {
+  firstPosition,
+  getTaskState,
+  insertComment,
+  insertTask,
+  patchTask,
+} from '@/lib/repository'
+import {
+  boardTasksQuery,
+  filtersToQuery,
+  hasFilters,
+  parseBoardFilters,
+  type SearchParams,
+} from '@/lib/filters'
+import ActionForm, { FieldError } from '../ActionForm'
+import BoardView from './BoardView'
+import BoardFiltersForm from './BoardFiltersForm'
+import AppNav from '../AppNav'
 
-const STATUSES = [
-  'inbox',
-  'triage',
-  'in_progress',
-  'blocked',
-  'review',
-  'needs_nico',
-  'done',
-  'canceled',
-] as const
-
-type Status = (typeof STATUSES)[number]
-
-type TaskRow = {
-  id: string
-  title: string
-  description: string | null
-  status: Status
-  priority: 'low' | 'medium' | 'high' | 'urgent'
-  updated_at: string
+async function moveTask(input: MoveTaskInput): Promise<MoveTaskResult> {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = moveTaskInput.safeParse(input)
+  if (!parsed.success) {
+    return {
+      ok: false,
+      error: validationMessage(parsed.error.issues[0].message, t),
+    }
+  }
+  const { id, status, position } = parsed.data
+  const reason = parsed.data.reason ?? ''
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) {
+    return { ok: false, error: roleMessage('editor', t) }
+  }
+  const actor = humanActor(session)
+
+  try {
+    const current = await getTaskState(supabase, id)
+
+    const invalid = transitionError(
+      current.status,
+      status,
+      { openSubtasks: await countOpenSubtasks(supabase, id), reason },
+      t
+    )
+    if (invalid) return { ok: false, error: invalid }
+
+    let warning: string | undefined
+    if (current.status !== status) {
+      const wip = await checkWipLimit(supabase, status, id, t)
+      if (wip.error) return { ok: false, error: wip.error }
+      warning = wip.warning
+    }
+
+    await patchTask(supabase, id, { status, position })
+
+    const events: TaskEventInput[] = [
+      { task_id: id, kind: 'task_status', before: current.status, after: status },
+    ]
+    await recordEvents(supabase, session.workspace_id, actor, events)
+    const webhooks = eventWebhooks(actor, events)
+
+    if (status === 'blocked' && current.status !== 'blocked') {
+      const comment = await insertComment(supabase, {
+        workspace_id: session.workspace_id,
+        task_id: id,
+        author_type: 'human',
+        author_user_id: session.user_id,
+        body: t('workflow.blockedComment', { reason }),
+      })
+      const mentions = await recordCommentMentions(
+        supabase,
+        session.workspace_id,
+        actor,
+        comment
+      )
+      webhooks.push(commentAdded(comment), ...mentions.map(agentMentioned))
+    }
+    if (isClosed(status) && !isClosed(current.status)) {
+      webhooks.push(
+        ...(await unblockDependents(supabase, session.workspace_id, id, t))
+      )
+    }
+
+    await emitWebhooks(session.workspace_id, webhooks)
+
+    return { ok: true, warning }
+  } catch (err) {
+    unstable_rethrow(err)
+    return { ok: false, error: errorMessage(err, t) }
+  }
 }
 
-async function moveTask(formData: FormData) {
+// Priority and assignee changes from the command palette.
+async function updateCard(input: UpdateCardInput): Promise<MoveTaskResult> {
   'use server'
 
-  const id = String(formData.get('id'))
-  const status = String(formData.get('status')) as Status
+  const { t } = await getI18n()
+  const parsed = updateCardInput.safeParse(input)
+  if (!parsed.success) {
+    return {
+      ok: false,
+      error: validationMessage(parsed.error.issues[0].message, t),
+    }
+  }
+  const { id } = parsed.data
 
   const supabase = await createServerSupabase()
-  const {
-    data: { user },
-  } = await supabase.auth.getUser()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) {
+    return { ok: false, error: roleMessage('editor', t) }
+  }
+  const actor = humanActor(session)
 
-  if (!user) redirect('/login')
+  try {
+    const current = await getTaskState(supabase, id)
+    const priority = parsed.data.priority ?? current.priority
+    const assigned_agent_id =
+      parsed.data.assigned_agent_id === undefined
+        ? current.assigned_agent_id
+        : parsed.data.assigned_agent_id
 
-  const { error } = await supabase
-    .from('tasks')
-    .update({ status })
-    .eq('id', id)
+    await patchTask(supabase, id, { priority, assigned_agent_id })
+
+    const events: TaskEventInput[] = [
+      {
+        task_id: id,
+        kind: 'task_priority',
+        before: current.priority,
+        after: priority,
+      },
+      {
+        task_id: id,
+        kind: 'task_assignee',
+        before: current.assigned_agent_id,
+        after: assigned_agent_id,
+      },
+    ]
+    await recordEvents(supabase, session.workspace_id, actor, events)
+    await emitWebhooks(session.workspace_id, eventWebhooks(actor, events))
 
-  if (error) throw new Error(error.message)
+    return { ok: true }
+  } catch (err) {
+    unstable_rethrow(err)
+    return { ok: false, error: errorMessage(err, t) }
+  }
 }
 
-async function createTask(formData: FormData) {
+const createTask: FormAction = async (_prev, formData) => {
   'use server'
 
-  const title = String(formData.get('title') ?? '').trim()
-  const description = String(formData.get('description') ?? '').trim()
+  const { t, timeZone } = await getI18n()
+  const parsed = parseForm(createTaskInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { template_id, ...input } = parsed.data
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+  const actor = humanActor(session)
+
+  try {
+    const template = template_id
+      ? await getTemplate(supabase, template_id)
+      : null
+    const title = template
+      ? applyTitlePattern(template.title_pattern, input.title, timeZone)
+      : input.title
+    if (!title) {
+      return { ok: false, fieldErrors: { title: [t('board.titleRequired')] } }
+    }
+
+    // New tasks go to the top of the inbox column.
+    const task = await insertTask(supabase, {
+      title,
+      description: input.description ?? template?.description ?? null,
+      priority: input.priority ?? template?.priority ?? 'medium',
+      assigned_agent_id: template?.assigned_agent_id ?? null,
+      workspace_id: session.workspace_id,
+      status: 'inbox',
+      position: positionBetween(
+        undefined,
+        await firstPosition(supabase, 'inbox')
+      ),
+      created_by: 'human',
+      created_by_user_id: session.user_id,
+    })
+    if (task.assigned_agent_id) {
+      await recordEvents(supabase, session.workspace_id, actor, [
+        {
+          task_id: task.id,
+          kind: 'task_assignee',
+          before: null,
+          after: task.assigned_agent_id,
+        },
+      ])
+    }
+    const mentions = await recordMentions(
+      supabase,
+      session.workspace_id,
+      actor,
+      { source: 'description', task_id: task.id },
+      task.description
+    )
+    const subtaskWebhooks = template
+      ? await insertTemplateSubtasks(
+          supabase,
+          session.workspace_id,
+          actor,
+          task.id,
+          templateSubtasks(template)
+        )
+      : []
+    // The assignment is part of the created payload, not a separate update.
+    await emitWebhooks(session.workspace_id, [
+      taskCreated(task),
+      ...mentions.map(agentMentioned),
+      ...subtaskWebhooks,
+    ])
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  return { ok: true }
+}
+
+const saveView: FormAction = async (_prev, formData) => {
+  'use server'
 
-  if (!title) return
+  const { t } = await getI18n()
+  const parsed = parseForm(saveViewInput, formData, t)
+  if (!parsed.success) return parsed.result
 
   const supabase = await createServerSupabase()
-  const {
-    data: { user },
-  } = await supabase.auth.getUser()
-
-  if (!user) redirect('/login')
-
-  const { error } = await supabase.from('tasks').insert({
-    owner_id: user.id,
-    title,
-    description: description || null,
-    status: 'inbox',
-    priority: 'medium',
-    created_by: 'nico',
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  // Normalize through the parser so only known filters get stored.
+  const filters = parseBoardFilters(
+    Object.fromEntries(new URLSearchParams(parsed.data.query))
+  )
+
+  const { error } = await supabase.from('board_views').insert({
+    workspace_id: session.workspace_id,
+    user_id: session.user_id,
+    name: parsed.data.name,
+    query: filtersToQuery(filters),
   })
 
-  if (error) throw new Error(error.message)
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/board')
+  return { ok: true }
 }
 
-export default async function BoardPage() {
+const deleteView: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(idInput, formData, t)
+  if (!parsed.success) return parsed.result
+
   const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  const { error } = await supabase
+    .from('board_views')
+    .delete()
+    .eq('id', parsed.data.id)
+    .eq('user_id', session.user_id)
 
-  const {
-    data: { user },
-  } = await supabase.auth.getUser()
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/board')
+  return { ok: true }
+}
+
+export default async function BoardPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>
+}) {
+  const filters = parseBoardFilters(await searchParams)
+  const supabase = await createServerSupabase()
+  const { t } = await getI18n()
 
-  if (!user) redirect('/login')
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
 
-  const { data: tasks, error } = await supabase
-    .from('tasks')
-    .select('id,title,description,status,priority,updated_at')
-    .order('updated_at', { ascending: false })
+  const { data: tasks, error } = await boardTasksQuery(supabase, filters)
 
   if (error) {
     return (
       <main className="p-6">
-        <h1 className="text-2xl font-semibold">Centro de Mando</h1>
-        <p className="mt-3 text-sm">Error: {error.message}</p>
+        <h1 className="text-2xl font-semibold">{t('app.title')}</h1>
+        <p className="mt-3 text-sm">
+          {t('common.error', { message: error.message })}
+        </p>
       </main>
     )
   }
 
-  const byStatus = new Map<Status, TaskRow[]>()
-  STATUSES.forEach((s) => byStatus.set(s, []))
-  ;(tasks as TaskRow[] | null)?.forEach((t) => {
-    byStatus.get(t.status)?.push(t)
-  })
+  const { data: openSubtasks } = await supabase
+    .from('subtasks')
+    .select('id,task_id,status')
+    .in('status', OPEN_STATUSES)
+
+  const wipLimits = await fetchWipLimits(supabase)
+  const slaRules = await fetchSlaRules(supabase)
+
+  const { data: agents } = await supabase
+    .from('agents')
+    .select('id,name')
+    .eq('is_active', true)
+    .order('name', { ascending: true })
+
+  const { data: views } = await supabase
+    .from('board_views')
+    .select('id,name,query')
+    .eq('user_id', session.user_id)
+    .order('name', { ascending: true })
+
+  const { data: templates } = await supabase
+    .from('task_templates')
+    .select('id,name,title_pattern')
+    .order('name', { ascending: true })
 
   return (
     <main className="p-6">
       <div className="flex items-end justify-between gap-4">
         <div>
-          <h1 className="text-2xl font-semibold">Centro de Mando</h1>
+          <h1 className="text-2xl font-semibold">{t('app.title')}</h1>
           <p className="text-sm text-muted-foreground mt-1">
-            Kanban v1 conectado a Supabase.
+            {t('board.subtitle')}
           </p>
         </div>
 
-        <div className="text-sm">
-          <Link className="underline" href="/login">
-            Cuenta
-          </Link>
-        </div>
+        <AppNav />
       </div>
 
       <section className="mt-6 max-w-xl">
-        <h2 className="font-medium">Crear task</h2>
-        <form action={createTask} className="mt-2 space-y-2">
-          <input
-            name="title"
-            className="w-full border rounded px-3 py-2"
-            placeholder="Título"
-            required
-          />
+        <h2 className="font-medium">{t('board.createTask')}</h2>
+        <ActionForm action={createTask} resetOnSuccess className="mt-2 space-y-2">
+          <div>
+            <input
+              name="title"
+              className="w-full border rounded px-3 py-2"
+              placeholder={t('common.title')}
+            />
+            <FieldError name="title" />
+          </div>
           <textarea
             name="description"
             className="w-full border rounded px-3 py-2"
-            placeholder="Descripción (opcional)"
+            placeholder={t('board.descriptionPlaceholder')}
             rows={3}
           />
+          <div className="flex flex-wrap gap-2">
+            <select
+              name="priority"
+              defaultValue=""
+              className="border rounded px-2 py-2 text-sm"
+            >
+              <option value="">{t('board.defaultPriority')}</option>
+              {PRIORITIES.map((p) => (
+                <option key={p} value={p}>
+                  {t(`priority.${p}`)}
+                </option>
+              ))}
+            </select>
+            {(templates ?? []).length > 0 && (
+              <select
+                name="template_id"
+                defaultValue=""
+                className="border rounded px-2 py-2 text-sm"
+              >
+                <option value="">{t('board.noTemplate')}</option>
+                {(templates ?? []).map((tpl) => (
+                  <option key={tpl.id} value={tpl.id}>
+                    {tpl.name} — {tpl.title_pattern}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('board.templateHint', { placeholder: '{title}' })}{' '}
+            <Link className="underline" href="/templates">
+              {t('common.templates')}
+            </Link>
+          </p>
           <button className="bg-black text-white rounded px-3 py-2">
-            Crear
+            {t('common.create')}
           </button>
-        </form>
+        </ActionForm>
       </section>
 
-      <section className="mt-10">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-          {STATUSES.map((status) => (
-            <div key={status} className="border rounded p-3">
-              <div className="font-medium capitalize">{status}</div>
-              <div className="mt-3 space-y-3">
-                {(byStatus.get(status) ?? []).map((t) => (
-                  <div key={t.id} className="border rounded p-2">
-                    <div className="text-sm font-medium">
-                      <Link className="underline" href={`/task/${t.id}`}>
-                        {t.title}
-                      </Link>
-                    </div>
-                    {t.description && (
-                      <div className="text-xs text-muted-foreground mt-1">
-                        {t.description}
-                      </div>
-                    )}
-
-                    <form action={moveTask} className="mt-2 flex gap-2">
-                      <input type="hidden" name="id" value={t.id} />
-                      <select
-                        name="status"
-                        defaultValue={t.status}
-                        className="text-xs border rounded px-2 py-1"
-                      >
-                        {STATUSES.map((s) => (
-                          <option key={s} value={s}>
-                            {s}
-                          </option>
-                        ))}
-                      </select>
-                      <button className="text-xs border rounded px-2 py-1">
-                        Mover
-                      </button>
-                    </form>
-                  </div>
-                ))}
+      <BoardFiltersForm
+        filters={filters}
+        agents={agents ?? []}
+        views={views ?? []}
+        saveView={saveView}
+        deleteView={deleteView}
+      />
 
-                {(byStatus.get(status) ?? []).length === 0 && (
-                  <div className="text-xs text-muted-foreground">Vacío</div>
-                )}
-              </div>
-            </div>
-          ))}
-        </div>
+      <section className="mt-10">
+        <BoardView
+          initialTasks={(tasks ?? []).sort(byPriorityThenPosition)}
+          initialSubtasks={openSubtasks ?? []}
+          filters={filters}
+          // Column counts are only meaningful against the unfiltered board.
+          wipLimits={hasFilters(filters) ? [] : wipLimits}
+          slaRules={slaRules}
+          agents={agents ?? []}
+          moveTask={moveTask}
+          updateCard={updateCard}
+          createTask={createTask}
+        />
       </section>
     </main>
   )
@@ -0,0 +1,19 @@
+'use client'
+
+import { useEffect } from 'react'
+
+// Marks the inbox read once it has actually been shown, rather than when
+// the page renders on the server (prefetches would count as visits).
+export default function MarkSeen({
+  at,
+  action,
+}: {
+  at: string
+  action: (at: string) => Promise<void>
+}) {
+  useEffect(() => {
+    void action(at)
+  }, [at, action])
+
+  return null
+}
@@ -0,0 +1,301 @@
+import Link from 'next/link'
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { z } from 'zod'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getI18n } from '@/lib/i18n/server'
+import { getSession, hasRole, humanActor, roleError } from '@/lib/workspaces'
+import { recordEvents, type TaskEventInput } from '@/lib/events'
+import {
+  agentMentioned,
+  commentAdded,
+  emitWebhooks,
+  eventWebhooks,
+} from '@/lib/webhooks'
+import { recordCommentMentions } from '@/lib/mentions'
+import { checkWipLimit } from '@/lib/wip'
+import { transitionError } from '@/lib/workflow'
+import { INBOX_DECISIONS, fetchInbox, markInboxSeen } from '@/lib/inbox'
+import { actionError, parseForm, type FormAction } from '@/lib/actions'
+import { inboxDecisionInput } from '@/lib/schemas'
+import {
+  getSubtaskState,
+  getTaskState,
+  insertComment,
+  patchSubtask,
+  patchTask,
+} from '@/lib/repository'
+import ActionForm, { FieldError } from '../ActionForm'
+import Markdown from '../Markdown'
+import AppNav from '../AppNav'
+import MarkSeen from './MarkSeen'
+
+// Answers a needs_human task or subtask: posts the member's reply as a
+// comment and moves it to the decision's status.
+const decide: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(inboxDecisionInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { kind, id, decision, note } = parsed.data
+  const { status, label } = INBOX_DECISIONS[decision]
+  const body = note ? `${t(label)}: ${note}` : t(label)
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  const actor = humanActor(session)
+  try {
+    const current =
+      kind === 'task'
+        ? { ...(await getTaskState(supabase, id)), task_id: id }
+        : await getSubtaskState(supabase, id)
+
+    if (current.status !== 'needs_human') {
+      return {
+        ok: false,
+        error: t('inbox.notWaiting', {
+          status: t(`status.${current.status}`),
+        }),
+      }
+    }
+    const invalid = transitionError(current.status, status, {}, t)
+    if (invalid) return { ok: false, error: invalid }
+
+    if (kind === 'task') {
+      const wip = await checkWipLimit(supabase, status, id, t)
+      if (wip.error) return { ok: false, error: wip.error }
+      await patchTask(supabase, id, { status })
+    } else {
+      await patchSubtask(supabase, id, { status })
+    }
+
+    const comment = await insertComment(supabase, {
+      workspace_id: session.workspace_id,
+      task_id: current.task_id,
+      subtask_id: kind === 'subtask' ? id : null,
+      author_type: 'human',
+      author_user_id: session.user_id,
+      body,
+    })
+
+    const events: TaskEventInput[] = [
+      {
+        task_id: current.task_id,
+        subtask_id: kind === 'subtask' ? id : null,
+        kind: kind === 'task' ? 'task_status' : 'subtask_status',
+        before: current.status,
+        after: status,
+      },
+    ]
+    await recordEvents(supabase, session.workspace_id, actor, events)
+    const mentions = await recordCommentMentions(
+      supabase,
+      session.workspace_id,
+      actor,
+      comment
+    )
+    await emitWebhooks(session.workspace_id, [
+      ...eventWebhooks(actor, events),
+      commentAdded(comment),
+      ...mentions.map(agentMentioned),
+    ])
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  revalidatePath('/inbox')
+  return { ok: true }
+}
+
+async function markSeen(at: string) {
+  'use server'
+
+  const seenAt = z.iso.datetime().safeParse(at)
+  if (!seenAt.success) return
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) return
+
+  await markInboxSeen(supabase, session, seenAt.data)
+}
+
+export default async function InboxPage() {
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t, fmt } = await getI18n()
+
+  let inbox
+  try {
+    inbox = await fetchInbox(supabase, session.user_id)
+  } catch (err) {
+    return (
+      <main className="p-6">
+        <h1 className="text-2xl font-semibold">{t('inbox.title')}</h1>
+        <p className="mt-3 text-sm">
+          {t('common.error', { message: (err as Error).message })}
+        </p>
+      </main>
+    )
+  }
+
+  const { data: agents } = await supabase
+    .from('agents')
+    .select('id,name,is_active')
+  const agentNames = new Map((agents ?? []).map((a) => [a.id, a.name]))
+  const mentionable = (agents ?? []).filter((a) => a.is_active)
+  const agentName = (agentId: string | null) =>
+    agentId
+      ? (agentNames.get(agentId) ?? t('inbox.agent'))
+      : t('common.unassigned')
+
+  return (
+    <main className="p-6 max-w-4xl">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">{t('inbox.title')}</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            {t('inbox.subtitle')}
+          </p>
+        </div>
+        <AppNav />
+      </div>
+
+      <section className="mt-6">
+        <h2 className="font-medium">
+          {t('inbox.pending', { count: inbox.items.length })}
+        </h2>
+
+        <div className="mt-3 space-y-3">
+          {inbox.items.map((item) => (
+            <div
+              key={`${item.kind}:${item.id}`}
+              className={`border rounded p-4 ${
+                item.unread ? 'border-amber-400' : ''
+              }`}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <Link
+                    className="font-medium underline"
+                    href={`/task/${item.task_id}`}
+                  >
+                    {item.title}
+                  </Link>
+                  {item.unread && (
+                    <span className="ml-2 text-xs text-amber-600">
+                      {t('inbox.new')}
+                    </span>
+                  )}
+                  {item.for_me && (
+                    <span className="ml-2 text-xs text-amber-600">
+                      {t('inbox.forMe')}
+                    </span>
+                  )}
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {item.kind === 'subtask'
+                      ? t('inbox.subtaskOf', {
+                          title: item.task_title ?? item.task_id,
+                        })
+                      : t('inbox.taskLine', {
+                          priority: item.priority
+                            ? t(`priority.${item.priority}`)
+                            : '—',
+                        })}{' '}
+                    · {agentName(item.agent_id)} ·{' '}
+                    {fmt.dateTime(item.updated_at)}
+                  </div>
+                </div>
+              </div>
+
+              <ActionForm action={decide} className="mt-3 space-y-2">
+                <input type="hidden" name="kind" value={item.kind} />
+                <input type="hidden" name="id" value={item.id} />
+                <div>
+                  <textarea
+                    name="note"
+                    rows={2}
+                    placeholder={t('inbox.notePlaceholder')}
+                    className="w-full text-sm border rounded px-2 py-1"
+                  />
+                  <FieldError name="note" />
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    name="decision"
+                    value="approve"
+                    className="text-sm bg-black text-white rounded px-3 py-1"
+                  >
+                    {t('inbox.approve', {
+                      status: t(`status.${INBOX_DECISIONS.approve.status}`),
+                    })}
+                  </button>
+                  <button
+                    name="decision"
+                    value="return"
+                    className="text-sm border rounded px-3 py-1"
+                  >
+                    {t('inbox.return', {
+                      status: t(`status.${INBOX_DECISIONS.return.status}`),
+                    })}
+                  </button>
+                </div>
+              </ActionForm>
+            </div>
+          ))}
+
+          {inbox.items.length === 0 && (
+            <div className="text-sm text-muted-foreground">
+              {t('inbox.nothingPending')}
+            </div>
+          )}
+        </div>
+      </section>
+
+      <section className="mt-10">
+        <h2 className="font-medium">{t('inbox.comments')}</h2>
+
+        <div className="mt-3 space-y-2">
+          {inbox.comments.map((c) => (
+            <div
+              key={c.id}
+              className={`border rounded p-3 ${
+                c.unread ? 'border-amber-400' : ''
+              }`}
+            >
+              <div className="text-xs text-muted-foreground">
+                {t('inbox.commentIn', {
+                  at: fmt.dateTime(c.created_at),
+                  agent: agentName(c.author_agent_id),
+                })}{' '}
+                <Link className="underline" href={`/task/${c.task_id}`}>
+                  {c.task_title}
+                </Link>
+                {c.unread && (
+                  <span className="ml-2 text-amber-600">{t('inbox.new')}</span>
+                )}
+              </div>
+              <Markdown agents={mentionable} className="text-sm mt-1">
+                {c.body}
+              </Markdown>
+            </div>
+          ))}
+
+          {inbox.comments.length === 0 && (
+            <div className="text-sm text-muted-foreground">
+              {t('inbox.noComments')}
+            </div>
+          )}
+        </div>
+      </section>
+
+      <MarkSeen at={inbox.fetched_at} action={markSeen} />
+    </main>
+  )
+}
@@ -3,6 +3,8 @@
 import { useMemo, useState } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
+import { setLocaleCookie, useI18n } from '@/lib/i18n/client'
+import { LOCALES, LOCALE_NAMES } from '@/lib/i18n'
 
 export default function LoginClient() {
   const router = useRouter()
@@ -10,6 +12,7 @@ export default function LoginClient() {
   const next = search.get('next') ?? '/board'
 
   const supabase = useMemo(() => createClient(), [])
+  const { locale, t } = useI18n()
 
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
@@ -41,9 +44,9 @@ export default function LoginClient() {
         },
       })
       if (error) throw error
-      setStatus('Te envié un link al email. Ábrelo para entrar.')
+      setStatus(t('login.linkSent'))
     } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : 'Error de login'
+      const msg = err instanceof Error ? err.message : t('login.failed')
       setStatus(msg)
     } finally {
       setLoading(false)
@@ -52,10 +55,26 @@ export default function LoginClient() {
 
   return (
     <main className="p-6 max-w-md">
-      <h1 className="text-2xl font-semibold">Login</h1>
-      <p className="text-sm text-muted-foreground mt-2">
-        Centro de Mando (single-user).
-      </p>
+      <div className="flex items-start justify-between gap-4">
+        <h1 className="text-2xl font-semibold">{t('login.title')}</h1>
+        <div className="flex gap-2 text-sm" aria-label={t('login.language')}>
+          {LOCALES.map((l) => (
+            <button
+              key={l}
+              type="button"
+              className={l === locale ? 'font-semibold' : 'underline'}
+              aria-pressed={l === locale}
+              onClick={() => {
+                setLocaleCookie(l)
+                router.refresh()
+              }}
+            >
+              {LOCALE_NAMES[l]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground mt-2">{t('app.title')}</p>
 
       <div className="mt-4 flex gap-2">
         <button
@@ -63,20 +82,20 @@ export default function LoginClient() {
           onClick={() => setMode('password')}
           type="button"
         >
-          Password
+          {t('login.password')}
         </button>
         <button
           className={`px-3 py-1 rounded border ${mode === 'magic' ? 'bg-black text-white' : ''}`}
           onClick={() => setMode('magic')}
           type="button"
         >
-          Magic link
+          {t('login.magicLink')}
         </button>
       </div>
 
       <form onSubmit={onSubmit} className="mt-6 space-y-3">
         <label className="block">
-          <div className="text-sm mb-1">Email</div>
+          <div className="text-sm mb-1">{t('login.email')}</div>
           <input
             className="w-full border rounded px-3 py-2"
             value={email}
@@ -88,7 +107,7 @@ export default function LoginClient() {
 
         {mode === 'password' && (
           <label className="block">
-            <div className="text-sm mb-1">Password</div>
+            <div className="text-sm mb-1">{t('login.password')}</div>
             <input
               className="w-full border rounded px-3 py-2"
               value={password}
@@ -103,7 +122,7 @@ export default function LoginClient() {
           className="w-full bg-black text-white rounded px-3 py-2 disabled:opacity-50"
           disabled={loading}
         >
-          {loading ? 'Entrando…' : 'Entrar'}
+          {loading ? t('login.submitting') : t('login.submit')}
         </button>
 
         {status && <p className="text-sm">{status}</p>}
@@ -1,11 +1,14 @@
 import { Suspense } from 'react'
+import { getI18n } from '@/lib/i18n/server'
 import LoginClient from './LoginClient'
 
 export const dynamic = 'force-dynamic'
 
-export default function LoginPage() {
+export default async function LoginPage() {
+  const { t } = await getI18n()
+
   return (
-    <Suspense fallback={<main className="p-6">Cargando…</main>}>
+    <Suspense fallback={<main className="p-6">{t('login.loading')}</main>}>
       <LoginClient />
     </Suspense>
   )
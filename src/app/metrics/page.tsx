@@ -0,0 +1,424 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getSession } from '@/lib/workspaces'
+import type { Format, Translate } from '@/lib/i18n'
+import { getI18n } from '@/lib/i18n/server'
+import { STATUSES, type Status } from '@/lib/status'
+import {
+  DURATION_BUCKETS,
+  METRIC_WINDOWS,
+  formatDuration,
+  loadFlowMetrics,
+  type FlowMetrics,
+  type Summary,
+} from '@/lib/metrics'
+import AppNav from '../AppNav'
+
+const STATUS_FILL: Record<Status, string> = {
+  inbox: 'fill-slate-300',
+  triage: 'fill-sky-300',
+  in_progress: 'fill-blue-500',
+  blocked: 'fill-red-500',
+  review: 'fill-violet-400',
+  needs_human: 'fill-amber-400',
+  done: 'fill-green-500',
+  canceled: 'fill-gray-300',
+}
+
+const CHART_W = 720
+const CHART_H = 200
+const PAD = 28
+
+function SummaryLine({
+  label,
+  summary,
+  t,
+}: {
+  label: string
+  summary: Summary | null
+  t: Translate
+}) {
+  return (
+    <div className="border rounded p-3">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      {summary ? (
+        <div className="mt-1 text-sm">
+          <span className="text-lg font-semibold">
+            {formatDuration(summary.p50, t)}
+          </span>{' '}
+          {t('metrics.summary', {
+            p85: formatDuration(summary.p85, t),
+            max: formatDuration(summary.max, t),
+            count: summary.count,
+          })}
+        </div>
+      ) : (
+        <div className="mt-1 text-sm text-muted-foreground">
+          {t('metrics.noData')}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ThroughputChart({
+  throughput,
+  t,
+  fmt,
+}: Pick<FlowMetrics, 'throughput'> & { t: Translate; fmt: Format }) {
+  const max = Math.max(1, ...throughput.map((w) => w.done))
+  const slot = (CHART_W - PAD * 2) / throughput.length
+  const y = (v: number) => CHART_H - PAD - (v / max) * (CHART_H - PAD * 2)
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_W} ${CHART_H}`}
+      className="w-full max-w-3xl"
+      role="img"
+      aria-label={t('metrics.throughputLabel')}
+    >
+      {throughput.map((w, i) => (
+        <g key={w.week}>
+          <rect
+            x={PAD + i * slot + slot * 0.15}
+            y={y(w.done)}
+            width={slot * 0.7}
+            height={CHART_H - PAD - y(w.done)}
+            className="fill-green-500"
+          >
+            <title>
+              {t('metrics.week', { date: fmt.date(w.week), count: w.done })}
+            </title>
+          </rect>
+          {w.done > 0 && (
+            <text
+              x={PAD + i * slot + slot / 2}
+              y={y(w.done) - 4}
+              textAnchor="middle"
+              className="fill-current text-[10px]"
+            >
+              {w.done}
+            </text>
+          )}
+          {(throughput.length <= 13 || i % 4 === 0) && (
+            <text
+              x={PAD + i * slot + slot / 2}
+              y={CHART_H - PAD + 14}
+              textAnchor="middle"
+              className="fill-current text-[10px]"
+            >
+              {w.week.slice(5)}
+            </text>
+          )}
+        </g>
+      ))}
+      <line
+        x1={PAD}
+        x2={CHART_W - PAD}
+        y1={CHART_H - PAD}
+        y2={CHART_H - PAD}
+        className="stroke-current"
+      />
+    </svg>
+  )
+}
+
+// Stacked areas, done at the bottom, so bands widening over time show
+// work piling up in that status.
+function CumulativeFlow({
+  cfd,
+  t,
+  fmt,
+}: Pick<FlowMetrics, 'cfd'> & { t: Translate; fmt: Format }) {
+  const order = [...STATUSES].reverse()
+  const max = Math.max(
+    1,
+    ...cfd.map((d) => order.reduce((sum, s) => sum + d.counts[s], 0))
+  )
+  const x = (i: number) =>
+    PAD + (cfd.length > 1 ? (i / (cfd.length - 1)) * (CHART_W - PAD * 2) : 0)
+  const y = (v: number) => CHART_H - PAD - (v / max) * (CHART_H - PAD * 2)
+
+  const bands = order.map((status, k) => {
+    const below = cfd.map((d) =>
+      order.slice(0, k).reduce((sum, s) => sum + d.counts[s], 0)
+    )
+    const top = cfd.map((d, i) => below[i] + d.counts[status])
+    const upper = top.map((v, i) => `${x(i)},${y(v)}`)
+    const lower = below.map((v, i) => `${x(i)},${y(v)}`).reverse()
+    return { status, points: [...upper, ...lower].join(' ') }
+  })
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_W} ${CHART_H}`}
+        className="w-full max-w-3xl"
+        role="img"
+        aria-label={t('metrics.cfdLabel')}
+      >
+        {bands.map((b) => (
+          <polygon
+            key={b.status}
+            points={b.points}
+            className={STATUS_FILL[b.status]}
+          >
+            <title>{t(`status.${b.status}`)}</title>
+          </polygon>
+        ))}
+        <text
+          x={PAD}
+          y={CHART_H - PAD + 14}
+          className="fill-current text-[10px]"
+        >
+          {cfd[0] && fmt.date(cfd[0].day)}
+        </text>
+        <text
+          x={CHART_W - PAD}
+          y={CHART_H - PAD + 14}
+          textAnchor="end"
+          className="fill-current text-[10px]"
+        >
+          {cfd.length > 0 && fmt.date(cfd[cfd.length - 1].day)}
+        </text>
+        <text
+          x={PAD - 4}
+          y={PAD}
+          textAnchor="end"
+          className="fill-current text-[10px]"
+        >
+          {max}
+        </text>
+      </svg>
+      <div className="mt-2 flex flex-wrap gap-3 text-xs">
+        {STATUSES.map((s) => (
+          <span key={s} className="flex items-center gap-1">
+            <svg width="10" height="10" aria-hidden>
+              <rect width="10" height="10" className={STATUS_FILL[s]} />
+            </svg>
+            {t(`status.${s}`)}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default async function MetricsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ weeks?: string }>
+}) {
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t, fmt } = await getI18n()
+  const requested = Number((await searchParams).weeks)
+  const weeks = METRIC_WINDOWS.find((w) => w === requested) ?? 12
+
+  let metrics: FlowMetrics
+  try {
+    metrics = await loadFlowMetrics(supabase, weeks, t)
+  } catch (err) {
+    return (
+      <main className="p-6">
+        <h1 className="text-2xl font-semibold">{t('metrics.title')}</h1>
+        <p className="mt-3 text-sm">
+          {t('common.error', { message: (err as Error).message })}
+        </p>
+      </main>
+    )
+  }
+
+  const maxBucket = Math.max(
+    1,
+    ...metrics.timeInStatus.flatMap((s) => s.buckets)
+  )
+
+  return (
+    <main className="p-6 max-w-5xl">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">{t('metrics.title')}</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            {t('metrics.subtitle', {
+              date: fmt.date(metrics.from.slice(0, 10)),
+            })}
+          </p>
+        </div>
+        <AppNav />
+      </div>
+
+      <nav className="mt-4 flex gap-3 text-sm">
+        {METRIC_WINDOWS.map((w) => (
+          <Link
+            key={w}
+            href={`/metrics?weeks=${w}`}
+            className={w === weeks ? 'font-semibold' : 'underline'}
+          >
+            {t('metrics.weeks', { count: w })}
+          </Link>
+        ))}
+      </nav>
+
+      <section className="mt-6 grid gap-3 sm:grid-cols-2">
+        <SummaryLine
+          label={t('metrics.leadTime')}
+          summary={metrics.lead}
+          t={t}
+        />
+        <SummaryLine
+          label={t('metrics.cycleTime')}
+          summary={metrics.cycle}
+          t={t}
+        />
+      </section>
+
+      <section className="mt-8">
+        <h2 className="font-medium">{t('metrics.throughput')}</h2>
+        <ThroughputChart throughput={metrics.throughput} t={t} fmt={fmt} />
+      </section>
+
+      <section className="mt-8">
+        <h2 className="font-medium">{t('metrics.cfd')}</h2>
+        <CumulativeFlow cfd={metrics.cfd} t={t} fmt={fmt} />
+      </section>
+
+      <section className="mt-8">
+        <h2 className="font-medium">{t('metrics.timeInStatus')}</h2>
+        <p className="text-xs text-muted-foreground">
+          {t('metrics.timeInStatusHint')}
+        </p>
+        <table className="mt-2 text-sm w-full">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground">
+              <th className="py-1">{t('metrics.status')}</th>
+              <th>n</th>
+              <th>{t('metrics.median')}</th>
+              <th>p85</th>
+              <th>{t('metrics.max')}</th>
+              {DURATION_BUCKETS.map((b) => (
+                <th key={b.key} className="text-center">
+                  {t(`metrics.buckets.${b.key}`)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.timeInStatus.map((s) => (
+              <tr key={s.status} className="border-t">
+                <td className="py-1">{t(`status.${s.status}`)}</td>
+                <td>{s.count}</td>
+                <td>{formatDuration(s.p50, t)}</td>
+                <td>{formatDuration(s.p85, t)}</td>
+                <td>{formatDuration(s.max, t)}</td>
+                {s.buckets.map((n, i) => (
+                  <td key={i} className="text-center">
+                    <div
+                      className="mx-auto h-3 bg-blue-500 rounded-sm"
+                      style={{ width: `${(n / maxBucket) * 48}px` }}
+                      title={`${n}`}
+                    />
+                    <div className="text-[10px]">{n || ''}</div>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {metrics.timeInStatus.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {t('metrics.noData')}
+          </p>
+        )}
+      </section>
+
+      <section className="mt-8">
+        <h2 className="font-medium">{t('metrics.agents')}</h2>
+        <p className="text-xs text-muted-foreground">
+          {t('metrics.agentsHint')}
+        </p>
+        <table className="mt-2 text-sm w-full">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground">
+              <th className="py-1">{t('metrics.agent')}</th>
+              <th>{t('metrics.closed')}</th>
+              <th>{t('metrics.medianToDone')}</th>
+              <th>{t('metrics.toReview')}</th>
+              <th>{t('metrics.returned')}</th>
+              <th>{t('metrics.rework')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.agents.map((a) => (
+              <tr key={a.agent_id} className="border-t">
+                <td className="py-1">
+                  <Link className="underline" href={`/agents/${a.agent_id}`}>
+                    {a.name}
+                  </Link>
+                </td>
+                <td>{a.completed}</td>
+                <td>
+                  {a.median_ms === null
+                    ? '—'
+                    : formatDuration(a.median_ms, t)}
+                </td>
+                <td>{a.reviewed}</td>
+                <td>{a.reworked}</td>
+                <td>
+                  {a.reviewed > 0
+                    ? `${Math.round((a.reworked / a.reviewed) * 100)} %`
+                    : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {metrics.agents.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {t('metrics.noData')}
+          </p>
+        )}
+      </section>
+
+      <section className="mt-8">
+        <h2 className="font-medium">{t('metrics.done')}</h2>
+        <table className="mt-2 text-sm w-full">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground">
+              <th className="py-1">{t('metrics.task')}</th>
+              <th>{t('metrics.doneAt')}</th>
+              <th>{t('metrics.lead')}</th>
+              <th>{t('metrics.cycle')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.done.slice(0, 50).map((task) => (
+              <tr key={task.id} className="border-t">
+                <td className="py-1">
+                  <Link className="underline" href={`/task/${task.id}`}>
+                    {task.title}
+                  </Link>
+                </td>
+                <td>{fmt.dateTime(task.done_at)}</td>
+                <td>{formatDuration(task.lead_ms, t)}</td>
+                <td>
+                  {task.cycle_ms === null
+                    ? '—'
+                    : formatDuration(task.cycle_ms, t)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {metrics.done.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {t('metrics.noData')}
+          </p>
+        )}
+      </section>
+    </main>
+  )
+}
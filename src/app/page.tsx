@@ -1,18 +1,21 @@
 import Link from 'next/link'
+import { getI18n } from '@/lib/i18n/server'
+
+export default async function Home() {
+  const { t } = await getI18n()
 
-export default function Home() {
   return (
     <main className="p-6">
-      <h1 className="text-2xl font-semibold">Centro de Mando</h1>
+      <h1 className="text-2xl font-semibold">{t('app.title')}</h1>
       <p className="text-sm text-muted-foreground mt-2">
-        Mission Control (v1) — tasks + agentes.
+        {t('home.subtitle')}
       </p>
       <div className="mt-6 flex gap-4">
         <Link className="underline" href="/board">
-          Ir al tablero →
+          {t('home.board')}
         </Link>
         <Link className="underline" href="/login">
-          Login →
+          {t('home.login')}
         </Link>
       </div>
     </main>
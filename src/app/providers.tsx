@@ -0,0 +1,36 @@
+'use client'
+
+import { useState } from 'react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { I18nProvider } from '@/lib/i18n/client'
+import type { Locale } from '@/lib/i18n'
+import CommandPaletteProvider from './CommandPalette'
+
+export default function Providers({
+  locale,
+  timeZone,
+  children,
+}: {
+  locale: Locale
+  timeZone: string
+  children: React.ReactNode
+}) {
+  const [queryClient] = useState(
+    () =>
+      new QueryClient({
+        defaultOptions: {
+          // Pages hydrate from server-fetched data and stay fresh through
+          // Realtime, so there is no need to refetch on mount.
+          queries: { staleTime: 60_000 },
+        },
+      })
+  )
+
+  return (
+    <I18nProvider locale={locale} timeZone={timeZone}>
+      <QueryClientProvider client={queryClient}>
+        <CommandPaletteProvider>{children}</CommandPaletteProvider>
+      </QueryClientProvider>
+    </I18nProvider>
+  )
+}
@@ -0,0 +1,471 @@
+import Link from 'next/link'
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { MessageError, formatter, type Locale } from '@/lib/i18n'
+import { getI18n } from '@/lib/i18n/server'
+import { getSession, hasRole, roleError } from '@/lib/workspaces'
+import { PRIORITIES } from '@/lib/status'
+import {
+  MAX_SCHEDULE_SUBTASKS,
+  SCHEDULE_COLUMNS,
+  cronError,
+  isTimeZone,
+  nextRuns,
+  parseSubtaskLines,
+  runSchedule,
+  scheduleSubtasks,
+  zonedToDate,
+} from '@/lib/schedules'
+import { listActiveAgents } from '@/lib/repository'
+import { actionError, parseForm, type FormAction } from '@/lib/actions'
+import { createScheduleInput, idInput, setActiveInput } from '@/lib/schemas'
+import ActionForm, { FieldError } from '../ActionForm'
+import AppNav from '../AppNav'
+
+const createSchedule: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(createScheduleInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { cron, run_at, timezone, subtasks: lines, ...task } = parsed.data
+
+  if (!isTimeZone(timezone)) {
+    return {
+      ok: false,
+      fieldErrors: { timezone: [t('validation.unknownTimeZone')] },
+    }
+  }
+
+  const now = new Date()
+  let next_run_at: Date | null
+  if (cron) {
+    const invalid = cronError(cron, timezone, t)
+    if (invalid) return { ok: false, fieldErrors: { cron: [invalid] } }
+    next_run_at = nextRuns({ cron, run_at: null, timezone }, now)[0] ?? null
+  } else {
+    next_run_at = zonedToDate(run_at!, timezone)
+    if (!next_run_at || next_run_at <= now) {
+      return {
+        ok: false,
+        fieldErrors: { run_at: [t('validation.futureMoment')] },
+      }
+    }
+  }
+
+  const subtasks = parseSubtaskLines(lines)
+  if (subtasks.length > MAX_SCHEDULE_SUBTASKS) {
+    return {
+      ok: false,
+      fieldErrors: {
+        subtasks: [t('validation.maxSubtasks', { max: MAX_SCHEDULE_SUBTASKS })],
+      },
+    }
+  }
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  const { error } = await supabase.from('task_schedules').insert({
+    ...task,
+    workspace_id: session.workspace_id,
+    subtasks,
+    cron: cron?.trim() ?? null,
+    run_at: cron ? null : next_run_at!.toISOString(),
+    timezone,
+    next_run_at: next_run_at?.toISOString() ?? null,
+  })
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/schedules')
+  return { ok: true }
+}
+
+// Reactivating recomputes the next run from now, so a paused schedule
+// doesn't fire for the occurrences it skipped.
+const setScheduleActive: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(setActiveInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { id, is_active } = parsed.data
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  try {
+    const { data: schedule, error } = await supabase
+      .from('task_schedules')
+      .select('cron,run_at,timezone')
+      .eq('id', id)
+      .maybeSingle()
+    if (error) throw new Error(error.message)
+    if (!schedule) throw new MessageError('errors.scheduleNotFound')
+
+    const [next] = is_active ? nextRuns(schedule, new Date()) : []
+    if (is_active && !next) {
+      return { ok: false, error: t('errors.dateInPast') }
+    }
+
+    const { error: updateErr } = await supabase
+      .from('task_schedules')
+      .update({
+        is_active,
+        ...(next && { next_run_at: next.toISOString() }),
+      })
+      .eq('id', id)
+    if (updateErr) throw new Error(updateErr.message)
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  revalidatePath('/schedules')
+  return { ok: true }
+}
+
+const deleteSchedule: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(idInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  const { error } = await supabase
+    .from('task_schedules')
+    .delete()
+    .eq('id', parsed.data.id)
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/schedules')
+  return { ok: true }
+}
+
+// Creates the task now without moving the schedule's next run.
+const runNow: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(idInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  try {
+    const { data: schedule, error } = await supabase
+      .from('task_schedules')
+      .select(SCHEDULE_COLUMNS)
+      .eq('id', parsed.data.id)
+      .maybeSingle()
+    if (error) throw new Error(error.message)
+    if (!schedule) throw new MessageError('errors.scheduleNotFound')
+
+    const run = await runSchedule(supabase, schedule, new Date().toISOString())
+    if (run?.error) return { ok: false, error: run.error }
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  revalidatePath('/schedules')
+  return { ok: true }
+}
+
+// Runs read in the schedule's own zone, the one its times were set in.
+const formatIn = (at: string | Date, locale: Locale, timeZone: string) =>
+  formatter(locale, timeZone).dateTime(at)
+
+export default async function SchedulesPage() {
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t, fmt, locale, timeZone } = await getI18n()
+
+  const [schedulesRes, runsRes, agents] = await Promise.all([
+    supabase
+      .from('task_schedules')
+      .select(SCHEDULE_COLUMNS)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('schedule_runs')
+      .select(
+        'id,schedule_id,scheduled_for,task_id,error,created_at,task_schedules(title),tasks(title)'
+      )
+      .order('created_at', { ascending: false })
+      .limit(50),
+    listActiveAgents(supabase),
+  ])
+
+  const schedules = schedulesRes.data ?? []
+  const runs = runsRes.data ?? []
+  const agentNames = new Map(agents.map((a) => [a.id, a.name]))
+  const now = new Date()
+
+  return (
+    <main className="p-6 max-w-4xl">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">{t('schedules.title')}</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            {t('schedules.subtitle')}
+          </p>
+        </div>
+        <AppNav />
+      </div>
+
+      <section className="mt-6 border rounded p-4">
+        <h2 className="font-medium">{t('schedules.create')}</h2>
+        <ActionForm
+          action={createSchedule}
+          resetOnSuccess
+          className="mt-3 space-y-2"
+        >
+          <div>
+            <input
+              name="title"
+              className="w-full border rounded px-3 py-2"
+              placeholder={t('schedules.titlePlaceholder')}
+              required
+            />
+            <FieldError name="title" />
+          </div>
+          <textarea
+            name="description"
+            className="w-full border rounded px-3 py-2"
+            placeholder={t('schedules.descriptionPlaceholder')}
+            rows={2}
+          />
+          <div>
+            <textarea
+              name="subtasks"
+              className="w-full border rounded px-3 py-2 text-sm"
+              placeholder={t('schedules.subtasksPlaceholder')}
+              rows={3}
+            />
+            <FieldError name="subtasks" />
+          </div>
+
+          <div className="flex flex-wrap gap-3 items-start">
+            <select
+              name="priority"
+              defaultValue="medium"
+              className="border rounded px-2 py-2 text-sm"
+            >
+              {PRIORITIES.map((p) => (
+                <option key={p} value={p}>
+                  {t(`priority.${p}`)}
+                </option>
+              ))}
+            </select>
+            <select
+              name="assigned_agent_id"
+              defaultValue=""
+              className="border rounded px-2 py-2 text-sm"
+            >
+              <option value="">{t('common.unassigned')}</option>
+              {agents.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name} · {a.role}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-wrap gap-3 items-start text-sm">
+            <label>
+              <div className="text-xs mb-1">{t('schedules.cron')}</div>
+              <input
+                name="cron"
+                placeholder="0 9 * * 1"
+                className="border rounded px-2 py-1 font-mono"
+              />
+              <FieldError name="cron" />
+            </label>
+            <label>
+              <div className="text-xs mb-1">{t('schedules.once')}</div>
+              <input
+                name="run_at"
+                type="datetime-local"
+                className="border rounded px-2 py-1"
+              />
+              <FieldError name="run_at" />
+            </label>
+            <label>
+              <div className="text-xs mb-1">{t('schedules.timeZone')}</div>
+              <input
+                name="timezone"
+                defaultValue={timeZone}
+                list="timezones"
+                className="border rounded px-2 py-1"
+                required
+              />
+              <datalist id="timezones">
+                {Intl.supportedValuesOf('timeZone').map((tz) => (
+                  <option key={tz} value={tz} />
+                ))}
+              </datalist>
+              <FieldError name="timezone" />
+            </label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('schedules.cronHelp')}
+          </p>
+
+          <button className="bg-black text-white rounded px-3 py-2">
+            {t('schedules.submit')}
+          </button>
+        </ActionForm>
+      </section>
+
+      <section className="mt-8 space-y-3">
+        {schedulesRes.error && (
+          <p className="text-sm">
+            {t('common.error', { message: schedulesRes.error.message })}
+          </p>
+        )}
+
+        {schedules.map((s) => {
+          const subtasks = scheduleSubtasks(s)
+          const upcoming = s.is_active
+            ? s.cron
+              ? nextRuns(s, now, 3)
+              : s.next_run_at
+                ? [new Date(s.next_run_at)]
+                : []
+            : []
+
+          return (
+            <div
+              key={s.id}
+              className={`border rounded p-4 ${s.is_active ? '' : 'opacity-60'}`}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <div className="font-medium">{s.title}</div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {s.cron ? (
+                      <code>{s.cron}</code>
+                    ) : (
+                      t('schedules.onceAt', {
+                        at: formatIn(s.run_at!, locale, s.timezone),
+                      })
+                    )}{' '}
+                    ({s.timezone}) · {t(`priority.${s.priority}`)}
+                    {s.assigned_agent_id &&
+                      ` · ${
+                        agentNames.get(s.assigned_agent_id) ??
+                        t('schedules.agent')
+                      }`}
+                    {subtasks.length > 0 &&
+                      ` · ${t('schedules.subtaskCount', {
+                        count: subtasks.length,
+                      })}`}
+                  </div>
+                  <div className="text-xs mt-2">
+                    {upcoming.length > 0 ? (
+                      t('schedules.upcoming', {
+                        runs: upcoming
+                          .map((d) => formatIn(d, locale, s.timezone))
+                          .join(' · '),
+                      })
+                    ) : (
+                      <span className="text-muted-foreground">
+                        {s.is_active
+                          ? t('schedules.noUpcoming')
+                          : t('schedules.paused')}
+                      </span>
+                    )}
+                  </div>
+                  {s.last_run_at && (
+                    <div className="text-xs text-muted-foreground">
+                      {t('schedules.lastRun', {
+                        at: formatIn(s.last_run_at, locale, s.timezone),
+                      })}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex gap-2">
+                  <ActionForm action={runNow}>
+                    <input type="hidden" name="id" value={s.id} />
+                    <button className="text-xs border rounded px-2 py-1">
+                      {t('schedules.runNow')}
+                    </button>
+                  </ActionForm>
+                  <ActionForm action={setScheduleActive}>
+                    <input type="hidden" name="id" value={s.id} />
+                    <input
+                      type="hidden"
+                      name="is_active"
+                      value={s.is_active ? 'false' : 'true'}
+                    />
+                    <button className="text-xs border rounded px-2 py-1">
+                      {s.is_active
+                        ? t('schedules.pause')
+                        : t('schedules.resume')}
+                    </button>
+                  </ActionForm>
+                  <ActionForm action={deleteSchedule}>
+                    <input type="hidden" name="id" value={s.id} />
+                    <button className="text-xs border rounded px-2 py-1">
+                      {t('schedules.delete')}
+                    </button>
+                  </ActionForm>
+                </div>
+              </div>
+            </div>
+          )
+        })}
+
+        {schedules.length === 0 && (
+          <div className="text-sm text-muted-foreground">
+            {t('schedules.none')}
+          </div>
+        )}
+      </section>
+
+      <section className="mt-10">
+        <h2 className="font-medium">{t('schedules.history')}</h2>
+        <ul className="mt-3 space-y-1 text-sm">
+          {runs.map((r) => (
+            <li key={r.id}>
+              <span className="text-xs text-muted-foreground">
+                {fmt.dateTime(r.scheduled_for)}
+              </span>{' '}
+              {r.task_schedules?.title ?? r.schedule_id} →{' '}
+              {r.error ? (
+                <span className="text-red-600">
+                  {t('common.error', { message: r.error })}
+                </span>
+              ) : r.task_id ? (
+                <Link className="underline" href={`/task/${r.task_id}`}>
+                  {r.tasks?.title ?? r.task_id}
+                </Link>
+              ) : (
+                <span className="text-muted-foreground">
+                  {t('schedules.taskDeleted')}
+                </span>
+              )}
+            </li>
+          ))}
+          {runs.length === 0 && (
+            <li className="text-muted-foreground">{t('schedules.noRuns')}</li>
+          )}
+        </ul>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,46 @@
+'use client'
+
+import type { FormAction } from '@/lib/actions'
+import { useI18n } from '@/lib/i18n/client'
+import ActionForm, { FieldError } from '../../ActionForm'
+
+export type IssuedIntegrationKey = { name: string; key: string }
+
+// Client wrapper so the one-time key can be rendered from the action result.
+export default function IssueIntegrationKeyForm({
+  action,
+}: {
+  action: FormAction<IssuedIntegrationKey>
+}) {
+  const { t } = useI18n()
+
+  return (
+    <ActionForm action={action} resetOnSuccess className="mt-3 space-y-2">
+      {(state) => (
+        <>
+          <div className="flex gap-2">
+            <input
+              name="name"
+              className="text-sm border rounded px-3 py-2"
+              placeholder={t('integrations.namePlaceholder')}
+              required
+            />
+            <button className="bg-black text-white rounded px-3 py-2 text-sm disabled:opacity-50">
+              {t('integrations.issueKey')}
+            </button>
+          </div>
+          <FieldError name="name" />
+
+          {state?.ok && state.data && (
+            <div className="text-xs border rounded p-2">
+              <div>{t('integrations.copyKey', { name: state.data.name })}</div>
+              <code className="block mt-1 break-all font-mono">
+                {state.data.key}
+              </code>
+            </div>
+          )}
+        </>
+      )}
+    </ActionForm>
+  )
+}
@@ -0,0 +1,137 @@
+import Link from 'next/link'
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getI18n } from '@/lib/i18n/server'
+import { getSession, hasRole, roleError } from '@/lib/workspaces'
+import { generateIntegrationKey, hashAgentKey } from '@/lib/agents/key'
+import { parseForm, type FormAction } from '@/lib/actions'
+import { idInput, issueIntegrationKeyInput } from '@/lib/schemas'
+import ActionForm from '../../ActionForm'
+import AppNav from '../../AppNav'
+import IssueIntegrationKeyForm, {
+  type IssuedIntegrationKey,
+} from './IssueIntegrationKeyForm'
+
+const issueKey: FormAction<IssuedIntegrationKey> = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(issueIntegrationKeyInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const key = generateIntegrationKey()
+  const { error } = await supabase.from('integration_keys').insert({
+    ...parsed.data,
+    workspace_id: session.workspace_id,
+    key_hash: await hashAgentKey(key),
+  })
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/settings/integrations')
+  return { ok: true, data: { name: parsed.data.name, key } }
+}
+
+const revokeKey: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(idInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const { error } = await supabase
+    .from('integration_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', parsed.data.id)
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/settings/integrations')
+  return { ok: true }
+}
+
+export default async function IntegrationsPage() {
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t, fmt } = await getI18n()
+
+  const { data: keys, error } = await supabase
+    .from('integration_keys')
+    .select('id,name,created_at,last_used_at')
+    .is('revoked_at', null)
+    .order('created_at', { ascending: true })
+
+  return (
+    <main className="p-6 max-w-3xl">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <Link className="underline text-sm" href="/settings">
+            {t('settings.back')}
+          </Link>
+          <h1 className="text-2xl font-semibold mt-3">
+            {t('integrations.title')}
+          </h1>
+        </div>
+        <AppNav />
+      </div>
+
+      <section className="mt-6 border rounded p-4">
+        <h2 className="font-medium">{t('integrations.create')}</h2>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('integrations.createHint', {
+            endpoint: 'POST /api/ingest',
+            header: 'Authorization: Bearer cdmi_…',
+          })}
+        </p>
+        <IssueIntegrationKeyForm action={issueKey} />
+      </section>
+
+      <section className="mt-8 space-y-2">
+        {error && (
+          <p className="text-sm">
+            {t('common.error', { message: error.message })}
+          </p>
+        )}
+
+        {keys?.map((k) => (
+          <ActionForm
+            key={k.id}
+            action={revokeKey}
+            className="flex flex-wrap items-center gap-2 text-sm border rounded p-3"
+          >
+            <input type="hidden" name="id" value={k.id} />
+            <span className="font-mono">{k.name}</span>
+            <span className="text-xs text-muted-foreground">
+              {t('integrations.keyCreated', {
+                created: fmt.dateTime(k.created_at),
+                used: k.last_used_at
+                  ? fmt.dateTime(k.last_used_at)
+                  : t('integrations.never'),
+              })}
+            </span>
+            <button className="ml-auto text-xs border rounded px-2 py-0.5">
+              {t('integrations.revoke')}
+            </button>
+          </ActionForm>
+        ))}
+
+        {keys?.length === 0 && (
+          <div className="text-sm text-muted-foreground">
+            {t('integrations.none')}
+          </div>
+        )}
+      </section>
+    </main>
+  )
+}
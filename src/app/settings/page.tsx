@@ -0,0 +1,266 @@
+import Link from 'next/link'
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getI18n } from '@/lib/i18n/server'
+import { getSession, hasRole, roleError } from '@/lib/workspaces'
+import { PRIORITIES, STATUSES, type Priority, type Status } from '@/lib/status'
+import { WIP_MODES, fetchWipLimits, type WipMode } from '@/lib/wip'
+import { SLA_STATUSES, fetchSlaRules } from '@/lib/sla'
+import { parseForm, type FormAction } from '@/lib/actions'
+import { slaRulesInput, wipLimitsInput } from '@/lib/schemas'
+import type { TablesInsert } from '@/lib/database.types'
+import ActionForm, { FieldError } from '../ActionForm'
+import AppNav from '../AppNav'
+
+const saveWipLimits: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(wipLimitsInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const upserts: TablesInsert<'wip_limits'>[] = []
+  const cleared: Status[] = []
+
+  for (const status of STATUSES) {
+    const max_tasks = parsed.data[`max_${status}`] as number | null
+    const mode = parsed.data[`mode_${status}`] as WipMode
+
+    if (max_tasks === null) cleared.push(status)
+    else {
+      upserts.push({
+        workspace_id: session.workspace_id,
+        status,
+        max_tasks,
+        mode,
+      })
+    }
+  }
+
+  if (upserts.length > 0) {
+    const { error } = await supabase
+      .from('wip_limits')
+      .upsert(upserts, { onConflict: 'workspace_id,status' })
+    if (error) return { ok: false, error: error.message }
+  }
+
+  if (cleared.length > 0) {
+    const { error } = await supabase
+      .from('wip_limits')
+      .delete()
+      .in('status', cleared)
+    if (error) return { ok: false, error: error.message }
+  }
+
+  revalidatePath('/settings')
+  revalidatePath('/board')
+  return { ok: true }
+}
+
+const saveSlaRules: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(slaRulesInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const upserts: TablesInsert<'sla_rules'>[] = []
+
+  for (const status of SLA_STATUSES) {
+    const cleared: Priority[] = []
+    for (const priority of PRIORITIES) {
+      const max_hours = parsed.data[`hours_${status}_${priority}`] as
+        | number
+        | null
+      if (max_hours === null) cleared.push(priority)
+      else {
+        upserts.push({
+          workspace_id: session.workspace_id,
+          status,
+          priority,
+          max_hours,
+        })
+      }
+    }
+
+    if (cleared.length > 0) {
+      const { error } = await supabase
+        .from('sla_rules')
+        .delete()
+        .eq('status', status)
+        .in('priority', cleared)
+      if (error) return { ok: false, error: error.message }
+    }
+  }
+
+  if (upserts.length > 0) {
+    const { error } = await supabase
+      .from('sla_rules')
+      .upsert(upserts, { onConflict: 'workspace_id,status,priority' })
+    if (error) return { ok: false, error: error.message }
+  }
+
+  revalidatePath('/settings')
+  revalidatePath('/board')
+  return { ok: true }
+}
+
+export default async function SettingsPage() {
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t } = await getI18n()
+  const limits = new Map(
+    (await fetchWipLimits(supabase)).map((l) => [l.status, l])
+  )
+  const slaHours = new Map(
+    (await fetchSlaRules(supabase)).map((r) => [
+      `${r.status}_${r.priority}`,
+      r.max_hours,
+    ])
+  )
+
+  return (
+    <main className="p-6 max-w-3xl">
+      <div className="flex items-end justify-between gap-4">
+        <h1 className="text-2xl font-semibold">{t('settings.title')}</h1>
+        <AppNav />
+      </div>
+
+      <section className="mt-6 border rounded p-4">
+        <h2 className="font-medium">{t('settings.wip')}</h2>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('settings.wipHint')}
+        </p>
+
+        <ActionForm action={saveWipLimits} className="mt-4 space-y-2">
+          {STATUSES.map((status) => (
+            <div key={status} className="flex items-center gap-3 text-sm">
+              <div className="w-32">{t(`status.${status}`)}</div>
+              <input
+                type="number"
+                min={1}
+                name={`max_${status}`}
+                defaultValue={limits.get(status)?.max_tasks ?? ''}
+                className="w-20 border rounded px-2 py-1"
+              />
+              <select
+                name={`mode_${status}`}
+                defaultValue={limits.get(status)?.mode ?? 'warn'}
+                className="border rounded px-2 py-1"
+              >
+                {WIP_MODES.map((m) => (
+                  <option key={m} value={m}>
+                    {t(`settings.wipMode.${m}`)}
+                  </option>
+                ))}
+              </select>
+              <FieldError name={`max_${status}`} />
+            </div>
+          ))}
+
+          <button className="bg-black text-white rounded px-3 py-2">
+            {t('common.save')}
+          </button>
+        </ActionForm>
+      </section>
+
+      <section className="mt-6 border rounded p-4">
+        <h2 className="font-medium">{t('settings.sla')}</h2>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('settings.slaHint')}
+        </p>
+
+        <ActionForm action={saveSlaRules} className="mt-4">
+          <table className="text-sm">
+            <thead>
+              <tr className="text-xs text-left">
+                <th className="font-normal pr-3" />
+                {PRIORITIES.map((p) => (
+                  <th key={p} className="font-normal px-1">
+                    {t(`priority.${p}`)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {SLA_STATUSES.map((status) => (
+                <tr key={status}>
+                  <td className="pr-3">{t(`status.${status}`)}</td>
+                  {PRIORITIES.map((p) => (
+                    <td key={p} className="px-1 py-1">
+                      <input
+                        type="number"
+                        min={1}
+                        name={`hours_${status}_${p}`}
+                        defaultValue={slaHours.get(`${status}_${p}`) ?? ''}
+                        placeholder={t('settings.hours')}
+                        className="w-16 border rounded px-2 py-1"
+                      />
+                      <FieldError name={`hours_${status}_${p}`} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <button className="mt-3 bg-black text-white rounded px-3 py-2">
+            {t('common.save')}
+          </button>
+        </ActionForm>
+      </section>
+
+      <section className="mt-6 border rounded p-4">
+        <h2 className="font-medium">{t('settings.webhooks')}</h2>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('settings.webhooksHint')}
+        </p>
+        <Link
+          className="underline text-sm mt-2 inline-block"
+          href="/settings/webhooks"
+        >
+          {t('settings.webhooksLink')}
+        </Link>
+      </section>
+
+      <section className="mt-6 border rounded p-4">
+        <h2 className="font-medium">{t('settings.integrations')}</h2>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('settings.integrationsHint')}
+        </p>
+        <Link
+          className="underline text-sm mt-2 inline-block"
+          href="/settings/integrations"
+        >
+          {t('settings.integrationsLink')}
+        </Link>
+      </section>
+
+      <section className="mt-6 border rounded p-4">
+        <h2 className="font-medium">{t('settings.transfer')}</h2>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('settings.transferHint')}
+        </p>
+        <Link
+          className="underline text-sm mt-2 inline-block"
+          href="/settings/transfer"
+        >
+          {t('settings.transferLink')}
+        </Link>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import type { FormAction } from '@/lib/actions'
+import { useI18n } from '@/lib/i18n/client'
+import type { ImportPreview } from '@/lib/transfer/import'
+import ActionForm, { FieldError } from '../../ActionForm'
+
+// Client wrapper so the preview can be rendered from the action result.
+// Both buttons submit the same file; `mode` says which one was pressed.
+export default function ImportForm({
+  action,
+}: {
+  action: FormAction<ImportPreview>
+}) {
+  const { t } = useI18n()
+
+  return (
+    <ActionForm action={action} className="mt-3 space-y-2">
+      {(state) => {
+        const preview = state?.ok ? state.data : undefined
+        return (
+          <>
+            <div className="flex flex-wrap gap-2 items-center">
+              <input
+                type="file"
+                name="file"
+                accept=".json,.csv,application/json,text/csv"
+                className="text-sm"
+                required
+              />
+              <button
+                name="mode"
+                value="preview"
+                className="border rounded px-3 py-2 text-sm disabled:opacity-50"
+              >
+                {t('transfer.preview')}
+              </button>
+              {preview && !preview.imported && preview.tasks > 0 && (
+                <button
+                  name="mode"
+                  value="import"
+                  className="bg-black text-white rounded px-3 py-2 text-sm disabled:opacity-50"
+                >
+                  {t('transfer.importTasks', { count: preview.tasks })}
+                </button>
+              )}
+            </div>
+            <FieldError name="file" />
+
+            {preview && (
+              <div className="text-xs border rounded p-2 space-y-1">
+                <div className="font-medium">
+                  {t(
+                    preview.imported
+                      ? 'transfer.imported'
+                      : 'transfer.willImport',
+                    {
+                      format: preview.format.toUpperCase(),
+                      tasks: preview.tasks,
+                      subtasks: preview.subtasks,
+                      comments: preview.comments,
+                      links: preview.links,
+                    }
+                  )}
+                </div>
+                {preview.existing.length > 0 && (
+                  <div>
+                    {t('transfer.existing', {
+                      count: preview.existing.length,
+                      titles: preview.existing
+                        .map((task) => `«${task.title}»`)
+                        .join(', '),
+                    })}
+                  </div>
+                )}
+                {preview.unknownAgents.length > 0 && (
+                  <div>
+                    {t('transfer.unknownAgents', {
+                      names: preview.unknownAgents.join(', '),
+                    })}
+                  </div>
+                )}
+                {preview.duplicateTitles.length > 0 && (
+                  <div>
+                    {t('transfer.duplicateTitles', {
+                      titles: preview.duplicateTitles
+                        .map((title) => `«${title}»`)
+                        .join(', '),
+                    })}
+                  </div>
+                )}
+                {preview.droppedLinks > 0 && (
+                  <div>
+                    {t('transfer.droppedLinks', {
+                      count: preview.droppedLinks,
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )
+      }}
+    </ActionForm>
+  )
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getSession } from '@/lib/workspaces'
+import { getI18n } from '@/lib/i18n/server'
+import { localDate } from '@/lib/sla'
+import {
+  EXPORT_FORMATS,
+  buildExport,
+  exportCsv,
+  exportMarkdown,
+  type ExportFormat,
+} from '@/lib/transfer/export'
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+}
+
+// ?format=json|csv|md, JSON by default.
+export async function GET(request: Request) {
+  const param = new URL(request.url).searchParams.get('format') ?? 'json'
+  if (!EXPORT_FORMATS.includes(param as ExportFormat)) {
+    return NextResponse.json({ error: 'Unknown format' }, { status: 400 })
+  }
+  const format = param as ExportFormat
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { t } = await getI18n()
+  try {
+    const file = await buildExport(supabase)
+    const body =
+      format === 'json'
+        ? JSON.stringify(file, null, 2)
+        : format === 'csv'
+          ? exportCsv(file)
+          : exportMarkdown(file, t)
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="centro-de-mando-${localDate()}.${format}"`,
+      },
+    })
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 500 })
+  }
+}
@@ -0,0 +1,117 @@
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getI18n } from '@/lib/i18n/server'
+import { getSession, hasRole, roleError } from '@/lib/workspaces'
+import {
+  applyImport,
+  planImport,
+  readImport,
+  type ImportPreview,
+} from '@/lib/transfer/import'
+import { MAX_IMPORT_TASKS, csvTaskRow } from '@/lib/transfer/schemas'
+import { actionError, parseForm, type FormAction } from '@/lib/actions'
+import { importBoardInput } from '@/lib/schemas'
+import AppNav from '../../AppNav'
+import ImportForm from './ImportForm'
+
+const importBoard: FormAction<ImportPreview> = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(importBoardInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { file, mode } = parsed.data
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  const read = readImport(await file.text(), t)
+  if (!read.ok) {
+    return { ok: false, error: read.errors.join(' · ') }
+  }
+
+  try {
+    const plan = await planImport(
+      supabase,
+      session.workspace_id,
+      read.format,
+      read.tasks
+    )
+    if (mode === 'preview') return { ok: true, data: plan.preview }
+
+    const result = await applyImport(supabase, plan)
+    revalidatePath('/board')
+    return { ok: true, data: result }
+  } catch (err) {
+    return actionError(err, t)
+  }
+}
+
+export default async function TransferPage() {
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t } = await getI18n()
+
+  return (
+    <main className="p-6 max-w-3xl">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">{t('transfer.title')}</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            {t('transfer.subtitle')}
+          </p>
+        </div>
+        <AppNav />
+      </div>
+
+      <section className="mt-6 border rounded p-4">
+        <h2 className="font-medium">{t('transfer.export')}</h2>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('transfer.exportHint')}
+        </p>
+        <ul className="mt-2 text-sm space-y-1">
+          <li>
+            <a className="underline" href="/settings/transfer/export?format=json">
+              JSON
+            </a>{' '}
+            <span className="text-xs text-muted-foreground">
+              {t('transfer.json')}
+            </span>
+          </li>
+          <li>
+            <a className="underline" href="/settings/transfer/export?format=csv">
+              CSV
+            </a>{' '}
+            <span className="text-xs text-muted-foreground">
+              {t('transfer.csv')}
+            </span>
+          </li>
+          <li>
+            <a className="underline" href="/settings/transfer/export?format=md">
+              Markdown
+            </a>{' '}
+            <span className="text-xs text-muted-foreground">
+              {t('transfer.md')}
+            </span>
+          </li>
+        </ul>
+      </section>
+
+      <section className="mt-6 border rounded p-4">
+        <h2 className="font-medium">{t('transfer.import')}</h2>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('transfer.importHint', {
+            columns: Object.keys(csvTaskRow.shape).join(', '),
+            max: MAX_IMPORT_TASKS,
+          })}
+        </p>
+        <ImportForm action={importBoard} />
+      </section>
+    </main>
+  )
+}
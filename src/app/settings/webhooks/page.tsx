@@ -0,0 +1,303 @@
+import Link from 'next/link'
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getI18n } from '@/lib/i18n/server'
+import { getSession, hasRole, roleError } from '@/lib/workspaces'
+import {
+  MAX_ATTEMPTS,
+  SIGNATURE_HEADER,
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  redeliverWebhook,
+} from '@/lib/webhooks'
+import { actionError, parseForm, type FormAction } from '@/lib/actions'
+import { createWebhookInput, idInput, setActiveInput } from '@/lib/schemas'
+import ActionForm, { FieldError } from '../../ActionForm'
+import AppNav from '../../AppNav'
+
+const createWebhook: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(createWebhookInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const { error } = await supabase.from('webhooks').insert({
+    ...parsed.data,
+    workspace_id: session.workspace_id,
+    secret: generateWebhookSecret(),
+  })
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/settings/webhooks')
+  return { ok: true }
+}
+
+const setWebhookActive: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(setActiveInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const { error } = await supabase
+    .from('webhooks')
+    .update({ is_active: parsed.data.is_active })
+    .eq('id', parsed.data.id)
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/settings/webhooks')
+  return { ok: true }
+}
+
+const deleteWebhook: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(idInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const { error } = await supabase
+    .from('webhooks')
+    .delete()
+    .eq('id', parsed.data.id)
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/settings/webhooks')
+  return { ok: true }
+}
+
+const redeliver: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(idInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  try {
+    await redeliverWebhook(supabase, parsed.data.id)
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  revalidatePath('/settings/webhooks')
+  return { ok: true }
+}
+
+const STATUS_CLASS = {
+  pending: 'text-amber-600',
+  succeeded: 'text-green-700',
+  failed: 'text-red-600',
+}
+
+export default async function WebhooksPage() {
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t, fmt } = await getI18n()
+
+  const { data: webhooks, error } = await supabase
+    .from('webhooks')
+    .select('id,url,secret,events,is_active,created_at')
+    .order('created_at', { ascending: true })
+
+  const { data: deliveries } = await supabase
+    .from('webhook_deliveries')
+    .select(
+      'id,webhook_id,event,payload,status,attempts,next_attempt_at,last_status_code,last_error,delivered_at,created_at'
+    )
+    .order('created_at', { ascending: false })
+    .limit(50)
+
+  const urls = new Map((webhooks ?? []).map((w) => [w.id, w.url]))
+
+  return (
+    <main className="p-6 max-w-4xl">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <Link className="underline text-sm" href="/settings">
+            {t('settings.back')}
+          </Link>
+          <h1 className="text-2xl font-semibold mt-3">{t('webhooks.title')}</h1>
+        </div>
+        <AppNav />
+      </div>
+
+      <section className="mt-6 border rounded p-4">
+        <h2 className="font-medium">{t('webhooks.create')}</h2>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('webhooks.createHint', {
+            signature: `${SIGNATURE_HEADER}: t=<unix>,v1=hex(hmac(secret, "t.body"))`,
+            attempts: MAX_ATTEMPTS,
+          })}
+        </p>
+
+        <ActionForm
+          action={createWebhook}
+          resetOnSuccess
+          className="mt-3 space-y-2"
+        >
+          <div>
+            <input
+              name="url"
+              type="url"
+              placeholder="https://runner.example.com/hooks/centro"
+              className="w-full border rounded px-3 py-2 text-sm"
+              required
+            />
+            <FieldError name="url" />
+          </div>
+          <fieldset>
+            <div className="flex flex-wrap gap-3">
+              {WEBHOOK_EVENTS.map((e) => (
+                <label key={e} className="text-xs flex items-center gap-1">
+                  <input type="checkbox" name="events" value={e} />
+                  {e}
+                </label>
+              ))}
+            </div>
+            <FieldError name="events" />
+          </fieldset>
+          <button className="bg-black text-white rounded px-3 py-2 text-sm">
+            {t('common.create')}
+          </button>
+        </ActionForm>
+      </section>
+
+      <section className="mt-8 space-y-3">
+        {error && (
+          <p className="text-sm">
+            {t('common.error', { message: error.message })}
+          </p>
+        )}
+
+        {webhooks?.map((w) => (
+          <div
+            key={w.id}
+            className={`border rounded p-4 ${w.is_active ? '' : 'opacity-60'}`}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className="font-mono text-sm break-all">{w.url}</div>
+                <div className="text-xs text-muted-foreground mt-1">
+                  {w.events.join(', ')}
+                </div>
+                <details className="text-xs mt-1">
+                  <summary className="cursor-pointer underline">
+                    {t('webhooks.secret')}
+                  </summary>
+                  <code className="break-all">{w.secret}</code>
+                </details>
+              </div>
+
+              <div className="flex gap-2">
+                <ActionForm action={setWebhookActive}>
+                  <input type="hidden" name="id" value={w.id} />
+                  <input
+                    type="hidden"
+                    name="is_active"
+                    value={w.is_active ? 'false' : 'true'}
+                  />
+                  <button className="text-xs border rounded px-2 py-1">
+                    {w.is_active ? t('webhooks.pause') : t('webhooks.resume')}
+                  </button>
+                </ActionForm>
+                <ActionForm action={deleteWebhook}>
+                  <input type="hidden" name="id" value={w.id} />
+                  <button className="text-xs border rounded px-2 py-1">
+                    {t('webhooks.delete')}
+                  </button>
+                </ActionForm>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {webhooks?.length === 0 && (
+          <div className="text-sm text-muted-foreground">
+            {t('webhooks.none')}
+          </div>
+        )}
+      </section>
+
+      <section className="mt-10">
+        <h2 className="font-medium">{t('webhooks.deliveries')}</h2>
+
+        <div className="mt-3 space-y-2">
+          {deliveries?.map((d) => (
+            <details key={d.id} className="border rounded p-3 text-xs">
+              <summary className="cursor-pointer flex flex-wrap gap-x-3 items-center">
+                <span className={`font-medium ${STATUS_CLASS[d.status]}`}>
+                  {t(`webhooks.delivery.${d.status}`)}
+                </span>
+                <span className="font-mono">{d.event}</span>
+                <span className="text-muted-foreground break-all">
+                  {urls.get(d.webhook_id) ?? d.webhook_id}
+                </span>
+                <span className="text-muted-foreground">
+                  {t('webhooks.attempts', {
+                    count: d.attempts,
+                    max: MAX_ATTEMPTS,
+                  })}
+                  {d.last_status_code ? ` · HTTP ${d.last_status_code}` : ''}
+                  {' · '}
+                  {fmt.dateTime(d.created_at)}
+                </span>
+              </summary>
+
+              {d.last_error && (
+                <p className="mt-2 text-red-600">
+                  {t('common.error', { message: d.last_error })}
+                </p>
+              )}
+              {d.status === 'pending' && d.attempts > 0 && (
+                <p className="mt-2 text-muted-foreground">
+                  {t('webhooks.nextAttempt', {
+                    at: fmt.dateTime(d.next_attempt_at),
+                  })}
+                </p>
+              )}
+              <pre className="mt-2 overflow-x-auto bg-muted p-2 rounded">
+                {JSON.stringify(d.payload, null, 2)}
+              </pre>
+              <ActionForm action={redeliver} className="mt-2">
+                <input type="hidden" name="id" value={d.id} />
+                <button className="border rounded px-2 py-1">
+                  {t('webhooks.redeliver')}
+                </button>
+              </ActionForm>
+            </details>
+          ))}
+
+          {deliveries?.length === 0 && (
+            <div className="text-sm text-muted-foreground">
+              {t('webhooks.noDeliveries')}
+            </div>
+          )}
+        </div>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase/server'
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  const supabase = await createServerSupabase()
+  const { data: standup, error } = await supabase
+    .from('standups')
+    .select('day,markdown')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  if (!standup) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+  return new NextResponse(standup.markdown, {
+    headers: {
+      'Content-Type': 'text/markdown; charset=utf-8',
+      'Content-Disposition': `attachment; filename="standup-${standup.day}.md"`,
+    },
+  })
+}
@@ -0,0 +1,156 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getSession } from '@/lib/workspaces'
+import type { Translate } from '@/lib/i18n'
+import { getI18n } from '@/lib/i18n/server'
+import type { StandupData, StandupItem } from '@/lib/standups'
+
+type StandupRow = {
+  id: string
+  day: string
+  generated_at: string
+  data: StandupData
+  markdown: string
+}
+
+function ItemList({
+  title,
+  items,
+  t,
+}: {
+  title: string
+  items: StandupItem[]
+  t: Translate
+}) {
+  if (items.length === 0) return null
+
+  return (
+    <div className="mt-3">
+      <div className="text-xs font-medium">{title}</div>
+      <ul className="mt-1 space-y-1">
+        {items.map((item) => (
+          <li key={`${item.kind}-${item.id}`} className="text-sm">
+            <Link className="underline" href={`/task/${item.task_id}`}>
+              {item.title}
+            </Link>
+            <span className="text-xs text-muted-foreground">
+              {item.kind === 'subtask' ? ' · subtask' : ''} ·{' '}
+              {t(`status.${item.status}`)}
+            </span>
+            {item.result_summary && item.status === 'done' && (
+              <div className="text-xs mt-0.5">
+                {t('standups.result', { summary: item.result_summary })}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default async function StandupPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t, fmt } = await getI18n()
+
+  const { data: standup, error } = await supabase
+    .from('standups')
+    .select('id,day,generated_at,data,markdown')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error || !standup) {
+    return (
+      <main className="p-6">
+        <p className="text-sm">
+          {error
+            ? t('common.error', { message: error.message })
+            : t('standups.notFound')}
+        </p>
+        <Link className="underline" href="/standups">
+          {t('common.back')}
+        </Link>
+      </main>
+    )
+  }
+
+  const s = standup as StandupRow
+
+  return (
+    <main className="p-6 max-w-3xl">
+      <Link className="underline text-sm" href="/standups">
+        {t('standups.back')}
+      </Link>
+      <div className="flex items-end justify-between gap-4 mt-3">
+        <h1 className="text-2xl font-semibold">
+          {t('standups.heading', { day: fmt.date(s.day) })}
+        </h1>
+        <a className="underline text-sm" href={`/standups/${s.id}/markdown`}>
+          {t('standups.download')}
+        </a>
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        {t('standups.generatedAt', { at: fmt.dateTime(s.generated_at) })}
+      </p>
+
+      <section className="mt-6 space-y-4">
+        {s.data.sections.map((section) => (
+          <div key={section.agent_id ?? 'none'} className="border rounded p-4">
+            <h2 className="font-medium">{section.agent_name}</h2>
+            <ItemList
+              title={t('standups.moved')}
+              items={section.moved}
+              t={t}
+            />
+            <ItemList
+              title={t('standups.completed')}
+              items={section.completed}
+              t={t}
+            />
+            <ItemList
+              title={t('status.blocked')}
+              items={section.blocked}
+              t={t}
+            />
+            <ItemList
+              title={t('status.needs_human')}
+              items={section.needs_human}
+              t={t}
+            />
+            {section.comments > 0 && (
+              <div className="text-xs text-muted-foreground mt-3">
+                {t('standups.agentComments', { count: section.comments })}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {s.data.sections.length === 0 && (
+          <div className="text-sm text-muted-foreground">
+            {t('standups.empty')}
+          </div>
+        )}
+      </section>
+
+      <section className="mt-8">
+        <h2 className="font-medium">{t('standups.markdown')}</h2>
+        <textarea
+          readOnly
+          defaultValue={s.markdown}
+          className="mt-2 w-full border rounded px-3 py-2 font-mono text-xs"
+          rows={12}
+        />
+      </section>
+    </main>
+  )
+}
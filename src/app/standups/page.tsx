@@ -0,0 +1,144 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getI18n } from '@/lib/i18n/server'
+import { getSession, hasRole, roleError } from '@/lib/workspaces'
+import {
+  buildStandup,
+  standupToMarkdown,
+  todayUtc,
+  type StandupData,
+} from '@/lib/standups'
+import { actionError, parseForm, type FormAction } from '@/lib/actions'
+import { generateStandupInput } from '@/lib/schemas'
+import ActionForm, { FieldError } from '../ActionForm'
+import AppNav from '../AppNav'
+
+type StandupRow = {
+  id: string
+  day: string
+  generated_at: string
+  data: StandupData
+}
+
+const generateStandup: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(generateStandupInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { day } = parsed.data
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  let standup: StandupData
+  try {
+    standup = await buildStandup(supabase, day, t)
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  // Regenerating a day replaces the stored standup for it.
+  const { data, error } = await supabase
+    .from('standups')
+    .upsert(
+      {
+        workspace_id: session.workspace_id,
+        day,
+        data: standup,
+        markdown: standupToMarkdown(standup, t),
+        generated_at: standup.generated_at,
+      },
+      { onConflict: 'workspace_id,day' }
+    )
+    .select('id')
+    .single()
+
+  if (error) return { ok: false, error: error.message }
+  redirect(`/standups/${data.id}`)
+}
+
+export default async function StandupsPage() {
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t, fmt } = await getI18n()
+
+  const { data: standups, error } = await supabase
+    .from('standups')
+    .select('id,day,generated_at,data')
+    .order('day', { ascending: false })
+    .limit(60)
+
+  return (
+    <main className="p-6 max-w-3xl">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">{t('standups.title')}</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            {t('standups.subtitle')}
+          </p>
+        </div>
+
+        <AppNav />
+      </div>
+
+      <section className="mt-6">
+        <h2 className="font-medium">{t('standups.generate')}</h2>
+        <ActionForm action={generateStandup} className="mt-2 flex flex-wrap gap-2">
+          <div>
+            <input
+              type="date"
+              name="day"
+              defaultValue={todayUtc()}
+              className="border rounded px-3 py-2"
+              required
+            />
+            <FieldError name="day" />
+          </div>
+          <button className="bg-black text-white rounded px-3 py-2 self-start">
+            {t('standups.generateSubmit')}
+          </button>
+        </ActionForm>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('standups.dayHint')}
+        </p>
+      </section>
+
+      <section className="mt-10">
+        <h2 className="font-medium">{t('standups.previous')}</h2>
+        {error && (
+          <p className="mt-3 text-sm">
+            {t('common.error', { message: error.message })}
+          </p>
+        )}
+
+        <div className="mt-3 space-y-2">
+          {(standups as StandupRow[] | null)?.map((s) => (
+            <div key={s.id} className="border rounded p-3 flex justify-between">
+              <Link className="underline text-sm" href={`/standups/${s.id}`}>
+                {fmt.date(s.day)}
+              </Link>
+              <span className="text-xs text-muted-foreground">
+                {t('standups.summary', {
+                  count: s.data.sections.length,
+                  at: fmt.dateTime(s.generated_at),
+                })}
+              </span>
+            </div>
+          ))}
+
+          {(!standups || standups.length === 0) && (
+            <div className="text-sm text-muted-foreground">
+              {t('standups.none')}
+            </div>
+          )}
+        </div>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import { useState } from 'react'
+import type { FormAction } from '@/lib/actions'
+import { formatBytes, previewKind } from '@/lib/attachments'
+import { useI18n } from '@/lib/i18n/client'
+import type { AttachmentRow } from '@/lib/types'
+import ActionForm from '../../ActionForm'
+
+// Text previews only fetch the head of the file.
+const TEXT_PREVIEW_BYTES = 20 * 1024
+
+function TextPreview({ url }: { url: string }) {
+  const { t } = useI18n()
+  const [text, setText] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = async () => {
+    if (text !== null) return
+    try {
+      const res = await fetch(url, {
+        headers: { Range: `bytes=0-${TEXT_PREVIEW_BYTES - 1}` },
+      })
+      if (!res.ok) throw new Error(`HTTP ${res.status}`)
+      setText(await res.text())
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  return (
+    <details
+      className="mt-1"
+      onToggle={(e) => {
+        if (e.currentTarget.open) void load()
+      }}
+    >
+      <summary className="cursor-pointer text-xs underline">
+        {t('attachments.preview')}
+      </summary>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      {text !== null && (
+        <pre className="mt-1 max-h-64 overflow-auto text-xs bg-muted p-2 rounded">
+          {text}
+        </pre>
+      )}
+    </details>
+  )
+}
+
+export default function AttachmentList({
+  attachments,
+  urls,
+  authorName,
+  removeAttachment,
+}: {
+  attachments: AttachmentRow[]
+  // Signed URLs by storage path; missing while they load.
+  urls: Map<string, string>
+  authorName: (
+    type: AttachmentRow['uploaded_by_type'],
+    agentId: string | null,
+    userId: string | null
+  ) => string
+  removeAttachment: FormAction
+}) {
+  const { t } = useI18n()
+  if (attachments.length === 0) return null
+
+  return (
+    <ul className="mt-2 space-y-2">
+      {attachments.map((a) => {
+        const url = urls.get(a.storage_path)
+        const kind = previewKind(a)
+
+        return (
+          <li key={a.id} className="text-xs">
+            <div className="flex flex-wrap items-center gap-2">
+              {url ? (
+                <a
+                  className="underline"
+                  href={url}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  {a.filename}
+                </a>
+              ) : (
+                <span>{a.filename}</span>
+              )}
+              <span className="text-muted-foreground">
+                {formatBytes(a.size_bytes)} ·{' '}
+                {authorName(
+                  a.uploaded_by_type,
+                  a.uploaded_by_agent_id,
+                  a.uploaded_by_user_id
+                )}
+              </span>
+              <ActionForm action={removeAttachment}>
+                <input type="hidden" name="id" value={a.id} />
+                <button className="border rounded px-1.5 py-0.5">
+                  {t('common.remove')}
+                </button>
+              </ActionForm>
+            </div>
+
+            {url && kind === 'image' && (
+              <a href={url} target="_blank" rel="noreferrer">
+                {/* Signed Storage URLs: nothing for next/image to optimize. */}
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={url}
+                  alt={a.filename}
+                  className="mt-1 max-h-48 rounded border"
+                />
+              </a>
+            )}
+            {url && kind === 'text' && <TextPreview url={url} />}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,1030 @@
+'use client'
+
+import Link from 'next/link'
+import { useEffect, useMemo, type ReactNode } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { createClient } from '@/lib/supabase/client'
+import { useLiveRows, useRecentlyChanged } from '@/lib/realtime'
+import { EVENT_COLUMNS, type TaskEventRow } from '@/lib/events'
+import { COMMENT_COLUMNS, SUBTASK_COLUMNS, TASK_COLUMNS } from '@/lib/tasks'
+import { PRIORITIES, isPriority, type Status } from '@/lib/status'
+import { isClosed, isStatus, nextStatuses } from '@/lib/workflow'
+import { useI18n } from '@/lib/i18n/client'
+import type { I18n } from '@/lib/i18n'
+import { resultMessage, type FormAction } from '@/lib/actions'
+import {
+  STATUS_KEY,
+  STATUS_KEYS,
+  isPlainKey,
+  type Command,
+} from '@/lib/commands'
+import {
+  ATTACHMENT_BUCKET,
+  ATTACHMENT_COLUMNS,
+  SIGNED_URL_SECONDS,
+} from '@/lib/attachments'
+import type { LinkedTask, TaskLinks } from '@/lib/dependencies'
+import {
+  dueState,
+  isSlaBreached,
+  slaDeadline,
+  type DueState,
+  type SlaRule,
+} from '@/lib/sla'
+import type {
+  AgentRow,
+  AttachmentRow,
+  CommentRow,
+  SubtaskRow,
+  TaskRow,
+} from '@/lib/types'
+import type { Member } from '@/lib/workspaces'
+import ActionForm, { FieldError } from '../../ActionForm'
+import { useCommands } from '../../CommandPalette'
+import Markdown from '../../Markdown'
+import Toast, { useToast } from '../../Toast'
+import AttachmentList from './AttachmentList'
+
+type TimelineEntry =
+  | { type: 'comment'; at: string; comment: CommentRow }
+  | { type: 'event'; at: string; event: TaskEventRow }
+
+// `before`/`after` hold raw values; shown as labels, names and dates.
+function describeEvent(
+  e: TaskEventRow,
+  subtaskTitles: Map<string, string>,
+  agentName: (agentId: string | null) => string,
+  { t, fmt }: I18n
+) {
+  const subtask = e.subtask_id
+    ? t('events.subtask', {
+        title: subtaskTitles.get(e.subtask_id) ?? e.subtask_id,
+      })
+    : ''
+
+  const show = (value: string | null) => {
+    switch (e.kind) {
+      case 'task_status':
+      case 'subtask_status':
+        return isStatus(value) ? t(`status.${value}`) : (value ?? '—')
+      case 'task_priority':
+        return isPriority(value) ? t(`priority.${value}`) : (value ?? '—')
+      case 'task_assignee':
+      case 'subtask_assignee':
+        return agentName(value)
+      case 'task_due_date':
+      case 'subtask_due_date':
+        return value ? fmt.date(value) : '—'
+      default:
+        return value ?? ''
+    }
+  }
+
+  return t(`events.${e.kind}`, {
+    subtask,
+    before: show(e.before),
+    after: show(e.after),
+  })
+}
+
+const DUE_CLASS: Record<NonNullable<DueState>, string> = {
+  overdue: 'text-red-600 font-medium',
+  today: 'text-amber-600',
+}
+
+const dueClass = (item: Parameters<typeof dueState>[0], timeZone: string) => {
+  const state = dueState(item, new Date(), timeZone)
+  return state ? DUE_CLASS[state] : ''
+}
+
+const byCreatedAsc = (a: { created_at: string }, b: { created_at: string }) =>
+  a.created_at.localeCompare(b.created_at)
+
+export default function TaskView({
+  initialTask,
+  initialSubtasks,
+  initialComments,
+  initialEvents,
+  initialAttachments,
+  agents,
+  members,
+  links,
+  linkCandidates,
+  slaRules,
+  updateTask,
+  addComment,
+  createSubtask,
+  updateSubtask,
+  attachFile,
+  removeAttachment,
+  addLink,
+  removeLink,
+  saveAsTemplate,
+  nav,
+}: {
+  initialTask: TaskRow
+  initialSubtasks: SubtaskRow[]
+  initialComments: CommentRow[]
+  initialEvents: TaskEventRow[]
+  initialAttachments: AttachmentRow[]
+  agents: AgentRow[]
+  members: Member[]
+  // Rendered from props: link changes re-render the page instead of
+  // arriving over Realtime.
+  links: TaskLinks
+  linkCandidates: Pick<LinkedTask, 'id' | 'title' | 'status'>[]
+  slaRules: SlaRule[]
+  updateTask: FormAction
+  addComment: FormAction
+  createSubtask: FormAction
+  updateSubtask: FormAction
+  attachFile: FormAction
+  removeAttachment: FormAction
+  addLink: FormAction
+  removeLink: FormAction
+  saveAsTemplate: FormAction
+  // Server-rendered header links (AppNav).
+  nav: ReactNode
+}) {
+  const id = initialTask.id
+  const supabase = useMemo(() => createClient(), [])
+  const i18n = useI18n()
+  const { t, fmt, timeZone } = i18n
+  const queryClient = useQueryClient()
+  const [changed, markChanged] = useRecentlyChanged()
+  const [toast, showToast] = useToast()
+
+  const { data: task } = useQuery({
+    queryKey: ['task', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select(TASK_COLUMNS)
+        .eq('id', id)
+        .single()
+      if (error) throw new Error(error.message)
+      return data
+    },
+    initialData: initialTask,
+  })
+
+  const { data: subtasks } = useQuery({
+    queryKey: ['task', id, 'subtasks'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('subtasks')
+        .select(SUBTASK_COLUMNS)
+        .eq('task_id', id)
+        .order('created_at', { ascending: true })
+      if (error) throw new Error(error.message)
+      return data
+    },
+    initialData: initialSubtasks,
+  })
+
+  const { data: comments } = useQuery({
+    queryKey: ['task', id, 'comments'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('comments')
+        .select(COMMENT_COLUMNS)
+        .eq('task_id', id)
+        .order('created_at', { ascending: true })
+      if (error) throw new Error(error.message)
+      return data
+    },
+    initialData: initialComments,
+  })
+
+  const { data: events } = useQuery({
+    queryKey: ['task', id, 'events'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('task_events')
+        .select(EVENT_COLUMNS)
+        .eq('task_id', id)
+        .order('created_at', { ascending: true })
+      if (error) throw new Error(error.message)
+      return data
+    },
+    initialData: initialEvents,
+  })
+
+  const { data: attachments } = useQuery({
+    queryKey: ['task', id, 'attachments'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('attachments')
+        .select(ATTACHMENT_COLUMNS)
+        .eq('task_id', id)
+        .order('created_at', { ascending: true })
+      if (error) throw new Error(error.message)
+      return data
+    },
+    initialData: initialAttachments,
+  })
+
+  // Signed URLs for links and previews, refreshed before they expire.
+  const paths = attachments.map((a) => a.storage_path)
+  const { data: attachmentUrls = new Map<string, string>() } = useQuery({
+    queryKey: ['attachment-urls', paths],
+    queryFn: async () => {
+      if (paths.length === 0) return new Map<string, string>()
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .createSignedUrls(paths, SIGNED_URL_SECONDS)
+      if (error) throw new Error(error.message)
+      return new Map(
+        data.flatMap((d) =>
+          d.path && d.signedUrl ? [[d.path, d.signedUrl] as const] : []
+        )
+      )
+    },
+    staleTime: (SIGNED_URL_SECONDS - 5 * 60) * 1000,
+  })
+
+  useLiveRows<TaskRow>({
+    table: 'tasks',
+    filter: `id=eq.${id}`,
+    onChange: (row) => {
+      queryClient.setQueryData<TaskRow>(['task', id], (prev) =>
+        prev ? { ...prev, ...row } : row
+      )
+      markChanged(row.id)
+    },
+  })
+  useLiveRows<SubtaskRow>({
+    table: 'subtasks',
+    filter: `task_id=eq.${id}`,
+    queryKey: ['task', id, 'subtasks'],
+    sort: byCreatedAsc,
+    onChange: (row) => markChanged(row.id),
+  })
+  useLiveRows<CommentRow>({
+    table: 'comments',
+    filter: `task_id=eq.${id}`,
+    queryKey: ['task', id, 'comments'],
+    sort: byCreatedAsc,
+    onChange: (row) => markChanged(row.id),
+  })
+  useLiveRows<AttachmentRow>({
+    table: 'attachments',
+    filter: `task_id=eq.${id}`,
+    queryKey: ['task', id, 'attachments'],
+    sort: byCreatedAsc,
+  })
+  useLiveRows<TaskEventRow>({
+    table: 'task_events',
+    filter: `task_id=eq.${id}`,
+    queryKey: ['task', id, 'events'],
+    sort: byCreatedAsc,
+    onChange: (row) => markChanged(row.id),
+  })
+
+  const agentMap = new Map<string, AgentRow>()
+  ;agents.forEach((a) => agentMap.set(a.id, a))
+
+  const subtaskTitles = new Map<string, string>()
+  ;subtasks.forEach((s) =>
+    subtaskTitles.set(s.id, s.title)
+  )
+
+  const agentName = (agentId: string | null) =>
+    agentId ? (agentMap.get(agentId)?.name ?? agentId) : t('common.none')
+
+  const memberMap = new Map(members.map((m) => [m.user_id, m]))
+  const userName = (userId: string | null) =>
+    userId
+      ? (memberMap.get(userId)?.display_name ?? t('task.formerMember'))
+      : t('task.human')
+
+  // Who wrote a comment, caused an event or uploaded a file.
+  const authorName = (
+    type: CommentRow['author_type'],
+    agentId: string | null,
+    userId: string | null
+  ) =>
+    type === 'agent'
+      ? agentName(agentId)
+      : type === 'human'
+        ? userName(userId)
+        : type
+
+  // Who can answer a needs_human task: viewers can't.
+  const responders = members.filter((m) => m.role !== 'viewer')
+
+  const attachmentsOf = (
+    key: 'subtask_id' | 'comment_id' | null,
+    value?: string
+  ) =>
+    attachments.filter((a) =>
+      key
+        ? a[key] === value
+        : a.subtask_id === null && a.comment_id === null
+    )
+  const attachmentList = (items: AttachmentRow[]) => (
+    <AttachmentList
+      attachments={items}
+      urls={attachmentUrls}
+      authorName={authorName}
+      removeAttachment={removeAttachment}
+    />
+  )
+
+  const timeline: TimelineEntry[] = [
+    ...comments.map(
+      (c): TimelineEntry => ({ type: 'comment', at: c.created_at, comment: c })
+    ),
+    ...events.map(
+      (e): TimelineEntry => ({ type: 'event', at: e.created_at, event: e })
+    ),
+  ].sort((a, b) => a.at.localeCompare(b.at))
+
+  const openSubtasks = subtasks.filter(
+    (s) => !isClosed(s.status)
+  ).length
+
+  const slaAt = slaDeadline(task, slaRules)
+  const slaBreached = isSlaBreached(task, slaRules)
+
+  const linkGroups = [
+    ['blocked_by', t('dependencies.blockedBy'), links.blocked_by],
+    ['blocks', t('dependencies.blocks'), links.blocks],
+    ['relates_to', t('dependencies.relatesTo'), links.relates_to],
+  ] as const
+
+  // Blocking asks for the reason the forms have a field for; undefined
+  // when cancelled.
+  const blockReason = (from: Status, to: Status, title: string) =>
+    to === 'blocked' && from !== 'blocked'
+      ? window.prompt(t('board.blockReason', { title }))?.trim() || undefined
+      : ''
+
+  // Shortcuts and palette commands submit the settings form with one field
+  // changed.
+  async function saveTask(
+    patch: Partial<Pick<TaskRow, 'status' | 'priority' | 'assigned_agent_id'>>
+  ) {
+    const next = { ...task, ...patch }
+    const reason = blockReason(task.status, next.status, task.title)
+    if (reason === undefined) return
+
+    const formData = new FormData()
+    formData.set('id', task.id)
+    formData.set('status', next.status)
+    formData.set('priority', next.priority)
+    formData.set('assigned_agent_id', next.assigned_agent_id ?? '')
+    formData.set('due_date', next.due_date ?? '')
+    formData.set('needs_user_id', next.needs_user_id ?? '')
+    formData.set('reason', reason)
+    const result = await updateTask(null, formData)
+    if (!result.ok) showToast(resultMessage(result, t)!)
+  }
+
+  async function saveSubtaskStatus(s: SubtaskRow, status: Status) {
+    const reason = blockReason(s.status, status, s.title)
+    if (reason === undefined) return
+
+    const formData = new FormData()
+    formData.set('id', s.id)
+    formData.set('status', status)
+    formData.set('result_summary', s.result_summary ?? '')
+    formData.set('due_date', s.due_date ?? '')
+    formData.set('reason', reason)
+    const result = await updateSubtask(null, formData)
+    if (!result.ok) showToast(resultMessage(result, t)!)
+  }
+
+  // j/k steps through the subtasks; a status letter changes the focused
+  // subtask or, with none focused, the task.
+  function onShortcut(e: KeyboardEvent) {
+    if (e.defaultPrevented || !isPlainKey(e)) return
+    const cards = [
+      ...document.querySelectorAll<HTMLElement>('[data-subtask-id]'),
+    ]
+    const focused = (e.target as HTMLElement).closest<HTMLElement>(
+      '[data-subtask-id]'
+    )
+    const status = STATUS_KEYS[e.key]
+
+    if (e.key === 'j' || e.key === 'k') {
+      const index = focused ? cards.indexOf(focused) : -1
+      const next =
+        e.key === 'j'
+          ? cards[index + 1]
+          : cards[(index === -1 ? cards.length : index) - 1]
+      if (!next) return
+      next.focus()
+    } else if (status) {
+      const subtask = subtasks.find((s) => s.id === focused?.dataset.subtaskId)
+      const current = subtask?.status ?? task.status
+      if (status === current) return
+      const allowed = subtask
+        ? nextStatuses(current)
+        : nextStatuses(current, { openSubtasks })
+      if (!allowed.includes(status)) {
+        showToast(
+          t('board.cannotMove', {
+            from: t(`status.${current}`),
+            to: t(`status.${status}`),
+          })
+        )
+      } else if (subtask) {
+        void saveSubtaskStatus(subtask, status)
+      } else {
+        void saveTask({ status })
+      }
+    } else {
+      return
+    }
+
+    e.preventDefault()
+  }
+
+  useEffect(() => {
+    window.addEventListener('keydown', onShortcut)
+    return () => window.removeEventListener('keydown', onShortcut)
+  })
+
+  const group = t('palette.focused', { title: task.title })
+  const commands: Command[] = [
+    ...nextStatuses(task.status, { openSubtasks })
+      .filter((status) => status !== task.status)
+      .map((status) => ({
+        id: `task:status:${status}`,
+        group,
+        label: t('palette.setStatus', { status: t(`status.${status}`) }),
+        shortcut: STATUS_KEY[status],
+        run: () => void saveTask({ status }),
+      })),
+    ...PRIORITIES.filter((p) => p !== task.priority).map((priority) => ({
+      id: `task:priority:${priority}`,
+      group,
+      label: t('palette.setPriority', { priority: t(`priority.${priority}`) }),
+      run: () => void saveTask({ priority }),
+    })),
+    ...agents
+      .filter((agent) => agent.id !== task.assigned_agent_id)
+      .map((agent) => ({
+        id: `task:assign:${agent.id}`,
+        group,
+        label: t('palette.assign', { agent: agent.name }),
+        run: () => void saveTask({ assigned_agent_id: agent.id }),
+      })),
+  ]
+  if (task.assigned_agent_id) {
+    commands.push({
+      id: 'task:unassign',
+      group,
+      label: t('palette.unassign'),
+      run: () => void saveTask({ assigned_agent_id: null }),
+    })
+  }
+  useCommands(commands)
+
+  return (
+    <main className="p-6 max-w-4xl">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Link className="underline text-sm" href="/board">
+            {t('task.backToBoard')}
+          </Link>
+          <h1 className="text-2xl font-semibold mt-3">
+            {task.title}
+            {changed.has(task.id) && (
+              <span className="ml-2 text-xs font-normal text-amber-600">
+                {t('common.updated')}
+              </span>
+            )}
+          </h1>
+          {task.description && (
+            <Markdown agents={agents} className="text-sm mt-2">
+              {task.description}
+            </Markdown>
+          )}
+          <p className="text-xs text-muted-foreground mt-3">
+            {t(`status.${task.status}`)} · {t(`priority.${task.priority}`)}
+            {task.created_by === 'human'
+              ? task.created_by_user_id &&
+                ` · ${t('task.createdBy', {
+                  name: userName(task.created_by_user_id),
+                })}`
+              : ` · ${t('task.via', { source: task.created_by })}`}
+            {task.status === 'needs_human' &&
+              ` · ${t('task.waitsFor', {
+                name: task.needs_user_id
+                  ? userName(task.needs_user_id)
+                  : t('task.anyone'),
+              })}`}{' '}
+            · {t('task.updatedAt', { at: fmt.dateTime(task.updated_at) })}
+            {task.due_date && (
+              <span className={dueClass(task, timeZone)}>
+                {' '}
+                · {t('task.dueOn', { date: fmt.date(task.due_date) })}
+              </span>
+            )}
+            {slaAt && (
+              <span className={slaBreached ? 'text-red-600 font-medium' : ''}>
+                {' '}
+                ·{' '}
+                {slaBreached
+                  ? t('task.slaBreached', { status: t(`status.${task.status}`) })
+                  : t('task.slaUntil', {
+                      status: t(`status.${task.status}`),
+                      at: fmt.dateTime(slaAt),
+                    })}
+              </span>
+            )}
+          </p>
+        </div>
+
+        {nav}
+      </div>
+
+      <section className="mt-8 border rounded p-4">
+        <h2 className="font-medium">{t('task.settings')}</h2>
+        <ActionForm
+          // Remount on remote changes so the uncontrolled fields follow.
+          key={`${task.status}:${task.priority}:${task.assigned_agent_id}:${task.due_date}:${task.needs_user_id}`}
+          action={updateTask}
+          className="mt-3 flex flex-wrap gap-3 items-end"
+        >
+          <input type="hidden" name="id" value={task.id} />
+
+          <label className="text-sm">
+            <div className="text-xs mb-1">{t('task.status')}</div>
+            <select
+              name="status"
+              defaultValue={task.status}
+              className="border rounded px-2 py-1"
+            >
+              {nextStatuses(task.status, { openSubtasks }).map((s) => (
+                <option key={s} value={s}>
+                  {t(`status.${s}`)}
+                </option>
+              ))}
+            </select>
+            <FieldError name="status" />
+          </label>
+
+          <label className="text-sm">
+            <div className="text-xs mb-1">{t('task.priority')}</div>
+            <select
+              name="priority"
+              defaultValue={task.priority}
+              className="border rounded px-2 py-1"
+            >
+              {PRIORITIES.map((p) => (
+                <option key={p} value={p}>
+                  {t(`priority.${p}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="text-sm">
+            <div className="text-xs mb-1">{t('task.assignedAgent')}</div>
+            <select
+              name="assigned_agent_id"
+              defaultValue={task.assigned_agent_id ?? ''}
+              className="border rounded px-2 py-1"
+            >
+              <option value="">{t('common.none')}</option>
+              {agents.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name} · {a.role}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="text-sm">
+            <div className="text-xs mb-1">{t('task.needsHumanFor')}</div>
+            <select
+              name="needs_user_id"
+              defaultValue={task.needs_user_id ?? ''}
+              className="border rounded px-2 py-1"
+            >
+              <option value="">{t('task.anyoneOption')}</option>
+              {responders.map((m) => (
+                <option key={m.user_id} value={m.user_id}>
+                  {m.display_name}
+                </option>
+              ))}
+            </select>
+            <FieldError name="needs_user_id" />
+          </label>
+
+          <label className="text-sm">
+            <div className="text-xs mb-1">{t('common.due')}</div>
+            <input
+              type="date"
+              name="due_date"
+              defaultValue={task.due_date ?? ''}
+              className="border rounded px-2 py-1"
+            />
+            <FieldError name="due_date" />
+          </label>
+
+          <label className="text-sm flex-1 min-w-48">
+            <div className="text-xs mb-1">{t('task.blockReason')}</div>
+            <input name="reason" className="w-full border rounded px-2 py-1" />
+            <FieldError name="reason" />
+          </label>
+
+          <button className="border rounded px-3 py-2">
+            {t('common.save')}
+          </button>
+        </ActionForm>
+
+        <ActionForm
+          action={saveAsTemplate}
+          resetOnSuccess
+          className="mt-4 pt-3 border-t flex flex-wrap gap-2 items-start text-sm"
+        >
+          <input type="hidden" name="task_id" value={task.id} />
+          <div>
+            <input
+              name="name"
+              defaultValue={task.title}
+              className="border rounded px-2 py-1"
+              placeholder={t('task.templateName')}
+              required
+            />
+            <FieldError name="name" />
+          </div>
+          <button className="border rounded px-3 py-1">
+            {t('task.saveAsTemplate')}
+          </button>
+          <Link className="underline text-xs self-center" href="/templates">
+            {t('common.templates')}
+          </Link>
+        </ActionForm>
+      </section>
+
+      <section className="mt-8 border rounded p-4">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="font-medium">{t('dependencies.title')}</h2>
+          <Link className="underline text-xs" href={`/task/${task.id}/graph`}>
+            {t('dependencies.viewGraph')}
+          </Link>
+        </div>
+        {task.blocked_from && (
+          <p className="text-xs text-muted-foreground mt-1">
+            {t('dependencies.autoBlocked', {
+              status: t(`status.${task.blocked_from}`),
+            })}
+          </p>
+        )}
+
+        {linkGroups.map(
+          ([kind, label, items]) =>
+            items.length > 0 && (
+              <div key={kind} className="mt-3">
+                <h3 className="text-xs font-medium">{label}</h3>
+                <ul className="mt-1 space-y-1 text-sm">
+                  {items.map(({ link_id, task: linked }) => (
+                    <li key={link_id} className="flex items-center gap-2">
+                      <Link className="underline" href={`/task/${linked.id}`}>
+                        {linked.title}
+                      </Link>
+                      <span
+                        className={`text-xs ${
+                          kind === 'blocked_by' && linked.status !== 'done'
+                            ? 'text-amber-600'
+                            : 'text-muted-foreground'
+                        }`}
+                      >
+                        {t(`status.${linked.status}`)}
+                      </span>
+                      <ActionForm action={removeLink}>
+                        <input type="hidden" name="id" value={link_id} />
+                        <button className="text-xs border rounded px-1.5 py-0.5">
+                          {t('common.remove')}
+                        </button>
+                      </ActionForm>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )
+        )}
+        {linkGroups.every(([, , items]) => items.length === 0) && (
+          <p className="text-sm text-muted-foreground mt-2">
+            {t('dependencies.none')}
+          </p>
+        )}
+
+        <ActionForm
+          action={addLink}
+          resetOnSuccess
+          className="mt-3 flex flex-wrap gap-2 items-start"
+        >
+          <input type="hidden" name="task_id" value={task.id} />
+          <select
+            name="kind"
+            defaultValue="blocked_by"
+            className="border rounded px-2 py-1 text-sm"
+          >
+            <option value="blocked_by">{t('dependencies.blockedBy')}</option>
+            <option value="relates_to">{t('dependencies.relatesTo')}</option>
+          </select>
+          <div>
+            <select
+              name="target_task_id"
+              defaultValue=""
+              className="border rounded px-2 py-1 text-sm max-w-xs"
+            >
+              <option value="">{t('dependencies.pickTask')}</option>
+              {linkCandidates.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.title} · {t(`status.${c.status}`)}
+                </option>
+              ))}
+            </select>
+            <FieldError name="target_task_id" />
+          </div>
+          <button className="border rounded px-3 py-1 text-sm">
+            {t('dependencies.add')}
+          </button>
+        </ActionForm>
+      </section>
+
+      <section className="mt-8 border rounded p-4">
+        <h2 className="font-medium">{t('attachments.title')}</h2>
+        {attachmentList(attachmentsOf(null))}
+
+        <ActionForm
+          action={attachFile}
+          resetOnSuccess
+          className="mt-3 flex flex-wrap gap-2 items-start"
+        >
+          <input type="hidden" name="task_id" value={task.id} />
+          <div>
+            <input name="file" type="file" required className="text-sm" />
+            <FieldError name="file" />
+          </div>
+          <select
+            name="subtask_id"
+            defaultValue=""
+            className="border rounded px-2 py-1 text-sm"
+          >
+            <option value="">{t('attachments.task')}</option>
+            {subtasks.map((s) => (
+              <option key={s.id} value={s.id}>
+                {t('attachments.subtask', { title: s.title })}
+              </option>
+            ))}
+          </select>
+          <button className="border rounded px-3 py-1 text-sm">
+            {t('attachments.upload')}
+          </button>
+        </ActionForm>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('attachments.maxSize')}
+        </p>
+      </section>
+
+      <section className="mt-8 border rounded p-4">
+        <h2 className="font-medium">{t('subtasks.title')}</h2>
+
+        <div className="mt-4 space-y-3">
+          {subtasks.map((s) => (
+            <div
+              key={s.id}
+              data-subtask-id={s.id}
+              tabIndex={0}
+              className={`border rounded p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                changed.has(s.id) ? 'ring-2 ring-amber-400' : ''
+              }`}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <div className="text-sm font-medium">{s.title}</div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    <span className="font-medium">{t('subtasks.dod')}</span>
+                    <Markdown agents={agents}>{s.definition_of_done}</Markdown>
+                  </div>
+                  {s.result_summary && (
+                    <div className="text-xs mt-2">
+                      <span className="font-medium">
+                        {t('subtasks.result')}
+                      </span>
+                      <Markdown agents={agents}>{s.result_summary}</Markdown>
+                    </div>
+                  )}
+                  {attachmentList(attachmentsOf('subtask_id', s.id))}
+                  <div className="text-xs text-muted-foreground mt-2">
+                    {t(`status.${s.status}`)}
+                    {s.assignee_agent_id
+                      ? ` · ${
+                          agentMap.get(s.assignee_agent_id)?.name ??
+                          t('task.agent')
+                        }`
+                      : ''}
+                    {s.due_date && (
+                      <span className={dueClass(s, timeZone)}>
+                        {' '}
+                        · {t('task.dueOn', { date: fmt.date(s.due_date) })}
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                <ActionForm
+                  key={`${s.status}:${s.result_summary}:${s.due_date}`}
+                  action={updateSubtask}
+                  className="flex flex-wrap gap-2 items-end justify-end max-w-md"
+                >
+                  <input type="hidden" name="id" value={s.id} />
+                  <select
+                    name="status"
+                    defaultValue={s.status}
+                    className="text-xs border rounded px-2 py-1"
+                  >
+                    {nextStatuses(s.status).map((st) => (
+                      <option key={st} value={st}>
+                        {t(`status.${st}`)}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    name="result_summary"
+                    defaultValue={s.result_summary ?? ''}
+                    placeholder={t('subtasks.resultPlaceholder')}
+                    className="text-xs border rounded px-2 py-1"
+                  />
+                  <input
+                    type="date"
+                    name="due_date"
+                    defaultValue={s.due_date ?? ''}
+                    title={t('common.due')}
+                    className="text-xs border rounded px-2 py-1"
+                  />
+                  <input
+                    name="reason"
+                    placeholder={t('subtasks.reasonPlaceholder')}
+                    className="text-xs border rounded px-2 py-1"
+                  />
+                  <button className="text-xs border rounded px-2 py-1">
+                    {t('subtasks.update')}
+                  </button>
+                  <FieldError name="status" />
+                  <FieldError name="result_summary" />
+                  <FieldError name="due_date" />
+                </ActionForm>
+              </div>
+            </div>
+          ))}
+
+          {subtasks.length === 0 && (
+            <div className="text-sm text-muted-foreground">
+              {t('subtasks.none')}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-6">
+          <h3 className="text-sm font-medium">{t('subtasks.create')}</h3>
+          <ActionForm
+            action={createSubtask}
+            resetOnSuccess
+            className="mt-2 space-y-2"
+          >
+            <input type="hidden" name="task_id" value={task.id} />
+            <div>
+              <input
+                name="title"
+                className="w-full border rounded px-3 py-2"
+                placeholder={t('common.title')}
+                required
+              />
+              <FieldError name="title" />
+            </div>
+            <div>
+              <textarea
+                name="definition_of_done"
+                className="w-full border rounded px-3 py-2"
+                placeholder={t('subtasks.dodPlaceholder')}
+                rows={3}
+                required
+              />
+              <FieldError name="definition_of_done" />
+            </div>
+            <select
+              name="assignee_agent_id"
+              defaultValue={task.assigned_agent_id ?? ''}
+              className="border rounded px-2 py-2 text-sm"
+            >
+              <option value="">{t('common.unassigned')}</option>
+              {agents.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name} · {a.role}
+                </option>
+              ))}
+            </select>
+            <label className="text-sm ml-2">
+              {t('common.due')}{' '}
+              <input
+                type="date"
+                name="due_date"
+                className="border rounded px-2 py-1"
+              />
+            </label>
+            <FieldError name="due_date" />
+            <button className="bg-black text-white rounded px-3 py-2">
+              {t('subtasks.create')}
+            </button>
+          </ActionForm>
+        </div>
+      </section>
+
+      <section className="mt-8 border rounded p-4">
+        <h2 className="font-medium">{t('activity.title')}</h2>
+
+        <div className="mt-4 space-y-3">
+          {timeline.map((entry) =>
+            entry.type === 'comment' ? (
+              <div
+                key={entry.comment.id}
+                className={`border rounded p-3 ${
+                  changed.has(entry.comment.id) ? 'ring-2 ring-amber-400' : ''
+                }`}
+              >
+                <div className="text-xs text-muted-foreground">
+                  {fmt.dateTime(entry.comment.created_at)} ·{' '}
+                  {authorName(
+                    entry.comment.author_type,
+                    entry.comment.author_agent_id,
+                    entry.comment.author_user_id
+                  )}
+                </div>
+                <Markdown agents={agents} className="text-sm mt-2">
+                  {entry.comment.body}
+                </Markdown>
+                {attachmentList(attachmentsOf('comment_id', entry.comment.id))}
+              </div>
+            ) : (
+              <div
+                key={entry.event.id}
+                className={`text-xs text-muted-foreground px-3 ${
+                  changed.has(entry.event.id) ? 'text-amber-600' : ''
+                }`}
+              >
+                {fmt.dateTime(entry.event.created_at)} ·{' '}
+                {authorName(
+                  entry.event.actor_type,
+                  entry.event.actor_agent_id,
+                  entry.event.actor_user_id
+                )}{' '}
+                · {describeEvent(entry.event, subtaskTitles, agentName, i18n)}
+              </div>
+            )
+          )}
+
+          {timeline.length === 0 && (
+            <div className="text-sm text-muted-foreground">
+              {t('activity.none')}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-6">
+          <h3 className="text-sm font-medium">{t('activity.addComment')}</h3>
+          <ActionForm
+            action={addComment}
+            resetOnSuccess
+            className="mt-2 space-y-2"
+          >
+            <input type="hidden" name="task_id" value={task.id} />
+            <div>
+              <textarea
+                name="body"
+                className="w-full border rounded px-3 py-2"
+                placeholder={t('activity.commentPlaceholder')}
+                rows={4}
+                required
+              />
+              <FieldError name="body" />
+            </div>
+            <div>
+              <input name="file" type="file" className="text-sm" />
+              <FieldError name="file" />
+            </div>
+            <button className="bg-black text-white rounded px-3 py-2">
+              {t('activity.comment')}
+            </button>
+          </ActionForm>
+        </div>
+      </section>
+
+      <section className="mt-8 text-xs text-muted-foreground">
+        <div>{t('task.taskId', { id: task.id })}</div>
+        <div>{t('task.workspace', { id: task.workspace_id })}</div>
+        <div className="mt-2">{t('task.shortcuts')}</div>
+      </section>
+
+      <Toast toast={toast} />
+    </main>
+  )
+}
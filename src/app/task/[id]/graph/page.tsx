@@ -0,0 +1,193 @@
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getSession } from '@/lib/workspaces'
+import { getDependencyGraph, type DependencyGraph } from '@/lib/dependencies'
+import { getTask } from '@/lib/repository'
+import type { Status } from '@/lib/status'
+import { getI18n } from '@/lib/i18n/server'
+import AppNav from '../../../AppNav'
+
+const NODE_W = 190
+const NODE_H = 46
+const COL_GAP = 70
+const ROW_GAP = 24
+const PAD = 50
+
+const STATUS_STYLE: Partial<Record<Status, string>> = {
+  done: 'fill-green-50 stroke-green-600',
+  blocked: 'fill-red-50 stroke-red-600',
+  needs_human: 'fill-amber-50 stroke-amber-600',
+  canceled: 'fill-gray-100 stroke-gray-400',
+}
+
+const truncate = (s: string, n: number) =>
+  s.length > n ? `${s.slice(0, n - 1)}…` : s
+
+// Columns left to right in dependency order; within a column the root
+// comes first, then titles alphabetically.
+function layout(graph: DependencyGraph, rootId: string) {
+  const minColumn = Math.min(...graph.nodes.map((n) => n.column))
+  const rows = new Map<number, number>()
+  const sorted = [...graph.nodes].sort(
+    (a, b) =>
+      Number(b.id === rootId) - Number(a.id === rootId) ||
+      a.title.localeCompare(b.title)
+  )
+
+  const positions = new Map<string, { x: number; y: number }>()
+  for (const n of sorted) {
+    const row = rows.get(n.column) ?? 0
+    rows.set(n.column, row + 1)
+    positions.set(n.id, {
+      x: PAD + (n.column - minColumn) * (NODE_W + COL_GAP),
+      y: PAD + row * (NODE_H + ROW_GAP),
+    })
+  }
+
+  const columns = Math.max(...graph.nodes.map((n) => n.column)) - minColumn
+  return {
+    positions,
+    width: PAD * 2 + (columns + 1) * NODE_W + columns * COL_GAP,
+    height: PAD * 2 + Math.max(...rows.values()) * (NODE_H + ROW_GAP),
+  }
+}
+
+// Blocker to dependent, left to right. Related tasks sharing a column are
+// joined by an arc on the left.
+function edgePath(a: { x: number; y: number }, b: { x: number; y: number }) {
+  const ay = a.y + NODE_H / 2
+  const by = b.y + NODE_H / 2
+  if (a.x === b.x) {
+    return `M ${a.x} ${ay} C ${a.x - 40} ${ay}, ${b.x - 40} ${by}, ${b.x} ${by}`
+  }
+  const [from, to] = a.x < b.x ? [a, b] : [b, a]
+  const fy = from === a ? ay : by
+  const ty = to === a ? ay : by
+  const mid = (from.x + NODE_W + to.x) / 2
+  return `M ${from.x + NODE_W} ${fy} C ${mid} ${fy}, ${mid} ${ty}, ${to.x} ${ty}`
+}
+
+export default async function TaskGraphPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  const { t } = await getI18n()
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  let graph: DependencyGraph | null
+  try {
+    graph = (await getTask(supabase, id))
+      ? await getDependencyGraph(supabase, id)
+      : null
+  } catch (err) {
+    return (
+      <main className="p-6">
+        <h1 className="text-2xl font-semibold">{t('dependencies.title')}</h1>
+        <p className="mt-3 text-sm">
+          {t('common.error', { message: (err as Error).message })}
+        </p>
+      </main>
+    )
+  }
+  if (!graph) notFound()
+
+  const root = graph.nodes.find((n) => n.id === id)!
+  const { positions, width, height } = layout(graph, id)
+
+  return (
+    <main className="p-6">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <Link className="underline text-sm" href={`/task/${id}`}>
+            ← {root.title}
+          </Link>
+          <h1 className="text-2xl font-semibold mt-3">
+            {t('dependencies.title')}
+          </h1>
+          <p className="text-xs text-muted-foreground mt-1">
+            {t('dependencies.graphIntro')}
+          </p>
+        </div>
+        <AppNav />
+      </div>
+
+      {graph.nodes.length === 1 ? (
+        <p className="mt-8 text-sm text-muted-foreground">
+          {t('dependencies.graphEmpty')}
+        </p>
+      ) : (
+        <div className="mt-8 overflow-auto border rounded">
+          <svg
+            width={width}
+            height={height}
+            viewBox={`0 0 ${width} ${height}`}
+            className="text-foreground"
+            role="img"
+            aria-label={t('dependencies.graphLabel', { title: root.title })}
+          >
+            <defs>
+              <marker
+                id="arrow"
+                viewBox="0 0 10 10"
+                refX="10"
+                refY="5"
+                markerWidth="8"
+                markerHeight="8"
+                orient="auto-start-reverse"
+              >
+                <path d="M 0 0 L 10 5 L 0 10 z" className="fill-gray-500" />
+              </marker>
+            </defs>
+
+            {graph.edges.map((e) => (
+              <path
+                key={`${e.kind}:${e.from}:${e.to}`}
+                d={edgePath(positions.get(e.from)!, positions.get(e.to)!)}
+                fill="none"
+                className="stroke-gray-500"
+                strokeDasharray={e.kind === 'relates_to' ? '4 4' : undefined}
+                markerEnd={e.kind === 'blocked_by' ? 'url(#arrow)' : undefined}
+              />
+            ))}
+
+            {graph.nodes.map((n) => {
+              const { x, y } = positions.get(n.id)!
+              return (
+                <Link key={n.id} href={`/task/${n.id}`}>
+                  <title>{n.title}</title>
+                  <rect
+                    x={x}
+                    y={y}
+                    width={NODE_W}
+                    height={NODE_H}
+                    rx={6}
+                    strokeWidth={n.id === id ? 2.5 : 1}
+                    className={
+                      STATUS_STYLE[n.status] ?? 'fill-white stroke-gray-400'
+                    }
+                  />
+                  <text x={x + 10} y={y + 19} className="fill-current text-xs">
+                    {truncate(n.title, 28)}
+                  </text>
+                  <text
+                    x={x + 10}
+                    y={y + 35}
+                    className="fill-gray-500 text-[10px]"
+                  >
+                    {t(`status.${n.status}`)} · {t(`priority.${n.priority}`)}
+                  </text>
+                </Link>
+              )
+            })}
+          </svg>
+        </div>
+      )}
+    </main>
+  )
+}
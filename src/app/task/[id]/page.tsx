@@ -1,154 +1,521 @@
 import Link from 'next/link'
+import { revalidatePath } from 'next/cache'
 import { redirect } from 'next/navigation'
 import { createServerSupabase } from '@/lib/supabase/server'
+import {
+  getSession,
+  hasRole,
+  humanActor,
+  isMember,
+  listMembers,
+  roleError,
+} from '@/lib/workspaces'
+import { countOpenSubtasks } from '@/lib/tasks'
+import { getI18n } from '@/lib/i18n/server'
+import { MessageError } from '@/lib/i18n'
+import { recordEvents, type TaskEventInput } from '@/lib/events'
+import {
+  agentMentioned,
+  commentAdded,
+  emitWebhooks,
+  eventWebhooks,
+  subtaskCreated,
+} from '@/lib/webhooks'
+import {
+  addTaskLink,
+  getTaskLinks,
+  removeTaskLink,
+  unblockDependents,
+} from '@/lib/dependencies'
+import { recordCommentMentions, recordMentions } from '@/lib/mentions'
+import { deleteAttachment, uploadAttachment } from '@/lib/attachments'
+import { checkWipLimit } from '@/lib/wip'
+import { fetchSlaRules } from '@/lib/sla'
+import { isClosed, transitionError } from '@/lib/workflow'
+import { actionError, parseForm, type FormAction } from '@/lib/actions'
+import {
+  addCommentInput,
+  addTaskLinkInput,
+  createSubtaskInput,
+  idInput,
+  saveAsTemplateInput,
+  updateSubtaskInput,
+  updateTaskInput,
+  uploadAttachmentInput,
+} from '@/lib/schemas'
+import {
+  getSubtaskState,
+  getTask,
+  getTaskState,
+  insertComment,
+  insertSubtask,
+  listActiveAgents,
+  listAttachments,
+  listComments,
+  listEvents,
+  listSubtasks,
+  patchSubtask,
+  patchTask,
+} from '@/lib/repository'
+import type { TaskRow } from '@/lib/types'
+import AppNav from '../../AppNav'
+import TaskView from './TaskView'
+
+const updateTask: FormAction = async (_prev, formData) => {
+  'use server'
 
-const STATUSES = [
-  'inbox',
-  'triage',
-  'in_progress',
-  'blocked',
-  'review',
-  'needs_nico',
-  'done',
-  'canceled',
-] as const
-
-type Status = (typeof STATUSES)[number]
-
-type TaskRow = {
-  id: string
-  title: string
-  description: string | null
-  status: Status
-  priority: 'low' | 'medium' | 'high' | 'urgent'
-  assigned_agent_id: string | null
-  owner_id: string
-  created_at: string
-  updated_at: string
-}
+  const { t } = await getI18n()
+  const parsed = parseForm(updateTaskInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { id, status, priority, assigned_agent_id, due_date } = parsed.data
+  const reason = parsed.data.reason ?? ''
+  const needs_user_id =
+    status === 'needs_human' ? (parsed.data.needs_user_id ?? null) : null
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+  const actor = humanActor(session)
+
+  try {
+    const current = await getTaskState(supabase, id)
+
+    if (current.status !== status) {
+      const invalid = transitionError(
+        current.status,
+        status,
+        { openSubtasks: await countOpenSubtasks(supabase, id), reason },
+        t
+      )
+      if (invalid) return { ok: false, fieldErrors: { status: [invalid] } }
+
+      // Warn-mode limits only show on the board; here only hard limits stop
+      // the save.
+      const wip = await checkWipLimit(supabase, status, id, t)
+      if (wip.error) return { ok: false, fieldErrors: { status: [wip.error] } }
+    }
+    if (
+      needs_user_id &&
+      !(await isMember(supabase, session.workspace_id, needs_user_id))
+    ) {
+      return { ok: false, fieldErrors: { needs_user_id: [t('task.notMember')] } }
+    }
+
+    await patchTask(supabase, id, {
+      status,
+      priority,
+      assigned_agent_id,
+      due_date,
+      needs_user_id,
+    })
+
+    const events: TaskEventInput[] = [
+      { task_id: id, kind: 'task_status', before: current.status, after: status },
+      {
+        task_id: id,
+        kind: 'task_priority',
+        before: current.priority,
+        after: priority,
+      },
+      {
+        task_id: id,
+        kind: 'task_assignee',
+        before: current.assigned_agent_id,
+        after: assigned_agent_id,
+      },
+      {
+        task_id: id,
+        kind: 'task_due_date',
+        before: current.due_date,
+        after: due_date,
+      },
+    ]
+    await recordEvents(supabase, session.workspace_id, actor, events)
+    const webhooks = eventWebhooks(actor, events)
+
+    if (status === 'blocked' && current.status !== 'blocked') {
+      const comment = await insertComment(supabase, {
+        workspace_id: session.workspace_id,
+        task_id: id,
+        author_type: 'human',
+        author_user_id: session.user_id,
+        body: t('workflow.blockedComment', { reason }),
+      })
+      const mentions = await recordCommentMentions(
+        supabase,
+        session.workspace_id,
+        actor,
+        comment
+      )
+      webhooks.push(commentAdded(comment), ...mentions.map(agentMentioned))
+    }
+    if (isClosed(status) && !isClosed(current.status)) {
+      webhooks.push(
+        ...(await unblockDependents(supabase, session.workspace_id, id, t))
+      )
+    }
+
+    await emitWebhooks(session.workspace_id, webhooks)
+  } catch (err) {
+    return actionError(err, t)
+  }
 
-type SubtaskRow = {
-  id: string
-  task_id: string
-  title: string
-  status: Status
-  assignee_agent_id: string | null
-  definition_of_done: string
-  result_summary: string | null
-  created_at: string
-  updated_at: string
+  return { ok: true }
 }
 
-type CommentRow = {
-  id: string
-  task_id: string
-  subtask_id: string | null
-  author_type: 'nico' | 'agent' | 'system'
-  author_agent_id: string | null
-  body: string
-  created_at: string
+const addComment: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(addCommentInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+  const actor = humanActor(session)
+
+  const { file, ...input } = parsed.data
+
+  try {
+    const comment = await insertComment(supabase, {
+      ...input,
+      workspace_id: session.workspace_id,
+      author_type: 'human',
+      author_user_id: session.user_id,
+    })
+    if (file) {
+      try {
+        await uploadAttachment(
+          supabase,
+          session.workspace_id,
+          actor,
+          { task_id: comment.task_id, comment_id: comment.id },
+          file
+        )
+      } catch (err) {
+        // The attachment needs the comment's id, so the comment goes in
+        // first; take it back out rather than post it without its file.
+        const { error: rollbackErr } = await supabase
+          .from('comments')
+          .delete()
+          .eq('id', comment.id)
+        if (rollbackErr) {
+          console.error(
+            `task: could not roll back comment ${comment.id}`,
+            rollbackErr
+          )
+        }
+        throw err
+      }
+    }
+    const mentions = await recordCommentMentions(
+      supabase,
+      session.workspace_id,
+      actor,
+      comment
+    )
+    await emitWebhooks(session.workspace_id, [
+      commentAdded(comment),
+      ...mentions.map(agentMentioned),
+    ])
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  return { ok: true }
 }
 
-type AgentRow = {
-  id: string
-  name: string
-  role: string
-  status: string
-  is_active: boolean
+const createSubtask: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(createSubtaskInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { task_id, title } = parsed.data
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+  const actor = humanActor(session)
+
+  try {
+    const subtask = await insertSubtask(supabase, {
+      ...parsed.data,
+      workspace_id: session.workspace_id,
+      status: 'in_progress',
+    })
+
+    const events: TaskEventInput[] = [
+      { task_id, subtask_id: subtask.id, kind: 'subtask_created', after: title },
+      {
+        task_id,
+        subtask_id: subtask.id,
+        kind: 'subtask_assignee',
+        before: null,
+        after: subtask.assignee_agent_id,
+      },
+      {
+        task_id,
+        subtask_id: subtask.id,
+        kind: 'subtask_due_date',
+        before: null,
+        after: subtask.due_date,
+      },
+    ]
+    await recordEvents(supabase, session.workspace_id, actor, events)
+    const mentions = await recordMentions(
+      supabase,
+      session.workspace_id,
+      actor,
+      { source: 'definition_of_done', task_id, subtask_id: subtask.id },
+      subtask.definition_of_done
+    )
+    // The assignment is part of the created payload, not a separate update.
+    await emitWebhooks(session.workspace_id, [
+      subtaskCreated(subtask),
+      ...mentions.map(agentMentioned),
+    ])
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  return { ok: true }
 }
 
-async function updateTask(formData: FormData) {
+const updateSubtask: FormAction = async (_prev, formData) => {
   'use server'
 
-  const id = String(formData.get('id'))
-  const status = String(formData.get('status')) as Status
-  const assigned_agent_id = String(formData.get('assigned_agent_id') ?? '')
+  const { t } = await getI18n()
+  const parsed = parseForm(updateSubtaskInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { id, status, result_summary, due_date } = parsed.data
+  const reason = parsed.data.reason ?? ''
 
   const supabase = await createServerSupabase()
-  const {
-    data: { user },
-  } = await supabase.auth.getUser()
-  if (!user) redirect('/login')
-
-  const patch: { status: Status; assigned_agent_id: string | null } = {
-    status,
-    assigned_agent_id: assigned_agent_id ? assigned_agent_id : null,
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+  const actor = humanActor(session)
+
+  try {
+    const current = await getSubtaskState(supabase, id)
+
+    const invalid = transitionError(current.status, status, { reason }, t)
+    if (invalid) return { ok: false, fieldErrors: { status: [invalid] } }
+
+    await patchSubtask(supabase, id, { status, result_summary, due_date })
+
+    const events: TaskEventInput[] = [
+      {
+        task_id: current.task_id,
+        subtask_id: id,
+        kind: 'subtask_status',
+        before: current.status,
+        after: status,
+      },
+      {
+        task_id: current.task_id,
+        subtask_id: id,
+        kind: 'subtask_result',
+        before: current.result_summary,
+        after: result_summary,
+      },
+      {
+        task_id: current.task_id,
+        subtask_id: id,
+        kind: 'subtask_due_date',
+        before: current.due_date,
+        after: due_date,
+      },
+    ]
+    await recordEvents(supabase, session.workspace_id, actor, events)
+    const webhooks = eventWebhooks(actor, events)
+    const resultMentions = await recordMentions(
+      supabase,
+      session.workspace_id,
+      actor,
+      { source: 'result_summary', task_id: current.task_id, subtask_id: id },
+      result_summary,
+      current.result_summary
+    )
+    webhooks.push(...resultMentions.map(agentMentioned))
+
+    if (status === 'blocked' && current.status !== 'blocked') {
+      const comment = await insertComment(supabase, {
+        workspace_id: session.workspace_id,
+        task_id: current.task_id,
+        subtask_id: id,
+        author_type: 'human',
+        author_user_id: session.user_id,
+        body: t('workflow.blockedComment', { reason }),
+      })
+      const mentions = await recordCommentMentions(
+        supabase,
+        session.workspace_id,
+        actor,
+        comment
+      )
+      webhooks.push(commentAdded(comment), ...mentions.map(agentMentioned))
+    }
+
+    await emitWebhooks(session.workspace_id, webhooks)
+  } catch (err) {
+    return actionError(err, t)
   }
 
-  const { error } = await supabase.from('tasks').update(patch).eq('id', id)
-  if (error) throw new Error(error.message)
+  return { ok: true }
 }
 
-async function addComment(formData: FormData) {
+const attachFile: FormAction = async (_prev, formData) => {
   'use server'
 
-  const task_id = String(formData.get('task_id'))
-  const body = String(formData.get('body') ?? '').trim()
-  if (!body) return
+  const { t } = await getI18n()
+  const parsed = parseForm(uploadAttachmentInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { file, ...target } = parsed.data
 
   const supabase = await createServerSupabase()
-  const {
-    data: { user },
-  } = await supabase.auth.getUser()
-  if (!user) redirect('/login')
-
-  const { error } = await supabase.from('comments').insert({
-    owner_id: user.id,
-    task_id,
-    author_type: 'nico',
-    body,
-  })
-
-  if (error) throw new Error(error.message)
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+  const actor = humanActor(session)
+
+  try {
+    if (target.subtask_id) {
+      const subtask = await getSubtaskState(supabase, target.subtask_id)
+      if (subtask.task_id !== target.task_id) {
+        return { ok: false, error: t('task.subtaskNotInTask') }
+      }
+    }
+    await uploadAttachment(supabase, session.workspace_id, actor, target, file)
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  return { ok: true }
 }
 
-async function createSubtask(formData: FormData) {
+const removeAttachment: FormAction = async (_prev, formData) => {
   'use server'
 
-  const task_id = String(formData.get('task_id'))
-  const title = String(formData.get('title') ?? '').trim()
-  const definition_of_done = String(formData.get('definition_of_done') ?? '').trim()
-  const assignee_agent_id = String(formData.get('assignee_agent_id') ?? '')
+  const { t } = await getI18n()
+  const parsed = parseForm(idInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  try {
+    await deleteAttachment(supabase, parsed.data.id)
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  return { ok: true }
+}
+
+const addLink: FormAction = async (_prev, formData) => {
+  'use server'
 
-  if (!title || !definition_of_done) return
+  const { t } = await getI18n()
+  const parsed = parseForm(addTaskLinkInput, formData, t)
+  if (!parsed.success) return parsed.result
 
   const supabase = await createServerSupabase()
-  const {
-    data: { user },
-  } = await supabase.auth.getUser()
-  if (!user) redirect('/login')
-
-  const { error } = await supabase.from('subtasks').insert({
-    owner_id: user.id,
-    task_id,
-    title,
-    definition_of_done,
-    status: 'in_progress',
-    assignee_agent_id: assignee_agent_id ? assignee_agent_id : null,
-  })
-
-  if (error) throw new Error(error.message)
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  try {
+    await emitWebhooks(
+      session.workspace_id,
+      await addTaskLink(supabase, session.workspace_id, parsed.data, t)
+    )
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  // Links aren't live-updated; re-render both ends.
+  revalidatePath(`/task/${parsed.data.task_id}`)
+  revalidatePath(`/task/${parsed.data.target_task_id}`)
+  return { ok: true }
 }
 
-async function updateSubtask(formData: FormData) {
+const removeLink: FormAction = async (_prev, formData) => {
   'use server'
 
-  const id = String(formData.get('id'))
-  const status = String(formData.get('status')) as Status
-  const result_summary = String(formData.get('result_summary') ?? '').trim()
+  const { t } = await getI18n()
+  const parsed = parseForm(idInput, formData, t)
+  if (!parsed.success) return parsed.result
 
   const supabase = await createServerSupabase()
-  const {
-    data: { user },
-  } = await supabase.auth.getUser()
-  if (!user) redirect('/login')
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  try {
+    await emitWebhooks(
+      session.workspace_id,
+      await removeTaskLink(supabase, session.workspace_id, parsed.data.id, t)
+    )
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  revalidatePath('/task/[id]', 'page')
+  return { ok: true }
+}
 
-  const { error } = await supabase
-    .from('subtasks')
-    .update({ status, result_summary: result_summary || null })
-    .eq('id', id)
+// Snapshots the task as it is now: title, description, priority, agent
+// and its subtasks in order, with their DoD and assignee. Canceled
+// subtasks are left out.
+const saveAsTemplate: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(saveAsTemplateInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { task_id, name } = parsed.data
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  try {
+    const task = await getTask(supabase, task_id)
+    if (!task) throw new MessageError('errors.taskNotFound')
+    const subtasks = await listSubtasks(supabase, task_id)
+
+    const { error } = await supabase.from('task_templates').insert({
+      workspace_id: session.workspace_id,
+      name,
+      title_pattern: task.title,
+      description: task.description,
+      priority: task.priority,
+      assigned_agent_id: task.assigned_agent_id,
+      subtasks: subtasks
+        .filter((s) => s.status !== 'canceled')
+        .map((s) => ({
+          title: s.title,
+          definition_of_done: s.definition_of_done,
+          assignee_agent_id: s.assignee_agent_id,
+        })),
+    })
+    if (error) throw new Error(error.message)
+  } catch (err) {
+    return actionError(err, t)
+  }
 
-  if (error) throw new Error(error.message)
+  revalidatePath('/templates')
+  revalidatePath('/board')
+  return { ok: true }
 }
 
 export default async function TaskPage({
@@ -159,25 +526,21 @@ export default async function TaskPage({
   const { id } = await params
 
   const supabase = await createServerSupabase()
-  const {
-    data: { user },
-  } = await supabase.auth.getUser()
-  if (!user) redirect('/login')
-
-  const { data: task, error: taskErr } = await supabase
-    .from('tasks')
-    .select(
-      'id,title,description,status,priority,assigned_agent_id,owner_id,created_at,updated_at'
-    )
-    .eq('id', id)
-    .maybeSingle()
-
-  if (taskErr) {
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  const { t } = await getI18n()
+
+  let task: TaskRow | null
+  try {
+    task = await getTask(supabase, id)
+  } catch (err) {
     return (
       <main className="p-6">
-        <p className="text-sm">Error: {taskErr.message}</p>
+        <p className="text-sm">
+          {t('common.error', { message: (err as Error).message })}
+        </p>
         <Link className="underline" href="/board">
-          Volver
+          {t('common.back')}
         </Link>
       </main>
     )
@@ -186,236 +549,63 @@ export default async function TaskPage({
   if (!task) {
     return (
       <main className="p-6">
-        <p className="text-sm">Task no encontrada.</p>
+        <p className="text-sm">{t('task.notFound')}</p>
         <Link className="underline" href="/board">
-          Volver
+          {t('common.back')}
         </Link>
       </main>
     )
   }
 
-  const { data: subtasks } = await supabase
-    .from('subtasks')
-    .select(
-      'id,task_id,title,status,assignee_agent_id,definition_of_done,result_summary,created_at,updated_at'
-    )
-    .eq('task_id', id)
-    .order('created_at', { ascending: true })
-
-  const { data: comments } = await supabase
-    .from('comments')
-    .select('id,task_id,subtask_id,author_type,author_agent_id,body,created_at')
-    .eq('task_id', id)
-    .order('created_at', { ascending: true })
-
-  const { data: agents } = await supabase
-    .from('agents')
-    .select('id,name,role,status,is_active')
-    .eq('is_active', true)
-    .order('name', { ascending: true })
-
-  const agentMap = new Map<string, AgentRow>()
-  ;(agents as AgentRow[] | null)?.forEach((a) => agentMap.set(a.id, a))
-
-  const t = task as TaskRow
+  const [
+    subtasks,
+    comments,
+    events,
+    attachments,
+    agents,
+    members,
+    links,
+    candidates,
+    slaRules,
+  ] = await Promise.all([
+    listSubtasks(supabase, id),
+    listComments(supabase, id),
+    listEvents(supabase, id),
+    listAttachments(supabase, id),
+    listActiveAgents(supabase),
+    listMembers(supabase, session.workspace_id),
+    getTaskLinks(supabase, id),
+    supabase
+      .from('tasks')
+      .select('id,title,status')
+      .neq('id', id)
+      .order('updated_at', { ascending: false })
+      .limit(200),
+    fetchSlaRules(supabase),
+  ])
 
   return (
-    <main className="p-6 max-w-4xl">
-      <div className="flex items-start justify-between gap-4">
-        <div>
-          <Link className="underline text-sm" href="/board">
-            ← Volver al board
-          </Link>
-          <h1 className="text-2xl font-semibold mt-3">{t.title}</h1>
-          {t.description && (
-            <p className="text-sm text-muted-foreground mt-2">{t.description}</p>
-          )}
-          <p className="text-xs text-muted-foreground mt-3">
-            {t.status} · {t.priority} · updated {new Date(t.updated_at).toLocaleString()}
-          </p>
-        </div>
-
-        <div className="text-sm">
-          <Link className="underline" href="/login">
-            Cuenta
-          </Link>
-        </div>
-      </div>
-
-      <section className="mt-8 border rounded p-4">
-        <h2 className="font-medium">Task settings</h2>
-        <form action={updateTask} className="mt-3 flex flex-wrap gap-3 items-end">
-          <input type="hidden" name="id" value={t.id} />
-
-          <label className="text-sm">
-            <div className="text-xs mb-1">Status</div>
-            <select
-              name="status"
-              defaultValue={t.status}
-              className="border rounded px-2 py-1"
-            >
-              {STATUSES.map((s) => (
-                <option key={s} value={s}>
-                  {s}
-                </option>
-              ))}
-            </select>
-          </label>
-
-          <label className="text-sm">
-            <div className="text-xs mb-1">Assigned agent</div>
-            <select
-              name="assigned_agent_id"
-              defaultValue={t.assigned_agent_id ?? ''}
-              className="border rounded px-2 py-1"
-            >
-              <option value="">(none)</option>
-              {(agents as AgentRow[] | null)?.map((a) => (
-                <option key={a.id} value={a.id}>
-                  {a.name} · {a.role}
-                </option>
-              ))}
-            </select>
-          </label>
-
-          <button className="border rounded px-3 py-2">Guardar</button>
-        </form>
-      </section>
-
-      <section className="mt-8 border rounded p-4">
-        <h2 className="font-medium">Subtasks</h2>
-
-        <div className="mt-4 space-y-3">
-          {(subtasks as SubtaskRow[] | null)?.map((s) => (
-            <div key={s.id} className="border rounded p-3">
-              <div className="flex items-start justify-between gap-3">
-                <div>
-                  <div className="text-sm font-medium">{s.title}</div>
-                  <div className="text-xs text-muted-foreground mt-1">
-                    DoD: {s.definition_of_done}
-                  </div>
-                  {s.result_summary && (
-                    <div className="text-xs mt-2">Result: {s.result_summary}</div>
-                  )}
-                  <div className="text-xs text-muted-foreground mt-2">
-                    {s.status}
-                    {s.assignee_agent_id
-                      ? ` · ${agentMap.get(s.assignee_agent_id)?.name ?? 'agent'}`
-                      : ''}
-                  </div>
-                </div>
-
-                <form action={updateSubtask} className="flex gap-2 items-end">
-                  <input type="hidden" name="id" value={s.id} />
-                  <select
-                    name="status"
-                    defaultValue={s.status}
-                    className="text-xs border rounded px-2 py-1"
-                  >
-                    {STATUSES.map((st) => (
-                      <option key={st} value={st}>
-                        {st}
-                      </option>
-                    ))}
-                  </select>
-                  <input
-                    name="result_summary"
-                    defaultValue={s.result_summary ?? ''}
-                    placeholder="result (optional)"
-                    className="text-xs border rounded px-2 py-1"
-                  />
-                  <button className="text-xs border rounded px-2 py-1">
-                    Update
-                  </button>
-                </form>
-              </div>
-            </div>
-          ))}
-
-          {(!subtasks || subtasks.length === 0) && (
-            <div className="text-sm text-muted-foreground">Sin subtasks.</div>
-          )}
-        </div>
-
-        <div className="mt-6">
-          <h3 className="text-sm font-medium">Crear subtask</h3>
-          <form action={createSubtask} className="mt-2 space-y-2">
-            <input type="hidden" name="task_id" value={t.id} />
-            <input
-              name="title"
-              className="w-full border rounded px-3 py-2"
-              placeholder="Título"
-              required
-            />
-            <textarea
-              name="definition_of_done"
-              className="w-full border rounded px-3 py-2"
-              placeholder="Definition of Done (obligatorio)"
-              rows={3}
-              required
-            />
-            <select
-              name="assignee_agent_id"
-              defaultValue={t.assigned_agent_id ?? ''}
-              className="border rounded px-2 py-2 text-sm"
-            >
-              <option value="">(sin asignar)</option>
-              {(agents as AgentRow[] | null)?.map((a) => (
-                <option key={a.id} value={a.id}>
-                  {a.name} · {a.role}
-                </option>
-              ))}
-            </select>
-            <button className="bg-black text-white rounded px-3 py-2">
-              Crear subtask
-            </button>
-          </form>
-        </div>
-      </section>
-
-      <section className="mt-8 border rounded p-4">
-        <h2 className="font-medium">Comentarios</h2>
-
-        <div className="mt-4 space-y-3">
-          {(comments as CommentRow[] | null)?.map((c) => (
-            <div key={c.id} className="border rounded p-3">
-              <div className="text-xs text-muted-foreground">
-                {new Date(c.created_at).toLocaleString()} · {c.author_type}
-                {c.author_agent_id
-                  ? ` · ${agentMap.get(c.author_agent_id)?.name ?? c.author_agent_id}`
-                  : ''}
-              </div>
-              <div className="text-sm mt-2 whitespace-pre-wrap">{c.body}</div>
-            </div>
-          ))}
-
-          {(!comments || comments.length === 0) && (
-            <div className="text-sm text-muted-foreground">Sin comentarios.</div>
-          )}
-        </div>
-
-        <div className="mt-6">
-          <h3 className="text-sm font-medium">Añadir comentario</h3>
-          <form action={addComment} className="mt-2 space-y-2">
-            <input type="hidden" name="task_id" value={t.id} />
-            <textarea
-              name="body"
-              className="w-full border rounded px-3 py-2"
-              placeholder="Escribe un comentario…"
-              rows={4}
-              required
-            />
-            <button className="bg-black text-white rounded px-3 py-2">
-              Comentar
-            </button>
-          </form>
-        </div>
-      </section>
-
-      <section className="mt-8 text-xs text-muted-foreground">
-        <div>Task ID: {t.id}</div>
-        <div>Owner: {t.owner_id}</div>
-      </section>
-    </main>
+    <TaskView
+      initialTask={task}
+      initialSubtasks={subtasks}
+      initialComments={comments}
+      initialEvents={events}
+      initialAttachments={attachments}
+      agents={agents}
+      members={members}
+      links={links}
+      linkCandidates={candidates.data ?? []}
+      slaRules={slaRules}
+      updateTask={updateTask}
+      addComment={addComment}
+      createSubtask={createSubtask}
+      updateSubtask={updateSubtask}
+      attachFile={attachFile}
+      removeAttachment={removeAttachment}
+      addLink={addLink}
+      removeLink={removeLink}
+      saveAsTemplate={saveAsTemplate}
+      nav={<AppNav />}
+    />
   )
 }
@@ -0,0 +1,247 @@
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getI18n } from '@/lib/i18n/server'
+import { getSession, hasRole, roleError } from '@/lib/workspaces'
+import { PRIORITIES } from '@/lib/status'
+import {
+  MAX_TEMPLATE_SUBTASKS,
+  TEMPLATE_COLUMNS,
+  parseTemplateLines,
+  templateLine,
+  templateSubtasks,
+} from '@/lib/templates'
+import { listActiveAgents } from '@/lib/repository'
+import { actionError, parseForm, type FormAction } from '@/lib/actions'
+import { createTemplateInput, idInput } from '@/lib/schemas'
+import ActionForm, { FieldError } from '../ActionForm'
+import AppNav from '../AppNav'
+
+const createTemplate: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(createTemplateInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { subtasks: lines, ...template } = parsed.data
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  try {
+    const { subtasks, unknown } = parseTemplateLines(
+      lines,
+      await listActiveAgents(supabase)
+    )
+    if (unknown.length > 0) {
+      return {
+        ok: false,
+        fieldErrors: {
+          subtasks: [
+            t('validation.unknownAgents', { names: unknown.join(', ') }),
+          ],
+        },
+      }
+    }
+    if (subtasks.length > MAX_TEMPLATE_SUBTASKS) {
+      return {
+        ok: false,
+        fieldErrors: {
+          subtasks: [t('validation.maxSubtasks', { max: MAX_TEMPLATE_SUBTASKS })],
+        },
+      }
+    }
+
+    const { error } = await supabase
+      .from('task_templates')
+      .insert({ ...template, workspace_id: session.workspace_id, subtasks })
+    if (error) throw new Error(error.message)
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  revalidatePath('/templates')
+  revalidatePath('/board')
+  return { ok: true }
+}
+
+const deleteTemplate: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(idInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'editor')) return roleError('editor', t)
+
+  const { error } = await supabase
+    .from('task_templates')
+    .delete()
+    .eq('id', parsed.data.id)
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/templates')
+  revalidatePath('/board')
+  return { ok: true }
+}
+
+export default async function TemplatesPage() {
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t } = await getI18n()
+
+  const [{ data: templates, error }, agents] = await Promise.all([
+    supabase
+      .from('task_templates')
+      .select(TEMPLATE_COLUMNS)
+      .order('name', { ascending: true }),
+    listActiveAgents(supabase),
+  ])
+  const agentNames = new Map(agents.map((a) => [a.id, a.name]))
+
+  return (
+    <main className="p-6 max-w-4xl">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">{t('templates.title')}</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            {t('templates.subtitle')}
+          </p>
+        </div>
+        <AppNav />
+      </div>
+
+      <section className="mt-6 border rounded p-4">
+        <h2 className="font-medium">{t('templates.create')}</h2>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('templates.createHint')}
+        </p>
+        <ActionForm
+          action={createTemplate}
+          resetOnSuccess
+          className="mt-3 space-y-2"
+        >
+          <div className="flex flex-wrap gap-2">
+            <div>
+              <input
+                name="name"
+                className="border rounded px-3 py-2"
+                placeholder={t('templates.name')}
+                required
+              />
+              <FieldError name="name" />
+            </div>
+            <div className="flex-1">
+              <input
+                name="title_pattern"
+                className="w-full border rounded px-3 py-2"
+                placeholder={t('templates.titlePattern')}
+                required
+              />
+              <FieldError name="title_pattern" />
+            </div>
+          </div>
+          <textarea
+            name="description"
+            className="w-full border rounded px-3 py-2"
+            placeholder={t('templates.descriptionPlaceholder')}
+            rows={2}
+          />
+          <div>
+            <textarea
+              name="subtasks"
+              className="w-full border rounded px-3 py-2 text-sm"
+              placeholder={t('templates.subtasksPlaceholder')}
+              rows={4}
+            />
+            <FieldError name="subtasks" />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <select
+              name="priority"
+              defaultValue="medium"
+              className="border rounded px-2 py-2 text-sm"
+            >
+              {PRIORITIES.map((p) => (
+                <option key={p} value={p}>
+                  {t(`priority.${p}`)}
+                </option>
+              ))}
+            </select>
+            <select
+              name="assigned_agent_id"
+              defaultValue=""
+              className="border rounded px-2 py-2 text-sm"
+            >
+              <option value="">{t('templates.noAgent')}</option>
+              {agents.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name} · {a.role}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button className="bg-black text-white rounded px-3 py-2">
+            {t('templates.save')}
+          </button>
+        </ActionForm>
+      </section>
+
+      <section className="mt-8 space-y-3">
+        {error && (
+          <p className="text-sm">
+            {t('common.error', { message: error.message })}
+          </p>
+        )}
+
+        {(templates ?? []).map((template) => {
+          const subtasks = templateSubtasks(template)
+          return (
+            <div key={template.id} className="border rounded p-4">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <div className="font-medium">{template.name}</div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    <code>{template.title_pattern}</code> ·{' '}
+                    {t(`priority.${template.priority}`)}
+                    {template.assigned_agent_id &&
+                      ` · ${
+                        agentNames.get(template.assigned_agent_id) ??
+                        t('templates.inactiveAgent')
+                      }`}
+                  </div>
+                </div>
+                <ActionForm action={deleteTemplate}>
+                  <input type="hidden" name="id" value={template.id} />
+                  <button className="text-xs border rounded px-2 py-1">
+                    {t('templates.delete')}
+                  </button>
+                </ActionForm>
+              </div>
+              {subtasks.length > 0 && (
+                <ol className="mt-2 list-decimal list-inside text-sm space-y-1">
+                  {subtasks.map((s, i) => (
+                    <li key={i}>{templateLine(s, agentNames)}</li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          )
+        })}
+
+        {(templates ?? []).length === 0 && (
+          <div className="text-sm text-muted-foreground">
+            {t('templates.none')}
+          </div>
+        )}
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,485 @@
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { getI18n } from '@/lib/i18n/server'
+import {
+  WORKSPACE_ROLES,
+  getSession,
+  hasRole,
+  inviteMember,
+  isMember,
+  listInvites,
+  listMembers,
+  listMemberships,
+  listReceivedInvites,
+  roleError,
+  switchWorkspace,
+} from '@/lib/workspaces'
+import { actionError, parseForm, type FormAction } from '@/lib/actions'
+import {
+  idInput,
+  inviteMemberInput,
+  memberInput,
+  memberRoleInput,
+  switchWorkspaceInput,
+  workspaceNameInput,
+} from '@/lib/schemas'
+import ActionForm, { FieldError } from '../ActionForm'
+import AppNav from '../AppNav'
+
+const switchTo: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(switchWorkspaceInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { workspace_id } = parsed.data
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  try {
+    if (!(await isMember(supabase, workspace_id, session.user_id))) {
+      return { ok: false, error: t('errors.notWorkspaceMember') }
+    }
+    await switchWorkspace(supabase, session.user_id, workspace_id)
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  // Every page reads the current workspace.
+  revalidatePath('/', 'layout')
+  return { ok: true }
+}
+
+const createWorkspace: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(workspaceNameInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { error } = await supabase.rpc('create_workspace', parsed.data)
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/', 'layout')
+  return { ok: true }
+}
+
+const renameWorkspace: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(workspaceNameInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const { error } = await supabase
+    .from('workspaces')
+    .update(parsed.data)
+    .eq('id', session.workspace_id)
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/', 'layout')
+  return { ok: true }
+}
+
+// Shows up in the member list or among the pending invites.
+const invite: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(inviteMemberInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  try {
+    await inviteMember(
+      supabase,
+      session.workspace_id,
+      session.user_id,
+      parsed.data
+    )
+  } catch (err) {
+    return actionError(err, t)
+  }
+
+  revalidatePath('/workspace')
+  return { ok: true }
+}
+
+const cancelInvite: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(idInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const { error } = await supabase
+    .from('workspace_invites')
+    .delete()
+    .eq('id', parsed.data.id)
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/workspace')
+  return { ok: true }
+}
+
+// Joins the invite's workspace and switches to it.
+const acceptInvite: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(idInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { error } = await supabase.rpc('accept_invite', {
+    invite_id: parsed.data.id,
+  })
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/', 'layout')
+  return { ok: true }
+}
+
+const declineInvite: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(idInput, formData, t)
+  if (!parsed.success) return parsed.result
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { error } = await supabase
+    .from('workspace_invites')
+    .delete()
+    .eq('id', parsed.data.id)
+    .eq('email', session.email.toLowerCase())
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/workspace')
+  return { ok: true }
+}
+
+// The database refuses to leave a workspace without an owner.
+const changeRole: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(memberRoleInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { user_id, role } = parsed.data
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (!hasRole(session, 'owner')) return roleError('owner', t)
+
+  const { error } = await supabase
+    .from('workspace_members')
+    .update({ role })
+    .eq('workspace_id', session.workspace_id)
+    .eq('user_id', user_id)
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/', 'layout')
+  return { ok: true }
+}
+
+// Owners remove anyone; everyone else can only remove themselves (leave).
+const removeMember: FormAction = async (_prev, formData) => {
+  'use server'
+
+  const { t } = await getI18n()
+  const parsed = parseForm(memberInput, formData, t)
+  if (!parsed.success) return parsed.result
+  const { user_id } = parsed.data
+
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+  if (user_id !== session.user_id && !hasRole(session, 'owner')) {
+    return roleError('owner', t)
+  }
+
+  const { error } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', session.workspace_id)
+    .eq('user_id', user_id)
+
+  if (error) return { ok: false, error: error.message }
+  revalidatePath('/', 'layout')
+  return { ok: true }
+}
+
+export default async function WorkspacePage() {
+  const supabase = await createServerSupabase()
+  const session = await getSession(supabase)
+  if (!session) redirect('/login')
+
+  const { t, fmt } = await getI18n()
+  const isOwner = hasRole(session, 'owner')
+  const [memberships, members, invites, received] = await Promise.all([
+    listMemberships(supabase, session.user_id),
+    listMembers(supabase, session.workspace_id),
+    isOwner ? listInvites(supabase, session.workspace_id) : [],
+    listReceivedInvites(supabase, session.email),
+  ])
+
+  return (
+    <main className="p-6 max-w-3xl">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">{session.workspace_name}</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            {t('workspace.yourRole', { role: t(`roles.${session.role}`) })}
+          </p>
+        </div>
+        <AppNav />
+      </div>
+
+      {received.length > 0 && (
+        <section className="mt-6 border rounded p-4">
+          <h2 className="font-medium">{t('workspace.invites')}</h2>
+          <div className="mt-3 space-y-2">
+            {received.map((i) => (
+              <div key={i.id} className="flex items-center gap-2 text-sm">
+                <span className="font-medium">{i.workspace_name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {t('workspace.invitedSince', {
+                    role: t(`roles.${i.role}`),
+                    date: fmt.dateTime(i.created_at),
+                  })}
+                </span>
+                <ActionForm action={acceptInvite} className="ml-auto">
+                  <input type="hidden" name="id" value={i.id} />
+                  <button className="text-xs bg-black text-white rounded px-2 py-0.5">
+                    {t('workspace.accept')}
+                  </button>
+                </ActionForm>
+                <ActionForm action={declineInvite}>
+                  <input type="hidden" name="id" value={i.id} />
+                  <button className="text-xs border rounded px-2 py-0.5">
+                    {t('workspace.decline')}
+                  </button>
+                </ActionForm>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="mt-6 border rounded p-4">
+        <h2 className="font-medium">{t('workspace.yours')}</h2>
+        <div className="mt-3 space-y-2">
+          {memberships.map((m) => (
+            <ActionForm
+              key={m.workspace_id}
+              action={switchTo}
+              className="flex items-center gap-2 text-sm"
+            >
+              <input type="hidden" name="workspace_id" value={m.workspace_id} />
+              <span className="font-medium">{m.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {t(`roles.${m.role}`)}
+              </span>
+              {m.workspace_id === session.workspace_id ? (
+                <span className="ml-auto text-xs">
+                  {t('workspace.current')}
+                </span>
+              ) : (
+                <button className="ml-auto text-xs border rounded px-2 py-0.5">
+                  {t('workspace.switch')}
+                </button>
+              )}
+            </ActionForm>
+          ))}
+        </div>
+
+        <ActionForm
+          action={createWorkspace}
+          resetOnSuccess
+          className="mt-4 flex gap-2"
+        >
+          <div className="flex-1">
+            <input
+              name="name"
+              placeholder={t('workspace.newName')}
+              className="w-full text-sm border rounded px-2 py-1"
+            />
+            <FieldError name="name" />
+          </div>
+          <button className="text-sm bg-black text-white rounded px-3 py-1">
+            {t('common.create')}
+          </button>
+        </ActionForm>
+      </section>
+
+      {isOwner && (
+        <section className="mt-6 border rounded p-4">
+          <h2 className="font-medium">{t('workspace.name')}</h2>
+          <ActionForm action={renameWorkspace} className="mt-3 flex gap-2">
+            <div className="flex-1">
+              <input
+                name="name"
+                defaultValue={session.workspace_name}
+                className="w-full text-sm border rounded px-2 py-1"
+              />
+              <FieldError name="name" />
+            </div>
+            <button className="text-sm border rounded px-3 py-1">
+              {t('workspace.rename')}
+            </button>
+          </ActionForm>
+        </section>
+      )}
+
+      <section className="mt-6 border rounded p-4">
+        <h2 className="font-medium">
+          {t('workspace.members', { count: members.length })}
+        </h2>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('workspace.rolesHint')}
+        </p>
+
+        <div className="mt-3 space-y-2">
+          {members.map((m) => (
+            <div
+              key={m.user_id}
+              className="flex flex-wrap items-center gap-2 text-sm"
+            >
+              <span className="font-medium">{m.display_name}</span>
+              <span className="text-xs text-muted-foreground">{m.email}</span>
+
+              {isOwner ? (
+                <ActionForm
+                  key={m.role}
+                  action={changeRole}
+                  className="ml-auto flex items-center gap-2"
+                >
+                  <input type="hidden" name="user_id" value={m.user_id} />
+                  <select
+                    name="role"
+                    defaultValue={m.role}
+                    className="text-xs border rounded px-1 py-0.5"
+                  >
+                    {WORKSPACE_ROLES.map((r) => (
+                      <option key={r} value={r}>
+                        {t(`roles.${r}`)}
+                      </option>
+                    ))}
+                  </select>
+                  <button className="text-xs border rounded px-2 py-0.5">
+                    {t('common.save')}
+                  </button>
+                </ActionForm>
+              ) : (
+                <span className="ml-auto text-xs">{t(`roles.${m.role}`)}</span>
+              )}
+
+              {(isOwner || m.user_id === session.user_id) && (
+                <ActionForm action={removeMember}>
+                  <input type="hidden" name="user_id" value={m.user_id} />
+                  <button className="text-xs border rounded px-2 py-0.5">
+                    {m.user_id === session.user_id
+                      ? t('workspace.leave')
+                      : t('workspace.remove')}
+                  </button>
+                </ActionForm>
+              )}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {isOwner && (
+        <section className="mt-6 border rounded p-4">
+          <h2 className="font-medium">{t('workspace.invite')}</h2>
+          <p className="text-xs text-muted-foreground mt-1">
+            {t('workspace.inviteHint')}
+          </p>
+
+          <ActionForm
+            action={invite}
+            resetOnSuccess
+            className="mt-3 flex flex-wrap gap-2"
+          >
+            <div className="flex-1">
+              <input
+                name="email"
+                type="email"
+                placeholder={t('workspace.emailPlaceholder')}
+                className="w-full text-sm border rounded px-2 py-1"
+              />
+              <FieldError name="email" />
+            </div>
+            <select
+              name="role"
+              defaultValue="editor"
+              className="text-sm border rounded px-2 py-1"
+            >
+              <option value="editor">{t('roles.editor')}</option>
+              <option value="viewer">{t('roles.viewer')}</option>
+            </select>
+            <button className="text-sm bg-black text-white rounded px-3 py-1">
+              {t('workspace.invite')}
+            </button>
+          </ActionForm>
+
+          <div className="mt-4 space-y-2">
+            {invites.map((i) => (
+              <ActionForm
+                key={i.id}
+                action={cancelInvite}
+                className="flex items-center gap-2 text-sm"
+              >
+                <input type="hidden" name="id" value={i.id} />
+                <span>{i.email}</span>
+                <span className="text-xs text-muted-foreground">
+                  {t('workspace.pendingSince', {
+                    role: t(`roles.${i.role}`),
+                    date: fmt.dateTime(i.created_at),
+                  })}
+                </span>
+                <button className="ml-auto text-xs border rounded px-2 py-0.5">
+                  {t('workspace.cancel')}
+                </button>
+              </ActionForm>
+            ))}
+            {invites.length === 0 && (
+              <div className="text-xs text-muted-foreground">
+                {t('workspace.noInvites')}
+              </div>
+            )}
+          </div>
+        </section>
+      )}
+    </main>
+  )
+}
@@ -0,0 +1,81 @@
+import { unstable_rethrow } from 'next/navigation'
+import { z } from 'zod'
+import { MessageError, isMessageKey, type Translate } from '@/lib/i18n'
+
+// What every form server action returns, rendered inline by ActionForm
+// instead of throwing into the error boundary.
+export type ActionResult<T = undefined> =
+  | { ok: true; data?: T }
+  | {
+      ok: false
+      error?: string
+      fieldErrors?: Partial<Record<string, string[]>>
+    }
+
+export type FormAction<T = undefined> = (
+  prev: ActionResult<T> | null,
+  formData: FormData
+) => Promise<ActionResult<T>>
+
+// Repeated fields (checkbox groups) become arrays, others stay strings.
+function formDataToObject(formData: FormData) {
+  const out: Record<string, FormDataEntryValue | FormDataEntryValue[]> = {}
+  for (const key of new Set(formData.keys())) {
+    const values = formData.getAll(key)
+    out[key] = values.length > 1 ? values : values[0]
+  }
+  return out
+}
+
+// Validation messages are catalog keys (see src/lib/schemas.ts); zod's own
+// defaults pass through untranslated.
+export const validationMessage = (message: string, t: Translate) =>
+  isMessageKey(message) ? t(message) : message
+
+export function parseForm<S extends z.ZodType>(
+  schema: S,
+  formData: FormData,
+  t: Translate
+):
+  | { success: true; data: z.infer<S> }
+  | { success: false; result: ActionResult<never> } {
+  const parsed = schema.safeParse(formDataToObject(formData))
+  if (parsed.success) return { success: true, data: parsed.data }
+
+  const { formErrors, fieldErrors } = z.flattenError(parsed.error, (i) =>
+    validationMessage(i.message, t)
+  )
+  return {
+    success: false,
+    result: {
+      ok: false,
+      error: formErrors[0] ?? t('errors.checkFields'),
+      fieldErrors,
+    },
+  }
+}
+
+// A thrown error's message, in the member's language when it's one of
+// ours (MessageError).
+export function errorMessage(err: unknown, t: Translate) {
+  if (err instanceof MessageError) return t(err.key, err.params)
+  return err instanceof Error ? err.message : t('errors.unexpected')
+}
+
+// Turns a thrown error into a result. Next's redirect()/notFound() signals
+// are re-thrown so they keep working inside actions.
+export function actionError(err: unknown, t: Translate): ActionResult<never> {
+  unstable_rethrow(err)
+  return { ok: false, error: errorMessage(err, t) }
+}
+
+// First message of a failed result, for actions run without a form to
+// render it (shortcuts, the command palette).
+export function resultMessage(result: ActionResult<unknown>, t: Translate) {
+  if (result.ok) return null
+  return (
+    Object.values(result.fieldErrors ?? {}).flat()[0] ??
+    result.error ??
+    t('errors.unexpected')
+  )
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createAdminSupabase } from '@/lib/supabase/admin'
+import { hashAgentKey, readAgentKey } from './key'
+
+export type AgentContext = {
+  id: string
+  name: string
+  workspace_id: string
+  supabase: ReturnType<typeof createAdminSupabase>
+}
+
+export function jsonError(status: number, error: string, details?: unknown) {
+  return NextResponse.json(
+    details === undefined ? { error } : { error, details },
+    { status }
+  )
+}
+
+export async function authenticateAgent(
+  request: Request
+): Promise<AgentContext | NextResponse> {
+  const key = readAgentKey(request.headers)
+  if (!key) return jsonError(401, 'Missing or malformed API key')
+
+  const supabase = createAdminSupabase()
+  const key_hash = await hashAgentKey(key)
+
+  const { data: apiKey, error } = await supabase
+    .from('agent_api_keys')
+    .select('id,agent_id,workspace_id,agents!inner(id,name,is_active)')
+    .eq('key_hash', key_hash)
+    .is('revoked_at', null)
+    .maybeSingle()
+
+  if (error) return jsonError(500, error.message)
+  if (!apiKey) return jsonError(401, 'Invalid API key')
+
+  const agent = apiKey.agents
+  if (!agent.is_active) return jsonError(403, 'Agent is inactive')
+
+  await supabase
+    .from('agent_api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', apiKey.id)
+
+  return {
+    id: agent.id,
+    name: agent.name,
+    workspace_id: apiKey.workspace_id,
+    supabase,
+  }
+}
+
+export async function parseBody<T extends z.ZodType>(
+  request: Request,
+  schema: T
+): Promise<z.infer<T> | NextResponse> {
+  let raw: unknown
+  try {
+    raw = await request.json()
+  } catch {
+    return jsonError(400, 'Body must be valid JSON')
+  }
+
+  const result = schema.safeParse(raw)
+  if (!result.success) {
+    return jsonError(422, 'Invalid payload', z.flattenError(result.error))
+  }
+  return result.data
+}
@@ -0,0 +1,8 @@
+// An agent is considered silent when it hasn't sent a heartbeat for this
+// long. Only a problem if it is sitting on in_progress work.
+export const HEARTBEAT_STALE_MS = 15 * 60 * 1000
+
+export function isStale(lastHeartbeatAt: string | null, now = Date.now()) {
+  if (!lastHeartbeatAt) return true
+  return now - new Date(lastHeartbeatAt).getTime() > HEARTBEAT_STALE_MS
+}
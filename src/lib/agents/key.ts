@@ -0,0 +1,48 @@
+// Edge-safe helpers (Web Crypto only) so middleware can share them.
+
+export const AGENT_KEY_PREFIX = 'cdm_'
+// Integration keys (inbound ingestion) get their own prefix so one can
+// never be mistaken for the other.
+export const INTEGRATION_KEY_PREFIX = 'cdmi_'
+
+function readBearerKey(headers: Headers, prefix: string): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(headers.get('authorization') ?? '')
+  if (!match || !match[1].startsWith(prefix)) return null
+  return match[1]
+}
+
+function generateKey(prefix: string) {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  const body = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+  return `${prefix}${body}`
+}
+
+export function readAgentKey(headers: Headers): string | null {
+  return readBearerKey(headers, AGENT_KEY_PREFIX)
+}
+
+export function generateAgentKey() {
+  return generateKey(AGENT_KEY_PREFIX)
+}
+
+export function readIntegrationKey(headers: Headers): string | null {
+  return readBearerKey(headers, INTEGRATION_KEY_PREFIX)
+}
+
+export function generateIntegrationKey() {
+  return generateKey(INTEGRATION_KEY_PREFIX)
+}
+
+// SHA-256 hex, used for both agent and integration keys.
+export async function hashAgentKey(key: string) {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(key)
+  )
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
@@ -0,0 +1,55 @@
+import { z } from 'zod'
+import { STATUSES } from '@/lib/status'
+import { MAX_ATTACHMENT_BYTES } from '@/lib/attachments'
+
+export const idParam = z.uuid()
+
+export const commentInput = z
+  .object({
+    task_id: z.uuid(),
+    subtask_id: z.uuid().optional(),
+    body: z.string().trim().min(1).max(20000),
+  })
+  .strict()
+
+export const subtaskUpdateInput = z
+  .object({
+    // `needs_nico` is the status's name before workspaces; still accepted
+    // so existing agents keep working.
+    status: z
+      .preprocess(
+        (v) => (v === 'needs_nico' ? 'needs_human' : v),
+        z.enum(STATUSES)
+      )
+      .optional(),
+    result_summary: z.string().trim().max(20000).nullable().optional(),
+    // Required when moving to blocked; posted as a comment by the agent.
+    reason: z.string().trim().max(20000).optional(),
+  })
+  .strict()
+  .refine((v) => v.status !== undefined || v.result_summary !== undefined, {
+    message: 'Provide status and/or result_summary',
+  })
+
+export const heartbeatInput = z
+  .object({
+    status: z.string().trim().min(1).max(40).optional(),
+  })
+  .strict()
+
+export const mentionsReadInput = z
+  .object({
+    // Omit to mark every unread mention as read.
+    ids: z.array(z.uuid()).min(1).max(200).optional(),
+  })
+  .strict()
+
+// multipart/form-data fields of POST /api/agents/attachments.
+export const attachmentUploadInput = z
+  .object({
+    task_id: z.uuid(),
+    subtask_id: z.uuid().optional(),
+    comment_id: z.uuid().optional(),
+    file: z.file().min(1).max(MAX_ATTACHMENT_BYTES),
+  })
+  .strict()
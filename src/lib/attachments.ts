@@ -0,0 +1,132 @@
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import type { Actor } from '@/lib/events'
+import type { AttachmentRow } from '@/lib/types'
+import { MessageError } from '@/lib/i18n'
+
+export const ATTACHMENT_BUCKET = 'attachments'
+
+// Matches the bucket's file_size_limit and the attachments.size_bytes check.
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+export const ATTACHMENT_COLUMNS =
+  'id,task_id,subtask_id,comment_id,filename,content_type,size_bytes,storage_path,uploaded_by_type,uploaded_by_agent_id,uploaded_by_user_id,created_at'
+
+// How long links handed to the browser or an agent stay valid.
+export const SIGNED_URL_SECONDS = 60 * 60
+
+export type AttachmentTarget = {
+  task_id: string
+  subtask_id?: string | null
+  comment_id?: string | null
+}
+
+// SVG is left out on purpose: it can carry scripts.
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+const TEXT_TYPES = [
+  'application/json',
+  'application/x-ndjson',
+  'application/xml',
+]
+const TEXT_EXTENSIONS =
+  /\.(log|txt|md|diff|patch|json|csv|ya?ml|xml|ts|tsx|js|py|sql)$/i
+
+export function previewKind(
+  a: Pick<AttachmentRow, 'content_type' | 'filename'>
+): 'image' | 'text' | null {
+  if (IMAGE_TYPES.includes(a.content_type)) return 'image'
+  if (
+    a.content_type.startsWith('text/') ||
+    TEXT_TYPES.includes(a.content_type) ||
+    TEXT_EXTENSIONS.test(a.filename)
+  ) {
+    return 'text'
+  }
+  return null
+}
+
+export function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`
+  return `${(n / 1024 / 1024).toFixed(1)} MB`
+}
+
+// Keeps the original name readable while making it safe as a path segment.
+function storageName(filename: string) {
+  return (
+    filename
+      .normalize('NFKD')
+      .replace(/[^\w.-]+/g, '_')
+      .replace(/^[._]+/, '')
+      .slice(-100) || 'file'
+  )
+}
+
+// Uploads the file under the workspace's folder and records it. If the row
+// can't be written the object is removed again.
+export async function uploadAttachment(
+  supabase: TypedSupabaseClient,
+  workspace_id: string,
+  actor: Actor,
+  target: AttachmentTarget,
+  file: File
+): Promise<AttachmentRow> {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new MessageError('errors.fileTooBig', {
+      size: formatBytes(MAX_ATTACHMENT_BYTES),
+    })
+  }
+
+  const id = crypto.randomUUID()
+  const name = storageName(file.name)
+  const storage_path = `${workspace_id}/${target.task_id}/${id}/${name}`
+  const content_type = file.type || 'application/octet-stream'
+
+  const { error: uploadErr } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(storage_path, file, { contentType: content_type })
+  if (uploadErr) throw new Error(uploadErr.message)
+
+  const { data, error } = await supabase
+    .from('attachments')
+    .insert({
+      id,
+      workspace_id,
+      task_id: target.task_id,
+      subtask_id: target.subtask_id ?? null,
+      comment_id: target.comment_id ?? null,
+      storage_path,
+      filename: file.name.slice(0, 255) || 'file',
+      content_type,
+      size_bytes: file.size,
+      uploaded_by_type: actor.type,
+      uploaded_by_agent_id: actor.type === 'agent' ? actor.agent_id : null,
+      uploaded_by_user_id: actor.type === 'human' ? actor.user_id : null,
+    })
+    .select(ATTACHMENT_COLUMNS)
+    .single()
+
+  if (error) {
+    await supabase.storage.from(ATTACHMENT_BUCKET).remove([storage_path])
+    throw new Error(error.message)
+  }
+  return data
+}
+
+export async function deleteAttachment(
+  supabase: TypedSupabaseClient,
+  id: string
+) {
+  const { data, error } = await supabase
+    .from('attachments')
+    .delete()
+    .eq('id', id)
+    .select('storage_path')
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  if (!data) throw new MessageError('errors.attachmentNotFound')
+
+  const { error: removeErr } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .remove([data.storage_path])
+  if (removeErr) throw new Error(removeErr.message)
+}
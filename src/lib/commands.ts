@@ -0,0 +1,70 @@
+import type { Status } from '@/lib/status'
+
+// An entry of the Ctrl/Cmd-K palette. Pages register theirs for whatever
+// is focused; the palette adds navigation and task search.
+export type Command = {
+  id: string
+  // Heading the command is listed under.
+  group: string
+  label: string
+  // Key that does the same outside the palette, shown as a hint.
+  shortcut?: string
+  // Listed only once something is typed, and run with that text (e.g. the
+  // title of a task to create).
+  withQuery?: boolean
+  run: (query: string) => void
+}
+
+// Single-key status changes on the board and the task page. Fixed letters
+// whatever the language, like the j/k navigation.
+export const STATUS_KEYS: Record<string, Status> = {
+  i: 'inbox',
+  t: 'triage',
+  p: 'in_progress',
+  b: 'blocked',
+  r: 'review',
+  h: 'needs_human',
+  d: 'done',
+  x: 'canceled',
+}
+
+export const STATUS_KEY = Object.fromEntries(
+  Object.entries(STATUS_KEYS).map(([key, status]) => [status, key])
+) as Record<Status, string>
+
+// Case- and accent-insensitive, so "revision" finds "Revisión".
+const normalize = (s: string) =>
+  s
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+
+// Commands whose label contains every typed word, in registration order.
+export function filterCommands(commands: Command[], query: string) {
+  const words = normalize(query).split(/\s+/).filter(Boolean)
+  if (words.length === 0) return commands.filter((c) => !c.withQuery)
+  return commands.filter((c) => {
+    if (c.withQuery) return true
+    const label = normalize(c.label)
+    return words.every((w) => label.includes(w))
+  })
+}
+
+type KeyEvent = Pick<
+  KeyboardEvent,
+  'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'target'
+>
+
+export function isPaletteShortcut(e: KeyEvent) {
+  return (e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k'
+}
+
+// Single-key shortcuts never fire while typing or with a modifier held.
+export function isPlainKey(e: KeyEvent) {
+  if (e.ctrlKey || e.metaKey || e.altKey) return false
+  const el = e.target as HTMLElement | null
+  return !(
+    el?.isContentEditable ||
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(el?.tagName ?? '')
+  )
+}
@@ -0,0 +1,14 @@
+import { timingSafeEqual } from 'node:crypto'
+
+// Scheduled jobs under /api/cron/* are called by the scheduler with
+// `Authorization: Bearer $CRON_SECRET`. Without the env var they are off.
+export function isCronRequest(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const actual = Buffer.from(request.headers.get('authorization') ?? '')
+  return (
+    actual.length === expected.length && timingSafeEqual(actual, expected)
+  )
+}
@@ -0,0 +1,1450 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "12.2.3 (519615d)"
+  }
+  public: {
+    Tables: {
+      agent_api_keys: {
+        Row: {
+          agent_id: string
+          created_at: string
+          id: string
+          key_hash: string
+          label: string | null
+          last_used_at: string | null
+          revoked_at: string | null
+          workspace_id: string
+        }
+        Insert: {
+          agent_id: string
+          created_at?: string
+          id?: string
+          key_hash: string
+          label?: string | null
+          last_used_at?: string | null
+          revoked_at?: string | null
+          workspace_id: string
+        }
+        Update: {
+          agent_id?: string
+          created_at?: string
+          id?: string
+          key_hash?: string
+          label?: string | null
+          last_used_at?: string | null
+          revoked_at?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_api_keys_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_api_keys_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agents: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          last_heartbeat_at: string | null
+          name: string
+          role: string
+          status: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_heartbeat_at?: string | null
+          name: string
+          role: string
+          status?: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_heartbeat_at?: string | null
+          name?: string
+          role?: string
+          status?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agents_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attachments: {
+        Row: {
+          comment_id: string | null
+          content_type: string
+          created_at: string
+          filename: string
+          id: string
+          size_bytes: number
+          storage_path: string
+          subtask_id: string | null
+          task_id: string
+          uploaded_by_agent_id: string | null
+          uploaded_by_type: Database["public"]["Enums"]["author_type"]
+          uploaded_by_user_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          comment_id?: string | null
+          content_type: string
+          created_at?: string
+          filename: string
+          id?: string
+          size_bytes: number
+          storage_path: string
+          subtask_id?: string | null
+          task_id: string
+          uploaded_by_agent_id?: string | null
+          uploaded_by_type: Database["public"]["Enums"]["author_type"]
+          uploaded_by_user_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          comment_id?: string | null
+          content_type?: string
+          created_at?: string
+          filename?: string
+          id?: string
+          size_bytes?: number
+          storage_path?: string
+          subtask_id?: string | null
+          task_id?: string
+          uploaded_by_agent_id?: string | null
+          uploaded_by_type?: Database["public"]["Enums"]["author_type"]
+          uploaded_by_user_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attachments_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_subtask_id_fkey"
+            columns: ["subtask_id"]
+            isOneToOne: false
+            referencedRelation: "subtasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_uploaded_by_agent_id_fkey"
+            columns: ["uploaded_by_agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      board_views: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          query: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          query?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          query?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "board_views_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comments: {
+        Row: {
+          author_agent_id: string | null
+          author_type: Database["public"]["Enums"]["author_type"]
+          author_user_id: string | null
+          body: string
+          created_at: string
+          id: string
+          subtask_id: string | null
+          task_id: string
+          workspace_id: string
+        }
+        Insert: {
+          author_agent_id?: string | null
+          author_type?: Database["public"]["Enums"]["author_type"]
+          author_user_id?: string | null
+          body: string
+          created_at?: string
+          id?: string
+          subtask_id?: string | null
+          task_id: string
+          workspace_id: string
+        }
+        Update: {
+          author_agent_id?: string | null
+          author_type?: Database["public"]["Enums"]["author_type"]
+          author_user_id?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          subtask_id?: string | null
+          task_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_author_agent_id_fkey"
+            columns: ["author_agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_subtask_id_fkey"
+            columns: ["subtask_id"]
+            isOneToOne: false
+            referencedRelation: "subtasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inbox_state: {
+        Row: {
+          last_seen_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          last_seen_at?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          last_seen_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inbox_state_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      integration_keys: {
+        Row: {
+          created_at: string
+          id: string
+          key_hash: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key_hash: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key_hash?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "integration_keys_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mentions: {
+        Row: {
+          agent_id: string
+          author_agent_id: string | null
+          author_type: Database["public"]["Enums"]["author_type"]
+          author_user_id: string | null
+          comment_id: string | null
+          created_at: string
+          excerpt: string
+          id: string
+          read_at: string | null
+          source: Database["public"]["Enums"]["mention_source"]
+          subtask_id: string | null
+          task_id: string
+          workspace_id: string
+        }
+        Insert: {
+          agent_id: string
+          author_agent_id?: string | null
+          author_type: Database["public"]["Enums"]["author_type"]
+          author_user_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          excerpt: string
+          id?: string
+          read_at?: string | null
+          source: Database["public"]["Enums"]["mention_source"]
+          subtask_id?: string | null
+          task_id: string
+          workspace_id: string
+        }
+        Update: {
+          agent_id?: string
+          author_agent_id?: string | null
+          author_type?: Database["public"]["Enums"]["author_type"]
+          author_user_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          excerpt?: string
+          id?: string
+          read_at?: string | null
+          source?: Database["public"]["Enums"]["mention_source"]
+          subtask_id?: string | null
+          task_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mentions_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_author_agent_id_fkey"
+            columns: ["author_agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_subtask_id_fkey"
+            columns: ["subtask_id"]
+            isOneToOne: false
+            referencedRelation: "subtasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          current_workspace_id: string | null
+          display_name: string
+          email: string
+          locale: string | null
+          time_zone: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          current_workspace_id?: string | null
+          display_name: string
+          email: string
+          locale?: string | null
+          time_zone?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          current_workspace_id?: string | null
+          display_name?: string
+          email?: string
+          locale?: string | null
+          time_zone?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_current_workspace_id_fkey"
+            columns: ["current_workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_runs: {
+        Row: {
+          created_at: string
+          error: string | null
+          id: string
+          schedule_id: string
+          scheduled_for: string
+          task_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          schedule_id: string
+          scheduled_for: string
+          task_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          schedule_id?: string
+          scheduled_for?: string
+          task_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_runs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "task_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_runs_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_runs_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sla_rules: {
+        Row: {
+          max_hours: number
+          priority: Database["public"]["Enums"]["task_priority"]
+          status: Database["public"]["Enums"]["task_status"]
+          workspace_id: string
+        }
+        Insert: {
+          max_hours: number
+          priority: Database["public"]["Enums"]["task_priority"]
+          status: Database["public"]["Enums"]["task_status"]
+          workspace_id: string
+        }
+        Update: {
+          max_hours?: number
+          priority?: Database["public"]["Enums"]["task_priority"]
+          status?: Database["public"]["Enums"]["task_status"]
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sla_rules_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      standups: {
+        Row: {
+          created_at: string
+          data: Json
+          day: string
+          generated_at: string
+          id: string
+          markdown: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          data: Json
+          day: string
+          generated_at?: string
+          id?: string
+          markdown: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          day?: string
+          generated_at?: string
+          id?: string
+          markdown?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "standups_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subtasks: {
+        Row: {
+          assignee_agent_id: string | null
+          created_at: string
+          definition_of_done: string
+          due_date: string | null
+          escalated_at: string | null
+          id: string
+          result_summary: string | null
+          status: Database["public"]["Enums"]["task_status"]
+          task_id: string
+          title: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          assignee_agent_id?: string | null
+          created_at?: string
+          definition_of_done: string
+          due_date?: string | null
+          escalated_at?: string | null
+          id?: string
+          result_summary?: string | null
+          status?: Database["public"]["Enums"]["task_status"]
+          task_id: string
+          title: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          assignee_agent_id?: string | null
+          created_at?: string
+          definition_of_done?: string
+          due_date?: string | null
+          escalated_at?: string | null
+          id?: string
+          result_summary?: string | null
+          status?: Database["public"]["Enums"]["task_status"]
+          task_id?: string
+          title?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subtasks_assignee_agent_id_fkey"
+            columns: ["assignee_agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subtasks_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subtasks_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_events: {
+        Row: {
+          actor_agent_id: string | null
+          actor_type: Database["public"]["Enums"]["author_type"]
+          actor_user_id: string | null
+          after: string | null
+          before: string | null
+          created_at: string
+          id: string
+          kind: Database["public"]["Enums"]["task_event_kind"]
+          subtask_id: string | null
+          task_id: string
+          workspace_id: string
+        }
+        Insert: {
+          actor_agent_id?: string | null
+          actor_type: Database["public"]["Enums"]["author_type"]
+          actor_user_id?: string | null
+          after?: string | null
+          before?: string | null
+          created_at?: string
+          id?: string
+          kind: Database["public"]["Enums"]["task_event_kind"]
+          subtask_id?: string | null
+          task_id: string
+          workspace_id: string
+        }
+        Update: {
+          actor_agent_id?: string | null
+          actor_type?: Database["public"]["Enums"]["author_type"]
+          actor_user_id?: string | null
+          after?: string | null
+          before?: string | null
+          created_at?: string
+          id?: string
+          kind?: Database["public"]["Enums"]["task_event_kind"]
+          subtask_id?: string | null
+          task_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_events_actor_agent_id_fkey"
+            columns: ["actor_agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_events_subtask_id_fkey"
+            columns: ["subtask_id"]
+            isOneToOne: false
+            referencedRelation: "subtasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_events_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_events_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_links: {
+        Row: {
+          created_at: string
+          id: string
+          kind: Database["public"]["Enums"]["task_link_kind"]
+          target_task_id: string
+          task_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: Database["public"]["Enums"]["task_link_kind"]
+          target_task_id: string
+          task_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: Database["public"]["Enums"]["task_link_kind"]
+          target_task_id?: string
+          task_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_links_target_task_id_fkey"
+            columns: ["target_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_links_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_links_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_schedules: {
+        Row: {
+          assigned_agent_id: string | null
+          created_at: string
+          cron: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          last_run_at: string | null
+          next_run_at: string | null
+          priority: Database["public"]["Enums"]["task_priority"]
+          run_at: string | null
+          subtasks: Json
+          timezone: string
+          title: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          assigned_agent_id?: string | null
+          created_at?: string
+          cron?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          last_run_at?: string | null
+          next_run_at?: string | null
+          priority?: Database["public"]["Enums"]["task_priority"]
+          run_at?: string | null
+          subtasks?: Json
+          timezone?: string
+          title: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          assigned_agent_id?: string | null
+          created_at?: string
+          cron?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          last_run_at?: string | null
+          next_run_at?: string | null
+          priority?: Database["public"]["Enums"]["task_priority"]
+          run_at?: string | null
+          subtasks?: Json
+          timezone?: string
+          title?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_schedules_assigned_agent_id_fkey"
+            columns: ["assigned_agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_schedules_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_templates: {
+        Row: {
+          assigned_agent_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          priority: Database["public"]["Enums"]["task_priority"]
+          subtasks: Json
+          title_pattern: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          assigned_agent_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          priority?: Database["public"]["Enums"]["task_priority"]
+          subtasks?: Json
+          title_pattern: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          assigned_agent_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          priority?: Database["public"]["Enums"]["task_priority"]
+          subtasks?: Json
+          title_pattern?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_templates_assigned_agent_id_fkey"
+            columns: ["assigned_agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_templates_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tasks: {
+        Row: {
+          assigned_agent_id: string | null
+          blocked_from: Database["public"]["Enums"]["task_status"] | null
+          created_at: string
+          created_by: string
+          created_by_user_id: string | null
+          description: string | null
+          due_date: string | null
+          escalated_at: string | null
+          id: string
+          idempotency_key: string | null
+          needs_user_id: string | null
+          position: number
+          priority: Database["public"]["Enums"]["task_priority"]
+          status: Database["public"]["Enums"]["task_status"]
+          status_changed_at: string
+          title: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          assigned_agent_id?: string | null
+          blocked_from?: Database["public"]["Enums"]["task_status"] | null
+          created_at?: string
+          created_by?: string
+          created_by_user_id?: string | null
+          description?: string | null
+          due_date?: string | null
+          escalated_at?: string | null
+          id?: string
+          idempotency_key?: string | null
+          needs_user_id?: string | null
+          position?: number
+          priority?: Database["public"]["Enums"]["task_priority"]
+          status?: Database["public"]["Enums"]["task_status"]
+          status_changed_at?: string
+          title: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          assigned_agent_id?: string | null
+          blocked_from?: Database["public"]["Enums"]["task_status"] | null
+          created_at?: string
+          created_by?: string
+          created_by_user_id?: string | null
+          description?: string | null
+          due_date?: string | null
+          escalated_at?: string | null
+          id?: string
+          idempotency_key?: string | null
+          needs_user_id?: string | null
+          position?: number
+          priority?: Database["public"]["Enums"]["task_priority"]
+          status?: Database["public"]["Enums"]["task_status"]
+          status_changed_at?: string
+          title?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasks_assigned_agent_id_fkey"
+            columns: ["assigned_agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wip_limits: {
+        Row: {
+          max_tasks: number
+          mode: Database["public"]["Enums"]["wip_mode"]
+          status: Database["public"]["Enums"]["task_status"]
+          workspace_id: string
+        }
+        Insert: {
+          max_tasks: number
+          mode?: Database["public"]["Enums"]["wip_mode"]
+          status: Database["public"]["Enums"]["task_status"]
+          workspace_id: string
+        }
+        Update: {
+          max_tasks?: number
+          mode?: Database["public"]["Enums"]["wip_mode"]
+          status?: Database["public"]["Enums"]["task_status"]
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wip_limits_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          event: Database["public"]["Enums"]["webhook_event"]
+          id: string
+          last_error: string | null
+          last_status_code: number | null
+          next_attempt_at: string
+          payload: Json
+          status: Database["public"]["Enums"]["webhook_delivery_status"]
+          webhook_id: string
+          workspace_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event: Database["public"]["Enums"]["webhook_event"]
+          id?: string
+          last_error?: string | null
+          last_status_code?: number | null
+          next_attempt_at?: string
+          payload: Json
+          status?: Database["public"]["Enums"]["webhook_delivery_status"]
+          webhook_id: string
+          workspace_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event?: Database["public"]["Enums"]["webhook_event"]
+          id?: string
+          last_error?: string | null
+          last_status_code?: number | null
+          next_attempt_at?: string
+          payload?: Json
+          status?: Database["public"]["Enums"]["webhook_delivery_status"]
+          webhook_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "webhooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhooks: {
+        Row: {
+          created_at: string
+          events: Database["public"]["Enums"]["webhook_event"][]
+          id: string
+          is_active: boolean
+          secret: string
+          url: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          events: Database["public"]["Enums"]["webhook_event"][]
+          id?: string
+          is_active?: boolean
+          secret: string
+          url: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          events?: Database["public"]["Enums"]["webhook_event"][]
+          id?: string
+          is_active?: boolean
+          secret?: string
+          url?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhooks_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_invites: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          role: Database["public"]["Enums"]["workspace_role"]
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["workspace_role"]
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["workspace_role"]
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invites_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: Database["public"]["Enums"]["workspace_role"]
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: Database["public"]["Enums"]["workspace_role"]
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: Database["public"]["Enums"]["workspace_role"]
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      accept_invite: { Args: { invite_id: string }; Returns: string }
+      create_workspace: { Args: { name: string }; Returns: string }
+      current_user_email: { Args: never; Returns: string }
+      current_workspace_id: { Args: never; Returns: string }
+      current_workspace_role: {
+        Args: never
+        Returns: Database["public"]["Enums"]["workspace_role"]
+      }
+    }
+    Enums: {
+      author_type: "human" | "agent" | "system"
+      mention_source:
+        | "description"
+        | "definition_of_done"
+        | "result_summary"
+        | "comment"
+      task_event_kind:
+        | "task_status"
+        | "task_assignee"
+        | "task_priority"
+        | "subtask_created"
+        | "subtask_status"
+        | "subtask_assignee"
+        | "subtask_result"
+        | "task_due_date"
+        | "subtask_due_date"
+      task_link_kind: "blocked_by" | "relates_to"
+      task_priority: "low" | "medium" | "high" | "urgent"
+      task_status:
+        | "inbox"
+        | "triage"
+        | "in_progress"
+        | "blocked"
+        | "review"
+        | "needs_human"
+        | "done"
+        | "canceled"
+      webhook_delivery_status: "pending" | "succeeded" | "failed"
+      webhook_event:
+        | "task.created"
+        | "task.status_changed"
+        | "task.assigned"
+        | "subtask.created"
+        | "subtask.updated"
+        | "comment.added"
+        | "agent.mentioned"
+      wip_mode: "warn" | "block"
+      workspace_role: "owner" | "editor" | "viewer"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+
+export const Constants = {
+  public: {
+    Enums: {
+      author_type: [
+        "human",
+        "agent",
+        "system",
+      ],
+      mention_source: [
+        "description",
+        "definition_of_done",
+        "result_summary",
+        "comment",
+      ],
+      task_event_kind: [
+        "task_status",
+        "task_assignee",
+        "task_priority",
+        "subtask_created",
+        "subtask_status",
+        "subtask_assignee",
+        "subtask_result",
+        "task_due_date",
+        "subtask_due_date",
+      ],
+      task_link_kind: [
+        "blocked_by",
+        "relates_to",
+      ],
+      task_priority: [
+        "low",
+        "medium",
+        "high",
+        "urgent",
+      ],
+      task_status: [
+        "inbox",
+        "triage",
+        "in_progress",
+        "blocked",
+        "review",
+        "needs_human",
+        "done",
+        "canceled",
+      ],
+      webhook_delivery_status: [
+        "pending",
+        "succeeded",
+        "failed",
+      ],
+      webhook_event: [
+        "task.created",
+        "task.status_changed",
+        "task.assigned",
+        "subtask.created",
+        "subtask.updated",
+        "comment.added",
+        "agent.mentioned",
+      ],
+      wip_mode: [
+        "warn",
+        "block",
+      ],
+      workspace_role: [
+        "owner",
+        "editor",
+        "viewer",
+      ],
+    },
+  },
+} as const
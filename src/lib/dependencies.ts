@@ -0,0 +1,374 @@
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import type { Enums } from '@/lib/database.types'
+import { recordEvents, type TaskEventInput } from '@/lib/events'
+import { fetchAll, insertComment, patchTask } from '@/lib/repository'
+import { commentAdded, eventWebhooks, type WebhookEmit } from '@/lib/webhooks'
+import { isClosed, transitionError } from '@/lib/workflow'
+import type { Status } from '@/lib/status'
+import type { TaskLinkRow, TaskRow } from '@/lib/types'
+import { MessageError, type Translate } from '@/lib/i18n'
+
+export type TaskLinkKind = Enums<'task_link_kind'>
+
+export const TASK_LINK_COLUMNS = 'id,task_id,target_task_id,kind,created_at'
+
+export type LinkedTask = Pick<TaskRow, 'id' | 'title' | 'status' | 'priority'>
+
+const LINKED_TASK_COLUMNS = 'id,title,status,priority'
+
+// One task's links as shown on its page: what it waits for, what waits
+// for it, and related tasks in either direction.
+export type TaskLinks = Record<
+  'blocked_by' | 'blocks' | 'relates_to',
+  { link_id: string; task: LinkedTask }[]
+>
+
+type Edge = Pick<TaskLinkRow, 'task_id' | 'target_task_id'>
+
+// Dependency-driven status changes aren't anyone's decision.
+const SYSTEM = { type: 'system' } as const
+
+// Every link of the given kinds in the workspace, read page by page.
+function fetchLinks(supabase: TypedSupabaseClient, kinds: TaskLinkKind[]) {
+  return fetchAll((from, to) =>
+    supabase
+      .from('task_links')
+      .select('task_id,target_task_id,kind')
+      .in('kind', kinds)
+      .order('id', { ascending: true })
+      .range(from, to)
+  )
+}
+
+// Shortest path of blocked_by edges from `from` to `to`, or null. Adding
+// "`to` blocked by `from`" closes a cycle exactly when such a path exists.
+export function findPath(
+  edges: Edge[],
+  from: string,
+  to: string
+): string[] | null {
+  const next = new Map<string, string[]>()
+  for (const e of edges) {
+    next.set(e.task_id, [...(next.get(e.task_id) ?? []), e.target_task_id])
+  }
+
+  const prev = new Map<string, string | null>([[from, null]])
+  const queue = [from]
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    if (id === to) {
+      const path = [id]
+      for (let p = prev.get(id); p; p = prev.get(p)) path.unshift(p)
+      return path
+    }
+    for (const n of next.get(id) ?? []) {
+      if (!prev.has(n)) {
+        prev.set(n, id)
+        queue.push(n)
+      }
+    }
+  }
+  return null
+}
+
+// Longest distance from `root` to every node reachable through `pairs`
+// ([from, to]). Longest rather than shortest so that every edge between
+// two reached nodes points to a strictly deeper one.
+function layers(pairs: [string, string][], root: string) {
+  const depth = new Map<string, number>([[root, 0]])
+  // A DAG settles in at most one pass per node; the cap guards bad data.
+  for (let pass = 0; pass <= pairs.length; pass++) {
+    let changed = false
+    for (const [from, to] of pairs) {
+      const d = depth.get(from)
+      if (d !== undefined && d + 1 > (depth.get(to) ?? -1)) {
+        depth.set(to, d + 1)
+        changed = true
+      }
+    }
+    if (!changed) break
+  }
+  depth.delete(root)
+  return depth
+}
+
+export type DependencyGraph = {
+  // column < 0: what the root waits for; > 0: what waits for it;
+  // 0: the root and its related tasks.
+  nodes: (LinkedTask & { column: number })[]
+  // `from` has to be done before `to` (to blocked_by from).
+  edges: { from: string; to: string; kind: TaskLinkKind }[]
+}
+
+// Everything `rootId` transitively depends on or blocks, plus its direct
+// relates_to neighbours.
+export async function getDependencyGraph(
+  supabase: TypedSupabaseClient,
+  rootId: string
+): Promise<DependencyGraph> {
+  const links = await fetchLinks(supabase, ['blocked_by', 'relates_to'])
+
+  const blocking = links.filter((l) => l.kind === 'blocked_by')
+  const column = new Map<string, number>([[rootId, 0]])
+  layers(
+    blocking.map((l) => [l.task_id, l.target_task_id]),
+    rootId
+  ).forEach((d, id) => column.set(id, -d))
+  layers(
+    blocking.map((l) => [l.target_task_id, l.task_id]),
+    rootId
+  ).forEach((d, id) => column.set(id, d))
+
+  const edges: DependencyGraph['edges'] = blocking
+    .filter((l) => column.has(l.task_id) && column.has(l.target_task_id))
+    .map((l) => ({ from: l.target_task_id, to: l.task_id, kind: l.kind }))
+
+  for (const l of links) {
+    if (l.kind !== 'relates_to') continue
+    if (l.task_id !== rootId && l.target_task_id !== rootId) continue
+    const other = l.task_id === rootId ? l.target_task_id : l.task_id
+    if (!column.has(other)) column.set(other, 0)
+    edges.push({ from: rootId, to: other, kind: l.kind })
+  }
+
+  const { data: tasks, error: tasksErr } = await supabase
+    .from('tasks')
+    .select(LINKED_TASK_COLUMNS)
+    .in('id', [...column.keys()])
+  if (tasksErr) throw new Error(tasksErr.message)
+
+  return {
+    nodes: tasks.map((t) => ({ ...t, column: column.get(t.id)! })),
+    edges,
+  }
+}
+
+export async function getTaskLinks(
+  supabase: TypedSupabaseClient,
+  taskId: string
+): Promise<TaskLinks> {
+  const { data: links, error } = await supabase
+    .from('task_links')
+    .select(TASK_LINK_COLUMNS)
+    .or(`task_id.eq.${taskId},target_task_id.eq.${taskId}`)
+    .order('created_at', { ascending: true })
+  if (error) throw new Error(error.message)
+
+  const other = (l: TaskLinkRow) =>
+    l.task_id === taskId ? l.target_task_id : l.task_id
+
+  const { data: tasks, error: tasksErr } = await supabase
+    .from('tasks')
+    .select(LINKED_TASK_COLUMNS)
+    .in('id', links.map(other))
+  if (tasksErr) throw new Error(tasksErr.message)
+  const byId = new Map(tasks.map((t) => [t.id, t]))
+
+  const result: TaskLinks = { blocked_by: [], blocks: [], relates_to: [] }
+  for (const l of links) {
+    const task = byId.get(other(l))
+    if (!task) continue
+    const group =
+      l.kind === 'relates_to'
+        ? 'relates_to'
+        : l.task_id === taskId
+          ? 'blocked_by'
+          : 'blocks'
+    result[group].push({ link_id: l.id, task })
+  }
+  return result
+}
+
+// Applies an automatic status change and records it like any other: an
+// event, a system comment saying why, and their webhooks. Callers check
+// the workflow before blocking a task; releasing it skips TRANSITIONS on
+// purpose, since it undoes our own block and returns the task to a status
+// it already held (blocked -> review, say, which is not a manual move).
+// WIP limits aren't checked for the same reason.
+async function autoMove(
+  supabase: TypedSupabaseClient,
+  workspace_id: string,
+  task_id: string,
+  from: Status,
+  patch: { status: Status; blocked_from: Status | null },
+  body: string
+): Promise<WebhookEmit[]> {
+  await patchTask(supabase, task_id, patch)
+
+  const events: TaskEventInput[] = [
+    { task_id, kind: 'task_status', before: from, after: patch.status },
+  ]
+  await recordEvents(supabase, workspace_id, SYSTEM, events)
+  const comment = await insertComment(supabase, {
+    workspace_id,
+    task_id,
+    author_type: 'system',
+    body,
+  })
+  return [...eventWebhooks(SYSTEM, events), commentAdded(comment)]
+}
+
+async function getBlockState(supabase: TypedSupabaseClient, id: string) {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id,status,blocked_from')
+    .eq('id', id)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  if (!data) throw new MessageError('errors.taskNotFound')
+  return data
+}
+
+// Sends an automatically blocked task back to the status it came from
+// once none of its blockers is open (done or canceled). Tasks blocked by
+// hand stay put.
+async function releaseIfClear(
+  supabase: TypedSupabaseClient,
+  workspace_id: string,
+  task: Pick<TaskRow, 'id' | 'status' | 'blocked_from'>,
+  t: Translate
+): Promise<WebhookEmit[]> {
+  if (task.status !== 'blocked' || !task.blocked_from) return []
+
+  const { data, error } = await supabase
+    .from('task_links')
+    .select('blocker:tasks!task_links_target_task_id_fkey(status)')
+    .eq('task_id', task.id)
+    .eq('kind', 'blocked_by')
+  if (error) throw new Error(error.message)
+  if (data.some((l) => l.blocker && !isClosed(l.blocker.status))) return []
+
+  return autoMove(
+    supabase,
+    workspace_id,
+    task.id,
+    task.status,
+    { status: task.blocked_from, blocked_from: null },
+    t('dependencies.unblocked')
+  )
+}
+
+// Links two tasks. A new blocked_by link is refused if it would close a
+// cycle, and blocks the task if the blocker is still open (when the
+// workflow allows it from the task's current status).
+export async function addTaskLink(
+  supabase: TypedSupabaseClient,
+  workspace_id: string,
+  link: Pick<TaskLinkRow, 'task_id' | 'target_task_id' | 'kind'>,
+  t: Translate
+): Promise<WebhookEmit[]> {
+  const { task_id, target_task_id, kind } = link
+  if (task_id === target_task_id) {
+    throw new MessageError('dependencies.selfLink')
+  }
+
+  const { data: target, error: targetErr } = await supabase
+    .from('tasks')
+    .select(LINKED_TASK_COLUMNS)
+    .eq('id', target_task_id)
+    .maybeSingle()
+  if (targetErr) throw new Error(targetErr.message)
+  if (!target) throw new MessageError('errors.taskNotFound')
+
+  if (kind === 'relates_to') {
+    const { count, error } = await supabase
+      .from('task_links')
+      .select('id', { count: 'exact', head: true })
+      .eq('kind', 'relates_to')
+      .eq('task_id', target_task_id)
+      .eq('target_task_id', task_id)
+    if (error) throw new Error(error.message)
+    if (count) throw new MessageError('dependencies.alreadyRelated')
+  } else {
+    const edges = await fetchLinks(supabase, ['blocked_by'])
+    const path = findPath(edges, target_task_id, task_id)
+    if (path) {
+      const { data: titles } = await supabase
+        .from('tasks')
+        .select('id,title')
+        .in('id', path)
+      const title = (id: string) =>
+        titles?.find((task) => task.id === id)?.title ?? id
+      const cycle = [task_id, ...path].map((id) => `«${title(id)}»`)
+      throw new MessageError('dependencies.cycle', { path: cycle.join(' → ') })
+    }
+  }
+
+  const { error } = await supabase
+    .from('task_links')
+    .insert({ workspace_id, task_id, target_task_id, kind })
+  if (error?.code === '23505') {
+    throw new MessageError('dependencies.linkExists')
+  }
+  if (error) throw new Error(error.message)
+
+  if (kind !== 'blocked_by' || isClosed(target.status)) return []
+
+  const current = await getBlockState(supabase, task_id)
+  const reason = t('dependencies.waitingFor', { title: target.title })
+  if (
+    current.status === 'blocked' ||
+    transitionError(current.status, 'blocked', { reason }, t)
+  ) {
+    return []
+  }
+  return autoMove(
+    supabase,
+    workspace_id,
+    task_id,
+    current.status,
+    { status: 'blocked', blocked_from: current.status },
+    t('workflow.blockedComment', { reason })
+  )
+}
+
+// Removing a blocker may be what unblocks the task.
+export async function removeTaskLink(
+  supabase: TypedSupabaseClient,
+  workspace_id: string,
+  id: string,
+  t: Translate
+): Promise<WebhookEmit[]> {
+  const { data: link, error } = await supabase
+    .from('task_links')
+    .delete()
+    .eq('id', id)
+    .select('task_id,kind')
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  if (!link) throw new MessageError('dependencies.linkNotFound')
+
+  if (link.kind !== 'blocked_by') return []
+  return releaseIfClear(
+    supabase,
+    workspace_id,
+    await getBlockState(supabase, link.task_id),
+    t
+  )
+}
+
+// Call after a task is closed (done or canceled): every task it was
+// blocking that has no other open blocker goes back to its previous status.
+export async function unblockDependents(
+  supabase: TypedSupabaseClient,
+  workspace_id: string,
+  blockerId: string,
+  t: Translate
+): Promise<WebhookEmit[]> {
+  const { data, error } = await supabase
+    .from('task_links')
+    .select('task:tasks!task_links_task_id_fkey(id,status,blocked_from)')
+    .eq('target_task_id', blockerId)
+    .eq('kind', 'blocked_by')
+  if (error) throw new Error(error.message)
+
+  const webhooks: WebhookEmit[] = []
+  for (const { task } of data) {
+    if (task) {
+      webhooks.push(
+        ...(await releaseIfClear(supabase, workspace_id, task, t))
+      )
+    }
+  }
+  return webhooks
+}
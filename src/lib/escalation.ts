@@ -0,0 +1,182 @@
+import { createAdminSupabase } from '@/lib/supabase/admin'
+import { recordEvents, type TaskEventInput } from '@/lib/events'
+import { insertComment, patchTask } from '@/lib/repository'
+import { commentAdded, emitWebhooks, eventWebhooks } from '@/lib/webhooks'
+import { OPEN_STATUSES, PRIORITIES } from '@/lib/status'
+import {
+  SLA_STATUSES,
+  dueState,
+  localDate,
+  slaDeadline,
+  slaRuleFor,
+  type SlaRule,
+} from '@/lib/sla'
+import { DEFAULT_LOCALE, formatter, translator } from '@/lib/i18n'
+
+const SYSTEM = { type: 'system' } as const
+
+// The job runs for no member in particular, so its comments are in the
+// default language.
+const t = translator(DEFAULT_LOCALE)
+const fmt = formatter(DEFAULT_LOCALE, 'UTC')
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Day a due date is missed from: the start of the day after it.
+const lateSince = (due_date: string) =>
+  Date.parse(`${due_date}T00:00`) + DAY_MS
+
+// Escalates every open task that has broken its SLA, is past its due date
+// or has an open subtask past its own, and hasn't been escalated since the
+// breach began: its priority goes up one level and a system comment says
+// why. Subtasks have no priority of their own, so theirs is the task's.
+// Run from the cron route; returns how many tasks were escalated.
+export async function escalateBreaches(now = new Date()) {
+  const supabase = createAdminSupabase()
+
+  const { data: rules, error: rulesErr } = await supabase
+    .from('sla_rules')
+    .select('workspace_id,status,priority,max_hours')
+  if (rulesErr) throw new Error(rulesErr.message)
+
+  const rulesByWorkspace = new Map<string, SlaRule[]>()
+  for (const { workspace_id, ...rule } of rules) {
+    rulesByWorkspace.set(workspace_id, [
+      ...(rulesByWorkspace.get(workspace_id) ?? []),
+      rule,
+    ])
+  }
+
+  const today = localDate(now)
+
+  const { data: lateSubtasks, error: subtasksErr } = await supabase
+    .from('subtasks')
+    .select('id,task_id,title,status,due_date,escalated_at')
+    .in('status', OPEN_STATUSES)
+    .lt('due_date', today)
+  if (subtasksErr) throw new Error(subtasksErr.message)
+
+  const subtasksByTask = new Map<string, typeof lateSubtasks>()
+  for (const s of lateSubtasks) {
+    // Already escalated for this due date.
+    const since = lateSince(s.due_date!)
+    if (s.escalated_at && Date.parse(s.escalated_at) >= since) continue
+    subtasksByTask.set(s.task_id, [
+      ...(subtasksByTask.get(s.task_id) ?? []),
+      s,
+    ])
+  }
+
+  const taskFilters = [
+    `status.in.(${SLA_STATUSES.join(',')})`,
+    `due_date.lt.${today}`,
+  ]
+  if (subtasksByTask.size > 0) {
+    taskFilters.push(`id.in.(${[...subtasksByTask.keys()].join(',')})`)
+  }
+  const { data: tasks, error } = await supabase
+    .from('tasks')
+    .select(
+      'id,workspace_id,status,priority,status_changed_at,due_date,escalated_at'
+    )
+    .in('status', OPEN_STATUSES)
+    .or(taskFilters.join(','))
+  if (error) throw new Error(error.message)
+
+  let escalated = 0
+  for (const task of tasks) {
+    const workspaceRules = rulesByWorkspace.get(task.workspace_id) ?? []
+    const reasons: string[] = []
+    let since = 0
+
+    const deadline = slaDeadline(task, workspaceRules)
+    if (deadline && deadline <= now) {
+      const { max_hours } = slaRuleFor(task, workspaceRules)!
+      reasons.push(
+        t('escalation.sla', {
+          hours: max_hours,
+          status: t(`status.${task.status}`),
+        })
+      )
+      since = Math.max(since, deadline.getTime())
+    }
+    if (dueState(task, now) === 'overdue') {
+      reasons.push(t('escalation.overdue', { date: fmt.date(task.due_date!) }))
+      since = Math.max(since, lateSince(task.due_date!))
+    }
+    if (task.escalated_at && Date.parse(task.escalated_at) >= since) {
+      reasons.length = 0
+    }
+
+    const subtasks = subtasksByTask.get(task.id) ?? []
+    for (const s of subtasks) {
+      reasons.push(
+        t('escalation.subtaskOverdue', {
+          title: s.title,
+          date: fmt.date(s.due_date!),
+        })
+      )
+    }
+
+    if (reasons.length === 0) continue
+
+    const priority =
+      PRIORITIES[
+        Math.min(PRIORITIES.indexOf(task.priority) + 1, PRIORITIES.length - 1)
+      ]
+
+    try {
+      await patchTask(supabase, task.id, {
+        priority,
+        escalated_at: now.toISOString(),
+      })
+      if (subtasks.length > 0) {
+        const { error: markErr } = await supabase
+          .from('subtasks')
+          .update({ escalated_at: now.toISOString() })
+          .in('id', subtasks.map((s) => s.id))
+        if (markErr) throw new Error(markErr.message)
+      }
+
+      const events: TaskEventInput[] = [
+        {
+          task_id: task.id,
+          kind: 'task_priority',
+          before: task.priority,
+          after: priority,
+        },
+      ]
+      await recordEvents(supabase, task.workspace_id, SYSTEM, events)
+      const comment = await insertComment(supabase, {
+        workspace_id: task.workspace_id,
+        task_id: task.id,
+        // A single late subtask gets the comment in its own thread, where
+        // its agent reads.
+        subtask_id:
+          subtasks.length === 1 && reasons.length === 1
+            ? subtasks[0].id
+            : null,
+        author_type: 'system',
+        body: [
+          t('escalation.comment', { reasons: reasons.join('; ') }),
+          priority === task.priority
+            ? t('escalation.samePriority', {
+                priority: t(`priority.${priority}`),
+              })
+            : t('escalation.raisedPriority', {
+                before: t(`priority.${task.priority}`),
+                after: t(`priority.${priority}`),
+              }),
+        ].join(' '),
+      })
+      await emitWebhooks(task.workspace_id, [
+        ...eventWebhooks(SYSTEM, events),
+        commentAdded(comment),
+      ])
+      escalated++
+    } catch (err) {
+      console.error(`sla: could not escalate task ${task.id}`, err)
+    }
+  }
+  return escalated
+}
@@ -0,0 +1,70 @@
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+
+export type TaskEventKind =
+  | 'task_status'
+  | 'task_assignee'
+  | 'task_priority'
+  | 'subtask_created'
+  | 'subtask_status'
+  | 'subtask_assignee'
+  | 'subtask_result'
+  | 'task_due_date'
+  | 'subtask_due_date'
+
+export type Actor =
+  | { type: 'human'; user_id: string }
+  | { type: 'agent'; agent_id: string }
+  | { type: 'system' }
+
+export type TaskEventRow = {
+  id: string
+  task_id: string
+  subtask_id: string | null
+  kind: TaskEventKind
+  before: string | null
+  after: string | null
+  actor_type: Actor['type']
+  actor_agent_id: string | null
+  actor_user_id: string | null
+  created_at: string
+}
+
+export const EVENT_COLUMNS =
+  'id,task_id,subtask_id,kind,before,after,actor_type,actor_agent_id,actor_user_id,created_at'
+
+export type TaskEventInput = {
+  task_id: string
+  subtask_id?: string | null
+  kind: TaskEventKind
+  before?: string | null
+  after?: string | null
+}
+
+// Appends activity events for a mutation. Unchanged fields
+// (before === after) are dropped, so callers can pass every field they
+// might have touched.
+export async function recordEvents(
+  supabase: TypedSupabaseClient,
+  workspace_id: string,
+  actor: Actor,
+  events: TaskEventInput[]
+) {
+  const rows = events
+    .filter((e) => e.kind === 'subtask_created' || e.before !== e.after)
+    .map((e) => ({
+      workspace_id,
+      task_id: e.task_id,
+      subtask_id: e.subtask_id ?? null,
+      kind: e.kind,
+      before: e.before ?? null,
+      after: e.after ?? null,
+      actor_type: actor.type,
+      actor_agent_id: actor.type === 'agent' ? actor.agent_id : null,
+      actor_user_id: actor.type === 'human' ? actor.user_id : null,
+    }))
+
+  if (rows.length === 0) return
+
+  const { error } = await supabase.from('task_events').insert(rows)
+  if (error) throw new Error(error.message)
+}
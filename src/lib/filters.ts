@@ -0,0 +1,135 @@
+import { z } from 'zod'
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import {
+  PRIORITIES,
+  STATUSES,
+  isPriority,
+  type Priority,
+  type Status,
+} from '@/lib/status'
+import { isStatus } from '@/lib/workflow'
+import { BOARD_TASK_COLUMNS } from '@/lib/tasks'
+import type { TaskRow } from '@/lib/types'
+
+export type BoardFilters = {
+  q: string
+  statuses: Status[]
+  priorities: Priority[]
+  // Agent id, or 'none' for unassigned tasks.
+  agent: string
+  // YYYY-MM-DD; tasks updated on or after that (UTC) day.
+  since: string
+}
+
+export type SearchParams = Record<string, string | string[] | undefined>
+
+const agentId = z.uuid()
+
+const list = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value : value ? [value] : []).flatMap((v) =>
+    v.split(',')
+  )
+
+export function parseBoardFilters(params: SearchParams): BoardFilters {
+  const one = (key: string) => {
+    const value = params[key]
+    return (Array.isArray(value) ? value[0] : value)?.trim() ?? ''
+  }
+  const since = one('since')
+  const agent = one('agent')
+
+  return {
+    q: one('q'),
+    statuses: list(params.status).filter(isStatus),
+    priorities: list(params.priority).filter(isPriority),
+    // A malformed id would reach Postgres as a uuid cast error.
+    agent:
+      agent === 'none' || agentId.safeParse(agent).success ? agent : '',
+    since: /^\d{4}-\d{2}-\d{2}$/.test(since) ? since : '',
+  }
+}
+
+export function filtersToQuery(f: BoardFilters) {
+  const params = new URLSearchParams()
+  if (f.q) params.set('q', f.q)
+  if (f.statuses.length) params.set('status', f.statuses.join(','))
+  if (f.priorities.length) params.set('priority', f.priorities.join(','))
+  if (f.agent) params.set('agent', f.agent)
+  if (f.since) params.set('since', f.since)
+  return params.toString()
+}
+
+export function hasFilters(f: BoardFilters) {
+  return filtersToQuery(f) !== ''
+}
+
+// Columns to render: the selected statuses, in workflow order.
+export function visibleStatuses(f: BoardFilters): Status[] {
+  return f.statuses.length
+    ? STATUSES.filter((s) => f.statuses.includes(s))
+    : [...STATUSES]
+}
+
+// `text` for LIKE/ILIKE with its own `%`, `_` and `\` matching literally
+// instead of as wildcards.
+export function escapeLike(text: string) {
+  return text.replace(/[\\%_]/g, (c) => `\\${c}`)
+}
+
+// `%text%`: contains `text`.
+export function likePattern(text: string) {
+  return `%${escapeLike(text)}%`
+}
+
+// Quotes a value for a PostgREST `or=(...)` expression so commas and
+// parentheses in search text don't break the filter.
+function quote(value: string) {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+// Board task query with the filters applied in Supabase, ordered by rank.
+export function boardTasksQuery(supabase: TypedSupabaseClient, f: BoardFilters) {
+  let q = supabase.from('tasks').select(BOARD_TASK_COLUMNS)
+  if (f.q) {
+    const pattern = quote(likePattern(f.q))
+    q = q.or(`title.ilike.${pattern},description.ilike.${pattern}`)
+  }
+  if (f.statuses.length) q = q.in('status', f.statuses)
+  if (f.priorities.length && f.priorities.length < PRIORITIES.length) {
+    q = q.in('priority', f.priorities)
+  }
+  if (f.agent === 'none') q = q.is('assigned_agent_id', null)
+  else if (f.agent) q = q.eq('assigned_agent_id', f.agent)
+  if (f.since) q = q.gte('updated_at', `${f.since}T00:00:00.000Z`)
+  return q.order('position', { ascending: true })
+}
+
+// Client-side twin of boardTasksQuery, for rows arriving via Realtime.
+export function matchesBoardFilters(
+  t: Pick<
+    TaskRow,
+    | 'title'
+    | 'description'
+    | 'status'
+    | 'priority'
+    | 'assigned_agent_id'
+    | 'updated_at'
+  >,
+  f: BoardFilters
+) {
+  if (f.q) {
+    const needle = f.q.toLowerCase()
+    const haystack = `${t.title}\n${t.description ?? ''}`.toLowerCase()
+    if (!haystack.includes(needle)) return false
+  }
+  if (f.statuses.length && !f.statuses.includes(t.status)) return false
+  if (f.priorities.length && !f.priorities.includes(t.priority)) return false
+  if (f.agent === 'none' && t.assigned_agent_id) return false
+  if (f.agent && f.agent !== 'none' && t.assigned_agent_id !== f.agent) {
+    return false
+  }
+  if (f.since && new Date(t.updated_at) < new Date(`${f.since}T00:00:00Z`)) {
+    return false
+  }
+  return true
+}
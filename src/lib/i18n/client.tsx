@@ -0,0 +1,62 @@
+'use client'
+
+import { createContext, useContext, useEffect, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  DEFAULT_LOCALE,
+  DEFAULT_TIME_ZONE,
+  LOCALE_COOKIE,
+  TIME_ZONE_COOKIE,
+  createI18n,
+  type I18n,
+  type Locale,
+} from '@/lib/i18n'
+
+const YEAR_SECONDS = 365 * 24 * 60 * 60
+
+const I18nContext = createContext<I18n>(
+  createI18n(DEFAULT_LOCALE, DEFAULT_TIME_ZONE)
+)
+
+function readCookie(name: string) {
+  const match = document.cookie.match(new RegExp(`(?:^|; )${name}=([^;]*)`))
+  return match ? decodeURIComponent(match[1]) : null
+}
+
+function writeCookie(name: string, value: string) {
+  document.cookie = `${name}=${encodeURIComponent(value)}; path=/; max-age=${YEAR_SECONDS}; samesite=lax`
+}
+
+// Login page language picker; signed-in members save theirs on /account.
+export function setLocaleCookie(locale: Locale) {
+  writeCookie(LOCALE_COOKIE, locale)
+}
+
+// Client components format with the same locale and zone the server used,
+// so server-rendered dates hydrate unchanged.
+export function I18nProvider({
+  locale,
+  timeZone,
+  children,
+}: {
+  locale: Locale
+  timeZone: string
+  children: React.ReactNode
+}) {
+  const router = useRouter()
+  const value = useMemo(() => createI18n(locale, timeZone), [locale, timeZone])
+
+  // Tell the server the browser's zone, for members without a saved one.
+  useEffect(() => {
+    const zone = Intl.DateTimeFormat().resolvedOptions().timeZone
+    if (readCookie(TIME_ZONE_COOKIE) === zone) return
+    writeCookie(TIME_ZONE_COOKIE, zone)
+    if (zone !== timeZone) router.refresh()
+  }, [router, timeZone])
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export function useI18n() {
+  return useContext(I18nContext)
+}
@@ -0,0 +1,623 @@
+import type { Messages } from '@/lib/i18n'
+
+const en: Messages = {
+  app: {
+    title: 'Centro de Mando',
+    description: 'Task board for humans and agents.',
+  },
+  common: {
+    save: 'Save',
+    create: 'Create',
+    remove: 'Remove',
+    back: 'Back',
+    error: 'Error: {message}',
+    updated: 'updated',
+    title: 'Title',
+    due: 'Due',
+    none: '(none)',
+    unassigned: '(unassigned)',
+    templates: 'Templates',
+  },
+  status: {
+    inbox: 'Inbox',
+    triage: 'Triage',
+    in_progress: 'In progress',
+    blocked: 'Blocked',
+    review: 'Review',
+    needs_human: 'Needs human',
+    done: 'Done',
+    canceled: 'Canceled',
+  },
+  priority: {
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High',
+    urgent: 'Urgent',
+  },
+  nav: {
+    board: 'Board',
+    inbox: 'Inbox',
+    agents: 'Agents',
+    standups: 'Standups',
+    metrics: 'Metrics',
+    schedules: 'Scheduled',
+    templates: 'Templates',
+    settings: 'Settings',
+    account: 'Account',
+    readOnly: '(read only)',
+    unread: '{count} unread',
+  },
+  home: {
+    subtitle: 'Mission Control (v1) — tasks + agents.',
+    board: 'Go to the board →',
+    login: 'Sign in →',
+  },
+  login: {
+    title: 'Sign in',
+    password: 'Password',
+    magicLink: 'Magic link',
+    email: 'Email',
+    submit: 'Sign in',
+    submitting: 'Signing in…',
+    linkSent: 'We emailed you a link. Open it to sign in.',
+    failed: 'Sign-in failed',
+    loading: 'Loading…',
+    language: 'Language',
+  },
+  account: {
+    title: 'Account',
+    preferences: 'Preferences',
+    intro: 'Just for you: nothing changes for the rest of the workspace.',
+    displayName: 'Name',
+    language: 'Language',
+    timeZone: 'Time zone',
+    browser: '(browser default)',
+    timeZoneHint: 'Empty = the browser’s. Currently using {zone}.',
+    unknownTimeZone: 'Unknown time zone',
+    signOut: 'Sign out',
+  },
+  board: {
+    subtitle: 'Kanban board for humans and agents.',
+    createTask: 'New task',
+    descriptionPlaceholder: 'Description (optional)',
+    defaultPriority: 'priority: medium / the template’s',
+    noTemplate: '(no template)',
+    templateHint:
+      'With a template, the title fills its {placeholder} and the subtasks are created with their Definition of Done.',
+    titleRequired: 'Title is required',
+    keyboardHelp:
+      'j/k goes to the next or previous task and Enter opens it. Alt + up/down arrows reorders it; Alt + left/right moves it to the nearest allowed status. A letter changes its status: i t p b r h d x.',
+    shortcuts:
+      'Ctrl/⌘-K: commands · j/k: move between tasks · Enter: open · i t p b r h d x: change status',
+    moveFailed: 'Could not move: {error}',
+    editFailed: 'Could not save: {error}',
+    cannotMove: 'Can’t go from {from} to {to}',
+    noValidStatus: 'No allowed status in that direction',
+    blockReason: 'Why is «{title}» blocked?',
+    moved: '{title}: {status}, position {position}',
+    wipBlock: 'Strict WIP',
+    wipWarn: 'WIP warning',
+    overdue: 'overdue',
+    dueToday: 'due today',
+    dueOn: 'Due {date}',
+    slaBreached: 'Too long in {status}',
+    empty: 'Empty',
+  },
+  filters: {
+    search: 'Search',
+    searchPlaceholder: 'title or description',
+    status: 'Status',
+    priority: 'Priority',
+    agent: 'Agent',
+    all: '(all)',
+    updatedSince: 'Updated since',
+    apply: 'Filter',
+    clear: 'Clear',
+    views: 'Views:',
+    deleteView: 'Delete view {name}',
+    noViews: 'none',
+    viewName: 'View name',
+    saveView: 'Save view',
+  },
+  task: {
+    notFound: 'Task not found.',
+    backToBoard: '← Back to the board',
+    createdBy: 'by {name}',
+    via: 'via {source}',
+    waitsFor: 'waiting on {name}',
+    anyone: 'anyone',
+    updatedAt: 'updated {at}',
+    dueOn: 'due {date}',
+    slaBreached: '{status} SLA breached',
+    slaUntil: '{status} SLA until {at}',
+    formerMember: 'former member',
+    human: 'human',
+    agent: 'agent',
+    settings: 'Task settings',
+    status: 'Status',
+    priority: 'Priority',
+    assignedAgent: 'Assigned agent',
+    needsHumanFor: 'Needs human: for',
+    anyoneOption: '(anyone)',
+    blockReason: 'Reason (if blocked)',
+    templateName: 'Template name',
+    saveAsTemplate: 'Save as template',
+    notMember: 'Not a member of this workspace',
+    subtaskNotInTask: 'That subtask belongs to another task',
+    shortcuts:
+      'Ctrl/⌘-K: commands · j/k: move between subtasks · i t p b r h d x: status of the focused subtask or, if none, of the task',
+    taskId: 'Task ID: {id}',
+    workspace: 'Workspace: {id}',
+  },
+  dependencies: {
+    title: 'Dependencies',
+    viewGraph: 'View graph',
+    autoBlocked:
+      'Blocked automatically: returns to {status} once all its dependencies are done.',
+    blockedBy: 'Blocked by',
+    blocks: 'Blocks',
+    relatesTo: 'Related to',
+    none: 'No links.',
+    pickTask: 'Choose a task…',
+    add: 'Add',
+    graphIntro:
+      'On the left, what has to finish first; on the right, what waits for this task. Dashed: related.',
+    graphEmpty: 'This task has no links.',
+    graphLabel: 'Dependency graph of {title}',
+    selfLink: 'A task cannot be linked to itself',
+    alreadyRelated: 'They are already related',
+    cycle: 'It would create a cycle: {path}',
+    linkExists: 'That link already exists',
+    linkNotFound: 'Link not found',
+    waitingFor: 'waiting for «{title}»',
+    unblocked: 'Unblocked: all its dependencies are done',
+  },
+  attachments: {
+    title: 'Attachments',
+    task: 'Task',
+    subtask: 'Subtask: {title}',
+    upload: 'Upload',
+    maxSize: '10 MB max.',
+    preview: 'Preview',
+  },
+  subtasks: {
+    title: 'Subtasks',
+    dod: 'DoD:',
+    result: 'Result:',
+    resultPlaceholder: 'result (optional)',
+    reasonPlaceholder: 'reason (if blocked)',
+    update: 'Update',
+    none: 'No subtasks.',
+    create: 'New subtask',
+    dodPlaceholder: 'Definition of Done (required)',
+  },
+  activity: {
+    title: 'Activity',
+    none: 'No activity.',
+    addComment: 'Add a comment',
+    commentPlaceholder: 'Write a comment…',
+    comment: 'Comment',
+  },
+  palette: {
+    title: 'Commands',
+    placeholder: 'Search for a task or a command…',
+    help: '↑/↓ picks, Enter runs, Esc closes.',
+    empty: 'Nothing matches.',
+    withQuery: '{label}: “{query}”',
+    tasks: 'Tasks',
+    goTo: 'Go to',
+    agents: 'Agents',
+    focused: '“{title}”',
+    createTask: 'Create task',
+    created: 'Task created: {title}',
+    open: 'Open',
+    setStatus: 'Move to {status}',
+    setPriority: 'Priority {priority}',
+    assign: 'Assign to {agent}',
+    unassign: 'Remove the agent',
+  },
+  agents: {
+    title: 'Agents',
+    subtitle: 'Roster, heartbeats and workload.',
+    create: 'Create agent',
+    name: 'Name',
+    role: 'Role',
+    inactive: 'inactive',
+    lastSeen: 'last seen {at}',
+    never: 'never',
+    silent: 'No heartbeat with {count} item(s) in progress',
+    staleHeartbeat: 'no recent heartbeat',
+    deactivate: 'Deactivate',
+    reactivate: 'Reactivate',
+    tasks: 'Tasks',
+    openSubtasks: 'Open subtasks',
+    editKeys: 'Edit · API keys',
+    key: 'key',
+    keyCreated: '{label} · created {created} · last used {used}',
+    revoke: 'Revoke',
+    keyLabel: 'label (optional)',
+    issueKey: 'Generate API key',
+    copyKey: 'Copy it now, it won’t be shown again:',
+    none: 'No agents.',
+    agent: 'Agent',
+    back: '← Agents',
+    openWork: 'Open work',
+    taskLine: 'task · {status} · {priority}',
+    subtaskLine: 'subtask · {status}',
+    nothingAssigned: 'Nothing assigned.',
+    mentions: 'Mentions',
+    mentionIn: '{at} · {source} in',
+    unread: 'unread',
+    noMentions: 'No mentions.',
+    source: {
+      description: 'description',
+      definition_of_done: 'Definition of Done',
+      result_summary: 'result',
+      comment: 'comment',
+    },
+  },
+  metrics: {
+    title: 'Metrics',
+    subtitle: 'Flow from the history of status changes, since {date} (UTC).',
+    weeks: '{count} weeks',
+    summary: 'median · p85 {p85} · max {max} · {count} tasks',
+    noData: 'No data.',
+    leadTime: 'Lead time (created → done)',
+    cycleTime: 'Cycle time (in progress → done)',
+    throughput: 'Weekly throughput',
+    throughputLabel: 'Tasks finished per week',
+    week: 'Week of {date}: {count}',
+    cfd: 'Cumulative flow',
+    cfdLabel: 'Cumulative flow diagram',
+    timeInStatus: 'Time in each status',
+    timeInStatusHint: 'Stays that ended in the period.',
+    status: 'Status',
+    median: 'Median',
+    max: 'Max',
+    agents: 'Agents',
+    agentsHint:
+      'Subtasks closed (by whoever closed them, or their assignee if a person did) and rework: subtasks that went to review and came back.',
+    agent: 'Agent',
+    closed: 'Closed',
+    medianToDone: 'Median to done',
+    toReview: 'To review',
+    returned: 'Returned',
+    rework: 'Rework',
+    done: 'Finished in the period',
+    task: 'Task',
+    doneAt: 'Done',
+    lead: 'Lead time',
+    cycle: 'Cycle time',
+    deletedAgent: 'deleted agent',
+    buckets: {
+      underHour: '< 1 h',
+      upTo4h: '1–4 h',
+      upTo24h: '4–24 h',
+      upTo3d: '1–3 d',
+      upTo7d: '3–7 d',
+      overWeek: '> 7 d',
+    },
+    duration: {
+      minutes: '{count} min',
+      hours: '{count} h',
+      days: '{count} d',
+    },
+  },
+  schedules: {
+    title: 'Scheduled tasks',
+    subtitle:
+      'Tasks that create themselves in the inbox, periodically or once.',
+    create: 'New schedule',
+    titlePlaceholder: 'Task title',
+    descriptionPlaceholder: 'Description (optional)',
+    subtasksPlaceholder: 'Subtasks, one per line: Title | Definition of Done',
+    cron: 'Cron (recurring)',
+    once: 'or once',
+    timeZone: 'Time zone',
+    cronHelp:
+      'Five-field cron: minute hour day month day-of-week. “0 9 * * 1” = Mondays at 9:00.',
+    submit: 'Schedule',
+    onceAt: 'once, {at}',
+    agent: 'agent',
+    subtaskCount: '{count} subtask(s)',
+    upcoming: 'Next: {runs}',
+    noUpcoming: 'No upcoming runs',
+    paused: 'Paused',
+    lastRun: 'Last: {at}',
+    runNow: 'Create now',
+    pause: 'Pause',
+    resume: 'Resume',
+    delete: 'Delete',
+    none: 'No schedules.',
+    history: 'History',
+    taskDeleted: 'task deleted',
+    noRuns: 'No runs.',
+  },
+  templates: {
+    title: 'Templates',
+    subtitle:
+      'Standard tasks with their subtasks and Definitions of Done, to create them from the board.',
+    create: 'New template',
+    createHint: 'You can also save an existing task as a template from its page.',
+    name: 'Name',
+    titlePattern: 'Title: Release {title} ({date})',
+    descriptionPlaceholder: 'Description (optional)',
+    subtasksPlaceholder:
+      'Subtasks in order, one per line: Title | Definition of Done | @Agent',
+    noAgent: '(no agent)',
+    save: 'Save template',
+    inactiveAgent: 'inactive agent',
+    delete: 'Delete',
+    none: 'No templates.',
+  },
+  settings: {
+    title: 'Settings',
+    wip: 'WIP limits',
+    wipHint:
+      'Most tasks per column. “Warn” warns when moving; “Block” rejects the move. Empty = no limit.',
+    wipMode: {
+      warn: 'Warn',
+      block: 'Block',
+    },
+    sla: 'SLAs',
+    slaHint:
+      'Most hours in each status by priority. Past them (or past the due date) the task is escalated: its priority goes up one level and it gets a comment. Empty = no limit.',
+    hours: 'h',
+    webhooks: 'Webhooks',
+    webhooksHint:
+      'Notifies other systems of changes to tasks, subtasks and comments.',
+    webhooksLink: 'Set up webhooks →',
+    integrations: 'Integrations',
+    integrationsHint: 'Keys for other systems to create tasks in the inbox.',
+    integrationsLink: 'Manage integrations →',
+    transfer: 'Import / export',
+    transferHint:
+      'A copy of the board in JSON, CSV or Markdown, and import from JSON or CSV.',
+    transferLink: 'Import or export →',
+    back: '← Settings',
+  },
+  integrations: {
+    title: 'Integrations',
+    create: 'New integration',
+    createHint:
+      'Create tasks in the inbox with {endpoint} (JSON or RFC 822 email) and {header}. The name becomes the task’s source.',
+    namePlaceholder: 'name (e.g. zapier, email)',
+    issueKey: 'Generate key',
+    copyKey: 'Key for «{name}». Copy it now, it won’t be shown again:',
+    keyCreated: 'created {created} · last used {used}',
+    never: 'never',
+    revoke: 'Revoke',
+    none: 'No integrations.',
+  },
+  webhooks: {
+    title: 'Webhooks',
+    create: 'New webhook',
+    createHint:
+      'JSON POST signed with HMAC-SHA256: {signature}. Up to {attempts} attempts with backoff.',
+    secret: 'Secret',
+    pause: 'Pause',
+    resume: 'Resume',
+    delete: 'Delete',
+    none: 'No webhooks.',
+    deliveries: 'Recent deliveries',
+    disabled: 'Webhook disabled',
+    delivery: {
+      pending: 'pending',
+      succeeded: 'delivered',
+      failed: 'failed',
+    },
+    attempts: '{count}/{max} attempt(s)',
+    nextAttempt: 'Next attempt {at}',
+    redeliver: 'Redeliver',
+    noDeliveries: 'No deliveries.',
+  },
+  inbox: {
+    title: 'Needs human',
+    subtitle:
+      'Pending decisions (for anyone or for you) and comments from the agents.',
+    pending: 'Pending ({count})',
+    new: 'new',
+    forMe: 'for you',
+    subtaskOf: 'subtask of «{title}»',
+    taskLine: 'task · {priority}',
+    agent: 'agent',
+    notePlaceholder: 'Answer for the agent (required when returning)',
+    approve: 'Approve → {status}',
+    return: 'Return to the agent → {status}',
+    nothingPending: 'Nothing pending.',
+    comments: 'Agent comments (7 days)',
+    commentIn: '{at} · {agent} in',
+    noComments: 'No comments.',
+    approved: 'Approved',
+    returned: 'Returned',
+    notWaiting: 'No longer waiting for an answer ({status})',
+  },
+  transfer: {
+    title: 'Import / export',
+    subtitle: 'Board backups and migrations from other trackers.',
+    export: 'Export',
+    exportHint:
+      'Every task with its subtasks, comments and dependencies. Agents go by name. Attachments and history are not exported.',
+    json: 'complete, can be imported again',
+    csv: 'one row per task',
+    md: 'report per task',
+    import: 'Import',
+    importHint:
+      'A JSON export or a CSV with a header. Only the CSV columns {columns} are read; title is required. {max} tasks at most. Agents are looked up by name; tasks already on the board are left alone.',
+    preview: 'Preview',
+    importTasks: 'Import {count} tasks',
+    imported:
+      'Imported ({format}): {tasks} tasks, {subtasks} subtasks, {comments} comments, {links} dependencies.',
+    willImport:
+      'Will import ({format}): {tasks} tasks, {subtasks} subtasks, {comments} comments, {links} dependencies.',
+    existing: 'Already on the board, left as they are ({count}): {titles}',
+    unknownAgents: 'Unknown agents, will be left unassigned: {names}',
+    duplicateTitles: 'Titles that already exist on the board: {titles}',
+    droppedLinks:
+      '{count} dependency(ies) dropped: they point to tasks that don’t exist or would create a cycle.',
+    invalidJson: 'The JSON is not valid',
+    missingTitle: 'The «title» column is missing',
+    maxTasks: '{max} tasks at most',
+    file: 'file',
+    row: 'row {row}, {column}',
+    markdown: {
+      generated: 'Generated: {at} · {count} tasks',
+      priority: 'Priority: {priority}',
+      agent: 'Agent: {agent}',
+      due: 'Due: {date}',
+      created: 'Created: {date} by {by}',
+      blockedBy: 'Blocked by: {tasks}',
+      result: 'Result: {summary}',
+      comments: 'Comments',
+      agentAuthor: 'agent',
+    },
+  },
+  standups: {
+    title: 'Standups',
+    subtitle: 'Daily summary per agent.',
+    generate: 'Generate standup',
+    generateSubmit: 'Generate',
+    dayHint: 'Days in UTC. Regenerating a day replaces the saved standup.',
+    previous: 'Previous',
+    summary: '{count} agent(s) · generated {at}',
+    none: 'No standups.',
+    notFound: 'Standup not found.',
+    back: '← Back to standups',
+    download: 'Download .md',
+    generatedAt: 'Generated {at}',
+    markdown: 'Markdown',
+    unassigned: 'Unassigned',
+    heading: 'Standup {day}',
+    empty: 'No activity.',
+    moved: 'Moved',
+    completed: 'Completed',
+    result: 'Result: {summary}',
+    agentComments: '{count} comment(s) by the agent.',
+  },
+  errors: {
+    unexpected: 'Unexpected error',
+    checkFields: 'Check the highlighted fields',
+    taskNotFound: 'Task not found',
+    agentNotFound: 'Agent not found',
+    subtaskNotFound: 'Subtask not found',
+    templateNotFound: 'Template not found',
+    scheduleNotFound: 'Schedule not found',
+    attachmentNotFound: 'Attachment not found',
+    deliveryNotFound: 'Delivery not found',
+    fileTooBig: 'The file is larger than {size}',
+    dateInPast: 'That date has already passed',
+    notWorkspaceMember: 'You are not a member of that workspace',
+    alreadyMember: 'Already a member of the workspace',
+    alreadyInvited: 'Already invited',
+  },
+  validation: {
+    required: {
+      name: 'The name is required',
+      title: 'The title is required',
+      comment: 'The comment is required',
+      definitionOfDone: 'The Definition of Done is required',
+      timeZone: 'The time zone is required',
+      role: 'The role is required',
+      status: 'The status is required',
+      email: 'The email is required',
+    },
+    tooLong: {
+      name: 'The name is too long',
+      title: 'The title is too long',
+      comment: 'The comment is too long',
+      definitionOfDone: 'The Definition of Done is too long',
+      timeZone: 'The time zone is too long',
+      role: 'The role is too long',
+      status: 'The status is too long',
+      text: 'Text too long',
+    },
+    invalidId: 'Invalid id',
+    invalidDate: 'Invalid date',
+    invalidStatus: 'Invalid status',
+    invalidPriority: 'Invalid priority',
+    invalidPosition: 'Invalid position',
+    invalidLinkKind: 'Invalid kind',
+    invalidEmail: 'Invalid email',
+    invalidRole: 'Invalid role',
+    invalidLocale: 'Invalid language',
+    invalidUrl: 'Invalid URL (http or https)',
+    chooseFile: 'Choose a file',
+    emptyFile: 'The file is empty',
+    attachmentTooBig: '10 MB per file at most',
+    importTooBig: '10 MB at most',
+    chooseTask: 'Choose a task',
+    chooseEvent: 'Choose at least one event',
+    explainReturn: 'Tell the agent what to change',
+    cronOrDate: 'Give a cron or a date (only one)',
+    min1: 'At least 1',
+    integrationName: 'Only a-z, 0-9, - and _',
+    reservedName: 'Reserved name',
+    maxSubtasks: '{max} subtasks at most',
+    unknownAgents: 'Unknown agents: {names}',
+    unknownTimeZone: 'Unknown time zone',
+    futureMoment: 'Pick a moment in the future',
+    cronFields: 'Use five fields: minute hour day month weekday',
+    invalidCron: 'Invalid cron: {error}',
+  },
+  workspace: {
+    yourRole: 'Workspace · your role: {role}',
+    invites: 'Invitations',
+    invitedSince: '{role} · since {date}',
+    accept: 'Accept',
+    decline: 'Decline',
+    yours: 'Your workspaces',
+    current: 'current',
+    switch: 'Switch',
+    newName: 'New workspace',
+    name: 'Name',
+    rename: 'Rename',
+    members: 'Members ({count})',
+    rolesHint:
+      'Owners manage members, agents and settings; editors work on the board; read-only members can’t change anything.',
+    leave: 'Leave',
+    remove: 'Remove',
+    invite: 'Invite',
+    inviteHint:
+      'They join once they accept the invitation from this page, whether they already have an account or sign up with that email.',
+    emailPlaceholder: 'email@example.com',
+    pendingSince: '{role} · pending since {date}',
+    cancel: 'Cancel',
+    noInvites: 'No pending invitations.',
+  },
+  roles: {
+    owner: 'Owner',
+    editor: 'Editor',
+    viewer: 'Read only',
+    ownersOnly: 'Only workspace owners can do this',
+    readOnly: 'You have read-only access to this workspace',
+  },
+  workflow: {
+    cannotMove: 'Cannot go from {from} to {to}',
+    openSubtasks: '{count} subtask(s) still open',
+    reasonRequired: 'Give the reason for blocking',
+    blockedComment: 'Blocked: {reason}',
+    wipExceeded: 'The WIP limit of {status} is {max} and there are already {count}',
+  },
+  escalation: {
+    sla: 'over {hours} h in {status}',
+    overdue: 'was due {date}',
+    subtaskOverdue: 'subtask «{title}» was due {date}',
+    comment: 'Escalated: {reasons}.',
+    samePriority: 'It was already {priority}.',
+    raisedPriority: 'Priority {before} → {after}.',
+  },
+  events: {
+    subtask: 'subtask «{title}»',
+    task_status: 'status: {before} → {after}',
+    task_priority: 'priority: {before} → {after}',
+    task_assignee: 'assigned: {before} → {after}',
+    task_due_date: 'due: {before} → {after}',
+    subtask_created: 'created {subtask}',
+    subtask_status: '{subtask} status: {before} → {after}',
+    subtask_assignee: '{subtask} assigned: {before} → {after}',
+    subtask_result: '{subtask} result: «{before}» → «{after}»',
+    subtask_due_date: '{subtask} due: {before} → {after}',
+  },
+}
+
+export default en
@@ -0,0 +1,625 @@
+// Spanish catalog. Its shape is the Messages type every locale must match.
+// `{name}` placeholders are filled by t(key, { name }).
+const es = {
+  app: {
+    title: 'Centro de Mando',
+    description: 'Board de tasks para humanos y agentes.',
+  },
+  common: {
+    save: 'Guardar',
+    create: 'Crear',
+    remove: 'Quitar',
+    back: 'Volver',
+    error: 'Error: {message}',
+    updated: 'actualizado',
+    title: 'Título',
+    due: 'Vence',
+    none: '(ninguno)',
+    unassigned: '(sin asignar)',
+    templates: 'Plantillas',
+  },
+  status: {
+    inbox: 'Entrada',
+    triage: 'Triaje',
+    in_progress: 'En curso',
+    blocked: 'Bloqueada',
+    review: 'Revisión',
+    needs_human: 'Necesita humano',
+    done: 'Hecha',
+    canceled: 'Cancelada',
+  },
+  priority: {
+    low: 'Baja',
+    medium: 'Media',
+    high: 'Alta',
+    urgent: 'Urgente',
+  },
+  nav: {
+    board: 'Board',
+    inbox: 'Inbox',
+    agents: 'Agentes',
+    standups: 'Standups',
+    metrics: 'Métricas',
+    schedules: 'Programadas',
+    templates: 'Plantillas',
+    settings: 'Ajustes',
+    account: 'Cuenta',
+    readOnly: '(solo lectura)',
+    unread: '{count} sin leer',
+  },
+  home: {
+    subtitle: 'Mission Control (v1) — tasks + agentes.',
+    board: 'Ir al tablero →',
+    login: 'Entrar →',
+  },
+  login: {
+    title: 'Entrar',
+    password: 'Contraseña',
+    magicLink: 'Link mágico',
+    email: 'Email',
+    submit: 'Entrar',
+    submitting: 'Entrando…',
+    linkSent: 'Te enviamos un link al email. Ábrelo para entrar.',
+    failed: 'Error de login',
+    loading: 'Cargando…',
+    language: 'Idioma',
+  },
+  account: {
+    title: 'Cuenta',
+    preferences: 'Preferencias',
+    intro: 'Solo para ti: no cambia nada para el resto del workspace.',
+    displayName: 'Nombre',
+    language: 'Idioma',
+    timeZone: 'Zona horaria',
+    browser: '(la del navegador)',
+    timeZoneHint: 'Vacío = la del navegador. Ahora se usa {zone}.',
+    unknownTimeZone: 'Zona horaria desconocida',
+    signOut: 'Cerrar sesión',
+  },
+  board: {
+    subtitle: 'Kanban de tasks para humanos y agentes.',
+    createTask: 'Crear task',
+    descriptionPlaceholder: 'Descripción (opcional)',
+    defaultPriority: 'prioridad: media / la de la plantilla',
+    noTemplate: '(sin plantilla)',
+    templateHint:
+      'Con plantilla, el título rellena su {placeholder} y las subtasks se crean con su Definition of Done.',
+    titleRequired: 'El título es obligatorio',
+    keyboardHelp:
+      'j/k pasa a la task siguiente o anterior y Enter la abre. Alt + flechas arriba/abajo la reordena; Alt + izquierda/derecha la mueve al estado válido más cercano. Una letra cambia su estado: i t p b r h d x.',
+    shortcuts:
+      'Ctrl/⌘-K: comandos · j/k: moverse entre tasks · Enter: abrir · i t p b r h d x: cambiar el estado',
+    moveFailed: 'No se pudo mover: {error}',
+    editFailed: 'No se pudo guardar: {error}',
+    cannotMove: 'No se puede pasar de {from} a {to}',
+    noValidStatus: 'No hay un estado válido hacia ese lado',
+    blockReason: 'Motivo del bloqueo de «{title}»',
+    moved: '{title}: {status}, posición {position}',
+    wipBlock: 'WIP estricto',
+    wipWarn: 'WIP aviso',
+    overdue: 'vencida',
+    dueToday: 'vence hoy',
+    dueOn: 'Vence {date}',
+    slaBreached: 'Demasiado tiempo en {status}',
+    empty: 'Vacío',
+  },
+  filters: {
+    search: 'Buscar',
+    searchPlaceholder: 'título o descripción',
+    status: 'Estado',
+    priority: 'Prioridad',
+    agent: 'Agente',
+    all: '(todos)',
+    updatedSince: 'Actualizado desde',
+    apply: 'Filtrar',
+    clear: 'Limpiar',
+    views: 'Vistas:',
+    deleteView: 'Borrar vista {name}',
+    noViews: 'ninguna',
+    viewName: 'Nombre de la vista',
+    saveView: 'Guardar vista',
+  },
+  task: {
+    notFound: 'Task no encontrada.',
+    backToBoard: '← Volver al board',
+    createdBy: 'de {name}',
+    via: 'vía {source}',
+    waitsFor: 'espera a {name}',
+    anyone: 'cualquiera',
+    updatedAt: 'actualizada {at}',
+    dueOn: 'vence {date}',
+    slaBreached: 'SLA de {status} incumplido',
+    slaUntil: 'SLA de {status} hasta {at}',
+    formerMember: 'ex miembro',
+    human: 'humano',
+    agent: 'agente',
+    settings: 'Ajustes de la task',
+    status: 'Estado',
+    priority: 'Prioridad',
+    assignedAgent: 'Agente asignado',
+    needsHumanFor: 'Necesita humano: para',
+    anyoneOption: '(cualquiera)',
+    blockReason: 'Motivo (si se bloquea)',
+    templateName: 'Nombre de la plantilla',
+    saveAsTemplate: 'Guardar como plantilla',
+    notMember: 'No es miembro del workspace',
+    subtaskNotInTask: 'La subtask no es de esta task',
+    shortcuts:
+      'Ctrl/⌘-K: comandos · j/k: moverse entre subtasks · i t p b r h d x: estado de la subtask enfocada o, si no hay, de la task',
+    taskId: 'Task ID: {id}',
+    workspace: 'Workspace: {id}',
+  },
+  dependencies: {
+    title: 'Dependencias',
+    viewGraph: 'Ver grafo',
+    autoBlocked:
+      'Bloqueada automáticamente: vuelve a {status} cuando todas sus dependencias estén hechas.',
+    blockedBy: 'Bloqueada por',
+    blocks: 'Bloquea a',
+    relatesTo: 'Relacionada con',
+    none: 'Sin vínculos.',
+    pickTask: 'Elige una task…',
+    add: 'Añadir',
+    graphIntro:
+      'A la izquierda, lo que tiene que terminar antes; a la derecha, lo que espera a esta task. Discontinuas: relacionadas.',
+    graphEmpty: 'Esta task no tiene vínculos.',
+    graphLabel: 'Grafo de dependencias de {title}',
+    selfLink: 'Una task no puede enlazarse consigo misma',
+    alreadyRelated: 'Ya están relacionadas',
+    cycle: 'Crearía un ciclo: {path}',
+    linkExists: 'Ese vínculo ya existe',
+    linkNotFound: 'Vínculo no encontrado',
+    waitingFor: 'esperando a «{title}»',
+    unblocked: 'Desbloqueada: todas sus dependencias están done',
+  },
+  attachments: {
+    title: 'Adjuntos',
+    task: 'Task',
+    subtask: 'Subtask: {title}',
+    upload: 'Subir',
+    maxSize: 'Máximo 10 MB.',
+    preview: 'Vista previa',
+  },
+  subtasks: {
+    title: 'Subtasks',
+    dod: 'DoD:',
+    result: 'Resultado:',
+    resultPlaceholder: 'resultado (opcional)',
+    reasonPlaceholder: 'motivo (si se bloquea)',
+    update: 'Actualizar',
+    none: 'Sin subtasks.',
+    create: 'Crear subtask',
+    dodPlaceholder: 'Definition of Done (obligatorio)',
+  },
+  activity: {
+    title: 'Actividad',
+    none: 'Sin actividad.',
+    addComment: 'Añadir comentario',
+    commentPlaceholder: 'Escribe un comentario…',
+    comment: 'Comentar',
+  },
+  palette: {
+    title: 'Comandos',
+    placeholder: 'Busca una task o un comando…',
+    help: '↑/↓ elige, Enter ejecuta, Esc cierra.',
+    empty: 'Nada coincide.',
+    withQuery: '{label}: «{query}»',
+    tasks: 'Tasks',
+    goTo: 'Ir a',
+    agents: 'Agentes',
+    focused: '«{title}»',
+    createTask: 'Crear task',
+    created: 'Task creada: {title}',
+    open: 'Abrir',
+    setStatus: 'Mover a {status}',
+    setPriority: 'Prioridad {priority}',
+    assign: 'Asignar a {agent}',
+    unassign: 'Quitar el agente',
+  },
+  agents: {
+    title: 'Agentes',
+    subtitle: 'Roster, heartbeats y carga de trabajo.',
+    create: 'Crear agente',
+    name: 'Nombre',
+    role: 'Rol',
+    inactive: 'inactivo',
+    lastSeen: 'visto {at}',
+    never: 'nunca',
+    silent: 'Sin heartbeat con {count} item(s) en curso',
+    staleHeartbeat: 'sin heartbeat reciente',
+    deactivate: 'Desactivar',
+    reactivate: 'Reactivar',
+    tasks: 'Tasks',
+    openSubtasks: 'Subtasks abiertas',
+    editKeys: 'Editar · API keys',
+    key: 'key',
+    keyCreated: '{label} · creada {created} · último uso {used}',
+    revoke: 'Revocar',
+    keyLabel: 'label (opcional)',
+    issueKey: 'Generar API key',
+    copyKey: 'Cópiala ahora, no se volverá a mostrar:',
+    none: 'Sin agentes.',
+    agent: 'Agente',
+    back: '← Agentes',
+    openWork: 'Trabajo abierto',
+    taskLine: 'task · {status} · {priority}',
+    subtaskLine: 'subtask · {status}',
+    nothingAssigned: 'Nada asignado.',
+    mentions: 'Menciones',
+    mentionIn: '{at} · {source} en',
+    unread: 'sin leer',
+    noMentions: 'Sin menciones.',
+    source: {
+      description: 'descripción',
+      definition_of_done: 'Definition of Done',
+      result_summary: 'resultado',
+      comment: 'comentario',
+    },
+  },
+  metrics: {
+    title: 'Métricas',
+    subtitle:
+      'Flujo desde el historial de cambios de estado, desde el {date} (UTC).',
+    weeks: '{count} semanas',
+    summary: 'mediana · p85 {p85} · máx {max} · {count} tasks',
+    noData: 'Sin datos.',
+    leadTime: 'Lead time (creada → hecha)',
+    cycleTime: 'Cycle time (en curso → hecha)',
+    throughput: 'Throughput semanal',
+    throughputLabel: 'Tasks terminadas por semana',
+    week: 'Semana del {date}: {count}',
+    cfd: 'Flujo acumulado',
+    cfdLabel: 'Diagrama de flujo acumulado',
+    timeInStatus: 'Tiempo en cada estado',
+    timeInStatusHint: 'Estancias terminadas en el periodo.',
+    status: 'Estado',
+    median: 'Mediana',
+    max: 'Máx',
+    agents: 'Agentes',
+    agentsHint:
+      'Subtasks cerradas (por quien las cerró, o su asignado si las cerró una persona) y retrabajo: subtasks que fueron a revisión y volvieron.',
+    agent: 'Agente',
+    closed: 'Cerradas',
+    medianToDone: 'Mediana hasta hecha',
+    toReview: 'A revisión',
+    returned: 'Devueltas',
+    rework: 'Retrabajo',
+    done: 'Terminadas en el periodo',
+    task: 'Task',
+    doneAt: 'Hecha',
+    lead: 'Lead time',
+    cycle: 'Cycle time',
+    deletedAgent: 'agente borrado',
+    buckets: {
+      underHour: '< 1 h',
+      upTo4h: '1–4 h',
+      upTo24h: '4–24 h',
+      upTo3d: '1–3 d',
+      upTo7d: '3–7 d',
+      overWeek: '> 7 d',
+    },
+    duration: {
+      minutes: '{count} min',
+      hours: '{count} h',
+      days: '{count} d',
+    },
+  },
+  schedules: {
+    title: 'Tasks programadas',
+    subtitle:
+      'Tasks que se crean solas en el inbox, de forma periódica o una vez.',
+    create: 'Nueva programación',
+    titlePlaceholder: 'Título de la task',
+    descriptionPlaceholder: 'Descripción (opcional)',
+    subtasksPlaceholder: 'Subtasks, una por línea: Título | Definition of Done',
+    cron: 'Cron (recurrente)',
+    once: 'o una vez',
+    timeZone: 'Zona horaria',
+    cronHelp:
+      'Cron de cinco campos: minuto hora día mes día-de-semana. “0 9 * * 1” = los lunes a las 9:00.',
+    submit: 'Programar',
+    onceAt: 'una vez, {at}',
+    agent: 'agente',
+    subtaskCount: '{count} subtask(s)',
+    upcoming: 'Próximas: {runs}',
+    noUpcoming: 'Sin próximas ejecuciones',
+    paused: 'Pausada',
+    lastRun: 'Última: {at}',
+    runNow: 'Crear ahora',
+    pause: 'Pausar',
+    resume: 'Reactivar',
+    delete: 'Borrar',
+    none: 'Sin programaciones.',
+    history: 'Historial',
+    taskDeleted: 'task borrada',
+    noRuns: 'Sin ejecuciones.',
+  },
+  templates: {
+    title: 'Plantillas',
+    subtitle:
+      'Tasks tipo con sus subtasks y Definitions of Done, para crearlas desde el board.',
+    create: 'Nueva plantilla',
+    createHint:
+      'También puedes guardar una task existente como plantilla desde su página.',
+    name: 'Nombre',
+    titlePattern: 'Título: Release {title} ({date})',
+    descriptionPlaceholder: 'Descripción (opcional)',
+    subtasksPlaceholder:
+      'Subtasks en orden, una por línea: Título | Definition of Done | @Agente',
+    noAgent: '(sin agente)',
+    save: 'Guardar plantilla',
+    inactiveAgent: 'agente inactivo',
+    delete: 'Borrar',
+    none: 'Sin plantillas.',
+  },
+  settings: {
+    title: 'Ajustes',
+    wip: 'Límites WIP',
+    wipHint:
+      'Máximo de tasks por columna. “Avisar” avisa al mover; “Bloquear” rechaza el movimiento. Vacío = sin límite.',
+    wipMode: {
+      warn: 'Avisar',
+      block: 'Bloquear',
+    },
+    sla: 'SLAs',
+    slaHint:
+      'Horas máximas en cada estado según prioridad. Al superarlas (o al pasar la fecha de vencimiento) la task se escala: sube un nivel de prioridad y recibe un comentario. Vacío = sin límite.',
+    hours: 'h',
+    webhooks: 'Webhooks',
+    webhooksHint:
+      'Notifica a otros sistemas de cambios en tasks, subtasks y comentarios.',
+    webhooksLink: 'Configurar webhooks →',
+    integrations: 'Integraciones',
+    integrationsHint: 'Keys para que otros sistemas creen tasks en el inbox.',
+    integrationsLink: 'Gestionar integraciones →',
+    transfer: 'Importar / exportar',
+    transferHint:
+      'Copia del board en JSON, CSV o Markdown, e importación desde JSON o CSV.',
+    transferLink: 'Importar o exportar →',
+    back: '← Ajustes',
+  },
+  integrations: {
+    title: 'Integraciones',
+    create: 'Nueva integración',
+    createHint:
+      'Crea tasks en inbox con {endpoint} (JSON o email RFC 822) y {header}. El nombre queda como origen de la task.',
+    namePlaceholder: 'nombre (p. ej. zapier, email)',
+    issueKey: 'Generar key',
+    copyKey: 'Key para «{name}». Cópiala ahora, no se volverá a mostrar:',
+    keyCreated: 'creada {created} · último uso {used}',
+    never: 'nunca',
+    revoke: 'Revocar',
+    none: 'Sin integraciones.',
+  },
+  webhooks: {
+    title: 'Webhooks',
+    create: 'Nuevo webhook',
+    createHint:
+      'POST JSON firmado con HMAC-SHA256: {signature}. Hasta {attempts} intentos con backoff.',
+    secret: 'Secret',
+    pause: 'Pausar',
+    resume: 'Reactivar',
+    delete: 'Borrar',
+    none: 'Sin webhooks.',
+    deliveries: 'Entregas recientes',
+    disabled: 'Webhook desactivado',
+    delivery: {
+      pending: 'pendiente',
+      succeeded: 'entregada',
+      failed: 'fallida',
+    },
+    attempts: '{count}/{max} intento(s)',
+    nextAttempt: 'Próximo intento {at}',
+    redeliver: 'Reenviar',
+    noDeliveries: 'Sin entregas.',
+  },
+  inbox: {
+    title: 'Necesita humano',
+    subtitle:
+      'Decisiones pendientes (para cualquiera o para ti) y comentarios de los agentes.',
+    pending: 'Pendientes ({count})',
+    new: 'nuevo',
+    forMe: 'para ti',
+    subtaskOf: 'subtask de «{title}»',
+    taskLine: 'task · {priority}',
+    agent: 'agente',
+    notePlaceholder: 'Respuesta para el agente (obligatoria al devolver)',
+    approve: 'Aprobar → {status}',
+    return: 'Devolver al agente → {status}',
+    nothingPending: 'Nada pendiente.',
+    comments: 'Comentarios de agentes (7 días)',
+    commentIn: '{at} · {agent} en',
+    noComments: 'Sin comentarios.',
+    approved: 'Aprobado',
+    returned: 'Devuelto',
+    notWaiting: 'Ya no espera respuesta ({status})',
+  },
+  transfer: {
+    title: 'Importar / exportar',
+    subtitle: 'Copias del board y migraciones desde otros trackers.',
+    export: 'Exportar',
+    exportHint:
+      'Todas las tasks con sus subtasks, comentarios y dependencias. Los agentes van por nombre. Los adjuntos y el historial no se exportan.',
+    json: 'completo, se puede volver a importar',
+    csv: 'una fila por task',
+    md: 'informe por task',
+    import: 'Importar',
+    importHint:
+      'Un export JSON o un CSV con cabecera. Del CSV solo se leen las columnas {columns}; title es obligatoria. Máximo {max} tasks. Los agentes se buscan por nombre; las tasks que ya están en el board no se tocan.',
+    preview: 'Previsualizar',
+    importTasks: 'Importar {count} tasks',
+    imported:
+      'Importado ({format}): {tasks} tasks, {subtasks} subtasks, {comments} comentarios, {links} dependencias.',
+    willImport:
+      'Se importarán ({format}): {tasks} tasks, {subtasks} subtasks, {comments} comentarios, {links} dependencias.',
+    existing: 'Ya en el board, se dejan como están ({count}): {titles}',
+    unknownAgents: 'Agentes desconocidos, quedarán sin asignar: {names}',
+    duplicateTitles: 'Títulos que ya existen en el board: {titles}',
+    droppedLinks:
+      '{count} dependencia(s) descartadas: apuntan a tasks que no existen o crearían un ciclo.',
+    invalidJson: 'El JSON no es válido',
+    missingTitle: 'Falta la columna «title»',
+    maxTasks: 'Máximo {max} tasks',
+    file: 'archivo',
+    row: 'fila {row}, {column}',
+    markdown: {
+      generated: 'Generado: {at} · {count} tasks',
+      priority: 'Prioridad: {priority}',
+      agent: 'Agente: {agent}',
+      due: 'Vence: {date}',
+      created: 'Creada: {date} por {by}',
+      blockedBy: 'Bloqueada por: {tasks}',
+      result: 'Resultado: {summary}',
+      comments: 'Comentarios',
+      agentAuthor: 'agente',
+    },
+  },
+  standups: {
+    title: 'Standups',
+    subtitle: 'Resumen diario por agente.',
+    generate: 'Generar standup',
+    generateSubmit: 'Generar',
+    dayHint: 'Días en UTC. Regenerar un día reemplaza el standup guardado.',
+    previous: 'Anteriores',
+    summary: '{count} agente(s) · generado {at}',
+    none: 'Sin standups.',
+    notFound: 'Standup no encontrado.',
+    back: '← Volver a standups',
+    download: 'Descargar .md',
+    generatedAt: 'Generado {at}',
+    markdown: 'Markdown',
+    unassigned: 'Sin asignar',
+    heading: 'Standup {day}',
+    empty: 'Sin actividad.',
+    moved: 'Movido',
+    completed: 'Completado',
+    result: 'Resultado: {summary}',
+    agentComments: '{count} comentario(s) del agente.',
+  },
+  errors: {
+    unexpected: 'Error inesperado',
+    checkFields: 'Revisa los campos marcados',
+    taskNotFound: 'Task no encontrada',
+    agentNotFound: 'Agente no encontrado',
+    subtaskNotFound: 'Subtask no encontrada',
+    templateNotFound: 'Plantilla no encontrada',
+    scheduleNotFound: 'Programación no encontrada',
+    attachmentNotFound: 'Adjunto no encontrado',
+    deliveryNotFound: 'Entrega no encontrada',
+    fileTooBig: 'El archivo supera {size}',
+    dateInPast: 'Esa fecha ya pasó',
+    notWorkspaceMember: 'No eres miembro de ese workspace',
+    alreadyMember: 'Ya es miembro del workspace',
+    alreadyInvited: 'Ya tiene una invitación',
+  },
+  validation: {
+    required: {
+      name: 'El nombre es obligatorio',
+      title: 'El título es obligatorio',
+      comment: 'El comentario es obligatorio',
+      definitionOfDone: 'La Definition of Done es obligatoria',
+      timeZone: 'La zona horaria es obligatoria',
+      role: 'El rol es obligatorio',
+      status: 'El status es obligatorio',
+      email: 'El email es obligatorio',
+    },
+    tooLong: {
+      name: 'El nombre es demasiado largo',
+      title: 'El título es demasiado largo',
+      comment: 'El comentario es demasiado largo',
+      definitionOfDone: 'La Definition of Done es demasiado larga',
+      timeZone: 'La zona horaria es demasiado larga',
+      role: 'El rol es demasiado largo',
+      status: 'El status es demasiado largo',
+      text: 'Texto demasiado largo',
+    },
+    invalidId: 'Id inválido',
+    invalidDate: 'Fecha inválida',
+    invalidStatus: 'Status inválido',
+    invalidPriority: 'Prioridad inválida',
+    invalidPosition: 'Posición inválida',
+    invalidLinkKind: 'Tipo inválido',
+    invalidEmail: 'Email inválido',
+    invalidRole: 'Rol inválido',
+    invalidLocale: 'Idioma inválido',
+    invalidUrl: 'URL inválida (http o https)',
+    chooseFile: 'Elige un archivo',
+    emptyFile: 'El archivo está vacío',
+    attachmentTooBig: 'Máximo 10 MB por archivo',
+    importTooBig: 'Máximo 10 MB',
+    chooseTask: 'Elige una task',
+    chooseEvent: 'Elige al menos un evento',
+    explainReturn: 'Explica al agente qué debe cambiar',
+    cronOrDate: 'Indica un cron o una fecha (solo uno)',
+    min1: 'Mínimo 1',
+    integrationName: 'Solo a-z, 0-9, - y _',
+    reservedName: 'Nombre reservado',
+    maxSubtasks: 'Máximo {max} subtasks',
+    unknownAgents: 'Agentes desconocidos: {names}',
+    unknownTimeZone: 'Zona horaria desconocida',
+    futureMoment: 'Elige un momento futuro',
+    cronFields: 'Usa cinco campos: minuto hora día mes día-de-semana',
+    invalidCron: 'Cron inválido: {error}',
+  },
+  workspace: {
+    yourRole: 'Workspace · tu rol: {role}',
+    invites: 'Invitaciones',
+    invitedSince: '{role} · desde {date}',
+    accept: 'Aceptar',
+    decline: 'Rechazar',
+    yours: 'Tus workspaces',
+    current: 'actual',
+    switch: 'Cambiar',
+    newName: 'Nuevo workspace',
+    name: 'Nombre',
+    rename: 'Renombrar',
+    members: 'Miembros ({count})',
+    rolesHint:
+      'Owners gestionan miembros, agentes y ajustes; editors trabajan en el board; solo lectura no puede cambiar nada.',
+    leave: 'Salir',
+    remove: 'Quitar',
+    invite: 'Invitar',
+    inviteHint:
+      'Entra cuando acepte la invitación desde esta página, ya tenga cuenta o se registre con ese email.',
+    emailPlaceholder: 'email@ejemplo.com',
+    pendingSince: '{role} · pendiente desde {date}',
+    cancel: 'Cancelar',
+    noInvites: 'Sin invitaciones pendientes.',
+  },
+  roles: {
+    owner: 'Owner',
+    editor: 'Editor',
+    viewer: 'Solo lectura',
+    ownersOnly: 'Solo los owners del workspace pueden hacer esto',
+    readOnly: 'Tienes acceso de solo lectura a este workspace',
+  },
+  workflow: {
+    cannotMove: 'No se puede pasar de {from} a {to}',
+    openSubtasks: 'Quedan {count} subtask(s) abiertas',
+    reasonRequired: 'Indica el motivo del bloqueo',
+    blockedComment: 'Bloqueada: {reason}',
+    wipExceeded: 'WIP de {status} es {max} y ya hay {count}',
+  },
+  escalation: {
+    sla: 'más de {hours} h en {status}',
+    overdue: 'venció el {date}',
+    subtaskOverdue: 'la subtask «{title}» venció el {date}',
+    comment: 'Escalada: {reasons}.',
+    samePriority: 'Ya estaba en {priority}.',
+    raisedPriority: 'Prioridad {before} → {after}.',
+  },
+  events: {
+    subtask: 'subtask «{title}»',
+    task_status: 'estado: {before} → {after}',
+    task_priority: 'prioridad: {before} → {after}',
+    task_assignee: 'asignada: {before} → {after}',
+    task_due_date: 'vence: {before} → {after}',
+    subtask_created: 'creó {subtask}',
+    subtask_status: '{subtask} estado: {before} → {after}',
+    subtask_assignee: '{subtask} asignada: {before} → {after}',
+    subtask_result: '{subtask} resultado: «{before}» → «{after}»',
+    subtask_due_date: '{subtask} vence: {before} → {after}',
+  },
+}
+
+export default es
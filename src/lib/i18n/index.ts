@@ -0,0 +1,137 @@
+import es from '@/lib/i18n/es'
+import en from '@/lib/i18n/en'
+
+export const LOCALES = ['es', 'en'] as const
+
+export type Locale = (typeof LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = 'es'
+export const DEFAULT_TIME_ZONE = 'UTC'
+
+// Each language named in itself, for the pickers.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  es: 'Español',
+  en: 'English',
+}
+
+// Fallbacks for members without a saved preference (and signed-out
+// visitors): the language picked on the login page and the browser's zone.
+export const LOCALE_COOKIE = 'locale'
+export const TIME_ZONE_COOKIE = 'tz'
+
+export type Messages = typeof es
+
+// 'board.createTask', 'status.in_progress', …
+type Paths<T> = {
+  [K in keyof T & string]: T[K] extends string ? K : `${K}.${Paths<T[K]>}`
+}[keyof T & string]
+
+export type MessageKey = Paths<Messages>
+
+export type MessageParams = Record<string, string | number>
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string
+
+export type Format = {
+  // A timestamp in the member's time zone.
+  dateTime: (at: string | Date) => string
+  // A `YYYY-MM-DD` date column, which has no time zone.
+  date: (day: string) => string
+}
+
+export type I18n = {
+  locale: Locale
+  timeZone: string
+  t: Translate
+  fmt: Format
+}
+
+const CATALOGS: Record<Locale, Messages> = { es, en }
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale)
+}
+
+// Catalog keys also serve as messages where `t` isn't at hand, e.g. the
+// validation messages of src/lib/schemas.ts.
+export function isMessageKey(text: string): text is MessageKey {
+  const node = text
+    .split('.')
+    .reduce<unknown>(
+      (node, part) =>
+        node && typeof node === 'object'
+          ? (node as Record<string, unknown>)[part]
+          : undefined,
+      es
+    )
+  return typeof node === 'string'
+}
+
+// Thrown by lib code that has no `t`; actionError() shows it in the
+// member's language. The message itself is in the default one, for logs.
+export class MessageError extends Error {
+  constructor(
+    readonly key: MessageKey,
+    readonly params?: MessageParams
+  ) {
+    super(translator(DEFAULT_LOCALE)(key, params))
+  }
+}
+
+export function translator(locale: Locale): Translate {
+  const messages = CATALOGS[locale]
+  return (key, params) => {
+    const text = key
+      .split('.')
+      .reduce<unknown>(
+        (node, part) => (node as Record<string, unknown>)[part],
+        messages
+      ) as string
+    if (!params) return text
+    return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match
+    )
+  }
+}
+
+export function formatter(locale: Locale, timeZone: string): Format {
+  const dateTime = new Intl.DateTimeFormat(locale, {
+    dateStyle: 'short',
+    timeStyle: 'short',
+    timeZone,
+  })
+  const date = new Intl.DateTimeFormat(locale, {
+    dateStyle: 'medium',
+    timeZone: 'UTC',
+  })
+  return {
+    dateTime: (at) => dateTime.format(new Date(at)),
+    date: (day) => date.format(new Date(`${day}T00:00:00Z`)),
+  }
+}
+
+export function createI18n(locale: Locale, timeZone: string): I18n {
+  return {
+    locale,
+    timeZone,
+    t: translator(locale),
+    fmt: formatter(locale, timeZone),
+  }
+}
+
+// Picks the first supported language of an Accept-Language header, by
+// quality; 'en-US' counts as 'en'.
+export function negotiateLocale(header: string | null): Locale {
+  const ranked = (header ?? '')
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';')
+      const q = params.find((p) => p.trim().startsWith('q='))
+      return {
+        lang: tag.split('-')[0].toLowerCase(),
+        q: q ? Number(q.trim().slice(2)) : 1,
+      }
+    })
+    .sort((a, b) => b.q - a.q)
+  return ranked.map((r) => r.lang).find(isLocale) ?? DEFAULT_LOCALE
+}
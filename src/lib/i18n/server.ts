@@ -0,0 +1,51 @@
+import { cache } from 'react'
+import { cookies, headers } from 'next/headers'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { isTimeZone } from '@/lib/schedules'
+import {
+  DEFAULT_TIME_ZONE,
+  LOCALE_COOKIE,
+  TIME_ZONE_COOKIE,
+  createI18n,
+  isLocale,
+  negotiateLocale,
+  type I18n,
+} from '@/lib/i18n'
+
+// The signed-in member's saved language and time zone, if any.
+async function getPreferences() {
+  const supabase = await createServerSupabase()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('locale,time_zone')
+    .eq('user_id', user.id)
+    .maybeSingle()
+  return data
+}
+
+// Language and time zone for this request: the member's preference, then
+// the cookies (login page picker, browser zone), then Accept-Language and
+// UTC. Cached so the layout, the page and AppNav share one lookup.
+export const getI18n = cache(async (): Promise<I18n> => {
+  const [cookieStore, headerStore, preferences] = await Promise.all([
+    cookies(),
+    headers(),
+    getPreferences(),
+  ])
+
+  const locale =
+    [preferences?.locale, cookieStore.get(LOCALE_COOKIE)?.value].find(
+      isLocale
+    ) ?? negotiateLocale(headerStore.get('accept-language'))
+  const timeZone =
+    [preferences?.time_zone, cookieStore.get(TIME_ZONE_COOKIE)?.value].find(
+      (tz): tz is string => !!tz && isTimeZone(tz)
+    ) ?? DEFAULT_TIME_ZONE
+
+  return createI18n(locale, timeZone)
+})
@@ -0,0 +1,195 @@
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import type { Priority, Status } from '@/lib/status'
+import type { MessageKey } from '@/lib/i18n'
+
+export type InboxItem = {
+  kind: 'task' | 'subtask'
+  id: string
+  task_id: string
+  // Parent task title for subtasks.
+  task_title: string | null
+  title: string
+  priority: Priority | null
+  agent_id: string | null
+  // Waiting on this member in particular rather than on anyone.
+  for_me: boolean
+  updated_at: string
+  unread: boolean
+}
+
+export type InboxComment = {
+  id: string
+  task_id: string
+  task_title: string
+  author_agent_id: string | null
+  body: string
+  created_at: string
+  unread: boolean
+}
+
+export type Inbox = {
+  // Visiting the inbox marks everything up to here as read.
+  fetched_at: string
+  last_seen_at: string | null
+  items: InboxItem[]
+  comments: InboxComment[]
+}
+
+export type InboxDecision = 'approve' | 'return'
+
+// What answering a needs_human item does: approving lets the agent carry
+// on; returning sends it back to triage with the member's note.
+export const INBOX_DECISIONS: Record<
+  InboxDecision,
+  { status: Status; label: MessageKey }
+> = {
+  approve: { status: 'in_progress', label: 'inbox.approved' },
+  return: { status: 'triage', label: 'inbox.returned' },
+}
+
+// Agent comments older than this are not listed, read or not.
+const COMMENT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+export async function getLastSeen(supabase: TypedSupabaseClient) {
+  const { data, error } = await supabase
+    .from('inbox_state')
+    .select('last_seen_at')
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  return data?.last_seen_at ?? null
+}
+
+const isUnread = (at: string, lastSeen: string | null) =>
+  !lastSeen || new Date(at) > new Date(lastSeen)
+
+// needs_human tasks waiting on anyone, or on this member.
+const forMember = (user_id: string) =>
+  `needs_user_id.is.null,needs_user_id.eq.${user_id}`
+
+export async function fetchInbox(
+  supabase: TypedSupabaseClient,
+  user_id: string,
+  now = Date.now()
+): Promise<Inbox> {
+  const last_seen_at = await getLastSeen(supabase)
+  const since = new Date(now - COMMENT_WINDOW_MS).toISOString()
+
+  const [tasksRes, subtasksRes, commentsRes] = await Promise.all([
+    supabase
+      .from('tasks')
+      .select('id,title,priority,assigned_agent_id,needs_user_id,updated_at')
+      .eq('status', 'needs_human')
+      .or(forMember(user_id))
+      .order('updated_at', { ascending: false }),
+    supabase
+      .from('subtasks')
+      .select('id,task_id,title,assignee_agent_id,updated_at,tasks(title)')
+      .eq('status', 'needs_human')
+      .order('updated_at', { ascending: false }),
+    supabase
+      .from('comments')
+      .select('id,task_id,author_agent_id,body,created_at,tasks(title)')
+      .eq('author_type', 'agent')
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(50),
+  ])
+
+  for (const res of [tasksRes, subtasksRes, commentsRes]) {
+    if (res.error) throw new Error(res.error.message)
+  }
+
+  const items: InboxItem[] = [
+    ...(tasksRes.data ?? []).map(
+      (t): InboxItem => ({
+        kind: 'task',
+        id: t.id,
+        task_id: t.id,
+        task_title: null,
+        title: t.title,
+        priority: t.priority,
+        agent_id: t.assigned_agent_id,
+        for_me: t.needs_user_id === user_id,
+        updated_at: t.updated_at,
+        unread: isUnread(t.updated_at, last_seen_at),
+      })
+    ),
+    ...(subtasksRes.data ?? []).map(
+      (s): InboxItem => ({
+        kind: 'subtask',
+        id: s.id,
+        task_id: s.task_id,
+        task_title: s.tasks?.title ?? null,
+        title: s.title,
+        priority: null,
+        agent_id: s.assignee_agent_id,
+        for_me: false,
+        updated_at: s.updated_at,
+        unread: isUnread(s.updated_at, last_seen_at),
+      })
+    ),
+  ].sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+
+  const comments = (commentsRes.data ?? []).map(
+    (c): InboxComment => ({
+      id: c.id,
+      task_id: c.task_id,
+      task_title: c.tasks?.title ?? c.task_id,
+      author_agent_id: c.author_agent_id,
+      body: c.body,
+      created_at: c.created_at,
+      unread: isUnread(c.created_at, last_seen_at),
+    })
+  )
+
+  return { fetched_at: new Date(now).toISOString(), last_seen_at, items, comments }
+}
+
+// Badge count for the header: needs_human items and agent comments newer
+// than the last inbox visit (comments only within the listed window).
+export async function countUnread(
+  supabase: TypedSupabaseClient,
+  user_id: string,
+  now = Date.now()
+) {
+  const lastSeen = (await getLastSeen(supabase)) ?? new Date(0).toISOString()
+  const since = new Date(now - COMMENT_WINDOW_MS).toISOString()
+
+  const counts = await Promise.all([
+    supabase
+      .from('tasks')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'needs_human')
+      .or(forMember(user_id))
+      .gt('updated_at', lastSeen),
+    supabase
+      .from('subtasks')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'needs_human')
+      .gt('updated_at', lastSeen),
+    supabase
+      .from('comments')
+      .select('id', { count: 'exact', head: true })
+      .eq('author_type', 'agent')
+      .gt('created_at', new Date(lastSeen) > new Date(since) ? lastSeen : since),
+  ])
+
+  return counts.reduce((sum, { count, error }) => {
+    if (error) throw new Error(error.message)
+    return sum + (count ?? 0)
+  }, 0)
+}
+
+export async function markInboxSeen(
+  supabase: TypedSupabaseClient,
+  { workspace_id, user_id }: { workspace_id: string; user_id: string },
+  seenAt: string
+) {
+  const { error } = await supabase
+    .from('inbox_state')
+    .upsert(
+      { workspace_id, user_id, last_seen_at: seenAt },
+      { onConflict: 'workspace_id,user_id' }
+    )
+  if (error) throw new Error(error.message)
+}
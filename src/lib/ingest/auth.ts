@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { createAdminSupabase } from '@/lib/supabase/admin'
+import { jsonError } from '@/lib/agents/auth'
+import { hashAgentKey, readIntegrationKey } from '@/lib/agents/key'
+
+export type IntegrationContext = {
+  id: string
+  // Recorded as tasks.created_by.
+  name: string
+  workspace_id: string
+  supabase: ReturnType<typeof createAdminSupabase>
+}
+
+export async function authenticateIntegration(
+  request: Request
+): Promise<IntegrationContext | NextResponse> {
+  const key = readIntegrationKey(request.headers)
+  if (!key) return jsonError(401, 'Missing or malformed integration key')
+
+  const supabase = createAdminSupabase()
+  const key_hash = await hashAgentKey(key)
+
+  const { data: integration, error } = await supabase
+    .from('integration_keys')
+    .select('id,name,workspace_id')
+    .eq('key_hash', key_hash)
+    .is('revoked_at', null)
+    .maybeSingle()
+
+  if (error) return jsonError(500, error.message)
+  if (!integration) return jsonError(401, 'Invalid integration key')
+
+  await supabase
+    .from('integration_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', integration.id)
+
+  return { ...integration, supabase }
+}
@@ -0,0 +1,143 @@
+import type { Priority } from '@/lib/status'
+
+// Minimal RFC 822 / MIME reader for ingestion: enough to take the subject,
+// the text/plain body and a few headers from a forwarded email. Anything
+// it can't read is left to ingestInput's validation to reject.
+
+type Part = { headers: Map<string, string>; body: string }
+
+const CHECKLIST_ITEM = /^\s*[-*]\s+\[ \]\s+(.+?)\s*$/
+
+function splitMessage(raw: string): Part {
+  const text = raw.replace(/\r\n/g, '\n')
+  const end = text.indexOf('\n\n')
+  const head = end === -1 ? text : text.slice(0, end)
+  const body = end === -1 ? '' : text.slice(end + 2)
+
+  const headers = new Map<string, string>()
+  let last: string | null = null
+  for (const line of head.split('\n')) {
+    // Folded header: continuation of the previous one.
+    if (/^[ \t]/.test(line) && last) {
+      headers.set(last, `${headers.get(last)} ${line.trim()}`)
+      continue
+    }
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    last = line.slice(0, colon).trim().toLowerCase()
+    headers.set(last, line.slice(colon + 1).trim())
+  }
+  return { headers, body }
+}
+
+function param(header: string | undefined, name: string) {
+  const match = new RegExp(`${name}\\s*=\\s*("([^"]*)"|[^;\\s]+)`, 'i').exec(
+    header ?? ''
+  )
+  return match ? (match[2] ?? match[1]) : undefined
+}
+
+function decodeBytes(bytes: Uint8Array, charset = 'utf-8') {
+  try {
+    return new TextDecoder(charset).decode(bytes)
+  } catch {
+    return new TextDecoder().decode(bytes)
+  }
+}
+
+function decodeQuotedPrintable(input: string, charset?: string) {
+  const bytes: number[] = []
+  const text = input.replace(/=\n/g, '')
+  for (let i = 0; i < text.length; i++) {
+    const hex = text.slice(i + 1, i + 3)
+    if (text[i] === '=' && /^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16))
+      i += 2
+    } else {
+      bytes.push(...new TextEncoder().encode(text[i]))
+    }
+  }
+  return decodeBytes(new Uint8Array(bytes), charset)
+}
+
+function decodeBody(part: Part) {
+  const charset = param(part.headers.get('content-type'), 'charset')
+  switch (part.headers.get('content-transfer-encoding')?.toLowerCase()) {
+    case 'base64':
+      return decodeBytes(Buffer.from(part.body, 'base64'), charset)
+    case 'quoted-printable':
+      return decodeQuotedPrintable(part.body, charset)
+    default:
+      return part.body
+  }
+}
+
+// First text/plain part, descending into multipart containers.
+function textBody(part: Part): string | null {
+  const type = part.headers.get('content-type') ?? 'text/plain'
+  if (/^text\/plain/i.test(type)) return decodeBody(part)
+  if (!/^multipart\//i.test(type)) return null
+
+  const boundary = param(type, 'boundary')
+  if (!boundary) return null
+  const sections = part.body.split(`--${boundary}`).slice(1)
+  for (const section of sections) {
+    if (section.startsWith('--')) break
+    const found = textBody(splitMessage(section.replace(/^\n/, '')))
+    if (found !== null) return found
+  }
+  return null
+}
+
+// RFC 2047 encoded words (=?utf-8?B?...?= / =?utf-8?Q?...?=) in headers.
+function decodeHeader(value: string) {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(
+      /=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi,
+      (_, charset: string, encoding: string, text: string) =>
+        encoding.toUpperCase() === 'B'
+          ? decodeBytes(Buffer.from(text, 'base64'), charset)
+          : decodeQuotedPrintable(text.replace(/_/g, ' '), charset)
+    )
+}
+
+function emailPriority(headers: Map<string, string>): Priority | undefined {
+  const explicit = headers.get('priority')?.toLowerCase()
+  if (explicit === 'urgent') return 'urgent'
+
+  const x = Number.parseInt(headers.get('x-priority') ?? '', 10)
+  if (x === 1) return 'urgent'
+  if (x === 2) return 'high'
+  if (x === 4 || x === 5) return 'low'
+
+  const importance = headers.get('importance')?.toLowerCase()
+  if (importance === 'high') return 'high'
+  if (importance === 'low') return 'low'
+  return undefined
+}
+
+// Maps an email to the JSON ingestion shape: Subject → title, text body →
+// description, Message-ID → idempotency key, priority headers → priority
+// and unchecked `- [ ] item` lines → subtasks.
+export function emailToIngest(raw: string) {
+  const message = splitMessage(raw)
+  const body = textBody(message)?.trim() ?? ''
+
+  const subtasks = body
+    .split('\n')
+    .map((line) => CHECKLIST_ITEM.exec(line)?.[1])
+    .filter((title): title is string => Boolean(title))
+    .map((title) => ({ title: title.slice(0, 200) }))
+
+  const subject = message.headers.get('subject')
+  const messageId = message.headers.get('message-id')
+
+  return {
+    title: subject ? decodeHeader(subject).slice(0, 200) : undefined,
+    description: body || null,
+    priority: emailPriority(message.headers),
+    idempotency_key: messageId?.replace(/^<|>$/g, '') || undefined,
+    subtasks: subtasks.length ? subtasks : undefined,
+  }
+}
@@ -0,0 +1,23 @@
+import { z } from 'zod'
+import { PRIORITIES } from '@/lib/status'
+
+export const ingestSubtaskInput = z
+  .object({
+    title: z.string().trim().min(1).max(200),
+    // Defaults to the title when the sender has nothing better.
+    definition_of_done: z.string().trim().min(1).max(20000).optional(),
+  })
+  .strict()
+
+export const ingestInput = z
+  .object({
+    title: z.string().trim().min(1).max(200),
+    description: z.string().trim().max(20000).nullable().optional(),
+    priority: z.enum(PRIORITIES).optional(),
+    // Also accepted as the Idempotency-Key header.
+    idempotency_key: z.string().trim().min(1).max(200).optional(),
+    subtasks: z.array(ingestSubtaskInput).max(20).optional(),
+  })
+  .strict()
+
+export type IngestInput = z.infer<typeof ingestInput>
@@ -0,0 +1,35 @@
+import type { Root } from 'mdast'
+import { findAndReplace } from 'mdast-util-find-and-replace'
+import {
+  MENTION_PATTERN,
+  agentHref,
+  mentionIndex,
+  mentionKey,
+  type AgentRef,
+} from '@/lib/mentions'
+
+// Remark plugin: `@Name` of a known agent becomes a link to its profile.
+// Unknown names stay plain text; code and existing links are left alone.
+export function remarkMentions(agents: AgentRef[]) {
+  const index = mentionIndex(agents)
+
+  return (tree: Root) => {
+    findAndReplace(
+      tree,
+      [
+        MENTION_PATTERN,
+        (value: string, name: string) => {
+          const agent = index.get(mentionKey(name))
+          if (!agent) return false
+          return {
+            type: 'link',
+            url: agentHref(agent.id),
+            title: agent.name,
+            children: [{ type: 'text', value }],
+          }
+        },
+      ],
+      { ignore: ['link', 'linkReference', 'inlineCode', 'code'] }
+    )
+  }
+}
@@ -0,0 +1,120 @@
+import type { Enums } from '@/lib/database.types'
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import type { Actor } from '@/lib/events'
+import type { CommentRow, MentionRow } from '@/lib/types'
+
+export type MentionSource = Enums<'mention_source'>
+
+export type AgentRef = { id: string; name: string }
+
+export type MentionTarget = {
+  source: MentionSource
+  task_id: string
+  subtask_id?: string | null
+  comment_id?: string | null
+}
+
+export const MENTION_COLUMNS =
+  'id,agent_id,task_id,subtask_id,comment_id,source,author_type,author_agent_id,author_user_id,excerpt,read_at,created_at'
+
+// `@Name`, not preceded by a word character so emails don't count. Names
+// with spaces are mentioned without them (`@CodeReviewer`).
+export const MENTION_PATTERN = /(?<![\p{L}\p{N}_.@])@([\p{L}\p{N}_-]+)/gu
+
+export const mentionKey = (name: string) =>
+  name.toLowerCase().replace(/\s+/g, '')
+
+export const agentHref = (id: string) => `/agents/${id}`
+
+// Active agents by mention key. Only active agents can be mentioned, both
+// when rendering and when notifying.
+export function mentionIndex(agents: AgentRef[]) {
+  return new Map(agents.map((a) => [mentionKey(a.name), a]))
+}
+
+// Mention keys in Markdown text, ignoring code spans and blocks.
+export function extractMentions(text: string | null | undefined) {
+  const prose = (text ?? '')
+    .replace(/```[\s\S]*?(```|$)/g, '')
+    .replace(/`[^`\n]*`/g, '')
+  return new Set(
+    Array.from(prose.matchAll(MENTION_PATTERN), (m) => mentionKey(m[1]))
+  )
+}
+
+function excerptAround(text: string, name: string, radius = 80) {
+  const at = text.toLowerCase().indexOf(`@${name.toLowerCase()}`)
+  const start = Math.max(0, at - radius)
+  const end = at === -1 ? radius * 2 : at + name.length + 1 + radius
+  const slice = text.slice(start, end).replace(/\s+/g, ' ').trim()
+  return `${start > 0 ? '…' : ''}${slice}${end < text.length ? '…' : ''}`
+}
+
+// Stores one mention per agent newly mentioned in `text` (those already in
+// `previous` were notified when it was written). Agents don't notify
+// themselves. Returns the rows so callers can emit agent.mentioned.
+export async function recordMentions(
+  supabase: TypedSupabaseClient,
+  workspace_id: string,
+  actor: Actor,
+  target: MentionTarget,
+  text: string | null | undefined,
+  previous?: string | null
+): Promise<MentionRow[]> {
+  const before = extractMentions(previous)
+  const keys = [...extractMentions(text)].filter((k) => !before.has(k))
+  if (keys.length === 0) return []
+
+  const { data: agents, error } = await supabase
+    .from('agents')
+    .select('id,name')
+    .eq('workspace_id', workspace_id)
+    .eq('is_active', true)
+  if (error) throw new Error(error.message)
+
+  const index = mentionIndex(agents)
+  const author_agent_id = actor.type === 'agent' ? actor.agent_id : null
+  const rows = keys
+    .map((k) => index.get(k))
+    .filter((a): a is AgentRef => !!a && a.id !== author_agent_id)
+    .map((a) => ({
+      workspace_id,
+      agent_id: a.id,
+      task_id: target.task_id,
+      subtask_id: target.subtask_id ?? null,
+      comment_id: target.comment_id ?? null,
+      source: target.source,
+      author_type: actor.type,
+      author_agent_id,
+      author_user_id: actor.type === 'human' ? actor.user_id : null,
+      excerpt: excerptAround(text ?? '', a.name.replace(/\s+/g, '')),
+    }))
+  if (rows.length === 0) return []
+
+  const { data, error: insertErr } = await supabase
+    .from('mentions')
+    .insert(rows)
+    .select(MENTION_COLUMNS)
+  if (insertErr) throw new Error(insertErr.message)
+  return data
+}
+
+export function recordCommentMentions(
+  supabase: TypedSupabaseClient,
+  workspace_id: string,
+  actor: Actor,
+  comment: CommentRow
+) {
+  return recordMentions(
+    supabase,
+    workspace_id,
+    actor,
+    {
+      source: 'comment',
+      task_id: comment.task_id,
+      subtask_id: comment.subtask_id,
+      comment_id: comment.id,
+    },
+    comment.body
+  )
+}
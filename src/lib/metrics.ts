@@ -0,0 +1,355 @@
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import { fetchAll } from '@/lib/repository'
+import { CLOSED_STATUSES, STATUSES, type Status } from '@/lib/status'
+import type { Translate } from '@/lib/i18n'
+
+// Flow metrics rebuilt from the status-change history (task_events).
+// Weeks and days are UTC, like standups.
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const WEEK_MS = 7 * DAY_MS
+
+// Leaving review for one of these means the work was sent back to be
+// redone; blocked, needs_human and canceled are not a verdict on it.
+const REWORK_STATUSES: Status[] = ['in_progress', 'triage']
+
+export const METRIC_WINDOWS = [4, 12, 26, 52] as const
+
+// Time-in-status histogram buckets, by upper bound. `key` names the
+// label in `metrics.buckets`.
+export const DURATION_BUCKETS = [
+  { key: 'underHour', max: HOUR_MS },
+  { key: 'upTo4h', max: 4 * HOUR_MS },
+  { key: 'upTo24h', max: DAY_MS },
+  { key: 'upTo3d', max: 3 * DAY_MS },
+  { key: 'upTo7d', max: WEEK_MS },
+  { key: 'overWeek', max: Infinity },
+] as const
+
+type Interval = { status: Status; from: number; to: number | null }
+
+type TaskTimeline = {
+  id: string
+  title: string
+  created_at: number
+  intervals: Interval[]
+}
+
+export type TaskFlow = {
+  id: string
+  title: string
+  done_at: string
+  // Created → done.
+  lead_ms: number
+  // First in_progress → done; null if it never was in progress.
+  cycle_ms: number | null
+}
+
+export type Summary = { count: number; p50: number; p85: number; max: number }
+
+export type StatusTime = Summary & { status: Status; buckets: number[] }
+
+export type AgentFlow = {
+  agent_id: string
+  name: string
+  completed: number
+  median_ms: number | null
+  reviewed: number
+  reworked: number
+}
+
+export type FlowMetrics = {
+  weeks: number
+  from: string
+  to: string
+  done: TaskFlow[]
+  lead: Summary | null
+  cycle: Summary | null
+  timeInStatus: StatusTime[]
+  throughput: { week: string; done: number }[]
+  cfd: { day: string; counts: Record<Status, number> }[]
+  agents: AgentFlow[]
+}
+
+// Value at or below which `q` of the sorted values fall.
+function percentile(sorted: number[], q: number) {
+  return sorted[Math.min(sorted.length - 1, Math.ceil(q * sorted.length) - 1)]
+}
+
+export function summarize(values: number[]): Summary | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 0.5),
+    p85: percentile(sorted, 0.85),
+    max: sorted[sorted.length - 1],
+  }
+}
+
+export function formatDuration(ms: number, t: Translate) {
+  const round = (n: number) => n.toFixed(1).replace(/\.0$/, '')
+  if (ms < HOUR_MS) {
+    const count = Math.max(1, Math.round(ms / 60000))
+    return t('metrics.duration.minutes', { count })
+  }
+  if (ms < DAY_MS) {
+    return t('metrics.duration.hours', { count: round(ms / HOUR_MS) })
+  }
+  return t('metrics.duration.days', { count: round(ms / DAY_MS) })
+}
+
+// Monday 00:00 UTC of the week containing `t`.
+function weekStart(t: number) {
+  const d = new Date(t)
+  const day = (d.getUTCDay() + 6) % 7
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - day)
+}
+
+// Status intervals from creation to now. The first event's `before` is the
+// status the task was created in; a task without events (imported, say)
+// sat in the inbox until `status_changed_at`.
+function timeline(
+  task: {
+    id: string
+    title: string
+    status: Status
+    created_at: string
+    status_changed_at: string
+  },
+  events: { before: string | null; after: string | null; at: number }[]
+): TaskTimeline {
+  const created = Date.parse(task.created_at)
+  const intervals: Interval[] = []
+  let status = (events[0]?.before as Status | null) ?? task.status
+  let from = created
+
+  if (events.length === 0) {
+    const changed = Date.parse(task.status_changed_at)
+    if (changed > created + 1000 && task.status !== 'inbox') {
+      intervals.push({ status: 'inbox', from: created, to: changed })
+      from = changed
+    }
+  }
+  for (const e of events) {
+    intervals.push({ status, from, to: e.at })
+    status = e.after as Status
+    from = e.at
+  }
+  intervals.push({ status, from, to: null })
+  return { id: task.id, title: task.title, created_at: created, intervals }
+}
+
+const statusAt = (t: TaskTimeline, at: number) =>
+  t.created_at > at
+    ? null
+    : t.intervals.find((i) => i.from <= at && (i.to === null || i.to > at))
+        ?.status
+
+export async function loadFlowMetrics(
+  supabase: TypedSupabaseClient,
+  weeks: number,
+  t: Translate,
+  now = new Date()
+): Promise<FlowMetrics> {
+  const end = now.getTime()
+  const start = weekStart(end) - (weeks - 1) * WEEK_MS
+
+  const [tasks, taskEvents, subtasks, subtaskEvents, agents] =
+    await Promise.all([
+      fetchAll((from, to) =>
+        supabase
+          .from('tasks')
+          .select('id,title,status,created_at,status_changed_at')
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAll((from, to) =>
+        supabase
+          .from('task_events')
+          .select('id,task_id,before,after,created_at')
+          .eq('kind', 'task_status')
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAll((from, to) =>
+        supabase
+          .from('subtasks')
+          .select('id,assignee_agent_id,created_at')
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAll((from, to) =>
+        supabase
+          .from('task_events')
+          .select(
+            'id,subtask_id,before,after,actor_type,actor_agent_id,created_at'
+          )
+          .eq('kind', 'subtask_status')
+          .gte('created_at', new Date(start).toISOString())
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAll((from, to) =>
+        supabase.from('agents').select('id,name').range(from, to)
+      ),
+    ])
+
+  const eventsByTask = new Map<
+    string,
+    { before: string | null; after: string | null; at: number }[]
+  >()
+  for (const e of taskEvents) {
+    const list = eventsByTask.get(e.task_id) ?? []
+    list.push({
+      before: e.before,
+      after: e.after,
+      at: Date.parse(e.created_at),
+    })
+    eventsByTask.set(e.task_id, list)
+  }
+  const timelines = tasks.map((t) =>
+    timeline(t, eventsByTask.get(t.id) ?? [])
+  )
+
+  // Lead and cycle time of tasks that are done and got there in the window.
+  const done: TaskFlow[] = []
+  for (const t of timelines) {
+    const last = t.intervals[t.intervals.length - 1]
+    if (last.status !== 'done' || last.from < start) continue
+    const started = t.intervals.find((i) => i.status === 'in_progress')
+    done.push({
+      id: t.id,
+      title: t.title,
+      done_at: new Date(last.from).toISOString(),
+      lead_ms: last.from - t.created_at,
+      cycle_ms: started ? last.from - started.from : null,
+    })
+  }
+  done.sort((a, b) => b.done_at.localeCompare(a.done_at))
+
+  // Time spent in each status, over stays that ended in the window.
+  // Closed statuses have no end, so they aren't measured.
+  const stays = new Map<Status, number[]>()
+  for (const t of timelines) {
+    for (const i of t.intervals) {
+      if (i.to === null || i.to < start) continue
+      const list = stays.get(i.status) ?? []
+      list.push(i.to - i.from)
+      stays.set(i.status, list)
+    }
+  }
+  const timeInStatus: StatusTime[] = []
+  for (const status of STATUSES) {
+    if (CLOSED_STATUSES.includes(status)) continue
+    const values = stays.get(status) ?? []
+    const summary = summarize(values)
+    if (!summary) continue
+    timeInStatus.push({
+      status,
+      ...summary,
+      buckets: DURATION_BUCKETS.map(
+        (b, i) =>
+          values.filter(
+            (v) => v < b.max && (i === 0 || v >= DURATION_BUCKETS[i - 1].max)
+          ).length
+      ),
+    })
+  }
+
+  // Tasks entering done, by week.
+  const throughput = Array.from({ length: weeks }, (_, i) => ({
+    week: new Date(start + i * WEEK_MS).toISOString().slice(0, 10),
+    done: 0,
+  }))
+  for (const t of timelines) {
+    for (const i of t.intervals) {
+      if (i.status !== 'done' || i.from < start) continue
+      const week = Math.floor((i.from - start) / WEEK_MS)
+      if (throughput[week]) throughput[week].done++
+    }
+  }
+
+  // Tasks per status at the end of each day.
+  const cfd: FlowMetrics['cfd'] = []
+  for (let day = start; day < end; day += DAY_MS) {
+    const at = Math.min(day + DAY_MS - 1, end)
+    const counts = Object.fromEntries(STATUSES.map((s) => [s, 0])) as Record<
+      Status,
+      number
+    >
+    for (const t of timelines) {
+      const status = statusAt(t, at)
+      if (status) counts[status]++
+    }
+    cfd.push({ day: new Date(day).toISOString().slice(0, 10), counts })
+  }
+
+  // Subtasks closed by each agent (the actor, or the assignee when a human
+  // or the system closed it), and how many of each assignee's subtasks
+  // went to review and came back.
+  const subtaskById = new Map(subtasks.map((s) => [s.id, s]))
+  const byAgent = new Map<
+    string,
+    { completed: number[]; reviewed: Set<string>; reworked: Set<string> }
+  >()
+  const entry = (agent_id: string) => {
+    let e = byAgent.get(agent_id)
+    if (!e) {
+      e = { completed: [], reviewed: new Set(), reworked: new Set() }
+      byAgent.set(agent_id, e)
+    }
+    return e
+  }
+  for (const e of subtaskEvents) {
+    const subtask = e.subtask_id ? subtaskById.get(e.subtask_id) : undefined
+    if (!subtask) continue
+    const assignee = subtask.assignee_agent_id
+    if (e.after === 'done') {
+      const agent =
+        e.actor_type === 'agent' ? (e.actor_agent_id ?? assignee) : assignee
+      if (agent) {
+        entry(agent).completed.push(
+          Date.parse(e.created_at) - Date.parse(subtask.created_at)
+        )
+      }
+    }
+    if (!assignee) continue
+    if (e.after === 'review') entry(assignee).reviewed.add(subtask.id)
+    if (
+      e.before === 'review' &&
+      REWORK_STATUSES.includes(e.after as Status)
+    ) {
+      entry(assignee).reworked.add(subtask.id)
+    }
+  }
+  const names = new Map(agents.map((a) => [a.id, a.name]))
+  const agentFlows: AgentFlow[] = [...byAgent.entries()]
+    .map(([agent_id, e]) => ({
+      agent_id,
+      name: names.get(agent_id) ?? t('metrics.deletedAgent'),
+      completed: e.completed.length,
+      median_ms: summarize(e.completed)?.p50 ?? null,
+      reviewed: e.reviewed.size,
+      reworked: e.reworked.size,
+    }))
+    .sort((a, b) => b.completed - a.completed || a.name.localeCompare(b.name))
+
+  return {
+    weeks,
+    from: new Date(start).toISOString(),
+    to: now.toISOString(),
+    done,
+    lead: summarize(done.map((d) => d.lead_ms)),
+    cycle: summarize(
+      done.flatMap((d) => (d.cycle_ms === null ? [] : [d.cycle_ms]))
+    ),
+    timeInStatus,
+    throughput,
+    cfd,
+    agents: agentFlows,
+  }
+}
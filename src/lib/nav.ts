@@ -0,0 +1,14 @@
+import type { MessageKey } from '@/lib/i18n'
+
+// Top-level pages, in header order; also offered by the command palette.
+export const NAV_LINKS: { href: string; label: MessageKey }[] = [
+  { href: '/board', label: 'nav.board' },
+  { href: '/inbox', label: 'nav.inbox' },
+  { href: '/agents', label: 'nav.agents' },
+  { href: '/standups', label: 'nav.standups' },
+  { href: '/metrics', label: 'nav.metrics' },
+  { href: '/schedules', label: 'nav.schedules' },
+  { href: '/templates', label: 'nav.templates' },
+  { href: '/settings', label: 'nav.settings' },
+  { href: '/account', label: 'nav.account' },
+]
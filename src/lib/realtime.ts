@@ -0,0 +1,120 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useQueryClient, type QueryKey } from '@tanstack/react-query'
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+
+// How long a card/row stays highlighted after a live change.
+export const HIGHLIGHT_MS = 4000
+
+export type LiveTable =
+  | 'tasks'
+  | 'subtasks'
+  | 'comments'
+  | 'task_events'
+  | 'attachments'
+
+type Row = { id: string }
+
+type LiveRowsOptions<T extends Row> = {
+  table: LiveTable
+  // React Query cache entry (an array of rows) to reconcile into. Omit to
+  // only be notified through onChange.
+  queryKey?: QueryKey
+  // Realtime filter, e.g. `task_id=eq.<uuid>`.
+  filter?: string
+  sort?: (a: T, b: T) => number
+  // Rows failing this are dropped from the cache (e.g. a task that no
+  // longer matches the board filters).
+  accept?: (row: T) => boolean
+  // Called for inserts/updates after the cache has been patched.
+  onChange?: (row: T, event: 'INSERT' | 'UPDATE') => void
+}
+
+export function reconcileRows<T extends Row>(
+  rows: T[],
+  payload: RealtimePostgresChangesPayload<T>,
+  sort?: (a: T, b: T) => number,
+  accept?: (row: T) => boolean
+) {
+  if (payload.eventType === 'DELETE') {
+    return rows.filter((r) => r.id !== payload.old.id)
+  }
+
+  const incoming = payload.new
+  if (accept && !accept(incoming)) {
+    return rows.filter((r) => r.id !== incoming.id)
+  }
+
+  const exists = rows.some((r) => r.id === incoming.id)
+  const next = exists
+    ? rows.map((r) => (r.id === incoming.id ? { ...r, ...incoming } : r))
+    : [...rows, incoming]
+
+  return sort ? next.sort(sort) : next
+}
+
+// Subscribes to Postgres changes on `table` and patches the cached rows in
+// place, so the UI follows what agents do without a reload. Tables must be
+// part of the `supabase_realtime` publication.
+export function useLiveRows<T extends Row>(options: LiveRowsOptions<T>) {
+  const queryClient = useQueryClient()
+  const supabase = useMemo(() => createClient(), [])
+
+  const optionsRef = useRef(options)
+  useEffect(() => {
+    optionsRef.current = options
+  })
+
+  const { table, filter } = options
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`live:${table}:${filter ?? '*'}:${crypto.randomUUID()}`)
+      .on<T>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter },
+        (payload) => {
+          const { queryKey, sort, accept, onChange } = optionsRef.current
+          if (queryKey) {
+            queryClient.setQueryData<T[]>(queryKey, (rows = []) =>
+              reconcileRows(rows, payload, sort, accept)
+            )
+          }
+          if (
+            payload.eventType !== 'DELETE' &&
+            (!accept || accept(payload.new))
+          ) {
+            onChange?.(payload.new, payload.eventType)
+          }
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [supabase, queryClient, table, filter])
+}
+
+// Ids changed in the last HIGHLIGHT_MS, for "just updated" indicators.
+export function useRecentlyChanged(ms = HIGHLIGHT_MS) {
+  const [changed, setChanged] = useState<ReadonlySet<string>>(new Set())
+
+  const mark = useCallback(
+    (id: string) => {
+      setChanged((prev) => new Set(prev).add(id))
+      setTimeout(() => {
+        setChanged((prev) => {
+          const next = new Set(prev)
+          next.delete(id)
+          return next
+        })
+      }, ms)
+    },
+    [ms]
+  )
+
+  return [changed, mark] as const
+}
@@ -0,0 +1,214 @@
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import type { TablesInsert, TablesUpdate } from '@/lib/database.types'
+import { EVENT_COLUMNS, type TaskEventRow } from '@/lib/events'
+import { COMMENT_COLUMNS, SUBTASK_COLUMNS, TASK_COLUMNS } from '@/lib/tasks'
+import { ATTACHMENT_COLUMNS } from '@/lib/attachments'
+import type {
+  AgentRow,
+  AttachmentRow,
+  CommentRow,
+  SubtaskRow,
+  TaskRow,
+} from '@/lib/types'
+import { MessageError } from '@/lib/i18n'
+
+// Typed reads and writes shared by pages and server actions. Every function
+// throws on a database error; actions turn that into an ActionResult.
+
+function fail(error: { message: string }): never {
+  throw new Error(error.message)
+}
+
+const PAGE = 1000
+
+// Every row of a query. PostgREST caps each response, so `page` is called
+// with successive ranges until one comes back short.
+export async function fetchAll<T>(
+  page: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await page(from, from + PAGE - 1)
+    if (error) fail(error)
+    rows.push(...(data ?? []))
+    if ((data ?? []).length < PAGE) return rows
+  }
+}
+
+export async function getTask(
+  supabase: TypedSupabaseClient,
+  id: string
+): Promise<TaskRow | null> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select(TASK_COLUMNS)
+    .eq('id', id)
+    .maybeSingle()
+  if (error) fail(error)
+  return data
+}
+
+export async function getTaskState(supabase: TypedSupabaseClient, id: string) {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('status,priority,assigned_agent_id,due_date')
+    .eq('id', id)
+    .maybeSingle()
+  if (error) fail(error)
+  if (!data) throw new MessageError('errors.taskNotFound')
+  return data
+}
+
+export async function insertTask(
+  supabase: TypedSupabaseClient,
+  row: TablesInsert<'tasks'>
+): Promise<TaskRow> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .insert(row)
+    .select(TASK_COLUMNS)
+    .single()
+  if (error) fail(error)
+  return data
+}
+
+export async function patchTask(
+  supabase: TypedSupabaseClient,
+  id: string,
+  patch: TablesUpdate<'tasks'>
+) {
+  const { error } = await supabase.from('tasks').update(patch).eq('id', id)
+  if (error) fail(error)
+}
+
+// Position of the first task in a column, for inserting at the top.
+export async function firstPosition(
+  supabase: TypedSupabaseClient,
+  status: TaskRow['status']
+) {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('position')
+    .eq('status', status)
+    .order('position', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+  if (error) fail(error)
+  return data?.position
+}
+
+export async function listSubtasks(
+  supabase: TypedSupabaseClient,
+  taskId: string
+): Promise<SubtaskRow[]> {
+  const { data, error } = await supabase
+    .from('subtasks')
+    .select(SUBTASK_COLUMNS)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true })
+  if (error) fail(error)
+  return data
+}
+
+export async function getSubtaskState(
+  supabase: TypedSupabaseClient,
+  id: string
+) {
+  const { data, error } = await supabase
+    .from('subtasks')
+    .select('task_id,status,result_summary,due_date')
+    .eq('id', id)
+    .maybeSingle()
+  if (error) fail(error)
+  if (!data) throw new MessageError('errors.subtaskNotFound')
+  return data
+}
+
+export async function insertSubtask(
+  supabase: TypedSupabaseClient,
+  row: TablesInsert<'subtasks'>
+): Promise<SubtaskRow> {
+  const { data, error } = await supabase
+    .from('subtasks')
+    .insert(row)
+    .select(SUBTASK_COLUMNS)
+    .single()
+  if (error) fail(error)
+  return data
+}
+
+export async function patchSubtask(
+  supabase: TypedSupabaseClient,
+  id: string,
+  patch: TablesUpdate<'subtasks'>
+) {
+  const { error } = await supabase.from('subtasks').update(patch).eq('id', id)
+  if (error) fail(error)
+}
+
+export async function listComments(
+  supabase: TypedSupabaseClient,
+  taskId: string
+): Promise<CommentRow[]> {
+  const { data, error } = await supabase
+    .from('comments')
+    .select(COMMENT_COLUMNS)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true })
+  if (error) fail(error)
+  return data
+}
+
+export async function insertComment(
+  supabase: TypedSupabaseClient,
+  row: TablesInsert<'comments'>
+): Promise<CommentRow> {
+  const { data, error } = await supabase
+    .from('comments')
+    .insert(row)
+    .select(COMMENT_COLUMNS)
+    .single()
+  if (error) fail(error)
+  return data
+}
+
+export async function listEvents(
+  supabase: TypedSupabaseClient,
+  taskId: string
+): Promise<TaskEventRow[]> {
+  const { data, error } = await supabase
+    .from('task_events')
+    .select(EVENT_COLUMNS)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true })
+  if (error) fail(error)
+  return data
+}
+
+export async function listAttachments(
+  supabase: TypedSupabaseClient,
+  taskId: string
+): Promise<AttachmentRow[]> {
+  const { data, error } = await supabase
+    .from('attachments')
+    .select(ATTACHMENT_COLUMNS)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true })
+  if (error) fail(error)
+  return data
+}
+
+export async function listActiveAgents(
+  supabase: TypedSupabaseClient
+): Promise<AgentRow[]> {
+  const { data, error } = await supabase
+    .from('agents')
+    .select('id,name,role,status,is_active')
+    .eq('is_active', true)
+    .order('name', { ascending: true })
+  if (error) fail(error)
+  return data
+}
@@ -0,0 +1,345 @@
+import { CronExpressionParser } from 'cron-parser'
+import { DateTime, IANAZone } from 'luxon'
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import { createAdminSupabase } from '@/lib/supabase/admin'
+import type { Tables } from '@/lib/database.types'
+import { recordEvents, type TaskEventInput } from '@/lib/events'
+import { recordMentions } from '@/lib/mentions'
+import { expandDate } from '@/lib/templates'
+import { SUBTASK_COLUMNS, TASK_COLUMNS, positionBetween } from '@/lib/tasks'
+import {
+  agentMentioned,
+  emitWebhooks,
+  subtaskCreated,
+  taskCreated,
+} from '@/lib/webhooks'
+import type { MentionRow, SubtaskRow, TaskRow } from '@/lib/types'
+import type { Translate } from '@/lib/i18n'
+
+// tasks.created_by for everything a schedule creates.
+export const SCHEDULE_CREATOR = 'schedule'
+
+export const SCHEDULE_COLUMNS =
+  'id,workspace_id,title,description,priority,assigned_agent_id,subtasks,cron,run_at,timezone,is_active,next_run_at,last_run_at,created_at'
+
+export type ScheduleRow = Pick<
+  Tables<'task_schedules'>,
+  | 'id'
+  | 'workspace_id'
+  | 'title'
+  | 'description'
+  | 'priority'
+  | 'assigned_agent_id'
+  | 'subtasks'
+  | 'cron'
+  | 'run_at'
+  | 'timezone'
+  | 'is_active'
+  | 'next_run_at'
+  | 'last_run_at'
+  | 'created_at'
+>
+
+export type ScheduleSubtask = { title: string; definition_of_done: string }
+
+export const MAX_SCHEDULE_SUBTASKS = 20
+
+export function isTimeZone(tz: string) {
+  return IANAZone.isValidZone(tz)
+}
+
+// Five fields (minute hour day month weekday): no seconds, so nothing
+// fires more than once a minute. Returns why it's invalid, or null.
+export function cronError(
+  cron: string,
+  timezone: string,
+  t: Translate
+): string | null {
+  if (cron.trim().split(/\s+/).length !== 5) {
+    return t('validation.cronFields')
+  }
+  try {
+    CronExpressionParser.parse(cron, { tz: timezone }).next()
+    return null
+  } catch (err) {
+    return t('validation.invalidCron', { error: (err as Error).message })
+  }
+}
+
+// A <input type="datetime-local"> value read in the schedule's time zone.
+export function zonedToDate(local: string, timezone: string): Date | null {
+  const dt = DateTime.fromISO(local, { zone: timezone })
+  return dt.isValid ? dt.toJSDate() : null
+}
+
+// The next `count` occurrences strictly after `after`.
+export function nextRuns(
+  schedule: Pick<ScheduleRow, 'cron' | 'run_at' | 'timezone'>,
+  after: Date,
+  count = 1
+): Date[] {
+  if (schedule.cron) {
+    return CronExpressionParser.parse(schedule.cron, {
+      currentDate: after,
+      tz: schedule.timezone,
+    })
+      .take(count)
+      .map((d) => d.toDate())
+  }
+  const at = schedule.run_at ? new Date(schedule.run_at) : null
+  return at && at > after ? [at] : []
+}
+
+// One subtask per non-empty line, as `Título | Definition of Done`; the
+// title doubles as DoD when there's no `|`.
+export function parseSubtaskLines(text: string | null): ScheduleSubtask[] {
+  return (text ?? '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [title, ...rest] = line.split('|')
+      const dod = rest.join('|').trim()
+      return {
+        title: title.trim().slice(0, 200),
+        definition_of_done: dod || title.trim(),
+      }
+    })
+    .filter((s) => s.title)
+}
+
+export function scheduleSubtasks(schedule: Pick<ScheduleRow, 'subtasks'>) {
+  return Array.isArray(schedule.subtasks)
+    ? (schedule.subtasks as ScheduleSubtask[])
+    : []
+}
+
+// Creates the schedule's task at the top of the inbox, with its subtasks,
+// and records it like an ingested task. Works with the owner's client or
+// the admin one: every query is scoped to the schedule's owner.
+export async function materializeSchedule(
+  supabase: TypedSupabaseClient,
+  schedule: ScheduleRow
+): Promise<TaskRow> {
+  const { workspace_id } = schedule
+
+  const { data: first, error: firstErr } = await supabase
+    .from('tasks')
+    .select('position')
+    .eq('workspace_id', workspace_id)
+    .eq('status', 'inbox')
+    .order('position', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+  if (firstErr) throw new Error(firstErr.message)
+
+  const { data: task, error } = await supabase
+    .from('tasks')
+    .insert({
+      workspace_id,
+      title: expandDate(schedule.title, schedule.timezone),
+      description: schedule.description,
+      priority: schedule.priority,
+      assigned_agent_id: schedule.assigned_agent_id,
+      status: 'inbox',
+      position: positionBetween(undefined, first?.position),
+      created_by: SCHEDULE_CREATOR,
+    })
+    .select(TASK_COLUMNS)
+    .single()
+  if (error) throw new Error(error.message)
+
+  let subtasks: SubtaskRow[] = []
+  let mentions: MentionRow[] = []
+  try {
+    const presets = scheduleSubtasks(schedule)
+    if (presets.length > 0) {
+      const { data, error: subtasksErr } = await supabase
+        .from('subtasks')
+        .insert(
+          presets.map((s) => ({
+            workspace_id,
+            task_id: task.id,
+            title: s.title,
+            definition_of_done: s.definition_of_done,
+            assignee_agent_id: schedule.assigned_agent_id,
+            status: 'inbox' as const,
+          }))
+        )
+        .select(SUBTASK_COLUMNS)
+      if (subtasksErr) throw new Error(subtasksErr.message)
+      subtasks = data
+    }
+
+    // Preset agents are recorded as assignments, like on the board, so the
+    // history and the metrics see them.
+    const actor = { type: 'system' } as const
+    const events: TaskEventInput[] = []
+    if (task.assigned_agent_id) {
+      events.push({
+        task_id: task.id,
+        kind: 'task_assignee',
+        before: null,
+        after: task.assigned_agent_id,
+      })
+    }
+    for (const s of subtasks) {
+      events.push({
+        task_id: task.id,
+        subtask_id: s.id,
+        kind: 'subtask_created',
+        after: s.title,
+      })
+      if (s.assignee_agent_id) {
+        events.push({
+          task_id: task.id,
+          subtask_id: s.id,
+          kind: 'subtask_assignee',
+          before: null,
+          after: s.assignee_agent_id,
+        })
+      }
+    }
+    await recordEvents(supabase, workspace_id, actor, events)
+
+    mentions = await recordMentions(
+      supabase,
+      workspace_id,
+      actor,
+      { source: 'description', task_id: task.id },
+      task.description
+    )
+    for (const s of subtasks) {
+      mentions.push(
+        ...(await recordMentions(
+          supabase,
+          workspace_id,
+          actor,
+          {
+            source: 'definition_of_done',
+            task_id: task.id,
+            subtask_id: s.id,
+          },
+          s.definition_of_done
+        ))
+      )
+    }
+  } catch (err) {
+    // Undo the half-created task (subtasks, events and mentions cascade),
+    // so a failed run leaves nothing on the board.
+    const { error: rollbackErr } = await supabase
+      .from('tasks')
+      .delete()
+      .eq('id', task.id)
+    if (rollbackErr) {
+      console.error(
+        `schedules: could not roll back task ${task.id}`,
+        rollbackErr
+      )
+    }
+    throw err
+  }
+
+  await emitWebhooks(workspace_id, [
+    taskCreated(task),
+    ...subtasks.map(subtaskCreated),
+    ...mentions.map(agentMentioned),
+  ])
+  return task
+}
+
+// Runs one occurrence and logs it. Claiming the (schedule, time) row first
+// means a concurrent job run skips it instead of creating a second task.
+// A failed occurrence can be claimed again, which clears its error.
+// Returns the run, or null if it was already claimed.
+export async function runSchedule(
+  supabase: TypedSupabaseClient,
+  schedule: ScheduleRow,
+  scheduled_for: string
+) {
+  const { data: claimed, error: claimErr } = await supabase
+    .from('schedule_runs')
+    .insert({
+      workspace_id: schedule.workspace_id,
+      schedule_id: schedule.id,
+      scheduled_for,
+    })
+    .select('id')
+    .single()
+  let run = claimed!
+  if (claimErr) {
+    if (claimErr.code !== '23505') throw new Error(claimErr.message)
+
+    // Only one job can clear the error, so retries don't race either.
+    const { data: retry, error: retryErr } = await supabase
+      .from('schedule_runs')
+      .update({ error: null })
+      .eq('workspace_id', schedule.workspace_id)
+      .eq('schedule_id', schedule.id)
+      .eq('scheduled_for', scheduled_for)
+      .is('task_id', null)
+      .not('error', 'is', null)
+      .select('id')
+      .maybeSingle()
+    if (retryErr) throw new Error(retryErr.message)
+    if (!retry) return null
+    run = retry
+  }
+
+  let task_id: string | null = null
+  let failure: string | null = null
+  try {
+    task_id = (await materializeSchedule(supabase, schedule)).id
+  } catch (err) {
+    failure = err instanceof Error ? err.message : String(err)
+  }
+
+  const { error } = await supabase
+    .from('schedule_runs')
+    .update({ task_id, error: failure })
+    .eq('id', run.id)
+  if (error) throw new Error(error.message)
+
+  return { id: run.id, task_id, error: failure }
+}
+
+// Runs every active schedule that is due, then moves it to its next
+// occurrence after `now`. Occurrences missed while the job wasn't running
+// collapse into this one run. One-off schedules deactivate after running.
+// A failed run leaves the schedule where it was, so the next job retries
+// the same occurrence. Run from the cron route; returns how many tasks
+// were created.
+export async function runDueSchedules(now = new Date(), limit = 100) {
+  const supabase = createAdminSupabase()
+  const { data: due, error } = await supabase
+    .from('task_schedules')
+    .select(SCHEDULE_COLUMNS)
+    .eq('is_active', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(limit)
+  if (error) throw new Error(error.message)
+
+  let created = 0
+  for (const schedule of due) {
+    try {
+      const run = await runSchedule(supabase, schedule, schedule.next_run_at!)
+      if (run?.error) continue
+      if (run?.task_id) created++
+
+      const [next] = nextRuns(schedule, now)
+      const { error: advanceErr } = await supabase
+        .from('task_schedules')
+        .update({
+          last_run_at: now.toISOString(),
+          next_run_at: next?.toISOString() ?? null,
+          is_active: next !== undefined,
+        })
+        .eq('id', schedule.id)
+      if (advanceErr) throw new Error(advanceErr.message)
+    } catch (err) {
+      console.error(`schedules: could not run schedule ${schedule.id}`, err)
+    }
+  }
+  return created
+}
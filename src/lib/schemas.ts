@@ -0,0 +1,321 @@
+import { z } from 'zod'
+import { PRIORITIES, STATUSES } from '@/lib/status'
+import { WIP_MODES } from '@/lib/wip'
+import { SLA_STATUSES } from '@/lib/sla'
+import { Constants } from '@/lib/database.types'
+import { MAX_ATTACHMENT_BYTES } from '@/lib/attachments'
+import { MAX_IMPORT_BYTES } from '@/lib/transfer/schemas'
+import { LOCALES, type MessageKey, type Messages } from '@/lib/i18n'
+
+// Form fields arrive as strings; empty optional fields become null.
+const emptyToNull = (v: unknown) =>
+  typeof v === 'string' && v.trim() === '' ? null : v
+
+// Messages are catalog keys, translated by parseForm().
+const message = (key: MessageKey) => key
+
+type Field = keyof Messages['validation']['required'] &
+  keyof Messages['validation']['tooLong']
+
+const required = (field: Field, max = 20000) =>
+  z
+    .string({ error: message(`validation.required.${field}`) })
+    .trim()
+    .min(1, message(`validation.required.${field}`))
+    .max(max, message(`validation.tooLong.${field}`))
+
+const optionalText = (max = 20000) =>
+  z.preprocess(
+    emptyToNull,
+    z
+      .string()
+      .trim()
+      .max(max, message('validation.tooLong.text'))
+      .nullable()
+      .default(null)
+  )
+
+// A checkbox group arrives absent, as one value or as several.
+const checkboxes = <T extends z.ZodArray>(schema: T) =>
+  z.preprocess((v) => (v == null ? [] : Array.isArray(v) ? v : [v]), schema)
+
+const optionalId = z.preprocess(
+  emptyToNull,
+  z.uuid(message('validation.invalidId')).nullable().default(null)
+)
+
+// <input type="date"> value, YYYY-MM-DD.
+const optionalDate = z.preprocess(
+  emptyToNull,
+  z.iso.date(message('validation.invalidDate')).nullable().default(null)
+)
+
+const attachmentFile = z
+  .file(message('validation.chooseFile'))
+  .min(1, message('validation.emptyFile'))
+  .max(MAX_ATTACHMENT_BYTES, message('validation.attachmentTooBig'))
+
+// An untouched file input still submits an empty, nameless File.
+const optionalFile = z.preprocess(
+  (v) => (v instanceof File && v.size === 0 && !v.name ? undefined : v),
+  attachmentFile.optional()
+)
+
+const id = z.uuid(message('validation.invalidId'))
+const status = z.enum(STATUSES, message('validation.invalidStatus'))
+const priority = z.enum(PRIORITIES, message('validation.invalidPriority'))
+
+// With a template the title is optional (it fills the pattern's `{title}`)
+// and an empty priority means the template's.
+export const createTaskInput = z
+  .object({
+    title: optionalText(200),
+    description: optionalText(),
+    priority: z.preprocess(emptyToNull, priority.nullable().default(null)),
+    template_id: optionalId,
+  })
+  .refine((d) => d.title || d.template_id, {
+    path: ['title'],
+    message: message('validation.required.title'),
+  })
+
+export const moveTaskInput = z.object({
+  id,
+  status,
+  position: z.number().finite(message('validation.invalidPosition')),
+  reason: z.string().trim().max(2000).optional(),
+})
+
+// Palette edits of a board card: only the given fields change.
+export const updateCardInput = z.object({
+  id,
+  priority: priority.optional(),
+  assigned_agent_id: id.nullable().optional(),
+})
+
+export const updateTaskInput = z.object({
+  id,
+  status,
+  priority,
+  assigned_agent_id: optionalId,
+  due_date: optionalDate,
+  reason: optionalText(2000),
+  // Only kept while the status is needs_human.
+  needs_user_id: optionalId,
+})
+
+export const addCommentInput = z.object({
+  task_id: id,
+  body: required('comment'),
+  file: optionalFile,
+})
+
+export const uploadAttachmentInput = z.object({
+  task_id: id,
+  subtask_id: optionalId,
+  file: attachmentFile,
+})
+
+export const addTaskLinkInput = z.object({
+  task_id: id,
+  target_task_id: z.uuid(message('validation.chooseTask')),
+  kind: z.enum(
+    Constants.public.Enums.task_link_kind,
+    message('validation.invalidLinkKind')
+  ),
+})
+
+export const createSubtaskInput = z.object({
+  task_id: id,
+  title: required('title', 200),
+  definition_of_done: required('definitionOfDone'),
+  assignee_agent_id: optionalId,
+  due_date: optionalDate,
+})
+
+export const updateSubtaskInput = z.object({
+  id,
+  status,
+  result_summary: optionalText(),
+  due_date: optionalDate,
+  reason: optionalText(2000),
+})
+
+export const inboxDecisionInput = z
+  .object({
+    kind: z.enum(['task', 'subtask']),
+    id,
+    decision: z.enum(['approve', 'return']),
+    note: optionalText(2000),
+  })
+  .refine((d) => d.decision === 'approve' || d.note, {
+    path: ['note'],
+    message: message('validation.explainReturn'),
+  })
+
+// Either `cron` (recurring) or `run_at` (once); both are read in
+// `timezone`. Cron syntax and the zone are checked by the action.
+export const createScheduleInput = z
+  .object({
+    title: required('title', 200),
+    description: optionalText(),
+    priority,
+    assigned_agent_id: optionalId,
+    subtasks: optionalText(),
+    cron: optionalText(100),
+    run_at: z.preprocess(
+      emptyToNull,
+      z.iso
+        .datetime({ local: true, error: message('validation.invalidDate') })
+        .nullable()
+        .default(null)
+    ),
+    timezone: required('timeZone', 64),
+  })
+  .refine((d) => !d.cron !== !d.run_at, {
+    path: ['cron'],
+    message: message('validation.cronOrDate'),
+  })
+
+export const createTemplateInput = z.object({
+  name: required('name', 80),
+  title_pattern: required('title', 200),
+  description: optionalText(),
+  priority,
+  assigned_agent_id: optionalId,
+  subtasks: optionalText(),
+})
+
+export const saveAsTemplateInput = z.object({
+  task_id: id,
+  name: required('name', 80),
+})
+
+export const importBoardInput = z.object({
+  file: z
+    .file(message('validation.chooseFile'))
+    .min(1, message('validation.emptyFile'))
+    .max(MAX_IMPORT_BYTES, message('validation.importTooBig')),
+  // Which button submitted the form.
+  mode: z.enum(['preview', 'import']),
+})
+
+export const saveViewInput = z.object({
+  name: required('name', 80),
+  query: z.string().max(2000),
+})
+
+export const idInput = z.object({ id })
+
+export const createAgentInput = z.object({
+  name: required('name', 80),
+  role: required('role', 80),
+})
+
+export const updateAgentInput = createAgentInput.extend({
+  id,
+  status: required('status', 40),
+})
+
+// Activate/deactivate toggles (agents, webhooks).
+export const setActiveInput = z.object({
+  id,
+  is_active: z.enum(['true', 'false']).transform((v) => v === 'true'),
+})
+
+export const issueApiKeyInput = z.object({
+  agent_id: id,
+  label: optionalText(80),
+})
+
+// Becomes tasks.created_by for everything the integration ingests.
+export const issueIntegrationKeyInput = z.object({
+  name: required('name', 40)
+    .toLowerCase()
+    .regex(/^[a-z0-9][a-z0-9_-]*$/, message('validation.integrationName'))
+    .refine(
+      (v) => v !== 'human' && v !== 'schedule',
+      message('validation.reservedName')
+    ),
+})
+
+export const generateStandupInput = z.object({
+  day: z.iso.date(message('validation.invalidDate')),
+})
+
+const positiveInt = z.coerce.number().int().min(1, message('validation.min1'))
+
+// One optional limit per status: `max_<status>` and `mode_<status>`.
+export const wipLimitsInput = z.object(
+  Object.fromEntries(
+    STATUSES.flatMap((s) => [
+      [
+        `max_${s}`,
+        z.preprocess(emptyToNull, positiveInt.nullable().default(null)),
+      ],
+      [`mode_${s}`, z.enum(WIP_MODES)],
+    ])
+  ) as Record<string, z.ZodType>
+)
+
+// One optional limit per SLA status and priority: `hours_<status>_<priority>`.
+export const slaRulesInput = z.object(
+  Object.fromEntries(
+    SLA_STATUSES.flatMap((s) =>
+      PRIORITIES.map((p) => [
+        `hours_${s}_${p}`,
+        z.preprocess(emptyToNull, positiveInt.nullable().default(null)),
+      ])
+    )
+  ) as Record<string, z.ZodType>
+)
+
+export const createWebhookInput = z.object({
+  url: z.url({
+    protocol: /^https?$/,
+    error: message('validation.invalidUrl'),
+  }),
+  events: checkboxes(
+    z
+      .array(z.enum(Constants.public.Enums.webhook_event))
+      .min(1, message('validation.chooseEvent'))
+  ),
+})
+
+export const workspaceNameInput = z.object({
+  name: required('name', 80),
+})
+
+export const switchWorkspaceInput = z.object({ workspace_id: id })
+
+// Ownership is only handed over from the member list, never by invite.
+export const inviteMemberInput = z.object({
+  email: z
+    .string({ error: message('validation.required.email') })
+    .trim()
+    .toLowerCase()
+    .pipe(z.email(message('validation.invalidEmail'))),
+  role: z.enum(['editor', 'viewer'], message('validation.invalidRole')),
+})
+
+export const memberInput = z.object({ user_id: id })
+
+export const memberRoleInput = memberInput.extend({
+  role: z.enum(
+    Constants.public.Enums.workspace_role,
+    message('validation.invalidRole')
+  ),
+})
+
+// Empty language or time zone means "follow the browser".
+export const preferencesInput = z.object({
+  display_name: required('name', 80),
+  locale: z.preprocess(
+    emptyToNull,
+    z
+      .enum(LOCALES, message('validation.invalidLocale'))
+      .nullable()
+      .default(null)
+  ),
+  time_zone: optionalText(64),
+})
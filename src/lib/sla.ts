@@ -0,0 +1,76 @@
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import { CLOSED_STATUSES, type Priority, type Status } from '@/lib/status'
+
+// Statuses where waiting is the risk: nobody has picked the task up yet,
+// or it waits on a review or on a human.
+export const SLA_STATUSES = ['triage', 'review', 'needs_human'] as const
+
+export type SlaRule = {
+  status: Status
+  priority: Priority
+  max_hours: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+export async function fetchSlaRules(
+  supabase: TypedSupabaseClient
+): Promise<SlaRule[]> {
+  const { data, error } = await supabase
+    .from('sla_rules')
+    .select('status,priority,max_hours')
+
+  if (error) throw new Error(error.message)
+  return data
+}
+
+// YYYY-MM-DD in `timeZone` (default: the runtime's), comparable with
+// `due_date`.
+export function localDate(now = new Date(), timeZone?: string) {
+  // en-CA formats dates as YYYY-MM-DD.
+  return new Intl.DateTimeFormat('en-CA', { timeZone }).format(now)
+}
+
+export type DueState = 'overdue' | 'today' | null
+
+// Closed work is never late. The UI passes the member's time zone so
+// "today" is theirs.
+export function dueState(
+  item: { due_date: string | null; status: Status },
+  now = new Date(),
+  timeZone?: string
+): DueState {
+  if (!item.due_date || CLOSED_STATUSES.includes(item.status)) return null
+  const today = localDate(now, timeZone)
+  if (item.due_date < today) return 'overdue'
+  return item.due_date === today ? 'today' : null
+}
+
+export function slaRuleFor(
+  task: { status: Status; priority: Priority },
+  rules: SlaRule[]
+) {
+  return rules.find(
+    (r) => r.status === task.status && r.priority === task.priority
+  )
+}
+
+// When the task breaks its SLA in its current status, or null if no rule
+// covers its status and priority.
+export function slaDeadline(
+  task: { status: Status; priority: Priority; status_changed_at: string },
+  rules: SlaRule[]
+): Date | null {
+  const rule = slaRuleFor(task, rules)
+  if (!rule) return null
+  return new Date(Date.parse(task.status_changed_at) + rule.max_hours * HOUR_MS)
+}
+
+export function isSlaBreached(
+  task: { status: Status; priority: Priority; status_changed_at: string },
+  rules: SlaRule[],
+  now = new Date()
+) {
+  const deadline = slaDeadline(task, rules)
+  return deadline !== null && deadline <= now
+}
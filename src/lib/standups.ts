@@ -0,0 +1,338 @@
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import type { Status } from '@/lib/status'
+import { fetchAll } from '@/lib/repository'
+import type { Translate } from '@/lib/i18n'
+
+export type StandupItem = {
+  kind: 'task' | 'subtask'
+  id: string
+  task_id: string
+  title: string
+  status: Status
+  result_summary: string | null
+}
+
+export type StandupSection = {
+  agent_id: string | null
+  agent_name: string
+  moved: StandupItem[]
+  completed: StandupItem[]
+  blocked: StandupItem[]
+  needs_human: StandupItem[]
+  comments: number
+}
+
+export type StandupData = {
+  day: string
+  generated_at: string
+  sections: StandupSection[]
+}
+
+// Days are UTC calendar days (YYYY-MM-DD).
+export function dayRange(day: string) {
+  const start = new Date(`${day}T00:00:00.000Z`)
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000)
+  return { start: start.toISOString(), end: end.toISOString() }
+}
+
+export function todayUtc() {
+  return new Date().toISOString().slice(0, 10)
+}
+
+const HISTORY_KINDS = [
+  'task_status',
+  'subtask_status',
+  'task_assignee',
+  'subtask_assignee',
+] as const
+
+type Change = {
+  task_id: string
+  subtask_id: string | null
+  kind: (typeof HISTORY_KINDS)[number]
+  before: string | null
+  after: string | null
+  at: number
+}
+
+const CHANGE_COLUMNS = 'task_id,subtask_id,kind,before,after,created_at'
+
+const WAITING: Status[] = ['blocked', 'needs_human']
+
+// Ids per `in` filter, so the request URL stays short.
+const ID_CHUNK = 200
+
+const chunks = <T>(items: T[], size = ID_CHUNK) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) =>
+    items.slice(i * size, (i + 1) * size)
+  )
+
+function toChanges(
+  rows: (Omit<Change, 'kind' | 'at'> & { kind: string; created_at: string })[]
+): Change[] {
+  return rows.map(({ created_at, ...e }) => ({
+    ...e,
+    kind: e.kind as Change['kind'],
+    at: Date.parse(created_at),
+  }))
+}
+
+// Rows waiting now (`read(null)`) or with one of `ids`, read in chunks and
+// without duplicates.
+async function waitingOrIn<T extends { id: string }>(
+  ids: string[],
+  read: (
+    ids: string[] | null
+  ) => (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows = await Promise.all(
+    [null, ...chunks(ids)].map((chunk) => fetchAll(read(chunk)))
+  )
+  return [...new Map(rows.flat().map((r) => [r.id, r])).values()]
+}
+
+// Builds the standup for `day` from the status history: an item moved if
+// its status changed during the day, and completed if one of those changes
+// went to done and it was still done when the day ended. Blocked,
+// needs_human and each item's agent are as of the end of the day, so past
+// days come out as they were, not as things are now.
+export async function buildStandup(
+  supabase: TypedSupabaseClient,
+  day: string,
+  t: Translate
+): Promise<StandupData> {
+  const { start, end } = dayRange(day)
+  const startMs = Date.parse(start)
+  const endMs = Date.parse(end)
+
+  // The day's own changes are its moves.
+  const dayChanges = toChanges(
+    await fetchAll((from, to) =>
+      supabase
+        .from('task_events')
+        .select(CHANGE_COLUMNS)
+        .in('kind', HISTORY_KINDS)
+        .gte('created_at', start)
+        .lt('created_at', end)
+        .order('created_at', { ascending: true })
+        .range(from, to)
+    )
+  )
+
+  // Items that left blocked or needs_human after the day may have been
+  // waiting when it ended.
+  const leftWaiting = await fetchAll((from, to) =>
+    supabase
+      .from('task_events')
+      .select('task_id,subtask_id')
+      .in('kind', ['task_status', 'subtask_status'])
+      .in('before', WAITING)
+      .gte('created_at', end)
+      .order('id', { ascending: true })
+      .range(from, to)
+  )
+
+  const changed = [...dayChanges, ...leftWaiting]
+  const taskIds = [
+    ...new Set(changed.filter((c) => !c.subtask_id).map((c) => c.task_id)),
+  ]
+  const subtaskIds = [
+    ...new Set(changed.flatMap((c) => (c.subtask_id ? [c.subtask_id] : []))),
+  ]
+
+  // Those items, plus the ones blocked or waiting on a human now (and so
+  // possibly all day).
+  const [tasks, subtasks, comments, agentsRes] = await Promise.all([
+    waitingOrIn(taskIds, (ids) => (from, to) => {
+      const query = supabase
+        .from('tasks')
+        .select('id,title,status,assigned_agent_id')
+        .lt('created_at', end)
+      return (ids ? query.in('id', ids) : query.in('status', WAITING))
+        .order('id', { ascending: true })
+        .range(from, to)
+    }),
+    waitingOrIn(subtaskIds, (ids) => (from, to) => {
+      const query = supabase
+        .from('subtasks')
+        .select('id,task_id,title,status,assignee_agent_id,result_summary')
+        .lt('created_at', end)
+      return (ids ? query.in('id', ids) : query.in('status', WAITING))
+        .order('id', { ascending: true })
+        .range(from, to)
+    }),
+    fetchAll((from, to) =>
+      supabase
+        .from('comments')
+        .select('author_agent_id')
+        .eq('author_type', 'agent')
+        .gte('created_at', start)
+        .lt('created_at', end)
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+    supabase.from('agents').select('id,name'),
+  ])
+  if (agentsRes.error) throw new Error(agentsRes.error.message)
+
+  // The first change after the day tells what each of them was at its
+  // end. Subtask changes carry their task's id, so one read covers both.
+  const parentIds = [
+    ...new Set([...tasks.map((t) => t.id), ...subtasks.map((s) => s.task_id)]),
+  ]
+  const laterChanges = (
+    await Promise.all(
+      chunks(parentIds).map((ids) =>
+        fetchAll((from, to) =>
+          supabase
+            .from('task_events')
+            .select(CHANGE_COLUMNS)
+            .in('kind', HISTORY_KINDS)
+            .in('task_id', ids)
+            .gte('created_at', end)
+            .order('created_at', { ascending: true })
+            .range(from, to)
+        )
+      )
+    )
+  ).flatMap(toChanges)
+
+  const byItem = new Map<string, Change[]>()
+  for (const c of [...dayChanges, ...laterChanges]) {
+    const key = c.subtask_id ?? c.task_id
+    byItem.set(key, [...(byItem.get(key) ?? []), c])
+  }
+
+  const agentNames = new Map<string, string>()
+  agentsRes.data?.forEach((a) => agentNames.set(a.id, a.name))
+
+  const sections = new Map<string | null, StandupSection>()
+  const sectionFor = (agentId: string | null) => {
+    let section = sections.get(agentId)
+    if (!section) {
+      section = {
+        agent_id: agentId,
+        agent_name: agentId
+          ? (agentNames.get(agentId) ?? agentId)
+          : t('standups.unassigned'),
+        moved: [],
+        completed: [],
+        blocked: [],
+        needs_human: [],
+        comments: 0,
+      }
+      sections.set(agentId, section)
+    }
+    return section
+  }
+
+  const isStatus = (c: Change) => c.kind.endsWith('_status')
+  const isAssignee = (c: Change) => c.kind.endsWith('_assignee')
+
+  const place = (agentId: string | null, item: StandupItem) => {
+    const history = byItem.get(item.id) ?? []
+    const after = (pick: (c: Change) => boolean) =>
+      history.find((c) => pick(c) && c.at >= endMs)
+    const moves = history.filter(
+      (c) => isStatus(c) && c.at >= startMs && c.at < endMs
+    )
+
+    // Rewind the current values to the end of the day.
+    const status = (after(isStatus)?.before ?? item.status) as Status
+    const reassigned = after(isAssignee)
+    const owner = reassigned ? reassigned.before : agentId
+    const entry = { ...item, status }
+
+    if (status === 'blocked') sectionFor(owner).blocked.push(entry)
+    else if (status === 'needs_human') {
+      sectionFor(owner).needs_human.push(entry)
+    } else if (status === 'done' && moves.some((c) => c.after === 'done')) {
+      sectionFor(owner).completed.push(entry)
+    } else if (moves.length > 0) sectionFor(owner).moved.push(entry)
+  }
+
+  tasks.forEach((t) =>
+    place(t.assigned_agent_id, {
+      kind: 'task',
+      id: t.id,
+      task_id: t.id,
+      title: t.title,
+      status: t.status,
+      result_summary: null,
+    })
+  )
+  subtasks.forEach((s) =>
+    place(s.assignee_agent_id, {
+      kind: 'subtask',
+      id: s.id,
+      task_id: s.task_id,
+      title: s.title,
+      status: s.status,
+      result_summary: s.result_summary,
+    })
+  )
+  comments.forEach((c) => {
+    sectionFor(c.author_agent_id).comments += 1
+  })
+
+  return {
+    day,
+    generated_at: new Date().toISOString(),
+    sections: [...sections.values()].sort((a, b) => {
+      if (a.agent_id === null) return 1
+      if (b.agent_id === null) return -1
+      return a.agent_name.localeCompare(b.agent_name)
+    }),
+  }
+}
+
+function itemLine(item: StandupItem, t: Translate) {
+  const kind = item.kind === 'subtask' ? ' (subtask)' : ''
+  return `- ${item.title}${kind} — \`${t(`status.${item.status}`)}\``
+}
+
+// In the language of the member who generates it, like the section names.
+export function standupToMarkdown(standup: StandupData, t: Translate) {
+  const lines = [`# ${t('standups.heading', { day: standup.day })}`, '']
+
+  if (standup.sections.length === 0) {
+    lines.push(`_${t('standups.empty')}_`, '')
+  }
+
+  for (const section of standup.sections) {
+    lines.push(`## ${section.agent_name}`, '')
+
+    const groups: [string, StandupItem[]][] = [
+      [t('standups.moved'), section.moved],
+      [t('standups.completed'), section.completed],
+      [t('status.blocked'), section.blocked],
+      [t('status.needs_human'), section.needs_human],
+    ]
+
+    for (const [heading, items] of groups) {
+      if (items.length === 0) continue
+      lines.push(`### ${heading}`)
+      for (const item of items) {
+        lines.push(itemLine(item, t))
+        if (items === section.completed && item.result_summary) {
+          lines.push(
+            `  - ${t('standups.result', { summary: item.result_summary })}`
+          )
+        }
+      }
+      lines.push('')
+    }
+
+    if (section.comments > 0) {
+      lines.push(
+        `_${t('standups.agentComments', { count: section.comments })}_`,
+        ''
+      )
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n'
+}
@@ -0,0 +1,30 @@
+export const STATUSES = [
+  'inbox',
+  'triage',
+  'in_progress',
+  'blocked',
+  'review',
+  'needs_human',
+  'done',
+  'canceled',
+] as const
+
+export type Status = (typeof STATUSES)[number]
+
+export const CLOSED_STATUSES: Status[] = ['done', 'canceled']
+
+export const OPEN_STATUSES: Status[] = STATUSES.filter(
+  (s) => !CLOSED_STATUSES.includes(s)
+)
+
+export const PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const
+
+export type Priority = (typeof PRIORITIES)[number]
+
+export function isPriority(value: unknown): value is Priority {
+  return PRIORITIES.includes(value as Priority)
+}
+
+// Higher first: urgent, high, medium, low.
+export const byPriority = (a: Priority, b: Priority) =>
+  PRIORITIES.indexOf(b) - PRIORITIES.indexOf(a)
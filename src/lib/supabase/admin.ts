@@ -0,0 +1,17 @@
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/lib/database.types'
+
+// Service-role client for requests that don't carry a Supabase session
+// (agent API keys). It bypasses RLS, so callers must scope every query
+// by workspace_id themselves.
+export function createAdminSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL!
+  const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+  return createClient<Database>(url, serviceRole, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
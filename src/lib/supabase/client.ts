@@ -1,7 +1,8 @@
 import { createBrowserClient } from '@supabase/ssr'
+import type { Database } from '@/lib/database.types'
 
 export function createClient() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL!
   const anon = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  return createBrowserClient(url, anon)
+  return createBrowserClient<Database>(url, anon)
 }
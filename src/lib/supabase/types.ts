@@ -0,0 +1,5 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/lib/database.types'
+
+// Any of the server, browser or admin clients.
+export type TypedSupabaseClient = SupabaseClient<Database>
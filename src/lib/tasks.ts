@@ -0,0 +1,105 @@
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import {
+  OPEN_STATUSES,
+  byPriority,
+  type Priority,
+  type Status,
+} from '@/lib/status'
+import type { SubtaskRow, TaskRow } from '@/lib/types'
+
+export type BoardTask = Pick<
+  TaskRow,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'position'
+  | 'assigned_agent_id'
+  | 'due_date'
+  | 'status_changed_at'
+  | 'updated_at'
+>
+
+export type BoardSubtask = Pick<SubtaskRow, 'id' | 'task_id' | 'status'>
+
+export const BOARD_TASK_COLUMNS =
+  'id,title,description,status,priority,position,assigned_agent_id,due_date,status_changed_at,updated_at'
+
+export const TASK_COLUMNS =
+  'id,title,description,status,priority,position,assigned_agent_id,blocked_from,due_date,status_changed_at,escalated_at,created_by,created_by_user_id,needs_user_id,workspace_id,created_at,updated_at'
+
+export const SUBTASK_COLUMNS =
+  'id,task_id,title,status,assignee_agent_id,definition_of_done,result_summary,due_date,created_at,updated_at'
+
+export const COMMENT_COLUMNS =
+  'id,task_id,subtask_id,author_type,author_agent_id,author_user_id,body,created_at'
+
+export async function countOpenSubtasks(
+  supabase: TypedSupabaseClient,
+  taskId: string
+) {
+  const { count, error } = await supabase
+    .from('subtasks')
+    .select('id', { count: 'exact', head: true })
+    .eq('task_id', taskId)
+    .in('status', OPEN_STATUSES)
+
+  if (error) throw new Error(error.message)
+  return count ?? 0
+}
+
+export type MoveTaskInput = {
+  id: string
+  status: Status
+  position: number
+  reason?: string
+}
+
+export type UpdateCardInput = {
+  id: string
+  priority?: Priority
+  assigned_agent_id?: string | null
+}
+
+export type MoveTaskResult =
+  | { ok: true; warning?: string }
+  | { ok: false; error: string }
+
+// Tasks are ordered within a column by a fractional `position`, so a move
+// only rewrites the moved task: it lands halfway between its neighbours.
+export function positionBetween(before?: number, after?: number) {
+  if (before === undefined && after === undefined) return 0
+  if (before === undefined) return after! - 1
+  if (after === undefined) return before + 1
+  return (before + after) / 2
+}
+
+// Rank for dropping `task` at `index` of `column` (which must not contain
+// the task). Only same-priority neighbours count, since the column is
+// sorted by priority first.
+export function rankAt(
+  task: Pick<TaskRow, 'priority'>,
+  column: Pick<TaskRow, 'priority' | 'position'>[],
+  index: number
+) {
+  const group = column.filter((t) => t.priority === task.priority)
+  const groupIndex = column
+    .slice(0, index)
+    .filter((t) => t.priority === task.priority).length
+  return positionBetween(
+    group[groupIndex - 1]?.position,
+    group[groupIndex]?.position
+  )
+}
+
+export const byPosition = (
+  a: Pick<TaskRow, 'position' | 'updated_at'>,
+  b: Pick<TaskRow, 'position' | 'updated_at'>
+) => a.position - b.position || b.updated_at.localeCompare(a.updated_at)
+
+// Column order: priority first, then the manual rank within a priority.
+export const byPriorityThenPosition = (
+  a: Pick<TaskRow, 'priority' | 'position' | 'updated_at'>,
+  b: Pick<TaskRow, 'priority' | 'position' | 'updated_at'>
+) => byPriority(a.priority, b.priority) || byPosition(a, b)
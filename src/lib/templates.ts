@@ -0,0 +1,180 @@
+import { DateTime } from 'luxon'
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import type { Tables } from '@/lib/database.types'
+import { recordEvents, type Actor, type TaskEventInput } from '@/lib/events'
+import { mentionIndex, mentionKey, recordMentions } from '@/lib/mentions'
+import { insertSubtask } from '@/lib/repository'
+import { localDate } from '@/lib/sla'
+import {
+  agentMentioned,
+  subtaskCreated,
+  type WebhookEmit,
+} from '@/lib/webhooks'
+import type { AgentRow, SubtaskRow } from '@/lib/types'
+import { MessageError } from '@/lib/i18n'
+
+export const TEMPLATE_COLUMNS =
+  'id,name,title_pattern,description,priority,assigned_agent_id,subtasks,created_at'
+
+export type TemplateRow = Pick<
+  Tables<'task_templates'>,
+  | 'id'
+  | 'name'
+  | 'title_pattern'
+  | 'description'
+  | 'priority'
+  | 'assigned_agent_id'
+  | 'subtasks'
+  | 'created_at'
+>
+
+export type TemplateSubtask = {
+  title: string
+  definition_of_done: string
+  assignee_agent_id: string | null
+}
+
+export const MAX_TEMPLATE_SUBTASKS = 30
+
+export function templateSubtasks(template: Pick<TemplateRow, 'subtasks'>) {
+  return Array.isArray(template.subtasks)
+    ? (template.subtasks as TemplateSubtask[])
+    : []
+}
+
+// `{date}` becomes the date (YYYY-MM-DD) of `now` in `timeZone`, not the
+// server's. An unknown zone falls back to UTC.
+export function expandDate(text: string, timeZone: string, now = new Date()) {
+  const date =
+    DateTime.fromJSDate(now).setZone(timeZone).toISODate() ??
+    localDate(now, 'UTC')
+  return text.replaceAll('{date}', date)
+}
+
+// `{title}` becomes what was typed on the board and `{date}` today's date
+// in the member's time zone. A pattern without `{title}` ignores the typed
+// title.
+export function applyTitlePattern(
+  pattern: string,
+  title: string | null,
+  timeZone: string,
+  now = new Date()
+) {
+  return expandDate(pattern.replaceAll('{title}', title ?? ''), timeZone, now)
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// One subtask per non-empty line, as `Título | Definition of Done | @Agente`.
+// The DoD defaults to the title and the agent to none. Returns the unknown
+// agent names instead when there are any.
+export function parseTemplateLines(
+  text: string | null,
+  agents: Pick<AgentRow, 'id' | 'name'>[]
+): { subtasks: TemplateSubtask[]; unknown: string[] } {
+  const byKey = mentionIndex(agents)
+  const unknown: string[] = []
+  const subtasks = (text ?? '')
+    .split('\n')
+    .map((line) => line.split('|').map((part) => part.trim()))
+    .filter(([title]) => title)
+    .map(([title, dod, agent]) => {
+      let assignee_agent_id: string | null = null
+      if (agent) {
+        const found = byKey.get(mentionKey(agent.replace(/^@/, '')))
+        if (found) assignee_agent_id = found.id
+        else unknown.push(agent)
+      }
+      return {
+        title: title.slice(0, 200),
+        definition_of_done: dod || title,
+        assignee_agent_id,
+      }
+    })
+  return { subtasks, unknown }
+}
+
+// The inverse of parseTemplateLines, for showing a template's subtasks.
+export function templateLine(
+  subtask: TemplateSubtask,
+  agentNames: Map<string, string>
+) {
+  const agent = subtask.assignee_agent_id
+    ? agentNames.get(subtask.assignee_agent_id)
+    : undefined
+  return [
+    subtask.title,
+    subtask.definition_of_done,
+    ...(agent ? [`@${mentionKey(agent)}`] : []),
+  ].join(' | ')
+}
+
+export async function getTemplate(
+  supabase: TypedSupabaseClient,
+  id: string
+): Promise<TemplateRow> {
+  const { data, error } = await supabase
+    .from('task_templates')
+    .select(TEMPLATE_COLUMNS)
+    .eq('id', id)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  if (!data) throw new MessageError('errors.templateNotFound')
+  return data
+}
+
+// Adds the template's subtasks to a new task, one insert each so they keep
+// the template's order, with their events and mentions. Returns the
+// webhooks to emit.
+export async function insertTemplateSubtasks(
+  supabase: TypedSupabaseClient,
+  workspace_id: string,
+  actor: Actor,
+  task_id: string,
+  presets: TemplateSubtask[]
+): Promise<WebhookEmit[]> {
+  const subtasks: SubtaskRow[] = []
+  for (const preset of presets) {
+    subtasks.push(
+      await insertSubtask(supabase, {
+        ...preset,
+        workspace_id,
+        task_id,
+        status: 'inbox',
+      })
+    )
+  }
+
+  const events: TaskEventInput[] = []
+  for (const s of subtasks) {
+    events.push({
+      task_id,
+      subtask_id: s.id,
+      kind: 'subtask_created',
+      after: s.title,
+    })
+    if (s.assignee_agent_id) {
+      events.push({
+        task_id,
+        subtask_id: s.id,
+        kind: 'subtask_assignee',
+        before: null,
+        after: s.assignee_agent_id,
+      })
+    }
+  }
+  await recordEvents(supabase, workspace_id, actor, events)
+
+  const webhooks = subtasks.map(subtaskCreated)
+  for (const s of subtasks) {
+    const mentions = await recordMentions(
+      supabase,
+      workspace_id,
+      actor,
+      { source: 'definition_of_done', task_id, subtask_id: s.id },
+      s.definition_of_done
+    )
+    webhooks.push(...mentions.map(agentMentioned))
+  }
+  return webhooks
+}
@@ -0,0 +1,53 @@
+// Minimal RFC 4180 CSV: comma-separated, fields quoted when they contain a
+// comma, quote or newline, quotes doubled inside quoted fields.
+
+function quote(field: string) {
+  return /[",\r\n]/.test(field) ? `"${field.replaceAll('"', '""')}"` : field
+}
+
+export function toCsv(rows: (string | number | null)[][]) {
+  return rows
+    .map((row) => row.map((f) => quote(f == null ? '' : String(f))).join(','))
+    .join('\r\n')
+}
+
+// Rows of fields; blank lines are dropped. A leading BOM (Excel) is
+// ignored.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i]
+    if (quoted) {
+      if (c === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (c === '"') {
+        quoted = false
+      } else {
+        field += c
+      }
+    } else if (c === '"') {
+      quoted = true
+    } else if (c === ',') {
+      row.push(field)
+      field = ''
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += c
+    }
+  }
+  row.push(field)
+  rows.push(row)
+
+  return rows.filter((r) => r.some((f) => f.trim() !== ''))
+}
@@ -0,0 +1,230 @@
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import { STATUSES } from '@/lib/status'
+import { COMMENT_COLUMNS, SUBTASK_COLUMNS, TASK_COLUMNS } from '@/lib/tasks'
+import { TASK_LINK_COLUMNS } from '@/lib/dependencies'
+import { fetchAll } from '@/lib/repository'
+import type { Translate } from '@/lib/i18n'
+import { toCsv } from './csv'
+import {
+  CSV_COLUMNS,
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  type ExportFile,
+  type ExportTask,
+} from './schemas'
+
+export const EXPORT_FORMATS = ['json', 'csv', 'md'] as const
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+// Every task of the signed-in user, with its subtasks, comments and
+// outgoing links. Agents, including inactive ones, become names.
+export async function buildExport(
+  supabase: TypedSupabaseClient,
+  now = new Date()
+): Promise<ExportFile> {
+  const [tasks, subtasks, comments, links, agents] = await Promise.all([
+    fetchAll((from, to) =>
+      supabase
+        .from('tasks')
+        .select(TASK_COLUMNS)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase
+        .from('subtasks')
+        .select(SUBTASK_COLUMNS)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase
+        .from('comments')
+        .select(COMMENT_COLUMNS)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase
+        .from('task_links')
+        .select(TASK_LINK_COLUMNS)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase.from('agents').select('id,name').range(from, to)
+    ),
+  ])
+
+  const agentName = new Map(agents.map((a) => [a.id, a.name]))
+  const nameOf = (id: string | null) => (id && agentName.get(id)) || null
+
+  const byTask = new Map<string, ExportTask>(
+    tasks.map((t) => [
+      t.id,
+      {
+        id: t.id,
+        title: t.title,
+        description: t.description,
+        status: t.status,
+        priority: t.priority,
+        position: t.position,
+        assigned_agent: nameOf(t.assigned_agent_id),
+        blocked_from: t.blocked_from,
+        due_date: t.due_date,
+        created_by: t.created_by,
+        created_at: t.created_at,
+        status_changed_at: t.status_changed_at,
+        subtasks: [],
+        comments: [],
+        links: [],
+      },
+    ])
+  )
+
+  for (const s of subtasks) {
+    byTask.get(s.task_id)?.subtasks.push({
+      id: s.id,
+      title: s.title,
+      status: s.status,
+      assignee_agent: nameOf(s.assignee_agent_id),
+      definition_of_done: s.definition_of_done,
+      result_summary: s.result_summary,
+      due_date: s.due_date,
+      created_at: s.created_at,
+    })
+  }
+  for (const c of comments) {
+    byTask.get(c.task_id)?.comments.push({
+      id: c.id,
+      subtask_id: c.subtask_id,
+      author_type: c.author_type,
+      author_agent: nameOf(c.author_agent_id),
+      body: c.body,
+      created_at: c.created_at,
+    })
+  }
+  for (const l of links) {
+    byTask
+      .get(l.task_id)
+      ?.links.push({ kind: l.kind, target_task_id: l.target_task_id })
+  }
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_at: now.toISOString(),
+    tasks: [...byTask.values()],
+  }
+}
+
+export function exportCsv(file: ExportFile) {
+  return toCsv([
+    [...CSV_COLUMNS],
+    ...file.tasks.map((t) => [
+      t.id,
+      t.title,
+      t.status,
+      t.priority,
+      t.assigned_agent,
+      t.due_date,
+      t.description,
+      t.subtasks.length,
+      t.subtasks.filter((s) => s.status === 'done').length,
+      t.comments.length,
+      t.created_at,
+    ]),
+  ])
+}
+
+const indent = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => `  ${line}`)
+    .join('\n')
+
+// One section per task, grouped by status in workflow order.
+export function exportMarkdown(file: ExportFile, t: Translate) {
+  const titles = new Map(file.tasks.map((task) => [task.id, task.title]))
+  const lines = [
+    '# Centro de Mando — export',
+    '',
+    t('transfer.markdown.generated', {
+      at: file.exported_at,
+      count: file.tasks.length,
+    }),
+  ]
+
+  for (const status of STATUSES) {
+    const tasks = file.tasks.filter((task) => task.status === status)
+    if (tasks.length === 0) continue
+    lines.push('', `## ${t(`status.${status}`)} (${tasks.length})`)
+
+    for (const task of tasks) {
+      lines.push('', `### ${task.title}`, '')
+      lines.push(
+        [
+          t('transfer.markdown.priority', {
+            priority: t(`priority.${task.priority}`),
+          }),
+          t('transfer.markdown.agent', { agent: task.assigned_agent ?? '—' }),
+          ...(task.due_date
+            ? [t('transfer.markdown.due', { date: task.due_date })]
+            : []),
+          t('transfer.markdown.created', {
+            date: task.created_at.slice(0, 10),
+            by: task.created_by,
+          }),
+          `ID: \`${task.id}\``,
+        ].join(' · ')
+      )
+      if (task.description) lines.push('', task.description)
+
+      const blockers = task.links.filter((l) => l.kind === 'blocked_by')
+      if (blockers.length > 0) {
+        const blockedBy = blockers
+          .map((l) => `«${titles.get(l.target_task_id) ?? l.target_task_id}»`)
+          .join(', ')
+        lines.push('', t('transfer.markdown.blockedBy', { tasks: blockedBy }))
+      }
+
+      if (task.subtasks.length > 0) {
+        lines.push('', '#### Subtasks', '')
+        for (const s of task.subtasks) {
+          lines.push(
+            `- [${s.status === 'done' ? 'x' : ' '}] ${s.title} (${s.status}` +
+              `${s.assignee_agent ? `, ${s.assignee_agent}` : ''})`,
+            indent(`DoD: ${s.definition_of_done}`)
+          )
+          if (s.result_summary) {
+            lines.push(
+              indent(
+                t('transfer.markdown.result', { summary: s.result_summary })
+              )
+            )
+          }
+        }
+      }
+
+      if (task.comments.length > 0) {
+        lines.push('', `#### ${t('transfer.markdown.comments')}`, '')
+        for (const c of task.comments) {
+          const author =
+            c.author_type === 'agent'
+              ? (c.author_agent ?? t('transfer.markdown.agentAuthor'))
+              : c.author_type
+          lines.push(
+            `- **${author}** (${c.created_at.slice(0, 16).replace('T', ' ')}):`,
+            indent(c.body)
+          )
+        }
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,388 @@
+import { z } from 'zod'
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import { createAdminSupabase } from '@/lib/supabase/admin'
+import type { TablesInsert } from '@/lib/database.types'
+import { mentionKey } from '@/lib/mentions'
+import { findPath } from '@/lib/dependencies'
+import { positionBetween } from '@/lib/tasks'
+import { fetchAll } from '@/lib/repository'
+import { isMessageKey, type Translate } from '@/lib/i18n'
+import { parseCsv } from './csv'
+import {
+  MAX_IMPORT_TASKS,
+  csvTaskRow,
+  exportFile,
+  type ExportTask,
+} from './schemas'
+
+export type ImportFormat = 'json' | 'csv'
+
+// CSV rows have no position: they're placed after their column's last
+// task.
+type ImportTask = Omit<ExportTask, 'position'> & { position: number | null }
+
+export type ImportPreview = {
+  format: ImportFormat
+  tasks: number
+  subtasks: number
+  comments: number
+  links: number
+  // Already on the board (same id): left as they are.
+  existing: { id: string; title: string }[]
+  // Imported unassigned.
+  unknownAgents: string[]
+  // New tasks titled like one already on the board.
+  duplicateTitles: string[]
+  // Pointing at tasks that aren't in the file or on the board, or that
+  // would close a blocked-by cycle.
+  droppedLinks: number
+  imported: boolean
+}
+
+export type ImportPlan = {
+  preview: ImportPreview
+  tasks: TablesInsert<'tasks'>[]
+  subtasks: TablesInsert<'subtasks'>[]
+  comments: TablesInsert<'comments'>[]
+  links: TablesInsert<'task_links'>[]
+}
+
+const MAX_ERRORS = 5
+const CHUNK = 200
+
+const chunks = <T>(items: T[], size = CHUNK) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) =>
+    items.slice(i * size, (i + 1) * size)
+  )
+
+function issues(
+  error: z.ZodError,
+  where: (path: PropertyKey[]) => string,
+  t: Translate
+) {
+  return error.issues
+    .slice(0, MAX_ERRORS)
+    .map(
+      (i) =>
+        `${where(i.path)}: ${isMessageKey(i.message) ? t(i.message) : i.message}`
+    )
+}
+
+// Parses an export (JSON) or a flat task list (CSV, first row = headers)
+// into export-shaped tasks. Returns the first few problems instead when it
+// doesn't validate.
+export function readImport(
+  text: string,
+  t: Translate,
+  now = new Date()
+):
+  | { ok: true; format: ImportFormat; tasks: ImportTask[] }
+  | { ok: false; errors: string[] } {
+  if (text.trimStart().startsWith('{')) {
+    let json: unknown
+    try {
+      json = JSON.parse(text)
+    } catch {
+      return { ok: false, errors: [t('transfer.invalidJson')] }
+    }
+    const parsed = exportFile.safeParse(json)
+    if (!parsed.success) {
+      return {
+        ok: false,
+        errors: issues(
+          parsed.error,
+          (path) => path.join('.') || t('transfer.file'),
+          t
+        ),
+      }
+    }
+    return { ok: true, format: 'json', tasks: parsed.data.tasks }
+  }
+
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return { ok: false, errors: [t('validation.emptyFile')] }
+  const columns = header.map((h) => h.trim().toLowerCase())
+  if (!columns.includes('title')) {
+    return { ok: false, errors: [t('transfer.missingTitle')] }
+  }
+  if (rows.length > MAX_IMPORT_TASKS) {
+    return {
+      ok: false,
+      errors: [t('transfer.maxTasks', { max: MAX_IMPORT_TASKS })],
+    }
+  }
+
+  const tasks: ImportTask[] = []
+  const errors: string[] = []
+  rows.forEach((row, i) => {
+    const parsed = csvTaskRow.safeParse(
+      Object.fromEntries(columns.map((c, j) => [c, row[j] ?? '']))
+    )
+    if (!parsed.success) {
+      // +2: the header is row 1.
+      errors.push(
+        ...issues(
+          parsed.error,
+          (path) => t('transfer.row', { row: i + 2, column: String(path[0]) }),
+          t
+        )
+      )
+      return
+    }
+    const r = parsed.data
+    tasks.push({
+      id: r.id ?? crypto.randomUUID(),
+      title: r.title,
+      description: r.description ?? null,
+      status: r.status,
+      priority: r.priority,
+      position: null,
+      assigned_agent: r.assigned_agent ?? null,
+      blocked_from: null,
+      due_date: r.due_date ?? null,
+      created_by: 'human',
+      created_at: r.created_at ?? now.toISOString(),
+      status_changed_at: now.toISOString(),
+      subtasks: [],
+      comments: [],
+      links: [],
+    })
+  })
+  if (errors.length > 0) {
+    return { ok: false, errors: errors.slice(0, MAX_ERRORS) }
+  }
+  return { ok: true, format: 'csv', tasks }
+}
+
+// Ids in `table` that another account already uses. A file exported
+// elsewhere and imported here keeps its ids unless they're taken.
+async function takenElsewhere(
+  table: 'tasks' | 'subtasks' | 'comments',
+  workspace_id: string,
+  ids: string[]
+) {
+  const admin = createAdminSupabase()
+  const taken = new Set<string>()
+  for (const batch of chunks(ids)) {
+    const { data, error } = await admin
+      .from(table)
+      .select('id')
+      .in('id', batch)
+      .neq('workspace_id', workspace_id)
+    if (error) throw new Error(error.message)
+    for (const row of data) taken.add(row.id)
+  }
+  return taken
+}
+
+// Works out what importing `tasks` would do, without writing anything:
+// the preview plus the rows applyImport inserts.
+export async function planImport(
+  supabase: TypedSupabaseClient,
+  workspace_id: string,
+  format: ImportFormat,
+  tasks: ImportTask[]
+): Promise<ImportPlan> {
+  const [board, agents, boardLinks] = await Promise.all([
+    fetchAll((from, to) =>
+      supabase
+        .from('tasks')
+        .select('id,title,status,position')
+        .range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase.from('agents').select('id,name').range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase
+        .from('task_links')
+        .select('task_id,target_task_id')
+        .eq('kind', 'blocked_by')
+        .range(from, to)
+    ),
+  ])
+
+  const onBoard = new Map(board.map((t) => [t.id, t]))
+  const boardTitles = new Set(board.map((t) => t.title.trim().toLowerCase()))
+  const agentIds = new Map(agents.map((a) => [mentionKey(a.name), a.id]))
+  const unknownAgents = new Set<string>()
+  const agentId = (name: string | null) => {
+    if (!name) return null
+    const id = agentIds.get(mentionKey(name))
+    if (!id) unknownAgents.add(name)
+    return id ?? null
+  }
+
+  const existing = tasks.filter((t) => onBoard.has(t.id))
+  const fresh = tasks.filter((t) => !onBoard.has(t.id))
+
+  const [tasksTaken, subtasksTaken, commentsTaken] = await Promise.all([
+    takenElsewhere('tasks', workspace_id, fresh.map((t) => t.id)),
+    takenElsewhere(
+      'subtasks',
+      workspace_id,
+      fresh.flatMap((t) => t.subtasks.map((s) => s.id))
+    ),
+    takenElsewhere(
+      'comments',
+      workspace_id,
+      fresh.flatMap((t) => t.comments.map((c) => c.id))
+    ),
+  ])
+  const keep = (taken: Set<string>, id: string) =>
+    taken.has(id) ? crypto.randomUUID() : id
+  const taskIds = new Map(fresh.map((t) => [t.id, keep(tasksTaken, t.id)]))
+
+  // Last position per column, so CSV rows go below in file order.
+  const last = new Map<string, number>()
+  for (const t of board) {
+    last.set(t.status, Math.max(last.get(t.status) ?? -Infinity, t.position))
+  }
+  const positionFor = (t: ImportTask) => {
+    if (t.position !== null) return t.position
+    const position = positionBetween(last.get(t.status), undefined)
+    last.set(t.status, position)
+    return position
+  }
+
+  const plan: ImportPlan = {
+    preview: {
+      format,
+      tasks: fresh.length,
+      subtasks: 0,
+      comments: 0,
+      links: 0,
+      existing: existing.map((t) => ({ id: t.id, title: t.title })),
+      unknownAgents: [],
+      duplicateTitles: fresh
+        .filter((t) => boardTitles.has(t.title.trim().toLowerCase()))
+        .map((t) => t.title),
+      droppedLinks: 0,
+      imported: false,
+    },
+    tasks: [],
+    subtasks: [],
+    comments: [],
+    links: [],
+  }
+
+  const edges = [...boardLinks]
+  const linkKeys = new Set<string>()
+
+  for (const t of fresh) {
+    const id = taskIds.get(t.id)!
+    plan.tasks.push({
+      id,
+      workspace_id,
+      title: t.title,
+      description: t.description,
+      status: t.status,
+      priority: t.priority,
+      position: positionFor(t),
+      assigned_agent_id: agentId(t.assigned_agent),
+      blocked_from: t.status === 'blocked' ? t.blocked_from : null,
+      due_date: t.due_date,
+      created_by: t.created_by,
+      created_at: t.created_at,
+      status_changed_at: t.status_changed_at,
+    })
+
+    const subtaskIds = new Map(
+      t.subtasks.map((s) => [s.id, keep(subtasksTaken, s.id)])
+    )
+    for (const s of t.subtasks) {
+      plan.subtasks.push({
+        id: subtaskIds.get(s.id)!,
+        workspace_id,
+        task_id: id,
+        title: s.title,
+        status: s.status,
+        assignee_agent_id: agentId(s.assignee_agent),
+        definition_of_done: s.definition_of_done,
+        result_summary: s.result_summary,
+        due_date: s.due_date,
+        created_at: s.created_at,
+      })
+    }
+
+    for (const c of t.comments) {
+      plan.comments.push({
+        id: keep(commentsTaken, c.id),
+        workspace_id,
+        task_id: id,
+        subtask_id: (c.subtask_id && subtaskIds.get(c.subtask_id)) || null,
+        author_type: c.author_type,
+        author_agent_id: agentId(c.author_agent),
+        body: c.body,
+        created_at: c.created_at,
+      })
+    }
+
+    for (const l of t.links) {
+      const target =
+        taskIds.get(l.target_task_id) ??
+        (onBoard.has(l.target_task_id) ? l.target_task_id : undefined)
+      const key = `${id}:${target}:${l.kind}`
+      if (!target || target === id || linkKeys.has(key)) {
+        plan.preview.droppedLinks++
+        continue
+      }
+      if (l.kind === 'blocked_by') {
+        if (findPath(edges, target, id)) {
+          plan.preview.droppedLinks++
+          continue
+        }
+        edges.push({ task_id: id, target_task_id: target })
+      }
+      linkKeys.add(key)
+      plan.links.push({
+        workspace_id,
+        task_id: id,
+        target_task_id: target,
+        kind: l.kind,
+      })
+    }
+  }
+
+  plan.preview.subtasks = plan.subtasks.length
+  plan.preview.comments = plan.comments.length
+  plan.preview.links = plan.links.length
+  plan.preview.unknownAgents = [...unknownAgents].sort()
+  return plan
+}
+
+// Inserts the plan under its owner. There's no transaction across
+// requests, so a failure deletes the tasks inserted so far (subtasks,
+// comments and links go with them) before re-throwing. No events,
+// mentions or webhooks: it's a restore, not new activity.
+export async function applyImport(
+  supabase: TypedSupabaseClient,
+  plan: ImportPlan
+): Promise<ImportPreview> {
+  const inserted: string[] = []
+  try {
+    for (const batch of chunks(plan.tasks)) {
+      const { error } = await supabase.from('tasks').insert(batch)
+      if (error) throw new Error(error.message)
+      inserted.push(...batch.map((t) => t.id!))
+    }
+    for (const batch of chunks(plan.subtasks)) {
+      const { error } = await supabase.from('subtasks').insert(batch)
+      if (error) throw new Error(error.message)
+    }
+    for (const batch of chunks(plan.comments)) {
+      const { error } = await supabase.from('comments').insert(batch)
+      if (error) throw new Error(error.message)
+    }
+    for (const batch of chunks(plan.links)) {
+      const { error } = await supabase.from('task_links').insert(batch)
+      if (error) throw new Error(error.message)
+    }
+  } catch (err) {
+    for (const batch of chunks(inserted)) {
+      await supabase.from('tasks').delete().in('id', batch)
+    }
+    throw err
+  }
+  return { ...plan.preview, imported: true }
+}
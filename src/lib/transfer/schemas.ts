@@ -0,0 +1,142 @@
+import { z } from 'zod'
+import { PRIORITIES, STATUSES } from '@/lib/status'
+import { Constants } from '@/lib/database.types'
+import type { MessageKey } from '@/lib/i18n'
+
+// The JSON export. Agents are referenced by name so a file can move
+// between accounts; everything else keeps its id so a restore keeps links
+// and URLs working.
+export const EXPORT_FORMAT = 'centro-de-mando'
+export const EXPORT_VERSION = 1
+
+export const MAX_IMPORT_TASKS = 2000
+// Within the 11 MB server action body limit (next.config.ts).
+export const MAX_IMPORT_BYTES = 10 * 1024 * 1024
+
+const text = (max = 20000) => z.string().max(max)
+const name = z.string().trim().min(1).max(80)
+const timestamp = z.iso.datetime({ offset: true })
+
+// Files from before workspaces name the single user `nico`.
+const LEGACY_VALUES: Record<string, string> = {
+  nico: 'human',
+  needs_nico: 'needs_human',
+}
+const legacy = (v: unknown) =>
+  typeof v === 'string' && Object.hasOwn(LEGACY_VALUES, v)
+    ? LEGACY_VALUES[v]
+    : v
+
+const status = z.preprocess(legacy, z.enum(STATUSES))
+
+export const exportSubtask = z.object({
+  id: z.uuid(),
+  title: text(200).trim().min(1),
+  status,
+  assignee_agent: name.nullable(),
+  definition_of_done: text(),
+  result_summary: text().nullable(),
+  due_date: z.iso.date().nullable(),
+  created_at: timestamp,
+})
+
+export const exportComment = z.object({
+  id: z.uuid(),
+  subtask_id: z.uuid().nullable(),
+  author_type: z.preprocess(
+    legacy,
+    z.enum(Constants.public.Enums.author_type)
+  ),
+  author_agent: name.nullable(),
+  body: text(),
+  created_at: timestamp,
+})
+
+export const exportLink = z.object({
+  kind: z.enum(Constants.public.Enums.task_link_kind),
+  target_task_id: z.uuid(),
+})
+
+export const exportTask = z.object({
+  id: z.uuid(),
+  title: text(200).trim().min(1),
+  description: text().nullable(),
+  status,
+  priority: z.enum(PRIORITIES),
+  position: z.number().finite(),
+  assigned_agent: name.nullable(),
+  blocked_from: status.nullable(),
+  due_date: z.iso.date().nullable(),
+  created_by: z.preprocess(legacy, z.string().trim().min(1).max(40)),
+  created_at: timestamp,
+  status_changed_at: timestamp,
+  subtasks: z.array(exportSubtask).max(200),
+  comments: z.array(exportComment).max(2000),
+  links: z.array(exportLink).max(200),
+})
+
+export const exportFile = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_VERSION),
+  exported_at: timestamp,
+  tasks: z.array(exportTask).max(MAX_IMPORT_TASKS),
+})
+
+export type ExportSubtask = z.infer<typeof exportSubtask>
+export type ExportComment = z.infer<typeof exportComment>
+export type ExportTask = z.infer<typeof exportTask>
+export type ExportFile = z.infer<typeof exportFile>
+
+// Messages are catalog keys, translated by readImport().
+const message = (key: MessageKey) => key
+
+// One CSV row, keyed by header. Only `title` is required, so a sheet from
+// another tracker imports once its columns are renamed.
+const cell = z.preprocess(
+  (v) => (typeof v === 'string' && v.trim() === '' ? undefined : v),
+  z.string().trim().optional()
+)
+
+export const csvTaskRow = z.object({
+  id: z.preprocess(
+    (v) => (v === '' ? undefined : v),
+    z.uuid(message('validation.invalidId')).optional()
+  ),
+  title: z
+    .string({ error: message('validation.required.title') })
+    .trim()
+    .min(1, message('validation.required.title'))
+    .max(200, message('validation.tooLong.title')),
+  description: cell,
+  status: cell
+    .transform(legacy)
+    .pipe(
+      z.enum(STATUSES, message('validation.invalidStatus')).default('inbox')
+    ),
+  priority: cell.pipe(
+    z
+      .enum(PRIORITIES, message('validation.invalidPriority'))
+      .default('medium')
+  ),
+  assigned_agent: cell,
+  due_date: cell.pipe(z.iso.date(message('validation.invalidDate')).optional()),
+  created_at: cell.pipe(timestamp.optional()),
+})
+
+export type CsvTaskRow = z.infer<typeof csvTaskRow>
+
+// Flat task list; the import reads the columns it knows and ignores the
+// computed ones.
+export const CSV_COLUMNS = [
+  'id',
+  'title',
+  'status',
+  'priority',
+  'assigned_agent',
+  'due_date',
+  'description',
+  'subtasks',
+  'subtasks_done',
+  'comments',
+  'created_at',
+] as const
@@ -0,0 +1,93 @@
+import type { Tables } from '@/lib/database.types'
+
+// Row shapes as selected by the app (see the *_COLUMNS constants in
+// src/lib/tasks.ts), derived from the generated database types.
+
+export type TaskRow = Pick<
+  Tables<'tasks'>,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'position'
+  | 'assigned_agent_id'
+  | 'blocked_from'
+  | 'due_date'
+  | 'status_changed_at'
+  | 'escalated_at'
+  | 'created_by'
+  | 'created_by_user_id'
+  | 'needs_user_id'
+  | 'workspace_id'
+  | 'created_at'
+  | 'updated_at'
+>
+
+export type SubtaskRow = Pick<
+  Tables<'subtasks'>,
+  | 'id'
+  | 'task_id'
+  | 'title'
+  | 'status'
+  | 'assignee_agent_id'
+  | 'definition_of_done'
+  | 'result_summary'
+  | 'due_date'
+  | 'created_at'
+  | 'updated_at'
+>
+
+export type CommentRow = Pick<
+  Tables<'comments'>,
+  | 'id'
+  | 'task_id'
+  | 'subtask_id'
+  | 'author_type'
+  | 'author_agent_id'
+  | 'author_user_id'
+  | 'body'
+  | 'created_at'
+>
+
+export type AgentRow = Pick<
+  Tables<'agents'>,
+  'id' | 'name' | 'role' | 'status' | 'is_active'
+>
+
+export type MentionRow = Pick<
+  Tables<'mentions'>,
+  | 'id'
+  | 'agent_id'
+  | 'task_id'
+  | 'subtask_id'
+  | 'comment_id'
+  | 'source'
+  | 'author_type'
+  | 'author_agent_id'
+  | 'author_user_id'
+  | 'excerpt'
+  | 'read_at'
+  | 'created_at'
+>
+
+export type AttachmentRow = Pick<
+  Tables<'attachments'>,
+  | 'id'
+  | 'task_id'
+  | 'subtask_id'
+  | 'comment_id'
+  | 'filename'
+  | 'content_type'
+  | 'size_bytes'
+  | 'storage_path'
+  | 'uploaded_by_type'
+  | 'uploaded_by_agent_id'
+  | 'uploaded_by_user_id'
+  | 'created_at'
+>
+
+export type TaskLinkRow = Pick<
+  Tables<'task_links'>,
+  'id' | 'task_id' | 'target_task_id' | 'kind' | 'created_at'
+>
@@ -0,0 +1,285 @@
+import { createHmac, randomBytes } from 'node:crypto'
+import { after } from 'next/server'
+import type { Enums, Json } from '@/lib/database.types'
+import type { Actor, TaskEventInput } from '@/lib/events'
+import type {
+  CommentRow,
+  MentionRow,
+  SubtaskRow,
+  TaskRow,
+} from '@/lib/types'
+import { createAdminSupabase } from '@/lib/supabase/admin'
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import { DEFAULT_LOCALE, MessageError, translator } from '@/lib/i18n'
+
+export type WebhookEvent = Enums<'webhook_event'>
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'task.created',
+  'task.status_changed',
+  'task.assigned',
+  'subtask.created',
+  'subtask.updated',
+  'comment.added',
+  'agent.mentioned',
+]
+
+export const SIGNATURE_HEADER = 'X-Centro-Signature'
+
+// Wait before retry n (after n failed attempts). Once these run out the
+// delivery is marked failed; it can still be redelivered by hand.
+const BACKOFF_MS = [
+  60_000,
+  5 * 60_000,
+  30 * 60_000,
+  2 * 60 * 60_000,
+  12 * 60 * 60_000,
+]
+export const MAX_ATTEMPTS = BACKOFF_MS.length + 1
+
+const TIMEOUT_MS = 10_000
+
+export type WebhookEmit = {
+  event: WebhookEvent
+  data: { [key: string]: Json | undefined }
+}
+
+export function generateWebhookSecret() {
+  return `whsec_${randomBytes(24).toString('base64url')}`
+}
+
+// `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Signing the
+// timestamp lets receivers reject replays.
+export function signPayload(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+) {
+  const v1 = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex')
+  return `t=${timestamp},v1=${v1}`
+}
+
+export const taskCreated = (task: TaskRow): WebhookEmit => ({
+  event: 'task.created',
+  data: { task },
+})
+
+export const subtaskCreated = (subtask: SubtaskRow): WebhookEmit => ({
+  event: 'subtask.created',
+  data: { subtask },
+})
+
+export const commentAdded = (comment: CommentRow): WebhookEmit => ({
+  event: 'comment.added',
+  data: { comment },
+})
+
+export const agentMentioned = (mention: MentionRow): WebhookEmit => ({
+  event: 'agent.mentioned',
+  data: { mention },
+})
+
+// Webhook events for recorded activity changes; unchanged fields are
+// skipped the same way recordEvents skips them. Creations are emitted
+// with the full row instead (taskCreated, subtaskCreated, commentAdded).
+export function eventWebhooks(
+  actor: Actor,
+  events: TaskEventInput[]
+): WebhookEmit[] {
+  const by = {
+    type: actor.type,
+    agent_id: actor.type === 'agent' ? actor.agent_id : null,
+    user_id: actor.type === 'human' ? actor.user_id : null,
+  }
+
+  return events.flatMap((e): WebhookEmit[] => {
+    if (e.before === e.after) return []
+
+    const change = {
+      task_id: e.task_id,
+      subtask_id: e.subtask_id ?? null,
+      field: e.kind,
+      before: e.before ?? null,
+      after: e.after ?? null,
+      actor: by,
+    }
+
+    switch (e.kind) {
+      case 'task_status':
+        return [{ event: 'task.status_changed', data: change }]
+      case 'task_assignee':
+        return [{ event: 'task.assigned', data: change }]
+      case 'subtask_status':
+      case 'subtask_assignee':
+      case 'subtask_result':
+      case 'subtask_due_date':
+        return [{ event: 'subtask.updated', data: change }]
+      case 'task_priority':
+      case 'task_due_date':
+      case 'subtask_created':
+        return []
+    }
+  })
+}
+
+// Queues one delivery per active webhook subscribed to each event and
+// attempts them once the response has been sent. Never throws: a webhook
+// problem must not fail the mutation that triggered it.
+export async function emitWebhooks(workspace_id: string, emits: WebhookEmit[]) {
+  if (emits.length === 0) return
+
+  try {
+    const supabase = createAdminSupabase()
+    const { data: hooks, error } = await supabase
+      .from('webhooks')
+      .select('id,events')
+      .eq('workspace_id', workspace_id)
+      .eq('is_active', true)
+    if (error) throw new Error(error.message)
+
+    const created_at = new Date().toISOString()
+    const rows = emits.flatMap(({ event, data }) =>
+      hooks
+        .filter((h) => h.events.includes(event))
+        .map((h) => ({
+          workspace_id,
+          webhook_id: h.id,
+          event,
+          payload: { event, created_at, data },
+        }))
+    )
+    if (rows.length === 0) return
+
+    const { data: deliveries, error: insertErr } = await supabase
+      .from('webhook_deliveries')
+      .insert(rows)
+      .select('id')
+    if (insertErr) throw new Error(insertErr.message)
+
+    after(() => deliverAll(deliveries.map((d) => d.id)))
+  } catch (err) {
+    console.error('webhooks: could not queue deliveries', err)
+  }
+}
+
+// Queues a fresh copy of a past delivery (same payload, new id).
+export async function redeliverWebhook(
+  supabase: TypedSupabaseClient,
+  deliveryId: string
+) {
+  const { data: original, error } = await supabase
+    .from('webhook_deliveries')
+    .select('workspace_id,webhook_id,event,payload')
+    .eq('id', deliveryId)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  if (!original) throw new MessageError('errors.deliveryNotFound')
+
+  const { data: delivery, error: insertErr } = await supabase
+    .from('webhook_deliveries')
+    .insert(original)
+    .select('id')
+    .single()
+  if (insertErr) throw new Error(insertErr.message)
+
+  after(() => deliverWebhook(delivery.id))
+}
+
+async function deliverAll(ids: string[]) {
+  for (const id of ids) {
+    await deliverWebhook(id).catch((err) =>
+      console.error(`webhooks: delivery ${id} crashed`, err)
+    )
+  }
+}
+
+// Makes one attempt at a pending delivery that is due. The row is leased
+// first so the immediate attempt and the retry job never both send it.
+export async function deliverWebhook(id: string) {
+  const supabase = createAdminSupabase()
+  const now = Date.now()
+
+  const { data: claimed, error: claimErr } = await supabase
+    .from('webhook_deliveries')
+    .update({ next_attempt_at: new Date(now + 2 * TIMEOUT_MS).toISOString() })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date(now).toISOString())
+    .select('id,event,payload,attempts,webhooks(url,secret,is_active)')
+    .maybeSingle()
+  if (claimErr) throw new Error(claimErr.message)
+  if (!claimed) return
+
+  const hook = claimed.webhooks
+  const attempts = claimed.attempts + 1
+  let statusCode: number | null = null
+  let failure: string | null = null
+
+  if (!hook?.is_active) {
+    // Delivered for no member in particular: stored in the default language.
+    failure = translator(DEFAULT_LOCALE)('webhooks.disabled')
+  } else {
+    const body = JSON.stringify(claimed.payload)
+    try {
+      const res = await fetch(hook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'centro-de-mando-webhooks',
+          'X-Centro-Event': claimed.event,
+          'X-Centro-Delivery': claimed.id,
+          [SIGNATURE_HEADER]: signPayload(hook.secret, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      })
+      statusCode = res.status
+      if (!res.ok) failure = `HTTP ${res.status}`
+    } catch (err) {
+      failure = err instanceof Error ? err.message : String(err)
+    }
+  }
+
+  const done = new Date().toISOString()
+  const patch =
+    failure === null
+      ? {
+          status: 'succeeded' as const,
+          delivered_at: done,
+          last_error: null,
+        }
+      : attempts >= MAX_ATTEMPTS || !hook?.is_active
+        ? { status: 'failed' as const, last_error: failure }
+        : {
+            next_attempt_at: new Date(
+              Date.now() + BACKOFF_MS[attempts - 1]
+            ).toISOString(),
+            last_error: failure,
+          }
+
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({ ...patch, attempts, last_status_code: statusCode })
+    .eq('id', id)
+  if (error) throw new Error(error.message)
+}
+
+// Retries every delivery whose backoff has elapsed. Run from the cron
+// route; returns how many were attempted.
+export async function deliverDueWebhooks(limit = 100) {
+  const supabase = createAdminSupabase()
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('id')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit)
+  if (error) throw new Error(error.message)
+
+  await deliverAll(data.map((d) => d.id))
+  return data.length
+}
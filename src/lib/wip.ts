@@ -0,0 +1,58 @@
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import type { Status } from '@/lib/status'
+import type { Translate } from '@/lib/i18n'
+
+export type WipMode = 'warn' | 'block'
+
+export type WipLimit = {
+  status: Status
+  max_tasks: number
+  mode: WipMode
+}
+
+export const WIP_MODES: WipMode[] = ['warn', 'block']
+
+export async function fetchWipLimits(
+  supabase: TypedSupabaseClient
+): Promise<WipLimit[]> {
+  const { data, error } = await supabase
+    .from('wip_limits')
+    .select('status,max_tasks,mode')
+
+  if (error) throw new Error(error.message)
+  return data
+}
+
+// Checks whether moving `taskId` into `status` would exceed the column's
+// WIP limit. `block` limits return an error, `warn` limits a warning.
+export async function checkWipLimit(
+  supabase: TypedSupabaseClient,
+  status: Status,
+  taskId: string,
+  t: Translate
+): Promise<{ error?: string; warning?: string }> {
+  const { data: limit, error } = await supabase
+    .from('wip_limits')
+    .select('status,max_tasks,mode')
+    .eq('status', status)
+    .maybeSingle()
+
+  if (error) return { error: error.message }
+  if (!limit) return {}
+
+  const { count, error: countErr } = await supabase
+    .from('tasks')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', status)
+    .neq('id', taskId)
+
+  if (countErr) return { error: countErr.message }
+  if ((count ?? 0) < limit.max_tasks) return {}
+
+  const message = t('workflow.wipExceeded', {
+    status: t(`status.${status}`),
+    max: limit.max_tasks,
+    count: count ?? 0,
+  })
+  return limit.mode === 'block' ? { error: message } : { warning: message }
+}
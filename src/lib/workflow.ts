@@ -0,0 +1,72 @@
+import { CLOSED_STATUSES, STATUSES, type Status } from '@/lib/status'
+import type { Translate } from '@/lib/i18n'
+
+// Legal next states for tasks and subtasks. `done` is only reachable from
+// `review`; closed items can only be reopened.
+const TRANSITIONS: Record<Status, Status[]> = {
+  inbox: ['triage', 'in_progress', 'canceled'],
+  triage: ['inbox', 'in_progress', 'blocked', 'needs_human', 'canceled'],
+  in_progress: ['triage', 'blocked', 'review', 'needs_human', 'canceled'],
+  blocked: ['triage', 'in_progress', 'needs_human', 'canceled'],
+  review: ['in_progress', 'blocked', 'needs_human', 'done', 'canceled'],
+  needs_human: ['triage', 'in_progress', 'blocked', 'review', 'canceled'],
+  done: ['in_progress'],
+  canceled: ['inbox'],
+}
+
+export type TransitionContext = {
+  // Open (not done/canceled) subtasks of the task being moved. Only
+  // relevant for tasks; leave undefined for subtasks.
+  openSubtasks?: number
+  // Required when moving to `blocked`; recorded as a comment.
+  reason?: string
+}
+
+export function isStatus(value: unknown): value is Status {
+  return STATUSES.includes(value as Status)
+}
+
+export function isClosed(status: Status) {
+  return CLOSED_STATUSES.includes(status)
+}
+
+// Statuses offered in the UI: the current one plus its legal next states.
+export function nextStatuses(
+  from: Status,
+  { openSubtasks = 0 }: TransitionContext = {}
+): Status[] {
+  return [
+    from,
+    ...TRANSITIONS[from].filter((to) => !(to === 'done' && openSubtasks > 0)),
+  ]
+}
+
+// Statuses from which `to` can be reached directly.
+export function statusesLeadingTo(to: Status): Status[] {
+  return STATUSES.filter((from) => TRANSITIONS[from].includes(to))
+}
+
+// Returns why `from -> to` is not allowed, or null if it is. Staying in
+// the same status is always allowed.
+export function transitionError(
+  from: Status,
+  to: Status,
+  { openSubtasks = 0, reason }: TransitionContext,
+  t: Translate
+): string | null {
+  if (from === to) return null
+
+  if (!TRANSITIONS[from].includes(to)) {
+    return t('workflow.cannotMove', {
+      from: t(`status.${from}`),
+      to: t(`status.${to}`),
+    })
+  }
+  if (to === 'done' && openSubtasks > 0) {
+    return t('workflow.openSubtasks', { count: openSubtasks })
+  }
+  if (to === 'blocked' && !reason?.trim()) {
+    return t('workflow.reasonRequired')
+  }
+  return null
+}
@@ -0,0 +1,257 @@
+import type { TypedSupabaseClient } from '@/lib/supabase/types'
+import { escapeLike } from '@/lib/filters'
+import type { Enums } from '@/lib/database.types'
+import type { ActionResult } from '@/lib/actions'
+import type { Actor } from '@/lib/events'
+import { MessageError, type Translate } from '@/lib/i18n'
+
+export type WorkspaceRole = Enums<'workspace_role'>
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer']
+
+// Owners also manage members and settings; viewers only read.
+const RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 }
+
+// The signed-in user and the workspace the app is showing them. RLS scopes
+// every query to that workspace (public.current_workspace_id()).
+export type Session = {
+  user_id: string
+  email: string
+  display_name: string
+  workspace_id: string
+  workspace_name: string
+  role: WorkspaceRole
+}
+
+export type Member = {
+  user_id: string
+  email: string
+  display_name: string
+  role: WorkspaceRole
+}
+
+export type Membership = {
+  workspace_id: string
+  name: string
+  role: WorkspaceRole
+}
+
+export const hasRole = (session: Session, role: WorkspaceRole) =>
+  RANK[session.role] >= RANK[role]
+
+// Why an action was refused for lack of `role`. RLS would refuse the
+// write anyway; this says why.
+export const roleMessage = (role: WorkspaceRole, t: Translate) =>
+  t(role === 'owner' ? 'roles.ownersOnly' : 'roles.readOnly')
+
+export function roleError(
+  role: WorkspaceRole,
+  t: Translate
+): ActionResult<never> {
+  return { ok: false, error: roleMessage(role, t) }
+}
+
+export const humanActor = (session: Session): Actor => ({
+  type: 'human',
+  user_id: session.user_id,
+})
+
+export async function listMemberships(
+  supabase: TypedSupabaseClient,
+  user_id: string
+): Promise<Membership[]> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('workspace_id,role,workspaces(name)')
+    .eq('user_id', user_id)
+    .order('created_at', { ascending: true })
+  if (error) throw new Error(error.message)
+  return data.map((m) => ({
+    workspace_id: m.workspace_id,
+    name: m.workspaces?.name ?? m.workspace_id,
+    role: m.role,
+  }))
+}
+
+// Null when signed out. A user whose current workspace is gone (or who was
+// removed from it) is moved to their oldest one, and someone left with no
+// workspace at all gets a new one.
+export async function getSession(
+  supabase: TypedSupabaseClient
+): Promise<Session | null> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const [{ data: profile, error }, memberships] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('email,display_name,current_workspace_id')
+      .eq('user_id', user.id)
+      .maybeSingle(),
+    listMemberships(supabase, user.id),
+  ])
+  if (error) throw new Error(error.message)
+
+  const email = profile?.email || user.email || ''
+  const display_name = profile?.display_name ?? email.split('@')[0]
+  let current =
+    memberships.find((m) => m.workspace_id === profile?.current_workspace_id) ??
+    memberships[0]
+
+  if (!current) {
+    const { data: id, error: createErr } = await supabase.rpc(
+      'create_workspace',
+      { name: display_name || 'Workspace' }
+    )
+    if (createErr) throw new Error(createErr.message)
+    current = { workspace_id: id, name: display_name, role: 'owner' }
+  } else if (current.workspace_id !== profile?.current_workspace_id) {
+    await switchWorkspace(supabase, user.id, current.workspace_id)
+  }
+
+  return {
+    user_id: user.id,
+    email,
+    display_name,
+    workspace_id: current.workspace_id,
+    workspace_name: current.name,
+    role: current.role,
+  }
+}
+
+export async function switchWorkspace(
+  supabase: TypedSupabaseClient,
+  user_id: string,
+  workspace_id: string
+) {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ current_workspace_id: workspace_id })
+    .eq('user_id', user_id)
+  if (error) throw new Error(error.message)
+}
+
+export async function isMember(
+  supabase: TypedSupabaseClient,
+  workspace_id: string,
+  user_id: string
+) {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('user_id')
+    .eq('workspace_id', workspace_id)
+    .eq('user_id', user_id)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  return !!data
+}
+
+// Members of the current workspace, owners first.
+export async function listMembers(
+  supabase: TypedSupabaseClient,
+  workspace_id: string
+): Promise<Member[]> {
+  const { data: members, error } = await supabase
+    .from('workspace_members')
+    .select('user_id,role')
+    .eq('workspace_id', workspace_id)
+  if (error) throw new Error(error.message)
+  if (members.length === 0) return []
+
+  const { data: profiles, error: profilesErr } = await supabase
+    .from('profiles')
+    .select('user_id,email,display_name')
+    .in(
+      'user_id',
+      members.map((m) => m.user_id)
+    )
+  if (profilesErr) throw new Error(profilesErr.message)
+
+  const byId = new Map(profiles.map((p) => [p.user_id, p]))
+  return members
+    .map((m) => ({
+      user_id: m.user_id,
+      email: byId.get(m.user_id)?.email ?? '',
+      display_name: byId.get(m.user_id)?.display_name ?? 'usuario',
+      role: m.role,
+    }))
+    .sort(
+      (a, b) =>
+        RANK[b.role] - RANK[a.role] ||
+        a.display_name.localeCompare(b.display_name)
+    )
+}
+
+export type Invite = {
+  id: string
+  email: string
+  role: WorkspaceRole
+  created_at: string
+}
+
+// Pending invites to `workspace_id`, for its owners.
+export async function listInvites(
+  supabase: TypedSupabaseClient,
+  workspace_id: string
+): Promise<Invite[]> {
+  const { data, error } = await supabase
+    .from('workspace_invites')
+    .select('id,email,role,created_at')
+    .eq('workspace_id', workspace_id)
+    .order('created_at', { ascending: true })
+  if (error) throw new Error(error.message)
+  return data
+}
+
+export type ReceivedInvite = {
+  id: string
+  workspace_name: string
+  role: WorkspaceRole
+  created_at: string
+}
+
+// Invites waiting for the signed-in user to accept or decline them.
+export async function listReceivedInvites(
+  supabase: TypedSupabaseClient,
+  email: string
+): Promise<ReceivedInvite[]> {
+  const { data, error } = await supabase
+    .from('workspace_invites')
+    .select('id,workspace_id,role,created_at,workspaces(name)')
+    .eq('email', email.toLowerCase())
+    .order('created_at', { ascending: true })
+  if (error) throw new Error(error.message)
+  return data.map((i) => ({
+    id: i.id,
+    workspace_name: i.workspaces?.name ?? i.workspace_id,
+    role: i.role,
+    created_at: i.created_at,
+  }))
+}
+
+// Everyone gets a pending invite, accepted from /workspace
+// (accept_invite()), whether they have an account yet or not. Only
+// teammates' profiles are visible, so a matching one is already a member.
+export async function inviteMember(
+  supabase: TypedSupabaseClient,
+  workspace_id: string,
+  invited_by: string,
+  { email, role }: { email: string; role: WorkspaceRole }
+) {
+  const { data: member, error: lookupErr } = await supabase
+    .from('profiles')
+    .select('user_id')
+    .ilike('email', escapeLike(email))
+    .limit(1)
+    .maybeSingle()
+  if (lookupErr) throw new Error(lookupErr.message)
+  if (member) throw new MessageError('errors.alreadyMember')
+
+  const { error } = await supabase
+    .from('workspace_invites')
+    .insert({ workspace_id, email, role, invited_by })
+  if (error?.code === '23505') throw new MessageError('errors.alreadyInvited')
+  if (error) throw new Error(error.message)
+}
@@ -0,0 +1,195 @@
+-- Centro de Mando schema. Every row belongs to the auth user in owner_id;
+-- see the RLS migration for the policies that enforce it.
+
+-- Enums ---------------------------------------------------------------------
+
+create type public.task_status as enum (
+  'inbox',
+  'triage',
+  'in_progress',
+  'blocked',
+  'review',
+  'needs_nico',
+  'done',
+  'canceled'
+);
+
+create type public.task_priority as enum ('low', 'medium', 'high', 'urgent');
+
+create type public.author_type as enum ('nico', 'agent', 'system');
+
+create type public.task_event_kind as enum (
+  'task_status',
+  'task_assignee',
+  'task_priority',
+  'subtask_created',
+  'subtask_status',
+  'subtask_assignee',
+  'subtask_result'
+);
+
+create type public.wip_mode as enum ('warn', 'block');
+
+-- updated_at ----------------------------------------------------------------
+
+create function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+-- Agents --------------------------------------------------------------------
+
+create table public.agents (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  role text not null,
+  status text not null default 'idle',
+  is_active boolean not null default true,
+  last_heartbeat_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index agents_owner_id_idx on public.agents (owner_id);
+
+create trigger agents_set_updated_at
+  before update on public.agents
+  for each row execute function public.set_updated_at();
+
+-- Only the SHA-256 of a key is stored; the key itself is shown once.
+create table public.agent_api_keys (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  agent_id uuid not null references public.agents (id) on delete cascade,
+  label text,
+  key_hash text not null unique,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index agent_api_keys_agent_id_idx on public.agent_api_keys (agent_id);
+
+-- Tasks ---------------------------------------------------------------------
+
+create table public.tasks (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  title text not null check (length(trim(title)) > 0),
+  description text,
+  status public.task_status not null default 'inbox',
+  priority public.task_priority not null default 'medium',
+  -- Fractional rank within a column (see positionBetween in src/lib/tasks.ts).
+  position double precision not null default 0,
+  assigned_agent_id uuid references public.agents (id) on delete set null,
+  created_by text not null default 'nico',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index tasks_owner_status_position_idx
+  on public.tasks (owner_id, status, position);
+create index tasks_assigned_agent_id_idx on public.tasks (assigned_agent_id);
+
+create trigger tasks_set_updated_at
+  before update on public.tasks
+  for each row execute function public.set_updated_at();
+
+create table public.subtasks (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  title text not null check (length(trim(title)) > 0),
+  definition_of_done text not null,
+  status public.task_status not null default 'in_progress',
+  assignee_agent_id uuid references public.agents (id) on delete set null,
+  result_summary text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index subtasks_task_id_idx on public.subtasks (task_id, created_at);
+create index subtasks_assignee_agent_id_idx on public.subtasks (assignee_agent_id);
+
+create trigger subtasks_set_updated_at
+  before update on public.subtasks
+  for each row execute function public.set_updated_at();
+
+create table public.comments (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  subtask_id uuid references public.subtasks (id) on delete cascade,
+  author_type public.author_type not null default 'nico',
+  author_agent_id uuid references public.agents (id) on delete set null,
+  body text not null,
+  created_at timestamptz not null default now()
+);
+
+create index comments_task_id_idx on public.comments (task_id, created_at);
+
+create table public.task_events (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  subtask_id uuid references public.subtasks (id) on delete cascade,
+  kind public.task_event_kind not null,
+  before text,
+  after text,
+  actor_type public.author_type not null,
+  actor_agent_id uuid references public.agents (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index task_events_task_id_idx on public.task_events (task_id, created_at);
+
+-- Board configuration -------------------------------------------------------
+
+create table public.wip_limits (
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  status public.task_status not null,
+  max_tasks integer not null check (max_tasks >= 1),
+  mode public.wip_mode not null default 'warn',
+  primary key (owner_id, status)
+);
+
+create table public.board_views (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  query text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index board_views_owner_id_idx on public.board_views (owner_id);
+
+-- Standups ------------------------------------------------------------------
+
+create table public.standups (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  day date not null,
+  data jsonb not null,
+  markdown text not null,
+  generated_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  unique (owner_id, day)
+);
+
+-- Realtime ------------------------------------------------------------------
+
+-- The board and task pages subscribe to these tables (src/lib/realtime.ts).
+-- Full replica identity so updates and deletes carry the filter columns.
+alter table public.tasks replica identity full;
+alter table public.subtasks replica identity full;
+alter table public.comments replica identity full;
+alter table public.task_events replica identity full;
+
+alter publication supabase_realtime
+  add table public.tasks, public.subtasks, public.comments, public.task_events;
@@ -0,0 +1,54 @@
+-- Row-level security: a signed-in user only sees and writes their own rows.
+-- The agent API uses the service-role key, which bypasses RLS, and scopes
+-- its queries by the key's owner_id instead (src/lib/agents/auth.ts).
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'agents',
+    'agent_api_keys',
+    'tasks',
+    'subtasks',
+    'comments',
+    'task_events',
+    'wip_limits',
+    'board_views',
+    'standups'
+  ]
+  loop
+    execute format('alter table public.%I enable row level security', t);
+
+    execute format(
+      'create policy "owner can read" on public.%I
+         for select to authenticated
+         using (owner_id = (select auth.uid()))',
+      t
+    );
+    execute format(
+      'create policy "owner can insert" on public.%I
+         for insert to authenticated
+         with check (owner_id = (select auth.uid()))',
+      t
+    );
+    execute format(
+      'create policy "owner can update" on public.%I
+         for update to authenticated
+         using (owner_id = (select auth.uid()))
+         with check (owner_id = (select auth.uid()))',
+      t
+    );
+    execute format(
+      'create policy "owner can delete" on public.%I
+         for delete to authenticated
+         using (owner_id = (select auth.uid()))',
+      t
+    );
+  end loop;
+end;
+$$;
+
+-- Activity events are append-only history.
+drop policy "owner can update" on public.task_events;
+drop policy "owner can delete" on public.task_events;
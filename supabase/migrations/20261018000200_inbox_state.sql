@@ -0,0 +1,25 @@
+-- When each user last opened the Needs Nico inbox; anything newer is unread.
+
+create table public.inbox_state (
+  owner_id uuid primary key references auth.users (id) on delete cascade,
+  last_seen_at timestamptz not null default now()
+);
+
+alter table public.inbox_state enable row level security;
+
+create policy "owner can read" on public.inbox_state
+  for select to authenticated
+  using (owner_id = (select auth.uid()));
+create policy "owner can insert" on public.inbox_state
+  for insert to authenticated
+  with check (owner_id = (select auth.uid()));
+create policy "owner can update" on public.inbox_state
+  for update to authenticated
+  using (owner_id = (select auth.uid()))
+  with check (owner_id = (select auth.uid()));
+
+-- The inbox lists needs_nico items newest first.
+create index tasks_needs_nico_idx on public.tasks (owner_id, updated_at)
+  where status = 'needs_nico';
+create index subtasks_needs_nico_idx on public.subtasks (owner_id, updated_at)
+  where status = 'needs_nico';
@@ -0,0 +1,77 @@
+-- Outbound webhooks. Deliveries are queued rows: the app tries each once
+-- right away and /api/cron/webhooks retries the due ones with backoff.
+
+create type public.webhook_event as enum (
+  'task.created',
+  'task.status_changed',
+  'task.assigned',
+  'subtask.created',
+  'subtask.updated',
+  'comment.added'
+);
+
+create type public.webhook_delivery_status as enum (
+  'pending',
+  'succeeded',
+  'failed'
+);
+
+create table public.webhooks (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  url text not null check (url ~ '^https?://'),
+  -- HMAC-SHA256 key for the X-Centro-Signature header.
+  secret text not null,
+  events public.webhook_event[] not null check (cardinality(events) > 0),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index webhooks_owner_id_idx on public.webhooks (owner_id);
+
+create table public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  webhook_id uuid not null references public.webhooks (id) on delete cascade,
+  event public.webhook_event not null,
+  payload jsonb not null,
+  status public.webhook_delivery_status not null default 'pending',
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_status_code integer,
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index webhook_deliveries_webhook_id_idx
+  on public.webhook_deliveries (webhook_id, created_at desc);
+create index webhook_deliveries_due_idx
+  on public.webhook_deliveries (next_attempt_at)
+  where status = 'pending';
+
+alter table public.webhooks enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+create policy "owner can read" on public.webhooks
+  for select to authenticated
+  using (owner_id = (select auth.uid()));
+create policy "owner can insert" on public.webhooks
+  for insert to authenticated
+  with check (owner_id = (select auth.uid()));
+create policy "owner can update" on public.webhooks
+  for update to authenticated
+  using (owner_id = (select auth.uid()))
+  with check (owner_id = (select auth.uid()));
+create policy "owner can delete" on public.webhooks
+  for delete to authenticated
+  using (owner_id = (select auth.uid()));
+
+-- Deliveries are written by the service role; users only read them and
+-- queue redeliveries.
+create policy "owner can read" on public.webhook_deliveries
+  for select to authenticated
+  using (owner_id = (select auth.uid()));
+create policy "owner can insert" on public.webhook_deliveries
+  for insert to authenticated
+  with check (owner_id = (select auth.uid()));
@@ -0,0 +1,39 @@
+-- Inbound ingestion: external systems create inbox tasks through
+-- POST /api/ingest with an integration key.
+
+-- Only the SHA-256 of a key is stored, as for agent_api_keys. `name`
+-- identifies the integration and becomes tasks.created_by.
+create table public.integration_keys (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (name ~ '^[a-z0-9][a-z0-9_-]{0,39}$' and name <> 'nico'),
+  key_hash text not null unique,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index integration_keys_owner_id_idx on public.integration_keys (owner_id);
+
+-- Set by the sender so retries return the task created the first time.
+-- Unique per source, so two integrations can't collide.
+alter table public.tasks add column idempotency_key text
+  check (length(idempotency_key) between 1 and 200);
+
+create unique index tasks_idempotency_key_idx
+  on public.tasks (owner_id, created_by, idempotency_key)
+  where idempotency_key is not null;
+
+alter table public.integration_keys enable row level security;
+
+-- Keys are revoked, never edited or deleted.
+create policy "owner can read" on public.integration_keys
+  for select to authenticated
+  using (owner_id = (select auth.uid()));
+create policy "owner can insert" on public.integration_keys
+  for insert to authenticated
+  with check (owner_id = (select auth.uid()));
+create policy "owner can update" on public.integration_keys
+  for update to authenticated
+  using (owner_id = (select auth.uid()))
+  with check (owner_id = (select auth.uid()));
@@ -0,0 +1,46 @@
+-- @AgentName mentions in descriptions, DoD, result summaries and comments.
+-- Each row notifies one agent; agents read them through
+-- /api/agents/mentions and the agent.mentioned webhook.
+
+create type public.mention_source as enum (
+  'description',
+  'definition_of_done',
+  'result_summary',
+  'comment'
+);
+
+alter type public.webhook_event add value 'agent.mentioned';
+
+create table public.mentions (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  agent_id uuid not null references public.agents (id) on delete cascade,
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  subtask_id uuid references public.subtasks (id) on delete cascade,
+  comment_id uuid references public.comments (id) on delete cascade,
+  source public.mention_source not null,
+  author_type public.author_type not null,
+  author_agent_id uuid references public.agents (id) on delete set null,
+  -- Text around the mention, so the notification reads on its own.
+  excerpt text not null,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index mentions_agent_unread_idx
+  on public.mentions (agent_id, created_at desc)
+  where read_at is null;
+create index mentions_task_id_idx on public.mentions (task_id);
+
+alter table public.mentions enable row level security;
+
+create policy "owner can read" on public.mentions
+  for select to authenticated
+  using (owner_id = (select auth.uid()));
+create policy "owner can insert" on public.mentions
+  for insert to authenticated
+  with check (owner_id = (select auth.uid()));
+create policy "owner can update" on public.mentions
+  for update to authenticated
+  using (owner_id = (select auth.uid()))
+  with check (owner_id = (select auth.uid()));
@@ -0,0 +1,61 @@
+-- File attachments on tasks, subtasks and comments. Files live in the
+-- private `attachments` Storage bucket under `<owner_id>/<task_id>/<id>/`;
+-- `attachments` rows hold the metadata. Deleting a row through the app
+-- removes the object too.
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('attachments', 'attachments', false, 10485760)
+on conflict (id) do update set file_size_limit = excluded.file_size_limit;
+
+-- The first path segment is the owner, so Storage access follows the same
+-- owner rule as the tables.
+create policy "owner can read attachments" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'attachments'
+    and (storage.foldername(name))[1] = (select auth.uid())::text
+  );
+create policy "owner can upload attachments" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'attachments'
+    and (storage.foldername(name))[1] = (select auth.uid())::text
+  );
+create policy "owner can delete attachments" on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'attachments'
+    and (storage.foldername(name))[1] = (select auth.uid())::text
+  );
+
+create table public.attachments (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  subtask_id uuid references public.subtasks (id) on delete cascade,
+  comment_id uuid references public.comments (id) on delete cascade,
+  storage_path text not null unique,
+  filename text not null check (length(filename) between 1 and 255),
+  content_type text not null,
+  size_bytes integer not null check (size_bytes between 1 and 10485760),
+  uploaded_by_type public.author_type not null,
+  uploaded_by_agent_id uuid references public.agents (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index attachments_task_id_idx on public.attachments (task_id, created_at);
+
+alter table public.attachments enable row level security;
+
+create policy "owner can read" on public.attachments
+  for select to authenticated
+  using (owner_id = (select auth.uid()));
+create policy "owner can insert" on public.attachments
+  for insert to authenticated
+  with check (owner_id = (select auth.uid()));
+create policy "owner can delete" on public.attachments
+  for delete to authenticated
+  using (owner_id = (select auth.uid()));
+
+alter table public.attachments replica identity full;
+alter publication supabase_realtime add table public.attachments;
@@ -0,0 +1,54 @@
+-- Task-to-task links. `blocked_by` links form a dependency graph (kept
+-- acyclic by the app); `relates_to` links are informational and stored
+-- once per pair.
+--
+-- A task moved to `blocked` because of its dependencies remembers where it
+-- came from in `blocked_from`, so it can go back there once every blocker
+-- is done. Leaving `blocked` any other way clears it.
+
+create type public.task_link_kind as enum ('blocked_by', 'relates_to');
+
+create table public.task_links (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  target_task_id uuid not null references public.tasks (id) on delete cascade,
+  kind public.task_link_kind not null,
+  created_at timestamptz not null default now(),
+  check (task_id <> target_task_id),
+  unique (task_id, target_task_id, kind)
+);
+
+create index task_links_target_task_id_idx on public.task_links (target_task_id);
+
+alter table public.task_links enable row level security;
+
+create policy "owner can read" on public.task_links
+  for select to authenticated
+  using (owner_id = (select auth.uid()));
+create policy "owner can insert" on public.task_links
+  for insert to authenticated
+  with check (owner_id = (select auth.uid()));
+create policy "owner can delete" on public.task_links
+  for delete to authenticated
+  using (owner_id = (select auth.uid()));
+
+alter table public.tasks
+  add column blocked_from public.task_status
+  check (blocked_from is null or status = 'blocked');
+
+create function public.clear_blocked_from()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status <> 'blocked' then
+    new.blocked_from = null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_clear_blocked_from
+  before update of status on public.tasks
+  for each row execute function public.clear_blocked_from();
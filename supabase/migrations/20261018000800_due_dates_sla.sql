@@ -0,0 +1,72 @@
+-- Due dates on tasks and subtasks, plus per-priority limits on how long a
+-- task may sit in triage, review or needs_nico. The escalation job
+-- (/api/cron/sla) bumps the priority of tasks that break either and notes
+-- it in `tasks.escalated_at` so each breach escalates once.
+
+alter table public.tasks
+  add column due_date date,
+  add column status_changed_at timestamptz not null default now(),
+  add column escalated_at timestamptz;
+
+alter table public.subtasks add column due_date date;
+
+-- Existing tasks entered their status at their last recorded move, or at
+-- creation. Backfilling mustn't touch updated_at.
+alter table public.tasks disable trigger tasks_set_updated_at;
+update public.tasks t
+set status_changed_at = coalesce(
+  (
+    select max(e.created_at)
+    from public.task_events e
+    where e.task_id = t.id and e.kind = 'task_status'
+  ),
+  t.created_at
+);
+alter table public.tasks enable trigger tasks_set_updated_at;
+
+create function public.set_status_changed_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status then
+    new.status_changed_at = now();
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_set_status_changed_at
+  before update of status on public.tasks
+  for each row execute function public.set_status_changed_at();
+
+create index tasks_due_date_idx on public.tasks (due_date)
+  where due_date is not null;
+
+alter type public.task_event_kind add value 'task_due_date';
+alter type public.task_event_kind add value 'subtask_due_date';
+
+create table public.sla_rules (
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  status public.task_status not null
+    check (status in ('triage', 'review', 'needs_nico')),
+  priority public.task_priority not null,
+  max_hours integer not null check (max_hours >= 1),
+  primary key (owner_id, status, priority)
+);
+
+alter table public.sla_rules enable row level security;
+
+create policy "owner can read" on public.sla_rules
+  for select to authenticated
+  using (owner_id = (select auth.uid()));
+create policy "owner can insert" on public.sla_rules
+  for insert to authenticated
+  with check (owner_id = (select auth.uid()));
+create policy "owner can update" on public.sla_rules
+  for update to authenticated
+  using (owner_id = (select auth.uid()))
+  with check (owner_id = (select auth.uid()));
+create policy "owner can delete" on public.sla_rules
+  for delete to authenticated
+  using (owner_id = (select auth.uid()));
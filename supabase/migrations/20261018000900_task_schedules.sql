@@ -0,0 +1,82 @@
+-- Recurring (cron) and one-off scheduled tasks. The scheduler job
+-- (/api/cron/schedules) creates an inbox task for every active schedule
+-- whose `next_run_at` has passed and logs it in `schedule_runs`.
+
+create table public.task_schedules (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  title text not null check (length(trim(title)) > 0),
+  description text,
+  priority public.task_priority not null default 'medium',
+  assigned_agent_id uuid references public.agents (id) on delete set null,
+  -- [{ "title": ..., "definition_of_done": ... }]
+  subtasks jsonb not null default '[]' check (jsonb_typeof(subtasks) = 'array'),
+  -- Exactly one of: a five-field cron expression, or a single run time.
+  cron text,
+  run_at timestamptz,
+  timezone text not null default 'UTC',
+  is_active boolean not null default true,
+  next_run_at timestamptz,
+  last_run_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check ((cron is null) <> (run_at is null))
+);
+
+create index task_schedules_next_run_at_idx on public.task_schedules (next_run_at)
+  where is_active;
+
+create trigger task_schedules_set_updated_at
+  before update on public.task_schedules
+  for each row execute function public.set_updated_at();
+
+-- One row per occurrence; the unique key stops two job runs from creating
+-- the same task twice.
+create table public.schedule_runs (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  schedule_id uuid not null references public.task_schedules (id) on delete cascade,
+  scheduled_for timestamptz not null,
+  task_id uuid references public.tasks (id) on delete set null,
+  error text,
+  created_at timestamptz not null default now(),
+  unique (schedule_id, scheduled_for)
+);
+
+create index schedule_runs_owner_id_idx on public.schedule_runs (owner_id, created_at desc);
+
+alter table public.task_schedules enable row level security;
+alter table public.schedule_runs enable row level security;
+
+create policy "owner can read" on public.task_schedules
+  for select to authenticated
+  using (owner_id = (select auth.uid()));
+create policy "owner can insert" on public.task_schedules
+  for insert to authenticated
+  with check (owner_id = (select auth.uid()));
+create policy "owner can update" on public.task_schedules
+  for update to authenticated
+  using (owner_id = (select auth.uid()))
+  with check (owner_id = (select auth.uid()));
+create policy "owner can delete" on public.task_schedules
+  for delete to authenticated
+  using (owner_id = (select auth.uid()));
+
+create policy "owner can read" on public.schedule_runs
+  for select to authenticated
+  using (owner_id = (select auth.uid()));
+create policy "owner can insert" on public.schedule_runs
+  for insert to authenticated
+  with check (owner_id = (select auth.uid()));
+create policy "owner can update" on public.schedule_runs
+  for update to authenticated
+  using (owner_id = (select auth.uid()))
+  with check (owner_id = (select auth.uid()));
+
+-- Scheduled tasks are created_by 'schedule', so no integration may use
+-- that name.
+alter table public.integration_keys
+  drop constraint integration_keys_name_check;
+alter table public.integration_keys
+  add constraint integration_keys_name_check
+  check (name ~ '^[a-z0-9][a-z0-9_-]{0,39}$' and name not in ('nico', 'schedule'));
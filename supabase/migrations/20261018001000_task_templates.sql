@@ -0,0 +1,40 @@
+-- Reusable task templates: the task's title pattern, description, priority
+-- and agent, plus ordered subtasks with their Definition of Done.
+
+create table public.task_templates (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  -- `{title}` is replaced by the title typed on the board, `{date}` by
+  -- today's date.
+  title_pattern text not null check (length(trim(title_pattern)) > 0),
+  description text,
+  priority public.task_priority not null default 'medium',
+  assigned_agent_id uuid references public.agents (id) on delete set null,
+  -- [{ "title": ..., "definition_of_done": ..., "assignee_agent_id": ... }]
+  subtasks jsonb not null default '[]' check (jsonb_typeof(subtasks) = 'array'),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index task_templates_owner_id_idx on public.task_templates (owner_id);
+
+create trigger task_templates_set_updated_at
+  before update on public.task_templates
+  for each row execute function public.set_updated_at();
+
+alter table public.task_templates enable row level security;
+
+create policy "owner can read" on public.task_templates
+  for select to authenticated
+  using (owner_id = (select auth.uid()));
+create policy "owner can insert" on public.task_templates
+  for insert to authenticated
+  with check (owner_id = (select auth.uid()));
+create policy "owner can update" on public.task_templates
+  for update to authenticated
+  using (owner_id = (select auth.uid()))
+  with check (owner_id = (select auth.uid()));
+create policy "owner can delete" on public.task_templates
+  for delete to authenticated
+  using (owner_id = (select auth.uid()));
@@ -0,0 +1,545 @@
+-- Workspaces: rows belong to a workspace instead of a single user, and
+-- every member reads them, editing according to their role. Each existing
+-- user gets a workspace with the same id as the user, so the old owner_id
+-- values carry over as workspace_id unchanged.
+
+create type public.workspace_role as enum ('owner', 'editor', 'viewer');
+
+create table public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) between 1 and 80),
+  created_at timestamptz not null default now()
+);
+
+create table public.workspace_members (
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role public.workspace_role not null default 'editor',
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index workspace_members_user_id_idx on public.workspace_members (user_id);
+
+-- Who a user is to their teammates, and the workspace the app shows them.
+create table public.profiles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  display_name text not null check (length(trim(display_name)) between 1 and 80),
+  current_workspace_id uuid references public.workspaces (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- Invitations for emails without an account yet; claimed at sign-up.
+create table public.workspace_invites (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  email text not null check (email = lower(email)),
+  role public.workspace_role not null default 'editor' check (role <> 'owner'),
+  invited_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (workspace_id, email)
+);
+
+create index workspace_invites_email_idx on public.workspace_invites (email);
+
+insert into public.workspaces (id, name)
+select id, coalesce(nullif(split_part(email, '@', 1), ''), 'Workspace')
+from auth.users;
+
+insert into public.workspace_members (workspace_id, user_id, role)
+select id, id, 'owner' from auth.users;
+
+insert into public.profiles (user_id, email, display_name, current_workspace_id)
+select
+  id,
+  coalesce(email, ''),
+  coalesce(nullif(split_part(email, '@', 1), ''), 'usuario'),
+  id
+from auth.users;
+
+-- Membership helpers. Security definer so policies can call them without
+-- recursing into workspace_members' own policies.
+
+create function public.current_workspace_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select p.current_workspace_id
+  from public.profiles p
+  join public.workspace_members m
+    on m.workspace_id = p.current_workspace_id and m.user_id = p.user_id
+  where p.user_id = auth.uid()
+$$;
+
+create function public.current_workspace_role()
+returns public.workspace_role
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select m.role
+  from public.profiles p
+  join public.workspace_members m
+    on m.workspace_id = p.current_workspace_id and m.user_id = p.user_id
+  where p.user_id = auth.uid()
+$$;
+
+-- Creates a workspace owned by the caller and switches to it.
+create function public.create_workspace(name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  ws uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+  insert into public.workspaces (name) values (name) returning id into ws;
+  insert into public.workspace_members (workspace_id, user_id, role)
+  values (ws, auth.uid(), 'owner');
+  update public.profiles set current_workspace_id = ws
+  where user_id = auth.uid();
+  return ws;
+end;
+$$;
+
+revoke execute on function public.create_workspace(text) from anon;
+
+-- New accounts get a profile and join the workspaces they were invited
+-- to; without invites they get a personal workspace with their own id.
+create function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  display text := coalesce(nullif(split_part(new.email, '@', 1), ''), 'usuario');
+  current uuid;
+begin
+  insert into public.workspace_members (workspace_id, user_id, role)
+  select workspace_id, new.id, role
+  from public.workspace_invites
+  where email = lower(new.email);
+
+  select workspace_id into current
+  from public.workspace_invites
+  where email = lower(new.email)
+  order by created_at
+  limit 1;
+
+  delete from public.workspace_invites where email = lower(new.email);
+
+  if current is null then
+    insert into public.workspaces (id, name) values (new.id, display);
+    insert into public.workspace_members (workspace_id, user_id, role)
+    values (new.id, new.id, 'owner');
+    current := new.id;
+  end if;
+
+  insert into public.profiles (user_id, email, display_name, current_workspace_id)
+  values (new.id, coalesce(new.email, ''), display, current);
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- A workspace always keeps at least one owner.
+create function public.keep_workspace_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if old.role = 'owner'
+    and (tg_op = 'DELETE' or new.role <> 'owner')
+    and not exists (
+      select 1 from public.workspace_members
+      where workspace_id = old.workspace_id
+        and user_id <> old.user_id
+        and role = 'owner'
+    )
+    -- Deleting the workspace or the account cascades here.
+    and exists (select 1 from public.workspaces where id = old.workspace_id)
+    and exists (select 1 from auth.users where id = old.user_id)
+  then
+    raise exception 'A workspace needs at least one owner';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+create trigger workspace_members_keep_owner
+  before update of role or delete on public.workspace_members
+  for each row execute function public.keep_workspace_owner();
+
+-- owner_id → workspace_id ---------------------------------------------------
+
+-- The inbox read marker stays per user, now within each workspace.
+alter table public.inbox_state rename column owner_id to user_id;
+alter table public.inbox_state
+  add column workspace_id uuid references public.workspaces (id) on delete cascade;
+update public.inbox_state set workspace_id = user_id;
+alter table public.inbox_state
+  alter column workspace_id set not null,
+  drop constraint inbox_state_pkey,
+  add primary key (workspace_id, user_id);
+
+drop policy "owner can read" on public.inbox_state;
+drop policy "owner can insert" on public.inbox_state;
+drop policy "owner can update" on public.inbox_state;
+
+create policy "member can read own" on public.inbox_state
+  for select to authenticated
+  using (
+    user_id = (select auth.uid())
+    and workspace_id = (select public.current_workspace_id())
+  );
+create policy "member can insert own" on public.inbox_state
+  for insert to authenticated
+  with check (
+    user_id = (select auth.uid())
+    and workspace_id = (select public.current_workspace_id())
+  );
+create policy "member can update own" on public.inbox_state
+  for update to authenticated
+  using (
+    user_id = (select auth.uid())
+    and workspace_id = (select public.current_workspace_id())
+  )
+  with check (
+    user_id = (select auth.uid())
+    and workspace_id = (select public.current_workspace_id())
+  );
+
+-- Saved board views stay per user too, each within its workspace.
+alter table public.board_views rename column owner_id to user_id;
+alter table public.board_views
+  add column workspace_id uuid references public.workspaces (id) on delete cascade;
+update public.board_views set workspace_id = user_id;
+alter table public.board_views alter column workspace_id set not null;
+drop index public.board_views_owner_id_idx;
+create index board_views_workspace_id_user_id_idx
+  on public.board_views (workspace_id, user_id);
+
+drop policy "owner can read" on public.board_views;
+drop policy "owner can insert" on public.board_views;
+drop policy "owner can update" on public.board_views;
+drop policy "owner can delete" on public.board_views;
+
+create policy "member can read own" on public.board_views
+  for select to authenticated
+  using (
+    user_id = (select auth.uid())
+    and workspace_id = (select public.current_workspace_id())
+  );
+create policy "member can insert own" on public.board_views
+  for insert to authenticated
+  with check (
+    user_id = (select auth.uid())
+    and workspace_id = (select public.current_workspace_id())
+  );
+create policy "member can update own" on public.board_views
+  for update to authenticated
+  using (
+    user_id = (select auth.uid())
+    and workspace_id = (select public.current_workspace_id())
+  )
+  with check (
+    user_id = (select auth.uid())
+    and workspace_id = (select public.current_workspace_id())
+  );
+create policy "member can delete own" on public.board_views
+  for delete to authenticated
+  using (
+    user_id = (select auth.uid())
+    and workspace_id = (select public.current_workspace_id())
+  );
+
+-- Every other table: rename the column, point it at workspaces and
+-- recreate the policies it had. Members read; editors write, except for
+-- the settings tables, which only owners change.
+do $$
+declare
+  t text;
+  p record;
+  member text := 'workspace_id = (select public.current_workspace_id())';
+  writers text;
+begin
+  foreach t in array array[
+    'agents',
+    'agent_api_keys',
+    'tasks',
+    'subtasks',
+    'comments',
+    'task_events',
+    'wip_limits',
+    'standups',
+    'webhooks',
+    'webhook_deliveries',
+    'integration_keys',
+    'mentions',
+    'attachments',
+    'task_links',
+    'sla_rules',
+    'task_schedules',
+    'schedule_runs',
+    'task_templates'
+  ]
+  loop
+    execute format('alter table public.%I rename column owner_id to workspace_id', t);
+    execute format('alter table public.%I drop constraint %I', t, t || '_owner_id_fkey');
+    execute format(
+      'alter table public.%I add constraint %I foreign key (workspace_id)
+         references public.workspaces (id) on delete cascade',
+      t,
+      t || '_workspace_id_fkey'
+    );
+    execute format('alter index if exists public.%I rename to %I',
+      t || '_owner_id_idx', t || '_workspace_id_idx');
+
+    writers := case
+      when t in (
+        'agents', 'agent_api_keys', 'wip_limits', 'sla_rules',
+        'webhooks', 'webhook_deliveries', 'integration_keys'
+      ) then $r$array['owner']::public.workspace_role[]$r$
+      else $r$array['owner', 'editor']::public.workspace_role[]$r$
+    end;
+    writers := format('(select public.current_workspace_role()) = any (%s)', writers);
+
+    for p in
+      select policyname, cmd from pg_policies
+      where schemaname = 'public' and tablename = t
+    loop
+      execute format('drop policy %I on public.%I', p.policyname, t);
+      case p.cmd
+        when 'SELECT' then
+          execute format(
+            'create policy "member can read" on public.%I
+               for select to authenticated using (%s)',
+            t, member
+          );
+        when 'INSERT' then
+          execute format(
+            'create policy "writer can insert" on public.%I
+               for insert to authenticated with check (%s and %s)',
+            t, member, writers
+          );
+        when 'UPDATE' then
+          execute format(
+            'create policy "writer can update" on public.%I
+               for update to authenticated
+               using (%s and %s) with check (%s and %s)',
+            t, member, writers, member, writers
+          );
+        when 'DELETE' then
+          execute format(
+            'create policy "writer can delete" on public.%I
+               for delete to authenticated using (%s and %s)',
+            t, member, writers
+          );
+      end case;
+    end loop;
+  end loop;
+end;
+$$;
+
+-- Attachment objects live under `<workspace_id>/…` from now on; existing
+-- ones already sit under the old owner id, which is the workspace id.
+drop policy "owner can read attachments" on storage.objects;
+drop policy "owner can upload attachments" on storage.objects;
+drop policy "owner can delete attachments" on storage.objects;
+
+create policy "member can read attachments" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'attachments'
+    and (storage.foldername(name))[1] = (select public.current_workspace_id())::text
+  );
+create policy "editor can upload attachments" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'attachments'
+    and (storage.foldername(name))[1] = (select public.current_workspace_id())::text
+    and (select public.current_workspace_role()) in ('owner', 'editor')
+  );
+create policy "editor can delete attachments" on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'attachments'
+    and (storage.foldername(name))[1] = (select public.current_workspace_id())::text
+    and (select public.current_workspace_role()) in ('owner', 'editor')
+  );
+
+-- Workspace tables ----------------------------------------------------------
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.profiles enable row level security;
+alter table public.workspace_invites enable row level security;
+
+-- Members see every workspace they belong to, for the switcher.
+create policy "member can read" on public.workspaces
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.workspace_members m
+      where m.workspace_id = workspaces.id and m.user_id = (select auth.uid())
+    )
+  );
+create policy "owner can update" on public.workspaces
+  for update to authenticated
+  using (
+    id = (select public.current_workspace_id())
+    and (select public.current_workspace_role()) = 'owner'
+  )
+  with check (id = (select public.current_workspace_id()));
+create policy "owner can delete" on public.workspaces
+  for delete to authenticated
+  using (
+    id = (select public.current_workspace_id())
+    and (select public.current_workspace_role()) = 'owner'
+  );
+
+create policy "member can read" on public.workspace_members
+  for select to authenticated
+  using (
+    user_id = (select auth.uid())
+    or workspace_id = (select public.current_workspace_id())
+  );
+create policy "owner can insert" on public.workspace_members
+  for insert to authenticated
+  with check (
+    workspace_id = (select public.current_workspace_id())
+    and (select public.current_workspace_role()) = 'owner'
+  );
+create policy "owner can update" on public.workspace_members
+  for update to authenticated
+  using (
+    workspace_id = (select public.current_workspace_id())
+    and (select public.current_workspace_role()) = 'owner'
+  )
+  with check (workspace_id = (select public.current_workspace_id()));
+-- Owners remove members; anyone can leave.
+create policy "owner or self can delete" on public.workspace_members
+  for delete to authenticated
+  using (
+    user_id = (select auth.uid())
+    or (
+      workspace_id = (select public.current_workspace_id())
+      and (select public.current_workspace_role()) = 'owner'
+    )
+  );
+
+create policy "teammate can read" on public.profiles
+  for select to authenticated
+  using (
+    user_id = (select auth.uid())
+    or exists (
+      select 1 from public.workspace_members m
+      where m.user_id = profiles.user_id
+        and m.workspace_id = (select public.current_workspace_id())
+    )
+  );
+create policy "self can update" on public.profiles
+  for update to authenticated
+  using (user_id = (select auth.uid()))
+  with check (user_id = (select auth.uid()));
+
+create policy "owner can read" on public.workspace_invites
+  for select to authenticated
+  using (
+    workspace_id = (select public.current_workspace_id())
+    and (select public.current_workspace_role()) = 'owner'
+  );
+create policy "owner can insert" on public.workspace_invites
+  for insert to authenticated
+  with check (
+    workspace_id = (select public.current_workspace_id())
+    and (select public.current_workspace_role()) = 'owner'
+  );
+create policy "owner can delete" on public.workspace_invites
+  for delete to authenticated
+  using (
+    workspace_id = (select public.current_workspace_id())
+    and (select public.current_workspace_role()) = 'owner'
+  );
+
+-- Humans instead of Nico ----------------------------------------------------
+
+alter type public.task_status rename value 'needs_nico' to 'needs_human';
+alter type public.author_type rename value 'nico' to 'human';
+
+alter index public.tasks_needs_nico_idx rename to tasks_needs_human_idx;
+alter index public.subtasks_needs_nico_idx rename to subtasks_needs_human_idx;
+
+-- Which human did it. Null for agents and the system, and for rows from
+-- before workspaces that the backfill below can't attribute.
+alter table public.comments
+  add column author_user_id uuid references auth.users (id) on delete set null;
+alter table public.task_events
+  add column actor_user_id uuid references auth.users (id) on delete set null;
+alter table public.mentions
+  add column author_user_id uuid references auth.users (id) on delete set null;
+alter table public.attachments
+  add column uploaded_by_user_id uuid references auth.users (id) on delete set null;
+alter table public.tasks
+  add column created_by_user_id uuid references auth.users (id) on delete set null;
+
+-- A needs_human task can wait on one member in particular; leaving the
+-- status clears it, like blocked_from.
+alter table public.tasks
+  add column needs_user_id uuid references auth.users (id) on delete set null
+  check (needs_user_id is null or status = 'needs_human');
+
+create function public.clear_needs_user()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status <> 'needs_human' then
+    new.needs_user_id = null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_clear_needs_user
+  before update of status on public.tasks
+  for each row execute function public.clear_needs_user();
+
+-- Until now the only human was the workspace's single user.
+update public.comments set author_user_id = workspace_id
+where author_type = 'human';
+update public.task_events set actor_user_id = workspace_id
+where actor_type = 'human';
+update public.mentions set author_user_id = workspace_id
+where author_type = 'human';
+update public.attachments set uploaded_by_user_id = workspace_id
+where uploaded_by_type = 'human';
+
+alter table public.tasks disable trigger tasks_set_updated_at;
+update public.tasks
+set created_by = 'human', created_by_user_id = workspace_id
+where created_by = 'nico';
+alter table public.tasks enable trigger tasks_set_updated_at;
+
+alter table public.tasks alter column created_by set default 'human';
+
+alter table public.integration_keys
+  drop constraint integration_keys_name_check;
+alter table public.integration_keys
+  add constraint integration_keys_name_check
+  check (name ~ '^[a-z0-9][a-z0-9_-]{0,39}$' and name not in ('human', 'schedule'));
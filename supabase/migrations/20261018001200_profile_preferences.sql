@@ -0,0 +1,7 @@
+-- Per-member UI preferences. Null means "follow the browser": the
+-- Accept-Language header for the language and the zone it reports for
+-- dates.
+
+alter table public.profiles
+  add column locale text check (locale in ('es', 'en')),
+  add column time_zone text check (length(time_zone) between 1 and 64);
@@ -0,0 +1,5 @@
+-- Overdue subtasks escalate their task too. Like `tasks.escalated_at`,
+-- this records when, so each missed due date escalates once.
+
+alter table public.subtasks
+  add column escalated_at timestamptz;
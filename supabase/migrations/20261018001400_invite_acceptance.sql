@@ -0,0 +1,89 @@
+-- Invites are pending until the invited user accepts them, whether they
+-- already had an account or sign up later. Emails are matched ignoring
+-- case: invites are stored lowercased and compared with the lowercased
+-- address of the account.
+
+-- The signed-in user's email, for matching their invites. Security
+-- definer because auth.users isn't readable from policies.
+create function public.current_user_email()
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select lower(email) from auth.users where id = auth.uid()
+$$;
+
+-- New accounts always start in a personal workspace with their own id;
+-- invites wait for them on /workspace.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  display text := coalesce(nullif(split_part(new.email, '@', 1), ''), 'usuario');
+begin
+  insert into public.workspaces (id, name) values (new.id, display);
+  insert into public.workspace_members (workspace_id, user_id, role)
+  values (new.id, new.id, 'owner');
+
+  insert into public.profiles (user_id, email, display_name, current_workspace_id)
+  values (new.id, coalesce(new.email, ''), display, new.id);
+  return new;
+end;
+$$;
+
+-- Joins the workspace of one of the caller's invites with its role and
+-- switches to it. Someone who is already a member keeps their role.
+create function public.accept_invite(invite_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  invite public.workspace_invites;
+begin
+  select * into invite
+  from public.workspace_invites
+  where id = invite_id and lower(email) = public.current_user_email();
+
+  if not found then
+    raise exception 'Invite not found';
+  end if;
+
+  insert into public.workspace_members (workspace_id, user_id, role)
+  values (invite.workspace_id, auth.uid(), invite.role)
+  on conflict (workspace_id, user_id) do nothing;
+
+  delete from public.workspace_invites where id = invite.id;
+
+  update public.profiles set current_workspace_id = invite.workspace_id
+  where user_id = auth.uid();
+  return invite.workspace_id;
+end;
+$$;
+
+revoke execute on function public.accept_invite(uuid) from anon;
+
+-- The invited user sees their invites and the workspaces they're for, and
+-- declines by deleting them.
+create policy "invitee can read" on public.workspace_invites
+  for select to authenticated
+  using (lower(email) = (select public.current_user_email()));
+create policy "invitee can delete" on public.workspace_invites
+  for delete to authenticated
+  using (lower(email) = (select public.current_user_email()));
+
+create policy "invitee can read" on public.workspaces
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.workspace_invites i
+      where i.workspace_id = workspaces.id
+        and lower(i.email) = (select public.current_user_email())
+    )
+  );